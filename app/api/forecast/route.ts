@@ -1,7 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchOpenMeteoForecast } from '@/lib/api/weatherClient';
+import {
+  fetchCachedForecast,
+  getWeatherProvider,
+  summarizeWeatherSources,
+  validateWeatherProvider
+} from '@/lib/api/weatherProviders';
+import { createWeatherCacheInfo } from '@/lib/api/weatherCache';
+import { UpstreamError } from '@/lib/api/upstreamErrors';
 import { generateSolarForecast } from '@/lib/models/solarModel';
 import { generateWindForecast } from '@/lib/models/windModel';
+import { addSolarGeometry } from '@/lib/models/solarPosition';
+import { resolveAsset, validateAsset } from '@/lib/models/assetModel';
+import { generateHybridForecast, summarizeHybridOutputs } from '@/lib/models/hybridModel';
+import { simulateBattery, summarizeBattery } from '@/lib/models/batteryModel';
 import { Asset, Location, PowerForecast, ForecastAPIResponse } from '@/types';
 
 /**
@@ -9,10 +20,17 @@ import { Asset, Location, PowerForecast, ForecastAPIResponse } from '@/types';
  * 
  * Generate a 48-hour power forecast for a renewable energy asset
  * 
+ * The weather comes from a forecast provider only: if Open-Meteo fails, the
+ * request fails with its upstream error (NASA POWER has no forecast and
+ * serves historical ranges only). `weatherSources` counts the hours served
+ * by each provider.
+ * Weather responses are cached; `weatherCache` reports the hits and misses.
+ * 
  * Request body:
  * {
  *   location: { latitude: number, longitude: number, address?: string },
- *   asset: SolarAsset | WindAsset
+ *   asset: SolarAsset | WindAsset | HybridAsset,
+ *   provider?: 'open-meteo' | 'fixture' (default WEATHER_PROVIDER)
  * }
  * 
  * Response:
@@ -25,7 +43,11 @@ import { Asset, Location, PowerForecast, ForecastAPIResponse } from '@/types';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { location, asset } = body as { location: Location; asset: Asset };
+    const { location, asset, provider } = body as {
+      location: Location;
+      asset: Asset;
+      provider?: string;
+    };
 
     // Validate input
     if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
@@ -48,8 +70,40 @@ export async function POST(request: NextRequest) {
       } as ForecastAPIResponse, { status: 400 });
     }
 
-    // Fetch weather forecast data
-    const weatherData = await fetchOpenMeteoForecast(location, 48);
+    const assetError = validateAsset(asset);
+    if (assetError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: assetError
+        }
+      } as ForecastAPIResponse, { status: 400 });
+    }
+
+    const providerError = validateWeatherProvider(provider, { forecastHours: 48 });
+    if (providerError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: providerError
+        }
+      } as ForecastAPIResponse, { status: 400 });
+    }
+
+    // Derive capacity, coefficients and power curves from the referenced equipment
+    const resolvedAsset = resolveAsset(asset);
+
+    // Fetch weather forecast data; a provider failure is returned as is
+    const weatherCache = createWeatherCacheInfo();
+    const weatherData = await fetchCachedForecast(
+      getWeatherProvider(provider),
+      location,
+      48,
+      undefined,
+      weatherCache
+    );
 
     if (!weatherData || weatherData.length === 0) {
       return NextResponse.json({
@@ -63,26 +117,36 @@ export async function POST(request: NextRequest) {
 
     // Generate power forecast based on asset type
     let powerOutputs;
-    if (asset.type === 'solar') {
-      powerOutputs = generateSolarForecast(asset, weatherData);
-    } else if (asset.type === 'wind') {
-      powerOutputs = generateWindForecast(asset, weatherData);
+    if (resolvedAsset.type === 'solar') {
+      powerOutputs = generateSolarForecast(resolvedAsset, weatherData, location);
+    } else if (resolvedAsset.type === 'wind') {
+      powerOutputs = generateWindForecast(resolvedAsset, weatherData, location);
+    } else if (resolvedAsset.type === 'hybrid') {
+      powerOutputs = generateHybridForecast(resolvedAsset, weatherData, location);
     } else {
       return NextResponse.json({
         success: false,
         error: {
           error: 'INVALID_ASSET_TYPE',
-          message: 'Asset type must be either "solar" or "wind"'
+          message: 'Asset type must be "solar", "wind" or "hybrid"'
         }
       } as ForecastAPIResponse, { status: 400 });
     }
 
+    // Dispatch an attached battery over the forecast
+    powerOutputs = simulateBattery(resolvedAsset, powerOutputs);
+
     // Construct response
     const forecast: PowerForecast = {
-      asset,
+      asset: resolvedAsset,
       location,
       outputs: powerOutputs,
-      meteorologicalData: weatherData
+      meteorologicalData: addSolarGeometry(weatherData, location),
+      // Per-technology energy, curtailment and complementarity of hybrid plants
+      hybrid: resolvedAsset.type === 'hybrid' ? summarizeHybridOutputs(powerOutputs) : undefined,
+      battery: resolvedAsset.battery ? summarizeBattery(resolvedAsset.battery, powerOutputs) : undefined,
+      weatherSources: summarizeWeatherSources(weatherData),
+      weatherCache
     };
 
     return NextResponse.json({
@@ -92,6 +156,17 @@ export async function POST(request: NextRequest) {
 
   } catch (error: any) {
     console.error('Error generating forecast:', error);
+
+    // Upstream failures keep their own error code and status
+    if (error instanceof UpstreamError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: error.code,
+          message: error.message
+        }
+      } as ForecastAPIResponse, { status: error.status });
+    }
     
     return NextResponse.json({
       success: false,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { geocodeAddress } from '@/lib/api/weatherClient';
+import { UpstreamError } from '@/lib/api/upstreamErrors';
 
 /**
  * GET /api/geocode?address=...
@@ -40,6 +41,17 @@ export async function GET(request: NextRequest) {
 
   } catch (error: any) {
     console.error('Error geocoding address:', error);
+
+    // Upstream failures keep their own error code and status
+    if (error instanceof UpstreamError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: error.code,
+          message: error.message
+        }
+      }, { status: error.status });
+    }
     
     return NextResponse.json({
       success: false,
@@ -1,7 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchOpenMeteoHistorical, calculateMonthlyAverages } from '@/lib/api/weatherClient';
-import { calculateSolarCapacityFactor } from '@/lib/models/solarModel';
-import { calculateWindCapacityFactor } from '@/lib/models/windModel';
+import {
+  fetchHistoricalWithFallback,
+  summarizeWeatherSources,
+  validateWeatherProvider
+} from '@/lib/api/weatherProviders';
+import { createWeatherCacheInfo } from '@/lib/api/weatherCache';
+import { UpstreamError } from '@/lib/api/upstreamErrors';
+import {
+  calculateSolarCapacityFactor,
+  calculateMonthlyAveragePower,
+  generateSolarForecast,
+  SOLAR_WEATHER_VARIABLES
+} from '@/lib/models/solarModel';
+import {
+  calculateAverageWindPower,
+  calculateMonthlyAirDensity,
+  calculateMonthlyIcingLoss,
+  calculateMonthlyWakeLoss,
+  calculateWindCapacityFactor,
+  generateWindForecast,
+  WIND_WEATHER_VARIABLES
+} from '@/lib/models/windModel';
+import { fitMonthlyWeibull, fitSectorWeibull } from '@/lib/models/weibullModel';
+import { calculateLossWaterfall, resolveLosses } from '@/lib/models/lossModel';
+import { resolveAsset, validateAsset } from '@/lib/models/assetModel';
+import { generateHybridForecast, summarizeHybridOutputs } from '@/lib/models/hybridModel';
+import { simulateBattery, summarizeBattery } from '@/lib/models/batteryModel';
 import { Asset, Location, LongTermAnalysis, MonthlyAverage, LongTermAPIResponse } from '@/types';
 import { getMonthName } from '@/lib/utils/formatters';
 
@@ -10,11 +34,16 @@ import { getMonthName } from '@/lib/utils/formatters';
  * 
  * Generate a long-term viability analysis based on historical weather data
  * 
+ * If Open-Meteo fails, NASA POWER serves the weather instead; `weatherSources`
+ * counts the hours served by each provider. Weather responses are cached;
+ * `weatherCache` reports the hits and misses.
+ * 
  * Request body:
  * {
  *   location: { latitude: number, longitude: number, address?: string },
- *   asset: SolarAsset | WindAsset,
- *   years?: number (default 5, max 10)
+ *   asset: SolarAsset | WindAsset | HybridAsset,
+ *   years?: number (default 5, max 10),
+ *   provider?: 'open-meteo' | 'nasa-power' | 'fixture' (default WEATHER_PROVIDER)
  * }
  * 
  * Response:
@@ -27,10 +56,11 @@ import { getMonthName } from '@/lib/utils/formatters';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { location, asset, years = 5 } = body as { 
+    const { location, asset, years = 5, provider } = body as { 
       location: Location; 
       asset: Asset;
       years?: number;
+      provider?: string;
     };
 
     // Validate input
@@ -54,6 +84,20 @@ export async function POST(request: NextRequest) {
       } as LongTermAPIResponse, { status: 400 });
     }
 
+    const assetError = validateAsset(asset);
+    if (assetError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: assetError
+        }
+      } as LongTermAPIResponse, { status: 400 });
+    }
+
+    // Derive capacity, coefficients and power curves from the referenced equipment
+    const resolvedAsset = resolveAsset(asset);
+
     // Limit years to reasonable range
     const analysisYears = Math.min(Math.max(years, 1), 10);
 
@@ -66,11 +110,31 @@ export async function POST(request: NextRequest) {
     const startDateStr = startDate.toISOString().split('T')[0];
     const endDateStr = endDate.toISOString().split('T')[0];
 
-    // Fetch historical weather data
-    const historicalData = await fetchOpenMeteoHistorical(
+    const providerError = validateWeatherProvider(provider, { historicalStart: startDateStr });
+    if (providerError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: providerError
+        }
+      } as LongTermAPIResponse, { status: 400 });
+    }
+
+    // Fetch the historical weather the asset's models read, from NASA POWER if Open-Meteo fails
+    const weatherVariables = asset.type === 'hybrid'
+      ? Array.from(new Set([...SOLAR_WEATHER_VARIABLES, ...WIND_WEATHER_VARIABLES]))
+      : asset.type === 'solar'
+        ? SOLAR_WEATHER_VARIABLES
+        : WIND_WEATHER_VARIABLES;
+    const weatherCache = createWeatherCacheInfo();
+    const historicalData = await fetchHistoricalWithFallback(
+      provider,
       location,
       startDateStr,
-      endDateStr
+      endDateStr,
+      weatherVariables,
+      weatherCache
     );
 
     if (!historicalData || historicalData.length === 0) {
@@ -83,57 +147,104 @@ export async function POST(request: NextRequest) {
       } as LongTermAPIResponse, { status: 404 });
     }
 
-    // Calculate monthly averages
-    const monthlyData = calculateMonthlyAverages(historicalData);
+    // Solar assets are simulated hour by hour so that transposition, tracker
+    // rotation and inverter clipping follow the historical weather
+    const solarOutputs = resolvedAsset.type === 'solar'
+      ? generateSolarForecast(resolvedAsset, historicalData, location)
+      : null;
+    const monthlySolarPower = solarOutputs
+      ? calculateMonthlyAveragePower(solarOutputs)
+      : null;
+
+    // Hybrid plants are simulated hour by hour behind the interconnection
+    // limit, since curtailment depends on when solar and wind coincide
+    const hybridOutputs = resolvedAsset.type === 'hybrid'
+      ? generateHybridForecast(resolvedAsset, historicalData, location)
+      : null;
+    const monthlyHybridPower = hybridOutputs
+      ? calculateMonthlyAveragePower(hybridOutputs)
+      : null;
+
+    // Wind assets are simulated hour by hour for the hub-height wind speed,
+    // with the shear fitted from the 10 m and 100 m archive winds, and the
+    // air density. A Weibull distribution is then fitted to each month and
+    // direction sector and the power curve integrated over it.
+    const windOutputs = resolvedAsset.type === 'wind'
+      ? generateWindForecast(resolvedAsset, historicalData, location)
+      : null;
+    // Hourly outputs with hub-height details: the wind asset's, or the
+    // hybrid's, which carry those of their wind part
+    const hubHeightOutputs = windOutputs ?? hybridOutputs;
+    const windSamples = (hubHeightOutputs ?? []).flatMap((output, index) =>
+      output.hubWindSpeed !== undefined
+        ? [{ time: output.time, windSpeed: output.hubWindSpeed, direction: historicalData[index].windDirection }]
+        : []
+    );
+    const monthlyWeibull = hubHeightOutputs ? fitMonthlyWeibull(windSamples) : undefined;
+    const sectorWeibull = hubHeightOutputs ? fitSectorWeibull(windSamples) : undefined;
+    const monthlyAirDensity = hubHeightOutputs ? calculateMonthlyAirDensity(hubHeightOutputs) : null;
+    const monthlyWakeLoss = resolvedAsset.type === 'wind' && resolvedAsset.farm && windOutputs
+      ? calculateMonthlyWakeLoss(windOutputs)
+      : null;
+    const monthlyIcingLoss = hubHeightOutputs ? calculateMonthlyIcingLoss(hubHeightOutputs) : null;
+
+    // An attached battery is dispatched hour by hour over the plant's
+    // simulated output, and the delivered energy averaged by month
+    const plantOutputs = solarOutputs ?? windOutputs ?? hybridOutputs;
+    const batteryOutputs = resolvedAsset.battery && plantOutputs
+      ? simulateBattery(resolvedAsset, plantOutputs)
+      : null;
+    const monthlyDeliveredPower = batteryOutputs
+      ? calculateMonthlyAveragePower(batteryOutputs.map((o) => ({ ...o, power: o.deliveredPower ?? o.power })))
+      : null;
 
     // Generate monthly production estimates
     const monthlyAverages: MonthlyAverage[] = [];
     let totalAnnualProduction = 0;
 
     for (let month = 1; month <= 12; month++) {
-      const data = monthlyData[month];
       let monthlyProduction = 0;
       let capacityFactor = 0;
 
-      if (asset.type === 'solar') {
-        // Calculate average daily solar production
-        // Convert W/m² to kWh/m²/day (average over 24 hours)
-        const avgDailyIrradiance = (data.solarIrradiance * 24) / 1000;
-        
-        // Simplified calculation: use average irradiance
-        const avgPower = (data.solarIrradiance / 1000) * asset.dcCapacity * 0.86; // 14% losses
+      if (resolvedAsset.type === 'solar' && monthlySolarPower) {
+        // Mean hourly output from the simulation
+        const avgPower = monthlySolarPower[month];
         const hoursInMonth = 730; // Average
         monthlyProduction = avgPower * hoursInMonth;
         
         capacityFactor = calculateSolarCapacityFactor(
           monthlyProduction,
-          asset.dcCapacity,
+          resolvedAsset.dcCapacity,
           hoursInMonth
         );
-      } else if (asset.type === 'wind') {
-        // Calculate average wind power
-        const avgWindSpeed = data.windSpeed;
-        
-        // Simplified power calculation
-        const cutInSpeed = asset.cutInSpeed ?? 3;
-        const ratedSpeed = asset.ratedSpeed ?? 12;
-        
-        let avgPower = 0;
-        if (avgWindSpeed >= cutInSpeed && avgWindSpeed < ratedSpeed) {
-          const vCubed = Math.pow(avgWindSpeed, 3);
-          const vCutInCubed = Math.pow(cutInSpeed, 3);
-          const vRatedCubed = Math.pow(ratedSpeed, 3);
-          avgPower = asset.ratedCapacity * ((vCubed - vCutInCubed) / (vRatedCubed - vCutInCubed));
-        } else if (avgWindSpeed >= ratedSpeed) {
-          avgPower = asset.ratedCapacity;
-        }
-        
+      } else if (resolvedAsset.type === 'wind' && monthlyWeibull && monthlyAirDensity) {
+        // Power curve integrated over the month's wind speed distribution
+        const weibull = monthlyWeibull.find((w) => w.month === month);
+        const grossPower = weibull
+          ? calculateAverageWindPower(resolvedAsset, weibull, monthlyAirDensity[month])
+          : 0;
+        // Wind farms lose the month's simulated wake loss, and every asset
+        // the month's simulated icing loss
+        const wakeFactor = 1 - (monthlyWakeLoss?.[month] ?? 0) / 100;
+        const icingFactor = 1 - (monthlyIcingLoss?.[month] ?? 0) / 100;
+        const avgPower = grossPower * wakeFactor * icingFactor;
         const hoursInMonth = 730;
         monthlyProduction = avgPower * hoursInMonth;
         
         capacityFactor = calculateWindCapacityFactor(
           monthlyProduction,
-          asset.ratedCapacity,
+          resolvedAsset.ratedCapacity,
+          hoursInMonth
+        );
+      } else if (resolvedAsset.type === 'hybrid' && monthlyHybridPower) {
+        // Mean hourly export from the simulation, rated at the interconnection limit
+        const avgPower = monthlyHybridPower[month];
+        const hoursInMonth = 730;
+        monthlyProduction = avgPower * hoursInMonth;
+
+        capacityFactor = calculateWindCapacityFactor(
+          monthlyProduction,
+          resolvedAsset.interconnectionLimit,
           hoursInMonth
         );
       }
@@ -142,7 +253,8 @@ export async function POST(request: NextRequest) {
         month,
         monthName: getMonthName(month),
         averageProduction: monthlyProduction,
-        averageCapacityFactor: capacityFactor
+        averageCapacityFactor: capacityFactor,
+        averageDelivered: monthlyDeliveredPower ? monthlyDeliveredPower[month] * 730 : undefined
       });
 
       totalAnnualProduction += monthlyProduction;
@@ -150,16 +262,79 @@ export async function POST(request: NextRequest) {
 
     // Calculate overall capacity factor
     const hoursInYear = 8760;
-    const ratedCapacity = asset.type === 'solar' ? asset.dcCapacity : asset.ratedCapacity;
+    const ratedCapacity = resolvedAsset.type === 'solar'
+      ? resolvedAsset.dcCapacity
+      : resolvedAsset.type === 'hybrid'
+        ? resolvedAsset.interconnectionLimit
+        : resolvedAsset.ratedCapacity;
     const averageCapacityFactor = (totalAnnualProduction / (ratedCapacity * hoursInYear)) * 100;
 
+    // Solar array and its hourly outputs, on their own or as part of a hybrid
+    const solarAsset = resolvedAsset.type === 'solar'
+      ? resolvedAsset
+      : resolvedAsset.type === 'hybrid'
+        ? resolvedAsset.solar
+        : null;
+    const solarPartOutputs = solarOutputs
+      ?? hybridOutputs?.flatMap((o) => (o.solar ? [o.solar] : []))
+      ?? null;
+
+    // Annualised inverter clipping from the hourly simulation
+    const annualClippingLoss = solarPartOutputs && solarPartOutputs.length > 0
+      ? (solarPartOutputs.reduce((sum, o) => sum + (o.clippedEnergy ?? 0), 0) / solarPartOutputs.length) * hoursInYear
+      : undefined;
+
+    // Annualised loss waterfall from the same simulation
+    const lossWaterfall = solarAsset && solarPartOutputs && solarPartOutputs.length > 0
+      ? calculateLossWaterfall(solarPartOutputs, resolveLosses(solarAsset, historicalData), hoursInYear / solarPartOutputs.length)
+      : undefined;
+
+    // Mean fitted shear exponent over the hours with a multi-height fit
+    const fittedShear = (hubHeightOutputs ?? [])
+      .map((o) => o.shearExponent)
+      .filter((alpha): alpha is number => alpha !== undefined);
+    const averageShearExponent = fittedShear.length > 0
+      ? fittedShear.reduce((sum, alpha) => sum + alpha, 0) / fittedShear.length
+      : undefined;
+
+    // Annualised hours stopped by the high-wind controller
+    const annualHighWindShutdownHours = hubHeightOutputs && hubHeightOutputs.length > 0
+      ? (hubHeightOutputs.filter((o) => o.highWindStatus === 'shutdown').length / hubHeightOutputs.length) * hoursInYear
+      : undefined;
+
+    // Annualised hours of meteorological icing at hub height
+    const annualIcingHours = hubHeightOutputs && hubHeightOutputs.length > 0
+      ? (hubHeightOutputs.filter((o) => o.icingRisk !== undefined && o.icingRisk !== 'none').length / hubHeightOutputs.length) * hoursInYear
+      : undefined;
+
+    // Annualised per-technology energy, curtailment and complementarity
+    const hybrid = hybridOutputs && hybridOutputs.length > 0
+      ? summarizeHybridOutputs(hybridOutputs, hoursInYear / hybridOutputs.length)
+      : undefined;
+
+    // Annualised battery energy flows, with the capacity fade at the end of the period
+    const battery = resolvedAsset.battery && batteryOutputs && batteryOutputs.length > 0
+      ? summarizeBattery(resolvedAsset.battery, batteryOutputs, hoursInYear / batteryOutputs.length)
+      : undefined;
+
     // Construct response
     const analysis: LongTermAnalysis = {
-      asset,
+      asset: resolvedAsset,
       location,
       monthlyAverages,
       annualProduction: totalAnnualProduction,
-      averageCapacityFactor
+      averageCapacityFactor,
+      annualClippingLoss,
+      lossWaterfall,
+      averageShearExponent,
+      monthlyWeibull,
+      sectorWeibull,
+      annualHighWindShutdownHours,
+      annualIcingHours,
+      hybrid,
+      battery,
+      weatherSources: summarizeWeatherSources(historicalData),
+      weatherCache
     };
 
     return NextResponse.json({
@@ -169,6 +344,17 @@ export async function POST(request: NextRequest) {
 
   } catch (error: any) {
     console.error('Error generating long-term analysis:', error);
+
+    // Upstream failures keep their own error code and status
+    if (error instanceof UpstreamError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: error.code,
+          message: error.message
+        }
+      } as LongTermAPIResponse, { status: error.status });
+    }
     
     return NextResponse.json({
       success: false,
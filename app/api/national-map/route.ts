@@ -1,20 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchOpenMeteoForecast } from "@/lib/api/weatherClient";
+import {
+  fetchCachedForecast,
+  getWeatherProvider,
+  validateWeatherProvider,
+  WeatherVariables,
+} from "@/lib/api/weatherProviders";
+import { createWeatherCacheInfo } from "@/lib/api/weatherCache";
+import { UpstreamError } from "@/lib/api/upstreamErrors";
 import { NationalEnergyMap, GridPoint, NationalMapAPIResponse } from "@/types";
 
 /**
- * GET /api/national-map?type=solar|wind
+ * GET /api/national-map?type=solar|wind&provider=open-meteo
  *
  * Generate a national energy potential map for the United States
  * Returns data for ALL 24 hours at once for better performance
  *
  * Query parameters:
  * - type: 'solar' | 'wind' (required)
+ * - provider: 'open-meteo' | 'fixture' (default WEATHER_PROVIDER)
  *
  * Response:
  * {
  *   success: boolean,
- *   data?: { hourlyData: NationalEnergyMap[], bounds: any },
+ *   data?: { hourlyData: NationalEnergyMap[], bounds: any, weatherCache: WeatherCacheInfo },
  *   error?: { error: string, message: string }
  * }
  */
@@ -22,6 +30,7 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const type = searchParams.get("type") as "solar" | "wind";
+    const provider = searchParams.get("provider") ?? undefined;
 
     // Validate input
     if (!type || (type !== "solar" && type !== "wind")) {
@@ -37,6 +46,27 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const providerError = validateWeatherProvider(provider, {
+      forecastHours: 24,
+    });
+    if (providerError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            error: "INVALID_INPUT",
+            message: providerError,
+          },
+        } as NationalMapAPIResponse,
+        { status: 400 }
+      );
+    }
+    const weatherProvider = getWeatherProvider(provider);
+    const weatherCache = createWeatherCacheInfo();
+    // Fetch only the field the map shows
+    const weatherVariables: WeatherVariables =
+      type === "solar" ? ["solarIrradiance"] : ["windSpeed"];
+
     // Define grid points across the continental United States
     // Using a 5-degree grid for demonstration (can be made finer)
     const gridPoints: GridPoint[] = [];
@@ -59,25 +89,23 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Fetch weather data for each grid point (24 hours at once)
-    // Process in batches to avoid hitting API rate limits
-    const batchSize = 10; // Process 10 requests at a time (faster)
-    const delayBetweenBatches = 500; // 500ms delay between batches
-
-    // Store data for all 24 hours
+    // Fetch weather data for each grid point (24 hours at once). The request
+    // governor spaces the calls within the upstream's rate limits
     const hourlyGridPoints: GridPoint[][] = Array.from(
       { length: 24 },
       () => []
     );
+    let upstreamError: UpstreamError | undefined;
 
-    for (let i = 0; i < samplePoints.length; i += batchSize) {
-      const batch = samplePoints.slice(i, i + batchSize);
-
-      const batchPromises = batch.map(async (point) => {
+    const pointResults = await Promise.all(
+      samplePoints.map(async (point) => {
         try {
-          const weatherData = await fetchOpenMeteoForecast(
+          const weatherData = await fetchCachedForecast(
+            weatherProvider,
             { latitude: point.lat, longitude: point.lon },
-            24
+            24,
+            weatherVariables,
+            weatherCache
           );
 
           if (weatherData && weatherData.length >= 24) {
@@ -106,34 +134,40 @@ export async function GET(request: NextRequest) {
             `Error fetching data for point (${point.lat}, ${point.lon}):`,
             error
           );
+          if (error instanceof UpstreamError) {
+            upstreamError ??= error;
+          }
           return null;
         }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-
-      // Organize data by hour
-      batchResults.forEach((pointData) => {
-        if (pointData) {
-          pointData.forEach((data: any) => {
-            hourlyGridPoints[data.hour].push({
-              latitude: data.latitude,
-              longitude: data.longitude,
-              value: data.value,
-            });
-          });
-        }
-      });
+      })
+    );
 
-      // Add delay between batches (except for the last batch)
-      if (i + batchSize < samplePoints.length) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, delayBetweenBatches)
-        );
+    // Organize data by hour
+    pointResults.forEach((pointData) => {
+      if (pointData) {
+        pointData.forEach((data) => {
+          hourlyGridPoints[data.hour].push({
+            latitude: data.latitude,
+            longitude: data.longitude,
+            value: data.value,
+          });
+        });
       }
-    }
+    });
 
     // Check if we have data
+    if (hourlyGridPoints[0].length === 0 && upstreamError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            error: upstreamError.code,
+            message: upstreamError.message,
+          },
+        } as NationalMapAPIResponse,
+        { status: upstreamError.status }
+      );
+    }
     if (hourlyGridPoints[0].length === 0) {
       return NextResponse.json(
         {
@@ -167,6 +201,7 @@ export async function GET(request: NextRequest) {
       data: {
         hourlyData,
         bounds,
+        weatherCache,
       },
     } as any);
   } catch (error: any) {
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchCachedForecast,
+  fetchCachedHistorical,
+  getWeatherProvider,
+  validateWeatherProvider
+} from '@/lib/api/weatherProviders';
+import { UpstreamError } from '@/lib/api/upstreamErrors';
+import { WIND_WEATHER_VARIABLES } from '@/lib/models/windModel';
+import { calculateWindRose, WIND_ROSE_WEATHER_VARIABLES } from '@/lib/models/windRoseModel';
+import { resolveAsset, validateWindAsset } from '@/lib/models/assetModel';
+import { Location, WindAsset, WindRoseAnalysis, WindRoseAPIResponse } from '@/types';
+
+/**
+ * POST /api/wind-rose
+ *
+ * Directional frequency analysis of the wind for the next 48 hours and the
+ * historical period. Providers without a forecast (NASA POWER) return the
+ * historical rose only.
+ *
+ * Request body:
+ * {
+ *   location: { latitude: number, longitude: number, address?: string },
+ *   asset?: WindAsset (energy per sector from the turbine at hub height),
+ *   sectors?: 12 | 16 (default 12),
+ *   years?: number (default 1, max 10),
+ *   provider?: 'open-meteo' | 'nasa-power' | 'fixture' (default WEATHER_PROVIDER)
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   data?: WindRoseAnalysis,
+ *   error?: { error: string, message: string }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { location, asset, sectors = 12, years = 1, provider } = body as {
+      location: Location;
+      asset?: WindAsset;
+      sectors?: number;
+      years?: number;
+      provider?: string;
+    };
+
+    // Validate input
+    if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: 'Valid location coordinates are required'
+        }
+      } as WindRoseAPIResponse, { status: 400 });
+    }
+
+    if (sectors !== 12 && sectors !== 16) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: 'Sectors must be 12 or 16'
+        }
+      } as WindRoseAPIResponse, { status: 400 });
+    }
+
+    if (asset && asset.type !== 'wind') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_ASSET_TYPE',
+          message: 'Wind rose energy needs a wind asset'
+        }
+      } as WindRoseAPIResponse, { status: 400 });
+    }
+
+    const assetError = asset ? validateWindAsset(asset) : null;
+    if (assetError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: assetError
+        }
+      } as WindRoseAPIResponse, { status: 400 });
+    }
+
+    // Derive capacity and power curve from the referenced turbine
+    const resolvedAsset = asset ? resolveAsset(asset) : undefined;
+
+    // Limit years to reasonable range
+    const analysisYears = Math.min(Math.max(years, 1), 10);
+
+    // Calculate date range for historical data
+    const endDate = new Date();
+    endDate.setDate(endDate.getDate() - 1); // Yesterday
+    const startDate = new Date(endDate);
+    startDate.setFullYear(startDate.getFullYear() - analysisYears);
+    const startDateStr = startDate.toISOString().split('T')[0];
+
+    const providerError = validateWeatherProvider(provider, { historicalStart: startDateStr });
+    if (providerError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'INVALID_INPUT',
+          message: providerError
+        }
+      } as WindRoseAPIResponse, { status: 400 });
+    }
+
+    // Fetch only the wind and air density fields (all wind model inputs with an asset)
+    const weatherProvider = getWeatherProvider(provider);
+    const weatherVariables = resolvedAsset ? WIND_WEATHER_VARIABLES : WIND_ROSE_WEATHER_VARIABLES;
+    // Skip the forecast leg for providers that have no forecast
+    const forecastHours = Math.min(48, weatherProvider.capabilities.maxForecastHours);
+    const [forecastData, historicalData] = await Promise.all([
+      forecastHours > 0
+        ? fetchCachedForecast(weatherProvider, location, forecastHours, weatherVariables)
+        : undefined,
+      fetchCachedHistorical(
+        weatherProvider,
+        location,
+        startDateStr,
+        endDate.toISOString().split('T')[0],
+        weatherVariables
+      )
+    ]);
+
+    if (forecastData?.length === 0 || historicalData.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: 'NO_DATA',
+          message: 'No wind data available for this location'
+        }
+      } as WindRoseAPIResponse, { status: 404 });
+    }
+
+    const options = { sectors, asset: resolvedAsset, location } as const;
+    const analysis: WindRoseAnalysis = {
+      location,
+      forecast: forecastData ? calculateWindRose(forecastData, options) : undefined,
+      historical: calculateWindRose(historicalData, options)
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: analysis
+    } as WindRoseAPIResponse);
+
+  } catch (error) {
+    console.error('Error generating wind rose:', error);
+
+    // Upstream failures keep their own error code and status
+    if (error instanceof UpstreamError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          error: error.code,
+          message: error.message
+        }
+      } as WindRoseAPIResponse, { status: error.status });
+    }
+
+    const err = error instanceof Error ? error : undefined;
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        error: 'INTERNAL_ERROR',
+        message: err?.message || 'An error occurred while generating the wind rose',
+        details: process.env.NODE_ENV === 'development' ? err?.stack : undefined
+      }
+    } as WindRoseAPIResponse, { status: 500 });
+  }
+}
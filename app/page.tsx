@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import AssetConfigForm from "@/components/AssetConfigForm";
 import PowerForecastChart from "@/components/PowerForecastChart";
+import SunPathDiagram from "@/components/SunPathDiagram";
 import LongTermAnalysis from "@/components/LongTermAnalysis";
 import NationalEnergyMap from "@/components/NationalEnergyMap";
 import ExportMenu from "@/components/ExportMenu";
@@ -238,7 +239,12 @@ export default function Home() {
               {activeTab === "forecast" && (
                 <div className="animate-fadeIn">
                   {forecast ? (
-                    <PowerForecastChart forecast={forecast} />
+                    <div className="space-y-6">
+                      <PowerForecastChart forecast={forecast} />
+                      {forecast.asset.type === "solar" && (
+                        <SunPathDiagram forecast={forecast} />
+                      )}
+                    </div>
                   ) : (
                     <div className="bg-white p-12 sm:p-16 rounded-2xl shadow-xl border border-gray-200 text-center">
                       <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-blue-100 to-blue-200 rounded-3xl flex items-center justify-center">
@@ -323,6 +329,7 @@ export default function Home() {
                     type={mapType}
                     onTypeChange={setMapType}
                     userLocation={currentLocation}
+                    forecast={forecast}
                   />
                 </div>
               )}
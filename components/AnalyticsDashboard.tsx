@@ -112,6 +112,8 @@ export default function AnalyticsDashboard({
                     ? "bg-yellow-50 border-yellow-500"
                     : alert.type === "success"
                     ? "bg-green-50 border-green-500"
+                    : alert.type === "icing"
+                    ? "bg-cyan-50 border-cyan-500"
                     : "bg-blue-50 border-blue-500"
                 }`}
               >
@@ -121,6 +123,8 @@ export default function AnalyticsDashboard({
                       ? "⚠️"
                       : alert.type === "success"
                       ? "✅"
+                      : alert.type === "icing"
+                      ? "❄️"
                       : "ℹ️"}
                   </span>
                   <div className="flex-1">
@@ -1,8 +1,40 @@
 "use client";
 
 import { useState } from "react";
-import { AssetType, Asset, Location, SolarAsset, WindAsset } from "@/types";
+import {
+  AssetType,
+  Asset,
+  BatteryStorage,
+  CellTemperatureModel,
+  DispatchStrategy,
+  HighWindControl,
+  Location,
+  MountingType,
+  PVLossFactors,
+  SolarAsset,
+  WakeModel,
+  WindAsset,
+  WindFarmLayout,
+} from "@/types";
 import { useOpenStreetMapAutocomplete } from "@/hooks/useOpenStreetMapAutocomplete";
+import EquipmentSelector, {
+  EquipmentSelection,
+} from "@/components/EquipmentSelector";
+import HorizonEditor, { ShadingSelection } from "@/components/HorizonEditor";
+import { resolveSolarEquipment } from "@/lib/models/equipmentLibrary";
+import {
+  TURBINE_LIBRARY,
+  findTurbine,
+  getFarmRatedCapacity,
+  resolveWindTurbine,
+} from "@/lib/models/turbineLibrary";
+import { validateBattery } from "@/lib/models/batteryModel";
+import { getCustomModules } from "@/lib/utils/storageUtils";
+import {
+  LOSS_LABELS,
+  combineLossPercentages,
+  getDefaultLossFactors,
+} from "@/lib/models/lossModel";
 
 interface AssetConfigFormProps {
   onSubmit: (location: Location, asset: Asset) => void;
@@ -37,14 +69,73 @@ export default function AssetConfigForm({
 
   // Solar fields
   const [dcCapacity, setDcCapacity] = useState("");
-  const [systemLosses, setSystemLosses] = useState("");
+  const [equipment, setEquipment] = useState<EquipmentSelection>({
+    modulesPerString: "",
+    stringsPerInverter: "",
+    inverterCount: "",
+  });
+  const [lossInputs, setLossInputs] = useState<
+    Partial<Record<keyof PVLossFactors, string>>
+  >({});
+  const [weatherDrivenLosses, setWeatherDrivenLosses] = useState(true);
+  const [tilt, setTilt] = useState("");
+  const [azimuth, setAzimuth] = useState("");
+  const [acCapacity, setAcCapacity] = useState("");
+  const [inverterEfficiency, setInverterEfficiency] = useState("");
+  const [thermalModel, setThermalModel] =
+    useState<CellTemperatureModel>("noct");
+  const [tempCoefficient, setTempCoefficient] = useState("");
+  const [bifaciality, setBifaciality] = useState("");
+  const [rowSpacing, setRowSpacing] = useState("");
+  const [moduleHeight, setModuleHeight] = useState("");
+  const [mounting, setMounting] = useState<MountingType>("fixed");
+  const [axisAzimuth, setAxisAzimuth] = useState("");
+  const [maxRotation, setMaxRotation] = useState("");
+  const [groundCoverageRatio, setGroundCoverageRatio] = useState("");
+  const [backtracking, setBacktracking] = useState(true);
+  const [shading, setShading] = useState<ShadingSelection>({
+    horizon: [],
+    obstacles: [],
+  });
 
   // Wind fields
   const [ratedCapacity, setRatedCapacity] = useState("");
   const [hubHeight, setHubHeight] = useState("");
+  const [siteElevation, setSiteElevation] = useState("");
+  const [farmLayout, setFarmLayout] = useState(false);
+  const [farmRows, setFarmRows] = useState("");
+  const [farmColumns, setFarmColumns] = useState("");
+  const [farmRowSpacing, setFarmRowSpacing] = useState("");
+  const [farmColumnSpacing, setFarmColumnSpacing] = useState("");
+  const [wakeModel, setWakeModel] = useState<WakeModel>("jensen");
   const [cutInSpeed, setCutInSpeed] = useState("");
   const [ratedSpeed, setRatedSpeed] = useState("");
   const [cutOutSpeed, setCutOutSpeed] = useState("");
+  const [gustLimit, setGustLimit] = useState("");
+  const [restartSpeed, setRestartSpeed] = useState("");
+  const [restartDelay, setRestartDelay] = useState("");
+  const [bladeHeating, setBladeHeating] = useState(false);
+
+  // Hybrid fields
+  const [interconnectionLimit, setInterconnectionLimit] = useState("");
+
+  // Battery fields
+  const [batteryEnabled, setBatteryEnabled] = useState(false);
+  const [batteryPower, setBatteryPower] = useState("");
+  const [batteryEnergy, setBatteryEnergy] = useState("");
+  const [batteryEfficiency, setBatteryEfficiency] = useState("");
+  const [dispatchStrategy, setDispatchStrategy] =
+    useState<DispatchStrategy>("clip-capture");
+  const [loadProfile, setLoadProfile] = useState("");
+  const [peakLimit, setPeakLimit] = useState("");
+  const [priceProfile, setPriceProfile] = useState("");
+  const [firmCapacity, setFirmCapacity] = useState("");
+  const [turbineId, setTurbineId] = useState<string | undefined>();
+  const selectedTurbine = turbineId ? findTurbine(turbineId) : undefined;
+
+  const batteryUnit = assetType === "solar" ? "kW" : "MW";
+  // Static shading defaults to 0 when the horizon profile models it
+  const defaultLosses = getDefaultLossFactors(shading);
 
   const [geocoding, setGeocoding] = useState(false);
   const [error, setError] = useState("");
@@ -96,32 +187,156 @@ export default function AssetConfigForm({
       return;
     }
 
+    const elevation = parseFloat(siteElevation);
     const location: Location = {
       latitude: lat,
       longitude: lon,
       address: address || undefined,
+      elevation:
+        assetType !== "solar" && !isNaN(elevation) ? elevation : undefined,
     };
 
-    // Build asset configuration
-    let asset: Asset;
+    // Build asset configuration; a hybrid plant uses both parts
+    let solarAsset: SolarAsset | undefined;
+    let windAsset: WindAsset | undefined;
 
-    if (assetType === "solar") {
+    if (assetType !== "wind") {
       const dc = parseFloat(dcCapacity) || 7; // Default 7 kW
-      const losses = parseFloat(systemLosses) || 14; // Default 14%
+      const losses: PVLossFactors = {};
+      for (const [key, value] of Object.entries(lossInputs)) {
+        if (value === undefined || value.trim() === "") continue;
+        const percent = parseFloat(value);
+        if (isNaN(percent) || percent < 0 || percent >= 100) {
+          setError(
+            `${LOSS_LABELS[key as keyof PVLossFactors]} loss must be between 0% and 100%`
+          );
+          return;
+        }
+        losses[key as keyof PVLossFactors] = percent;
+      }
+      const panelTilt = tilt.trim() === "" ? undefined : parseFloat(tilt);
+      const panelAzimuth =
+        azimuth.trim() === "" ? undefined : parseFloat(azimuth);
 
       if (dc <= 0) {
         setError("Please provide a valid DC capacity");
         return;
       }
 
-      asset = {
+      if (
+        panelTilt !== undefined &&
+        (isNaN(panelTilt) || panelTilt < 0 || panelTilt > 90)
+      ) {
+        setError("Panel tilt must be between 0° and 90°");
+        return;
+      }
+
+      if (
+        panelAzimuth !== undefined &&
+        (isNaN(panelAzimuth) || panelAzimuth < 0 || panelAzimuth >= 360)
+      ) {
+        setError("Panel azimuth must be between 0° and 360°");
+        return;
+      }
+
+      const trackerAxisAzimuth = parseFloat(axisAzimuth) || 180; // Default N-S axis
+      const trackerMaxRotation = parseFloat(maxRotation) || 60; // Default ±60°
+      const gcr = parseFloat(groundCoverageRatio) || 0.35; // Default 0.35
+
+      const ac = parseFloat(acCapacity) || dc / 1.2; // Default DC/AC ratio 1.2
+      const inverterEff = parseFloat(inverterEfficiency) || 96; // Default 96%
+
+      if (ac <= 0) {
+        setError("Please provide a valid inverter AC capacity");
+        return;
+      }
+
+      if (inverterEff <= 0 || inverterEff > 100) {
+        setError("Inverter efficiency must be between 0% and 100%");
+        return;
+      }
+
+      const gamma = parseFloat(tempCoefficient) || -0.4; // Default -0.4 %/°C
+
+      if (gamma < -2 || gamma > 0) {
+        setError("Temperature coefficient must be between -2 and 0 %/°C");
+        return;
+      }
+
+      const bifacialFactor =
+        bifaciality.trim() === "" ? undefined : parseFloat(bifaciality);
+      const pitch = parseFloat(rowSpacing) || undefined;
+      const height = parseFloat(moduleHeight) || undefined;
+
+      if (
+        bifacialFactor !== undefined &&
+        (isNaN(bifacialFactor) || bifacialFactor < 0 || bifacialFactor > 1)
+      ) {
+        setError("Bifaciality must be between 0 and 1");
+        return;
+      }
+
+      if (
+        (pitch !== undefined && pitch <= 0) ||
+        (height !== undefined && height <= 0)
+      ) {
+        setError("Row spacing and module height must be positive");
+        return;
+      }
+
+      if (mounting === "single-axis" && (gcr <= 0 || gcr >= 1)) {
+        setError("Ground coverage ratio must be between 0 and 1");
+        return;
+      }
+
+      solarAsset = resolveSolarEquipment({
         type: "solar",
         dcCapacity: dc,
-        systemLosses: losses,
-      } as SolarAsset;
-    } else {
-      const rated = parseFloat(ratedCapacity) || 1.5; // Default 1.5 MW
-      const height = parseFloat(hubHeight) || 100; // Default 100m
+        losses,
+        ...(weatherDrivenLosses && {
+          soiling: { model: "kimber" },
+          snow: { model: "marion" },
+        }),
+        ...(!equipment.inverterId && {
+          inverter: {
+            acCapacity: ac,
+            nominalEfficiency: inverterEff,
+          },
+        }),
+        temperatureCoefficient: gamma / 100,
+        cellTemperature: { model: thermalModel },
+        bifaciality: bifacialFactor,
+        rowSpacing: pitch,
+        moduleHeight: height,
+        ...(shading.horizon.length > 0 && { horizon: shading.horizon }),
+        ...(shading.obstacles.length > 0 && { obstacles: shading.obstacles }),
+        ...(equipment.moduleId && {
+          moduleId: equipment.moduleId,
+          module: getCustomModules().find((m) => m.id === equipment.moduleId),
+          modulesPerString: parseInt(equipment.modulesPerString) || 1,
+          stringsPerInverter: parseInt(equipment.stringsPerInverter) || 1,
+          inverterId: equipment.inverterId,
+          inverterCount: parseInt(equipment.inverterCount) || 1,
+        }),
+        mounting,
+        ...(mounting === "fixed" && {
+          tilt: panelTilt,
+          azimuth: panelAzimuth,
+        }),
+        ...(mounting === "single-axis" && {
+          axisAzimuth: trackerAxisAzimuth,
+          maxRotation: trackerMaxRotation,
+          backtracking,
+          groundCoverageRatio: gcr,
+        }),
+      } as SolarAsset);
+    }
+
+    if (assetType !== "solar") {
+      const rated = selectedTurbine
+        ? selectedTurbine.ratedPower / 1000
+        : parseFloat(ratedCapacity) || 1.5; // Default 1.5 MW
+      const height = parseFloat(hubHeight) || selectedTurbine?.hubHeight || 100; // Default 100m
       const cutIn = parseFloat(cutInSpeed) || 3; // Default 3 m/s
       const rated_speed = parseFloat(ratedSpeed) || 12; // Default 12 m/s
       const cutOut = parseFloat(cutOutSpeed) || 25; // Default 25 m/s
@@ -136,14 +351,111 @@ export default function AssetConfigForm({
         return;
       }
 
+      const highWind: HighWindControl = {
+        gustLimit: parseFloat(gustLimit) || undefined,
+        restartSpeed: parseFloat(restartSpeed) || undefined,
+        restartDelay: restartDelay === "" ? undefined : parseInt(restartDelay),
+      };
+      if (
+        highWind.gustLimit &&
+        highWind.restartSpeed &&
+        highWind.restartSpeed >= highWind.gustLimit
+      ) {
+        setError("Restart speed must be below the gust limit");
+        return;
+      }
+
+      let farm: WindFarmLayout | undefined;
+      if (farmLayout) {
+        const rows = parseInt(farmRows) || 3; // Default 3 rows
+        const columns = parseInt(farmColumns) || 4; // Default 4 per row
+        if (rows < 1 || columns < 1) {
+          setError("Please provide at least one row and one turbine per row");
+          return;
+        }
+        farm = {
+          grid: {
+            rows,
+            columns,
+            rowSpacing: parseFloat(farmRowSpacing) || undefined,
+            columnSpacing: parseFloat(farmColumnSpacing) || undefined,
+          },
+          wakeModel,
+        };
+      }
+
+      windAsset = selectedTurbine
+        ? resolveWindTurbine({
+            type: "wind",
+            ratedCapacity: rated,
+            hubHeight: height,
+            turbineId: selectedTurbine.id,
+            farm,
+            highWind,
+            icing: bladeHeating ? { bladeHeating } : undefined,
+          })
+        : ({
+            type: "wind",
+            // Rated capacity is entered per turbine
+            ratedCapacity: getFarmRatedCapacity(rated, { farm }),
+            hubHeight: height,
+            cutInSpeed: cutIn,
+            ratedSpeed: rated_speed,
+            cutOutSpeed: cutOut,
+            farm,
+            highWind,
+            icing: bladeHeating ? { bladeHeating } : undefined,
+          } as WindAsset);
+    }
+
+    let asset: Asset | undefined = solarAsset ?? windAsset;
+    if (solarAsset && windAsset) {
+      const limit = parseFloat(interconnectionLimit) || windAsset.ratedCapacity; // Default wind rated capacity
+
+      if (limit <= 0) {
+        setError("Please provide a valid interconnection limit");
+        return;
+      }
+
       asset = {
-        type: "wind",
-        ratedCapacity: rated,
-        hubHeight: height,
-        cutInSpeed: cutIn,
-        ratedSpeed: rated_speed,
-        cutOutSpeed: cutOut,
-      } as WindAsset;
+        type: "hybrid",
+        solar: solarAsset,
+        wind: windAsset,
+        interconnectionLimit: limit,
+      };
+    }
+    if (!asset) return;
+
+    if (batteryEnabled) {
+      const parseProfile = (text: string) =>
+        text
+          .split(/[\s,]+/)
+          .filter((value) => value !== "")
+          .map(Number);
+      const battery: BatteryStorage = {
+        power: parseFloat(batteryPower),
+        energy: parseFloat(batteryEnergy),
+        roundTripEfficiency: parseFloat(batteryEfficiency) || undefined, // Default 88%
+        strategy: dispatchStrategy,
+        ...(dispatchStrategy === "peak-shaving" && {
+          loadProfile: parseProfile(loadProfile),
+          peakLimit: parseFloat(peakLimit),
+        }),
+        ...(dispatchStrategy === "arbitrage" && {
+          prices: parseProfile(priceProfile),
+        }),
+        ...(dispatchStrategy === "firm-capacity" && {
+          firmCapacity: parseFloat(firmCapacity),
+        }),
+      };
+
+      const batteryError = validateBattery({ ...asset, battery });
+      if (batteryError) {
+        setError(batteryError);
+        return;
+      }
+
+      asset = { ...asset, battery };
     }
 
     onSubmit(location, asset);
@@ -338,7 +650,7 @@ export default function AssetConfigForm({
           <span className="text-lg">⚡</span>
           <h3 className="text-lg font-bold text-gray-800">Asset Type</h3>
         </div>
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <button
             type="button"
             onClick={() => setAssetType("solar")}
@@ -355,7 +667,13 @@ export default function AssetConfigForm({
           </button>
           <button
             type="button"
-            onClick={() => setAssetType("wind")}
+            onClick={() => {
+              setAssetType("wind");
+              // Wind has no clipping or curtailment for clip capture to store
+              if (dispatchStrategy === "clip-capture") {
+                setDispatchStrategy("firm-capacity");
+              }
+            }}
             className={`group relative py-4 px-4 rounded-xl font-semibold transition-all duration-300 overflow-hidden ${
               assetType === "wind"
                 ? "bg-gradient-to-br from-blue-400 to-cyan-500 text-white shadow-lg shadow-blue-500/50 scale-105"
@@ -367,11 +685,25 @@ export default function AssetConfigForm({
               <span className="text-sm">Wind</span>
             </div>
           </button>
+          <button
+            type="button"
+            onClick={() => setAssetType("hybrid")}
+            className={`group relative py-4 px-4 rounded-xl font-semibold transition-all duration-300 overflow-hidden ${
+              assetType === "hybrid"
+                ? "bg-gradient-to-br from-emerald-400 to-teal-500 text-white shadow-lg shadow-emerald-500/50 scale-105"
+                : "bg-gradient-to-br from-gray-100 to-gray-200 text-gray-700 hover:scale-105 hover:shadow-md"
+            }`}
+          >
+            <div className="flex flex-col items-center gap-2">
+              <span className="text-2xl">🔌</span>
+              <span className="text-sm">Hybrid</span>
+            </div>
+          </button>
         </div>
       </div>
 
       {/* Asset Configuration */}
-      {assetType === "solar" ? (
+      {assetType !== "wind" && (
         <div className="space-y-4 p-5 bg-gradient-to-br from-yellow-50 to-orange-50 rounded-xl border-2 border-yellow-200">
           <div className="flex items-center gap-2">
             <span className="text-lg">☀️</span>
@@ -379,44 +711,369 @@ export default function AssetConfigForm({
               Solar System Configuration
             </h3>
           </div>
+          <EquipmentSelector value={equipment} onChange={setEquipment} />
+          {!equipment.moduleId && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                DC Capacity (kW)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                value={dcCapacity}
+                onChange={(e) => setDcCapacity(e.target.value)}
+                placeholder="e.g., 7"
+                className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+              />
+              <p className="mt-2 text-xs text-gray-600 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+                Typical residential: 5-10 kW, Commercial: 50-500 kW
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              System Losses (%)
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(LOSS_LABELS) as (keyof PVLossFactors)[]).map(
+                (key) => (
+                  <div key={key}>
+                    <label className="block text-[11px] font-medium text-gray-600 mb-1 truncate">
+                      {LOSS_LABELS[key]}
+                    </label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={lossInputs[key] ?? ""}
+                      onChange={(e) =>
+                        setLossInputs((prev) => ({
+                          ...prev,
+                          [key]: e.target.value,
+                        }))
+                      }
+                      placeholder={defaultLosses[key].toString()}
+                      className="w-full px-2 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                      style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                    />
+                  </div>
+                )
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-600 flex items-center gap-1.5">
+              <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+              Combined{" "}
+              {combineLossPercentages(
+                (Object.keys(LOSS_LABELS) as (keyof PVLossFactors)[]).map(
+                  (key) => {
+                    const percent = parseFloat(lossInputs[key] ?? "");
+                    return isNaN(percent) ? defaultLosses[key] : percent;
+                  }
+                )
+              ).toFixed(1)}
+              % (blank fields use PVWatts defaults)
+            </p>
+          </div>
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              DC Capacity (kW)
+              Soiling & Snow
             </label>
-            <input
-              type="number"
-              step="0.1"
-              value={dcCapacity}
-              onChange={(e) => setDcCapacity(e.target.value)}
-              placeholder="e.g., 7"
-              className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
-              style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
-            />
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  [true, "Weather-driven"],
+                  [false, "Fixed %"],
+                ] as [boolean, string][]
+              ).map(([value, label]) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setWeatherDrivenLosses(value)}
+                  className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                    weatherDrivenLosses === value
+                      ? "bg-gradient-to-r from-yellow-400 to-orange-500 text-white shadow-md"
+                      : "bg-white border-2 border-gray-200 text-gray-700 hover:border-yellow-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <p className="mt-2 text-xs text-gray-600 flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
-              Typical residential: 5-10 kW, Commercial: 50-500 kW
+              {weatherDrivenLosses
+                ? "Soiling builds up between rain showers and snow slides off the array hour by hour"
+                : "Soiling and snow use the fixed percentages above"}
             </p>
           </div>
+          {!equipment.inverterId && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Inverter AC (kW)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={acCapacity}
+                    onChange={(e) => setAcCapacity(e.target.value)}
+                    placeholder="DC / 1.2"
+                    className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Inverter Eff. (%)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={inverterEfficiency}
+                    onChange={(e) => setInverterEfficiency(e.target.value)}
+                    placeholder="96"
+                    className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+              </div>
+              <p className="-mt-2 text-xs text-gray-600 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+                Blank AC uses a DC/AC ratio of 1.2; output above the AC rating
+                is clipped
+              </p>
+            </>
+          )}
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              System Losses (%)
+              Bifacial
             </label>
-            <input
-              type="number"
-              step="0.1"
-              value={systemLosses}
-              onChange={(e) => setSystemLosses(e.target.value)}
-              placeholder="e.g., 14"
-              className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
-              style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
-            />
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                  Bifaciality
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={bifaciality}
+                  onChange={(e) => setBifaciality(e.target.value)}
+                  placeholder={equipment.moduleId ? "module" : "0"}
+                  className="w-full px-2 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                  Row spacing (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={rowSpacing}
+                  onChange={(e) => setRowSpacing(e.target.value)}
+                  placeholder="5.7"
+                  className="w-full px-2 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                  Height (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={moduleHeight}
+                  onChange={(e) => setModuleHeight(e.target.value)}
+                  placeholder="1.5"
+                  className="w-full px-2 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+            </div>
             <p className="mt-2 text-xs text-gray-600 flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
-              Default 14% (includes inverter, wiring, soiling losses)
+              Rear-side gain from ground reflection; snow raises the albedo
             </p>
           </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Cell Temperature Model
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {(
+                [
+                  ["noct", "NOCT"],
+                  ["sapm", "SAPM"],
+                  ["faiman", "Faiman"],
+                  ["pvsyst", "PVsyst"],
+                ] as [CellTemperatureModel, string][]
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setThermalModel(value)}
+                  className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                    thermalModel === value
+                      ? "bg-gradient-to-r from-yellow-400 to-orange-500 text-white shadow-md"
+                      : "bg-white border-2 border-gray-200 text-gray-700 hover:border-yellow-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {!equipment.moduleId && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Temperature Coefficient (%/°C)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={tempCoefficient}
+                onChange={(e) => setTempCoefficient(e.target.value)}
+                placeholder="e.g., -0.4"
+                className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+              />
+              <p className="mt-2 text-xs text-gray-600 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+                Module datasheet Pmax coefficient; wind speed cools the cells
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Mounting
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(
+                [
+                  ["fixed", "Fixed"],
+                  ["single-axis", "Single-axis"],
+                  ["dual-axis", "Dual-axis"],
+                ] as [MountingType, string][]
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMounting(value)}
+                  className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                    mounting === value
+                      ? "bg-gradient-to-r from-yellow-400 to-orange-500 text-white shadow-md"
+                      : "bg-white border-2 border-gray-200 text-gray-700 hover:border-yellow-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {mounting === "fixed" && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Tilt (°)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={tilt}
+                    onChange={(e) => setTilt(e.target.value)}
+                    placeholder="e.g., 30"
+                    className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Azimuth (°)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={azimuth}
+                    onChange={(e) => setAzimuth(e.target.value)}
+                    placeholder="180"
+                    className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+              </div>
+              <p className="-mt-2 text-xs text-gray-600 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+                Blank tilt = flat array; azimuth 180° = south-facing
+              </p>
+            </>
+          )}
+          {mounting === "single-axis" && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    Axis Azimuth (°)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={axisAzimuth}
+                    onChange={(e) => setAxisAzimuth(e.target.value)}
+                    placeholder="180"
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    Max Rotation (°)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={maxRotation}
+                    onChange={(e) => setMaxRotation(e.target.value)}
+                    placeholder="60"
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    GCR
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={groundCoverageRatio}
+                    onChange={(e) => setGroundCoverageRatio(e.target.value)}
+                    placeholder="0.35"
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={backtracking}
+                  onChange={(e) => setBacktracking(e.target.checked)}
+                  className="w-4 h-4 accent-yellow-500"
+                />
+                Backtracking (avoid row-to-row shading)
+              </label>
+            </>
+          )}
+          <HorizonEditor value={shading} onChange={setShading} />
         </div>
-      ) : (
+      )}
+
+      {assetType !== "solar" && (
         <div className="space-y-4 p-5 bg-gradient-to-br from-blue-50 to-cyan-50 rounded-xl border-2 border-blue-200">
           <div className="flex items-center gap-2">
             <span className="text-lg">💨</span>
@@ -424,83 +1081,495 @@ export default function AssetConfigForm({
               Wind Turbine Configuration
             </h3>
           </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Turbine Model
+            </label>
+            <div className="grid grid-cols-1 gap-1">
+              <button
+                type="button"
+                onClick={() => setTurbineId(undefined)}
+                className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+                  !turbineId
+                    ? "bg-blue-500 text-white font-semibold"
+                    : "bg-white text-gray-700 hover:bg-blue-100"
+                }`}
+              >
+                Parametric curve (cut-in, rated and cut-out speeds below)
+              </button>
+              {TURBINE_LIBRARY.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => setTurbineId(t.id)}
+                  className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+                    turbineId === t.id
+                      ? "bg-blue-500 text-white font-semibold"
+                      : "bg-white text-gray-700 hover:bg-blue-100"
+                  }`}
+                >
+                  {t.manufacturer} {t.model} · {t.hubHeight} m hub
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="grid grid-cols-2 gap-4">
+            {!turbineId && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {farmLayout ? "Turbine Capacity (MW)" : "Rated Capacity (MW)"}
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={ratedCapacity}
+                  onChange={(e) => setRatedCapacity(e.target.value)}
+                  placeholder="e.g., 1.5"
+                  className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+            )}
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Rated Capacity (MW)
+                Hub Height (m)
               </label>
               <input
                 type="number"
-                step="0.1"
-                value={ratedCapacity}
-                onChange={(e) => setRatedCapacity(e.target.value)}
-                placeholder="e.g., 1.5"
+                step="1"
+                value={hubHeight}
+                onChange={(e) => setHubHeight(e.target.value)}
+                placeholder={`e.g., ${selectedTurbine?.hubHeight ?? 100}`}
                 className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
                 style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
               />
             </div>
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Hub Height (m)
+                Site Elevation (m)
               </label>
               <input
                 type="number"
                 step="1"
-                value={hubHeight}
-                onChange={(e) => setHubHeight(e.target.value)}
-                placeholder="e.g., 100"
+                value={siteElevation}
+                onChange={(e) => setSiteElevation(e.target.value)}
+                placeholder="e.g., 350"
                 className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
                 style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
               />
             </div>
           </div>
-          <div className="grid grid-cols-3 gap-3">
-            <div>
-              <label className="block text-xs font-semibold text-gray-700 mb-2">
-                Cut-in (m/s)
-              </label>
-              <input
-                type="number"
-                step="0.1"
-                value={cutInSpeed}
-                onChange={(e) => setCutInSpeed(e.target.value)}
-                placeholder="3"
-                className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
-                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
-              />
+          {selectedTurbine ? (
+            <p className="text-xs text-gray-600 flex items-center gap-1.5">
+              <span className="w-1.5 h-1.5 bg-blue-500 rounded-full"></span>
+              Tabulated power curve · {selectedTurbine.rotorDiameter} m rotor ·
+              cut-in {selectedTurbine.cutInSpeed} m/s · rated{" "}
+              {selectedTurbine.ratedSpeed} m/s
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Cut-in (m/s)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={cutInSpeed}
+                  onChange={(e) => setCutInSpeed(e.target.value)}
+                  placeholder="3"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Rated (m/s)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={ratedSpeed}
+                  onChange={(e) => setRatedSpeed(e.target.value)}
+                  placeholder="12"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Cut-out (m/s)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={cutOutSpeed}
+                  onChange={(e) => setCutOutSpeed(e.target.value)}
+                  placeholder="25"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-xs font-semibold text-gray-700 mb-2">
-                Rated (m/s)
-              </label>
-              <input
-                type="number"
-                step="0.1"
-                value={ratedSpeed}
-                onChange={(e) => setRatedSpeed(e.target.value)}
-                placeholder="12"
-                className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
-                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
-              />
+          )}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              High-Wind Shutdown
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Gust limit (m/s)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={gustLimit}
+                  onChange={(e) => setGustLimit(e.target.value)}
+                  placeholder="1.4 × cut-out"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Restart (m/s)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={restartSpeed}
+                  onChange={(e) => setRestartSpeed(e.target.value)}
+                  placeholder="0.8 × cut-out"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Delay (h)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  value={restartDelay}
+                  onChange={(e) => setRestartDelay(e.target.value)}
+                  placeholder="1"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-xs font-semibold text-gray-700 mb-2">
-                Cut-out (m/s)
-              </label>
-              <input
-                type="number"
-                step="0.1"
-                value={cutOutSpeed}
-                onChange={(e) => setCutOutSpeed(e.target.value)}
-                placeholder="25"
-                className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
-                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
-              />
+            <p className="text-xs text-gray-600 flex items-center gap-1.5 mt-2">
+              <span className="w-1.5 h-1.5 bg-blue-500 rounded-full"></span>
+              Stops above cut-out or the gust limit · restarts below the restart
+              speed after the delay
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bladeHeating}
+              onChange={(e) => setBladeHeating(e.target.checked)}
+              className="w-4 h-4 accent-blue-500"
+            />
+            Heated blades (reduce icing loss)
+          </label>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Layout
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  [false, "Single turbine"],
+                  [true, "Wind farm grid"],
+                ] as [boolean, string][]
+              ).map(([value, label]) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setFarmLayout(value)}
+                  className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                    farmLayout === value
+                      ? "bg-gradient-to-r from-blue-400 to-cyan-500 text-white shadow-md"
+                      : "bg-white border-2 border-gray-200 text-gray-700 hover:border-blue-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
+          {farmLayout && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                {(
+                  [
+                    ["Rows", farmRows, setFarmRows, "3", "1"],
+                    ["Turbines per Row", farmColumns, setFarmColumns, "4", "1"],
+                    [
+                      "Row Spacing (D)",
+                      farmRowSpacing,
+                      setFarmRowSpacing,
+                      "7",
+                      "0.5",
+                    ],
+                    [
+                      "Turbine Spacing (D)",
+                      farmColumnSpacing,
+                      setFarmColumnSpacing,
+                      "4",
+                      "0.5",
+                    ],
+                  ] as [
+                    string,
+                    string,
+                    (value: string) => void,
+                    string,
+                    string,
+                  ][]
+                ).map(([label, value, setValue, placeholder, step]) => (
+                  <div key={label}>
+                    <label className="block text-xs font-semibold text-gray-700 mb-2">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      step={step}
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      placeholder={placeholder}
+                      className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                      style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Wake Model
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(
+                    [
+                      ["jensen", "Jensen (Park)"],
+                      ["bastankhah", "Bastankhah (Gaussian)"],
+                    ] as [WakeModel, string][]
+                  ).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setWakeModel(value)}
+                      className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                        wakeModel === value
+                          ? "bg-gradient-to-r from-blue-400 to-cyan-500 text-white shadow-md"
+                          : "bg-white border-2 border-gray-200 text-gray-700 hover:border-blue-300"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-xs text-gray-600 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 bg-blue-500 rounded-full"></span>
+                Spacing in rotor diameters · rows run east-west · wakes follow
+                the hourly wind direction
+              </p>
+            </>
+          )}
         </div>
       )}
 
+      {assetType === "hybrid" && (
+        <div className="space-y-4 p-5 bg-gradient-to-br from-emerald-50 to-teal-50 rounded-xl border-2 border-emerald-200">
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🔌</span>
+            <h3 className="text-lg font-bold text-gray-800">
+              Point of Interconnection
+            </h3>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Export Limit (MW)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              value={interconnectionLimit}
+              onChange={(e) => setInterconnectionLimit(e.target.value)}
+              placeholder="Default: wind rated capacity"
+              className="w-full px-4 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 transition-all text-sm"
+              style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+            />
+          </div>
+          <p className="text-xs text-gray-600 flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full"></span>
+            Solar and wind share one grid connection · output above the limit is
+            curtailed
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4 p-5 bg-gradient-to-br from-violet-50 to-purple-50 rounded-xl border-2 border-purple-200">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={batteryEnabled}
+            onChange={(e) => setBatteryEnabled(e.target.checked)}
+            className="w-4 h-4 accent-purple-500"
+          />
+          <span className="text-lg">🔋</span>
+          <span className="text-lg font-bold text-gray-800">
+            Battery Storage
+          </span>
+        </label>
+        {batteryEnabled && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              {(
+                [
+                  [
+                    `Power (${batteryUnit})`,
+                    batteryPower,
+                    setBatteryPower,
+                    assetType === "solar" ? "5" : "1",
+                  ],
+                  [
+                    `Energy (${batteryUnit}h)`,
+                    batteryEnergy,
+                    setBatteryEnergy,
+                    assetType === "solar" ? "13.5" : "4",
+                  ],
+                  [
+                    "Round-Trip (%)",
+                    batteryEfficiency,
+                    setBatteryEfficiency,
+                    "88",
+                  ],
+                ] as [string, string, (value: string) => void, string][]
+              ).map(([label, value, setValue, placeholder]) => (
+                <div key={label}>
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={placeholder}
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">
+                Dispatch Strategy
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(
+                  [
+                    ["clip-capture", "Clip capture"],
+                    ["peak-shaving", "Peak shaving"],
+                    ["arbitrage", "Time-of-use arbitrage"],
+                    ["firm-capacity", "Firm capacity"],
+                  ] as [DispatchStrategy, string][]
+                )
+                  .filter(
+                    ([value]) =>
+                      !(assetType === "wind" && value === "clip-capture")
+                  )
+                  .map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setDispatchStrategy(value)}
+                      className={`py-2 px-2 rounded-lg text-xs font-semibold transition-all ${
+                        dispatchStrategy === value
+                          ? "bg-gradient-to-r from-violet-400 to-purple-500 text-white shadow-md"
+                          : "bg-white border-2 border-gray-200 text-gray-700 hover:border-purple-300"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+              </div>
+            </div>
+            {dispatchStrategy === "peak-shaving" && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    Load by Hour ({batteryUnit}, 24 values)
+                  </label>
+                  <input
+                    type="text"
+                    value={loadProfile}
+                    onChange={(e) => setLoadProfile(e.target.value)}
+                    placeholder="e.g., 2, 2, 2, … (midnight first)"
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-2">
+                    Peak Limit ({batteryUnit})
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={peakLimit}
+                    onChange={(e) => setPeakLimit(e.target.value)}
+                    placeholder="Grid import"
+                    className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 transition-all text-sm"
+                    style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                  />
+                </div>
+              </div>
+            )}
+            {dispatchStrategy === "arbitrage" && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Price by Hour ($/{batteryUnit}h, 24 values)
+                </label>
+                <input
+                  type="text"
+                  value={priceProfile}
+                  onChange={(e) => setPriceProfile(e.target.value)}
+                  placeholder="e.g., 40, 38, 35, … (midnight first)"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+            )}
+            {dispatchStrategy === "firm-capacity" && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-2">
+                  Firm Capacity Target ({batteryUnit})
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={firmCapacity}
+                  onChange={(e) => setFirmCapacity(e.target.value)}
+                  placeholder="Delivery target"
+                  className="w-full px-3 py-3 !bg-white border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 transition-all text-sm"
+                  style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-600 flex items-center gap-1.5">
+              <span className="w-1.5 h-1.5 bg-purple-500 rounded-full"></span>
+              Dispatched hourly · SOC held between 10% and 95% · capacity fades
+              with age and cycling
+            </p>
+          </>
+        )}
+      </div>
+
       <button
         type="submit"
         disabled={loading}
@@ -7,8 +7,11 @@ import {
   AtmosphericStatistics,
   TrendAnalysis,
   AnomalyDetection,
+  WindRose,
 } from "@/types";
 import { generateAtmosphericResearchData } from "@/lib/utils/atmosphericResearch";
+import { getCompassLabel } from "@/lib/models/windRoseModel";
+import WindRoseChart from "./WindRoseChart";
 
 interface AtmosphericResearchDashboardProps {
   forecast?: PowerForecast | null;
@@ -22,6 +25,57 @@ export default function AtmosphericResearchDashboard({
   const [selectedVariable, setSelectedVariable] =
     useState<string>("temperature");
   const [loading, setLoading] = useState(false);
+  const [windRosePeriod, setWindRosePeriod] = useState<
+    "forecast" | "historical"
+  >("forecast");
+  const [historicalRose, setHistoricalRose] = useState<WindRose | null>(null);
+  const [windRoseLoading, setWindRoseLoading] = useState(false);
+  const [windRoseError, setWindRoseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A new forecast may be for another site or asset
+    setHistoricalRose(null);
+    setWindRosePeriod("forecast");
+    setWindRoseError(null);
+  }, [forecast]);
+
+  const loadHistoricalRose = async () => {
+    setWindRosePeriod("historical");
+    if (!forecast || historicalRose) return;
+
+    setWindRoseLoading(true);
+    setWindRoseError(null);
+    try {
+      const response = await fetch("/api/wind-rose", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          location: forecast.location,
+          asset:
+            forecast.asset.type === "wind"
+              ? forecast.asset
+              : forecast.asset.type === "hybrid"
+              ? forecast.asset.wind
+              : undefined,
+          sectors: researchData?.windRose?.sectors.length ?? 12,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        setHistoricalRose(data.data.historical);
+      } else {
+        setWindRoseError(
+          data.error?.message || "Failed to load the historical wind rose"
+        );
+      }
+    } catch (error) {
+      console.error("Error loading historical wind rose:", error);
+      setWindRoseError("Failed to load the historical wind rose");
+    } finally {
+      setWindRoseLoading(false);
+    }
+  };
 
   useEffect(() => {
     if (forecast && forecast.meteorologicalData.length > 0) {
@@ -83,6 +137,8 @@ export default function AtmosphericResearchDashboard({
   const anomalies =
     researchData.anomalies?.filter((a) => a.variable === selectedVariable) ||
     [];
+  const windRose =
+    windRosePeriod === "historical" ? historicalRose : researchData.windRose;
 
   return (
     <div id="research-dashboard" className="space-y-6">
@@ -284,6 +340,111 @@ export default function AtmosphericResearchDashboard({
         </div>
       )}
 
+      {/* Wind Rose */}
+      {researchData.windRose && (
+        <div className="bg-gradient-to-br from-sky-50 to-blue-100 p-6 rounded-2xl shadow-xl border border-sky-200">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <span>🧭</span> Wind Rose
+            </h3>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setWindRosePeriod("forecast")}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  windRosePeriod === "forecast"
+                    ? "bg-blue-600 text-white shadow-lg"
+                    : "bg-white text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                48-hour forecast
+              </button>
+              <button
+                onClick={loadHistoricalRose}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  windRosePeriod === "historical"
+                    ? "bg-blue-600 text-white shadow-lg"
+                    : "bg-white text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                Historical (1 year)
+              </button>
+            </div>
+          </div>
+
+          {windRoseLoading ? (
+            <p className="text-gray-600 text-center py-8">
+              Loading historical wind data...
+            </p>
+          ) : windRoseError && windRosePeriod === "historical" ? (
+            <p className="text-red-700 text-center py-8">{windRoseError}</p>
+          ) : (
+            windRose && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="bg-white p-4 rounded-xl">
+                  <WindRoseChart
+                    rose={windRose}
+                    title={
+                      windRosePeriod === "historical"
+                        ? "Historical Wind Rose"
+                        : "48-Hour Forecast Wind Rose"
+                    }
+                  />
+                </div>
+                <div className="bg-white p-4 rounded-xl overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className="p-2 text-left font-semibold">Sector</th>
+                        <th className="p-2 text-right font-semibold">
+                          Frequency
+                        </th>
+                        <th className="p-2 text-right font-semibold">
+                          Mean Speed
+                        </th>
+                        <th className="p-2 text-right font-semibold">
+                          Energy ({windRose.energyUnit})
+                        </th>
+                        <th className="p-2 text-right font-semibold">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {windRose.sectors.map((sector) => (
+                        <tr
+                          key={sector.direction}
+                          className="border-t border-gray-200"
+                        >
+                          <td className="p-2 font-medium">
+                            {getCompassLabel(sector.direction)} (
+                            {sector.direction}°)
+                          </td>
+                          <td className="p-2 text-right font-mono">
+                            {sector.frequency.toFixed(1)}%
+                          </td>
+                          <td className="p-2 text-right font-mono">
+                            {sector.meanSpeed.toFixed(1)} m/s
+                          </td>
+                          <td className="p-2 text-right font-mono">
+                            {sector.energy.toFixed(2)}
+                          </td>
+                          <td className="p-2 text-right font-mono">
+                            {sector.energyShare.toFixed(1)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-600 mt-2">
+                    Wind speed at {windRose.height} m. Calm (&lt; 0.5 m/s):{" "}
+                    {windRose.calmFrequency.toFixed(1)}% of {windRose.hours}{" "}
+                    hours.
+                  </p>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
       {/* Correlation Matrix */}
       {researchData.correlations && (
         <div className="bg-gradient-to-br from-indigo-50 to-purple-100 p-6 rounded-2xl shadow-xl border border-indigo-200">
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { PVModuleSpec } from "@/types";
+import {
+  INVERTER_LIBRARY,
+  MODULE_LIBRARY,
+  findInverter,
+  findModule,
+  parseModuleRecord,
+  searchEquipment,
+} from "@/lib/models/equipmentLibrary";
+import { getCustomModules, saveCustomModule } from "@/lib/utils/storageUtils";
+
+export interface EquipmentSelection {
+  moduleId?: string;
+  modulesPerString: string;
+  stringsPerInverter: string;
+  inverterId?: string;
+  inverterCount: string;
+}
+
+interface EquipmentSelectorProps {
+  value: EquipmentSelection;
+  onChange: (value: EquipmentSelection) => void;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm";
+
+export default function EquipmentSelector({
+  value,
+  onChange,
+}: EquipmentSelectorProps) {
+  const [query, setQuery] = useState("");
+  const [customModules, setCustomModules] = useState<PVModuleSpec[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setCustomModules(getCustomModules());
+  }, []);
+
+  const modules = searchEquipment([...MODULE_LIBRARY, ...customModules], query);
+  const selectedModule = value.moduleId
+    ? findModule(value.moduleId, customModules)
+    : undefined;
+  const selectedInverter = value.inverterId
+    ? findInverter(value.inverterId)
+    : undefined;
+
+  const inverterCount = parseInt(value.inverterCount) || 1;
+  const moduleCount =
+    (parseInt(value.modulesPerString) || 1) *
+    (parseInt(value.stringsPerInverter) || 1) *
+    inverterCount;
+  const dcKw = selectedModule ? (selectedModule.pmp * moduleCount) / 1000 : 0;
+  const acKw = selectedInverter
+    ? (selectedInverter.paco * inverterCount) / 1000
+    : 0;
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = JSON.parse(e.target?.result as string);
+        const records = (Array.isArray(data) ? data : [data]).map(
+          parseModuleRecord
+        );
+        let updated = customModules;
+        records.forEach((record) => {
+          updated = saveCustomModule(record);
+        });
+        setCustomModules(updated);
+        setImportError(null);
+        onChange({ ...value, moduleId: records[0].id });
+      } catch (err) {
+        setImportError(
+          err instanceof Error ? err.message : "Could not read module file"
+        );
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-yellow-50/50 border-2 border-yellow-100 rounded-xl">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-semibold text-gray-700">
+          Equipment Library
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2.5 py-1 text-xs font-semibold text-yellow-700 bg-white border border-yellow-300 rounded-lg hover:bg-yellow-50 transition-all"
+        >
+          Import module JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search modules (e.g., bifacial 550)"
+        className={inputClassName}
+        style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+      />
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, moduleId: undefined })}
+          className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+            !value.moduleId
+              ? "bg-yellow-400 text-white font-semibold"
+              : "bg-white text-gray-700 hover:bg-yellow-100"
+          }`}
+        >
+          None (enter DC capacity)
+        </button>
+        {modules.map((m) => (
+          <button
+            key={m.id}
+            type="button"
+            onClick={() => onChange({ ...value, moduleId: m.id })}
+            className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+              value.moduleId === m.id
+                ? "bg-yellow-400 text-white font-semibold"
+                : "bg-white text-gray-700 hover:bg-yellow-100"
+            }`}
+          >
+            {m.manufacturer} {m.model} · {m.pmp} W · {m.gammaPmp}%/°C
+            {m.bifaciality ? ` · bifacial ${m.bifaciality}` : ""}
+          </button>
+        ))}
+      </div>
+
+      {selectedModule && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                Modules/string
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={value.modulesPerString}
+                onChange={(e) =>
+                  onChange({ ...value, modulesPerString: e.target.value })
+                }
+                placeholder="1"
+                className={inputClassName}
+                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                Strings/inverter
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={value.stringsPerInverter}
+                onChange={(e) =>
+                  onChange({ ...value, stringsPerInverter: e.target.value })
+                }
+                placeholder="1"
+                className={inputClassName}
+                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] font-medium text-gray-600 mb-1">
+                Inverters
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={value.inverterCount}
+                onChange={(e) =>
+                  onChange({ ...value, inverterCount: e.target.value })
+                }
+                placeholder="1"
+                className={inputClassName}
+                style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-1">
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, inverterId: undefined })}
+              className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+                !value.inverterId
+                  ? "bg-yellow-400 text-white font-semibold"
+                  : "bg-white text-gray-700 hover:bg-yellow-100"
+              }`}
+            >
+              No library inverter (PVWatts, settings below)
+            </button>
+            {INVERTER_LIBRARY.map((inv) => (
+              <button
+                key={inv.id}
+                type="button"
+                onClick={() => onChange({ ...value, inverterId: inv.id })}
+                className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-all ${
+                  value.inverterId === inv.id
+                    ? "bg-yellow-400 text-white font-semibold"
+                    : "bg-white text-gray-700 hover:bg-yellow-100"
+                }`}
+              >
+                {inv.manufacturer} {inv.model} · {inv.paco / 1000} kW AC
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-600 flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full"></span>
+            {moduleCount} modules · {dcKw.toFixed(2)} kW DC
+            {selectedInverter &&
+              ` · ${acKw.toFixed(1)} kW AC · DC/AC ${(dcKw / acKw).toFixed(2)}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
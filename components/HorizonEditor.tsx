@@ -0,0 +1,183 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { HorizonPoint, ShadingObstacle } from "@/types";
+import { parseHorizonCsv } from "@/lib/models/horizonModel";
+
+export interface ShadingSelection {
+  horizon: HorizonPoint[];
+  obstacles: ShadingObstacle[];
+}
+
+interface HorizonEditorProps {
+  value: ShadingSelection;
+  onChange: (value: ShadingSelection) => void;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 !bg-white border-2 border-gray-200 rounded-lg focus:outline-none focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200 transition-all text-sm";
+
+const OBSTACLE_FIELDS: [keyof ShadingObstacle, string, string][] = [
+  ["azimuth", "Azimuth (°)", "e.g., 90"],
+  ["distance", "Distance (m)", "e.g., 15"],
+  ["height", "Height (m)", "e.g., 8"],
+  ["width", "Width (m)", "e.g., 20"],
+];
+
+export default function HorizonEditor({ value, onChange }: HorizonEditorProps) {
+  const [draft, setDraft] = useState<
+    Partial<Record<keyof ShadingObstacle, string>>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const maxElevation = value.horizon.reduce(
+    (max, p) => Math.max(max, p.elevation),
+    0
+  );
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const horizon = parseHorizonCsv(e.target?.result as string);
+        onChange({ ...value, horizon });
+        setError(null);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Could not read horizon file"
+        );
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleAddObstacle = () => {
+    const azimuth = parseFloat(draft.azimuth ?? "");
+    const distance = parseFloat(draft.distance ?? "");
+    const height = parseFloat(draft.height ?? "");
+    const width = parseFloat(draft.width ?? "");
+
+    if ([azimuth, distance, height, width].some(isNaN)) {
+      setError("Enter azimuth, distance, height and width of the obstacle");
+      return;
+    }
+    if (azimuth < 0 || azimuth >= 360) {
+      setError("Obstacle azimuth must be between 0° and 360°");
+      return;
+    }
+    if (distance <= 0 || width <= 0 || height < 0) {
+      setError("Obstacle distance and width must be positive");
+      return;
+    }
+
+    onChange({
+      ...value,
+      obstacles: [...value.obstacles, { azimuth, distance, height, width }],
+    });
+    setDraft({});
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-yellow-50/50 border-2 border-yellow-100 rounded-xl">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-semibold text-gray-700">
+          Horizon & Shading
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2.5 py-1 text-xs font-semibold text-yellow-700 bg-white border border-yellow-300 rounded-lg hover:bg-yellow-50 transition-all"
+        >
+          Import horizon CSV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {value.horizon.length > 0 ? (
+        <div className="flex items-center justify-between text-xs text-gray-700">
+          <span>
+            Horizon: {value.horizon.length} points · up to{" "}
+            {maxElevation.toFixed(1)}°
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, horizon: [] })}
+            className="text-red-600 hover:underline"
+          >
+            Clear
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-600">
+          Flat horizon. CSV rows: azimuth (° from north), elevation (°)
+        </p>
+      )}
+
+      {value.obstacles.map((obstacle, index) => (
+        <div
+          key={index}
+          className="flex items-center justify-between text-xs text-gray-700 bg-white px-3 py-1.5 rounded-lg"
+        >
+          <span>
+            {obstacle.azimuth}° · {obstacle.distance} m away · {obstacle.height}{" "}
+            m tall · {obstacle.width} m wide
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...value,
+                obstacles: value.obstacles.filter((_, i) => i !== index),
+              })
+            }
+            className="text-red-600 hover:underline"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-4 gap-2">
+        {OBSTACLE_FIELDS.map(([key, label, placeholder]) => (
+          <div key={key}>
+            <label className="block text-[11px] font-medium text-gray-600 mb-1 truncate">
+              {label}
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              value={draft[key] ?? ""}
+              onChange={(e) =>
+                setDraft((prev) => ({ ...prev, [key]: e.target.value }))
+              }
+              placeholder={placeholder}
+              className={inputClassName}
+              style={{ color: "#1f2937", backgroundColor: "#ffffff" }}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={handleAddObstacle}
+        className="w-full py-1.5 text-xs font-semibold text-yellow-700 bg-white border border-yellow-300 rounded-lg hover:bg-yellow-50 transition-all"
+      >
+        Add obstacle
+      </button>
+    </div>
+  );
+}
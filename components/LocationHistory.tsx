@@ -151,14 +151,22 @@ export default function LocationHistory({ onSelectLocation }: LocationHistoryPro
                     className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
                       location.asset.type === "solar"
                         ? "bg-yellow-100 text-yellow-700"
+                        : location.asset.type === "hybrid"
+                        ? "bg-green-100 text-green-700"
                         : "bg-blue-100 text-blue-700"
                     }`}
                   >
-                    {location.asset.type === "solar" ? "☀️ Solar" : "💨 Wind"}
+                    {location.asset.type === "solar"
+                      ? "☀️ Solar"
+                      : location.asset.type === "hybrid"
+                      ? "☀️💨 Hybrid"
+                      : "💨 Wind"}
                   </span>
                   <span className="text-xs text-gray-600">
                     {location.asset.type === "solar"
                       ? `${location.asset.dcCapacity} kW`
+                      : location.asset.type === "hybrid"
+                      ? `${location.asset.interconnectionLimit} MW POI`
                       : `${location.asset.ratedCapacity} MW`}
                   </span>
                   <span className="text-xs text-gray-400">
@@ -7,7 +7,9 @@ import {
   formatEnergy,
   formatPercentage,
   formatNumber,
+  getMonthName,
 } from "@/lib/utils/formatters";
+import { weibullPdf } from "@/lib/models/weibullModel";
 
 interface LongTermAnalysisProps {
   analysis: LongTermAnalysisType;
@@ -16,6 +18,10 @@ interface LongTermAnalysisProps {
 export default function LongTermAnalysis({ analysis }: LongTermAnalysisProps) {
   const chartRef = useRef<HTMLDivElement>(null);
   const chartInstance = useRef<echarts.ECharts | null>(null);
+  const waterfallRef = useRef<HTMLDivElement>(null);
+  const waterfallInstance = useRef<echarts.ECharts | null>(null);
+  const weibullRef = useRef<HTMLDivElement>(null);
+  const weibullInstance = useRef<echarts.ECharts | null>(null);
 
   useEffect(() => {
     if (!chartRef.current) return;
@@ -135,17 +141,211 @@ export default function LongTermAnalysis({ analysis }: LongTermAnalysisProps) {
     };
   }, [analysis]);
 
+  useEffect(() => {
+    const steps = analysis.lossWaterfall;
+    if (!waterfallRef.current || !steps || steps.length === 0) return;
+
+    if (!waterfallInstance.current) {
+      waterfallInstance.current = echarts.init(waterfallRef.current);
+    }
+
+    const chart = waterfallInstance.current;
+    const finalEnergy = steps[steps.length - 1].energy;
+
+    // Each loss bar floats between the energy before and after the step
+    const labels = [...steps.map((s) => s.label), "AC output"];
+    const base = [
+      0,
+      ...steps.slice(1).map((s) => Math.min(s.energy, s.energy + s.loss)),
+      0,
+    ];
+    const bars = [
+      { value: steps[0].energy, itemStyle: { color: "#f59e0b" } },
+      ...steps.slice(1).map((s) => ({
+        value: Math.abs(s.loss),
+        itemStyle: { color: s.loss >= 0 ? "#ef4444" : "#10b981" },
+      })),
+      { value: finalEnergy, itemStyle: { color: "#3b82f6" } },
+    ];
+
+    const option: echarts.EChartsOption = {
+      title: {
+        text: "Annual Loss Waterfall",
+        subtext: "From nominal output to delivered AC energy",
+        left: "center",
+      },
+      tooltip: {
+        trigger: "axis",
+        axisPointer: { type: "shadow" },
+        formatter: function (params) {
+          const index = (Array.isArray(params) ? params[0] : params).dataIndex;
+          const label = labels[index];
+          if (index === 0 || index === labels.length - 1) {
+            return `<strong>${label}</strong><br/>${formatNumber(
+              Math.round(index === 0 ? steps[0].energy : finalEnergy)
+            )} kWh/year`;
+          }
+          const step = steps[index];
+          return `<strong>${label}</strong><br/>${
+            step.loss >= 0 ? "Loss" : "Gain"
+          }: ${formatNumber(Math.round(Math.abs(step.loss)))} kWh/year (${formatPercentage(
+            Math.abs(step.lossPercent)
+          )})`;
+        },
+      },
+      grid: {
+        left: "3%",
+        right: "4%",
+        bottom: "3%",
+        top: 70,
+        containLabel: true,
+      },
+      xAxis: {
+        type: "category",
+        data: labels,
+        axisLabel: {
+          rotate: 45,
+          interval: 0,
+        },
+      },
+      yAxis: {
+        type: "value",
+        name: "Energy (kWh/year)",
+      },
+      series: [
+        {
+          name: "Base",
+          type: "bar",
+          stack: "waterfall",
+          data: base,
+          itemStyle: { color: "transparent" },
+          emphasis: { disabled: true },
+        },
+        {
+          name: "Energy",
+          type: "bar",
+          stack: "waterfall",
+          data: bars,
+        },
+      ],
+    };
+
+    chart.setOption(option);
+
+    const handleResize = () => {
+      chart.resize();
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [analysis]);
+
+  useEffect(() => {
+    const fits = analysis.monthlyWeibull;
+    if (!weibullRef.current || !fits || fits.length === 0) return;
+
+    if (!weibullInstance.current) {
+      weibullInstance.current = echarts.init(weibullRef.current);
+    }
+
+    const chart = weibullInstance.current;
+
+    // Probability density of each month's fit, 0-25 m/s
+    const speeds: number[] = [];
+    for (let v = 0; v <= 25; v += 0.5) {
+      speeds.push(v);
+    }
+
+    const option: echarts.EChartsOption = {
+      title: {
+        text: "Hub-Height Wind Speed Distribution",
+        subtext: "Weibull fit per month",
+        left: "center",
+      },
+      tooltip: {
+        trigger: "axis",
+        formatter: function (params) {
+          const list = Array.isArray(params) ? params : [params];
+          let result = `<strong>${speeds[list[0].dataIndex]} m/s</strong><br/>`;
+          list.forEach((param) => {
+            result += `${param.marker} ${param.seriesName}: ${(
+              (param.value as number) * 100
+            ).toFixed(1)}% per m/s<br/>`;
+          });
+          return result;
+        },
+      },
+      legend: {
+        type: "scroll",
+        top: 50,
+      },
+      grid: {
+        left: "3%",
+        right: "4%",
+        bottom: "3%",
+        top: 90,
+        containLabel: true,
+      },
+      xAxis: {
+        type: "category",
+        name: "Wind speed (m/s)",
+        nameLocation: "middle",
+        nameGap: 30,
+        data: speeds.map((v) => v.toString()),
+        boundaryGap: false,
+      },
+      yAxis: {
+        type: "value",
+        name: "Probability density",
+      },
+      series: fits.map((fit) => ({
+        name: `${getMonthName(fit.month).slice(0, 3)} (k ${fit.k.toFixed(
+          2
+        )}, c ${fit.c.toFixed(1)})`,
+        type: "line" as const,
+        data: speeds.map((v) => weibullPdf(v, fit)),
+        showSymbol: false,
+        smooth: true,
+      })),
+    };
+
+    chart.setOption(option, true);
+
+    const handleResize = () => {
+      chart.resize();
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [analysis]);
+
   useEffect(() => {
     return () => {
       if (chartInstance.current) {
         chartInstance.current.dispose();
         chartInstance.current = null;
       }
+      if (waterfallInstance.current) {
+        waterfallInstance.current.dispose();
+        waterfallInstance.current = null;
+      }
+      if (weibullInstance.current) {
+        weibullInstance.current.dispose();
+        weibullInstance.current = null;
+      }
     };
   }, []);
 
   const isSolar = analysis.asset.type === "solar";
   const unit = isSolar ? "kWh" : "MWh";
+  // Clipping is in kWh, also for the solar part of a hybrid
+  const annualProductionKwh = isSolar
+    ? analysis.annualProduction
+    : analysis.annualProduction * 1000;
 
   return (
     <div
@@ -191,8 +391,184 @@ export default function LongTermAnalysis({ analysis }: LongTermAnalysisProps) {
         </div>
       </div>
 
+      {analysis.annualClippingLoss !== undefined && (
+        <div className="bg-gradient-to-br from-amber-50 to-orange-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-2">
+          <div className="text-sm text-amber-700 font-medium">
+            Inverter Clipping Loss
+          </div>
+          <div className="text-lg font-bold text-amber-900">
+            {formatNumber(Math.round(analysis.annualClippingLoss))} kWh/year
+            <span className="ml-2 text-sm font-medium text-amber-700">
+              (
+              {formatPercentage(
+                (analysis.annualClippingLoss /
+                  Math.max(
+                    1,
+                    annualProductionKwh + analysis.annualClippingLoss
+                  )) *
+                  100
+              )}{" "}
+              of potential output)
+            </span>
+          </div>
+        </div>
+      )}
+
+      {analysis.annualHighWindShutdownHours !== undefined && (
+        <div className="bg-gradient-to-br from-sky-50 to-blue-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-2">
+          <div className="text-sm text-blue-700 font-medium">
+            High-Wind Shutdown
+          </div>
+          <div className="text-lg font-bold text-blue-900">
+            {formatNumber(Math.round(analysis.annualHighWindShutdownHours))}{" "}
+            hours/year
+            <span className="ml-2 text-sm font-medium text-blue-700">
+              (
+              {formatPercentage(
+                (analysis.annualHighWindShutdownHours / 8760) * 100
+              )}{" "}
+              of the year)
+            </span>
+          </div>
+        </div>
+      )}
+
+      {analysis.annualIcingHours !== undefined &&
+        analysis.annualIcingHours > 0 && (
+          <div className="bg-gradient-to-br from-cyan-50 to-teal-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm text-cyan-700 font-medium">
+              Icing Conditions at Hub Height
+            </div>
+            <div className="text-lg font-bold text-cyan-900">
+              {formatNumber(Math.round(analysis.annualIcingHours))} hours/year
+            </div>
+          </div>
+        )}
+
+      {analysis.hybrid && (
+        <div className="bg-gradient-to-br from-emerald-50 to-green-100 p-4 rounded-lg">
+          <div className="text-sm text-green-700 font-medium mb-3">
+            Hybrid Plant Contribution
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-green-900">
+            <div>
+              <div className="text-xs text-green-700">Solar</div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.hybrid.solarEnergy))} MWh/year
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-green-700">Wind</div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.hybrid.windEnergy))} MWh/year
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-green-700">
+                Curtailed at Interconnection
+              </div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.hybrid.curtailedEnergy))}{" "}
+                MWh/year
+                <span className="ml-2 text-sm font-medium text-green-700">
+                  ({formatPercentage(analysis.hybrid.curtailmentPercent)})
+                </span>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-green-700">
+                Solar-Wind Correlation
+              </div>
+              <div className="text-lg font-bold">
+                {analysis.hybrid.complementarity.correlation !== undefined
+                  ? analysis.hybrid.complementarity.correlation.toFixed(2)
+                  : "N/A"}
+                <span className="ml-2 text-sm font-medium text-green-700">
+                  (variability{" "}
+                  {analysis.hybrid.complementarity.combinedVariability.toFixed(
+                    2
+                  )}{" "}
+                  combined vs{" "}
+                  {analysis.hybrid.complementarity.windVariability.toFixed(2)}{" "}
+                  wind)
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {analysis.battery && (
+        <div className="bg-gradient-to-br from-violet-50 to-purple-100 p-4 rounded-lg">
+          <div className="text-sm text-purple-700 font-medium mb-3">
+            Battery Storage ({analysis.battery.strategy})
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-purple-900">
+            <div>
+              <div className="text-xs text-purple-700">Delivered Energy</div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.battery.deliveredEnergy))}{" "}
+                {unit}/year
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-purple-700">Discharged</div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.battery.dischargedEnergy))}{" "}
+                {unit}/year
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-purple-700">Full Cycles</div>
+              <div className="text-lg font-bold">
+                {formatNumber(Math.round(analysis.battery.equivalentCycles))}
+                /year
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-purple-700">
+                Capacity Fade (end of period)
+              </div>
+              <div className="text-lg font-bold">
+                {formatPercentage(analysis.battery.capacityFade)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div ref={chartRef} style={{ width: "100%", height: "400px" }} />
 
+      {analysis.lossWaterfall && analysis.lossWaterfall.length > 0 && (
+        <div ref={waterfallRef} style={{ width: "100%", height: "420px" }} />
+      )}
+
+      {analysis.monthlyWeibull && analysis.monthlyWeibull.length > 0 && (
+        <div ref={weibullRef} style={{ width: "100%", height: "420px" }} />
+      )}
+
+      {analysis.sectorWeibull && analysis.sectorWeibull.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">
+            Weibull Fit by Direction Sector
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+            {analysis.sectorWeibull.map((sector) => (
+              <div
+                key={sector.direction}
+                className="bg-blue-50 px-3 py-2 rounded-lg text-xs text-gray-700"
+              >
+                <div className="font-semibold text-blue-900">
+                  {sector.direction}° ·{" "}
+                  {formatPercentage(sector.frequency * 100)}
+                </div>
+                k {sector.k.toFixed(2)} · c {sector.c.toFixed(1)} m/s
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="mt-6">
         <h3 className="text-lg font-semibold text-gray-800 mb-3">
           Monthly Breakdown
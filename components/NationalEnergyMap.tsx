@@ -3,7 +3,12 @@
 import { useEffect, useRef, useState } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import { NationalEnergyMap as NationalEnergyMapType, Location } from "@/types";
+import {
+  NationalEnergyMap as NationalEnergyMapType,
+  Location,
+  PowerForecast,
+} from "@/types";
+import { resolveTurbinePositions } from "@/lib/models/windModel";
 
 // Note: You'll need to add your Mapbox token
 // Get a free token at https://www.mapbox.com/
@@ -15,12 +20,17 @@ interface NationalEnergyMapProps {
   type: "solar" | "wind";
   onTypeChange: (type: "solar" | "wind") => void;
   userLocation?: Location | null; // Optional: user's searched location
+  forecast?: PowerForecast | null; // Optional: shows a wind farm layout at the user location
 }
 
+// Metres per degree of latitude
+const METERS_PER_DEGREE = 111320;
+
 export default function NationalEnergyMap({
   type,
   onTypeChange,
   userLocation,
+  forecast,
 }: NationalEnergyMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
@@ -34,6 +44,7 @@ export default function NationalEnergyMap({
   const [isAnimating, setIsAnimating] = useState(false);
   const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const userRadiusLayerId = "user-location-radius";
+  const farmLayoutLayerId = "user-farm-layout";
   const [userLocationValue, setUserLocationValue] = useState<number | null>(
     null
   );
@@ -579,6 +590,109 @@ export default function NationalEnergyMap({
     };
   }, [userLocation, userLocationValue, nationalAverage, type]);
 
+  // Handle wind farm layout overlay at the user location
+  useEffect(() => {
+    if (!map.current) return;
+
+    const mapInstance = map.current;
+
+    const removeFarmLayer = () => {
+      if (!mapInstance.isStyleLoaded()) return;
+
+      try {
+        if (mapInstance.getLayer(farmLayoutLayerId)) {
+          mapInstance.removeLayer(farmLayoutLayerId);
+        }
+        if (mapInstance.getSource(farmLayoutLayerId)) {
+          mapInstance.removeSource(farmLayoutLayerId);
+        }
+      } catch (err) {
+        console.error("Error removing farm layout layer:", err);
+      }
+    };
+
+    removeFarmLayer();
+
+    const asset = forecast?.asset.type === "wind" ? forecast.asset : null;
+    const positions = asset ? resolveTurbinePositions(asset) : null;
+    if (!userLocation || !forecast || !asset || !positions) return;
+
+    // Mean capacity factor of each turbine over the forecast
+    const turbineCapacity = asset.ratedCapacity / positions.length;
+    const metersPerDegreeLon =
+      METERS_PER_DEGREE * Math.cos((userLocation.latitude * Math.PI) / 180);
+    const layoutGeoJSON: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      features: positions.map((position, index) => {
+        const meanPower =
+          forecast.outputs.reduce(
+            (sum, output) => sum + (output.turbinePower?.[index] ?? 0),
+            0
+          ) / Math.max(1, forecast.outputs.length);
+        return {
+          type: "Feature",
+          geometry: {
+            type: "Point",
+            coordinates: [
+              userLocation.longitude + position.x / metersPerDegreeLon,
+              userLocation.latitude + position.y / METERS_PER_DEGREE,
+            ],
+          },
+          properties: {
+            capacityFactor:
+              turbineCapacity > 0 ? (meanPower / turbineCapacity) * 100 : 0,
+          },
+        };
+      }),
+    };
+
+    const addFarmLayer = () => {
+      if (!mapInstance.isStyleLoaded()) {
+        mapInstance.once("styledata", addFarmLayer);
+        return;
+      }
+
+      try {
+        removeFarmLayer();
+
+        mapInstance.addSource(farmLayoutLayerId, {
+          type: "geojson",
+          data: layoutGeoJSON,
+        });
+
+        mapInstance.addLayer({
+          id: farmLayoutLayerId,
+          type: "circle",
+          source: farmLayoutLayerId,
+          paint: {
+            "circle-radius": ["interpolate", ["linear"], ["zoom"], 8, 2, 14, 8],
+            "circle-color": [
+              "interpolate",
+              ["linear"],
+              ["get", "capacityFactor"],
+              0,
+              "#ef4444",
+              25,
+              "#f59e0b",
+              50,
+              "#10b981",
+            ],
+            "circle-stroke-width": 1,
+            "circle-stroke-color": "#ffffff",
+          },
+        });
+      } catch (err) {
+        console.error("Error adding farm layout layer:", err);
+      }
+    };
+
+    addFarmLayer();
+
+    return () => {
+      removeFarmLayer();
+    };
+  }, [userLocation, forecast]);
+
   // Zoom to user location function
   const zoomToUserLocation = () => {
     if (map.current && userLocation) {
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef } from "react";
 import * as echarts from "echarts";
-import { PowerForecast } from "@/types";
+import { HighWindStatus, PowerForecast } from "@/types";
 import {
   formatDateTime,
   formatPower,
@@ -13,6 +13,43 @@ interface PowerForecastChartProps {
   forecast: PowerForecast;
 }
 
+const HIGH_WIND_LABELS: Record<HighWindStatus, string> = {
+  normal: "",
+  "at-risk": "High-wind shutdown risk",
+  shutdown: "High-wind shutdown",
+};
+
+const HIGH_WIND_COLORS: Record<HighWindStatus, string> = {
+  normal: "",
+  "at-risk": "rgba(245, 158, 11, 0.15)",
+  shutdown: "rgba(239, 68, 68, 0.2)",
+};
+
+// Contiguous runs of hours with a high-wind status, as chart mark areas
+const highWindAreas = (forecast: PowerForecast, status: HighWindStatus) => {
+  const areas: [
+    { name: string; xAxis: string; itemStyle: { color: string } },
+    { xAxis: string },
+  ][] = [];
+  forecast.outputs.forEach((output, i) => {
+    if (output.highWindStatus !== status) return;
+    const last = areas[areas.length - 1];
+    if (last && forecast.outputs[i - 1]?.highWindStatus === status) {
+      last[1].xAxis = output.time;
+    } else {
+      areas.push([
+        {
+          name: HIGH_WIND_LABELS[status],
+          xAxis: output.time,
+          itemStyle: { color: HIGH_WIND_COLORS[status] },
+        },
+        { xAxis: output.time },
+      ]);
+    }
+  });
+  return areas;
+};
+
 export default function PowerForecastChart({
   forecast,
 }: PowerForecastChartProps) {
@@ -36,6 +73,8 @@ export default function PowerForecastChart({
 
     // Meteorological data
     const isSolar = forecast.asset.type === "solar";
+    const isHybrid = forecast.asset.type === "hybrid";
+    const hasBattery = forecast.battery !== undefined;
     const meteoData = isSolar
       ? forecast.meteorologicalData.map((d) => d.solarIrradiance || 0)
       : forecast.meteorologicalData.map((d) => d.windSpeed || 0);
@@ -52,13 +91,39 @@ export default function PowerForecastChart({
     const unit = isSolar ? "kW" : "MW";
     const energyUnit = isSolar ? "kWh" : "MWh";
 
+    // Hours flagged by the high-wind controller, wind only
+    const shutdownHours = forecast.outputs.filter(
+      (o) => o.highWindStatus === "shutdown"
+    ).length;
+    const atRiskHours = forecast.outputs.filter(
+      (o) => o.highWindStatus === "at-risk"
+    ).length;
+    const highWindSummary =
+      shutdownHours + atRiskHours > 0
+        ? ` | High wind: ${shutdownHours} h shutdown, ${atRiskHours} h at risk`
+        : "";
+
+    // Energy lost to the interconnection limit, hybrid only
+    const curtailmentSummary = forecast.hybrid
+      ? ` | Curtailed: ${forecast.hybrid.curtailedEnergy.toFixed(2)} MWh`
+      : "";
+    const batterySummary = forecast.battery
+      ? ` | Delivered with battery: ${forecast.battery.deliveredEnergy.toFixed(
+          2
+        )} ${energyUnit}`
+      : "";
+
     // Chart configuration
     const option: echarts.EChartsOption = {
       title: {
-        text: `${isSolar ? "Solar" : "Wind"} Power Forecast - Next 48 Hours`,
+        text: `${
+          isSolar ? "Solar" : isHybrid ? "Hybrid" : "Wind"
+        } Power Forecast - Next 48 Hours`,
         subtext: `Total Energy: ${totalEnergy.toFixed(
           2
-        )} ${energyUnit} | Avg Capacity Factor: ${avgCapacity.toFixed(1)}%`,
+        )} ${energyUnit} | Avg Capacity Factor: ${avgCapacity.toFixed(
+          1
+        )}%${highWindSummary}${curtailmentSummary}${batterySummary}`,
         left: "center",
       },
       tooltip: {
@@ -70,6 +135,32 @@ export default function PowerForecastChart({
           let result = `<strong>${formatDateTime(
             params[0].axisValue
           )}</strong><br/>`;
+          const output = forecast.outputs[params[0].dataIndex];
+          if (output?.highWindStatus && output.highWindStatus !== "normal") {
+            result += `<span style="color:#dc2626">${
+              HIGH_WIND_LABELS[output.highWindStatus]
+            }</span><br/>`;
+          }
+          if (output?.icingRisk && output.icingRisk !== "none") {
+            result += `<span style="color:#0891b2">Icing risk: ${output.icingRisk}</span><br/>`;
+          }
+          if (output?.turbulenceIntensity !== undefined) {
+            result += `Turbulence Intensity: ${(
+              output.turbulenceIntensity * 100
+            ).toFixed(0)}%<br/>`;
+          }
+          // Array details of a solar asset or of the solar part of a hybrid
+          const solarOutput = output?.solar ?? output;
+          if (solarOutput?.poa) {
+            result += `POA Irradiance: ${solarOutput.poa.global.toFixed(
+              0
+            )} W/m²<br/>`;
+          }
+          if (solarOutput?.cellTemperature !== undefined) {
+            result += `Cell Temperature: ${solarOutput.cellTemperature.toFixed(
+              1
+            )} °C<br/>`;
+          }
           params.forEach((param: any) => {
             result += `${param.marker} ${
               param.seriesName
@@ -87,14 +178,24 @@ export default function PowerForecastChart({
         },
       },
       legend: {
-        data: isSolar
-          ? [
-              "Power Output",
-              "Capacity Factor",
-              "Solar Irradiance",
-              "Cloud Cover",
-            ]
-          : ["Power Output", "Capacity Factor", "Wind Speed"],
+        data: [
+          ...(isSolar
+            ? [
+                "Power Output",
+                "Capacity Factor",
+                "Solar Irradiance",
+                "Cloud Cover",
+              ]
+            : [
+                "Power Output",
+                "Capacity Factor",
+                "Wind Speed",
+                ...(isHybrid
+                  ? ["Solar Power", "Wind Power", "Curtailed Power"]
+                  : []),
+              ]),
+          ...(hasBattery ? ["Delivered Power", "Battery SOC"] : []),
+        ],
         top: 40,
         textStyle: {
           fontSize: 11,
@@ -182,6 +283,14 @@ export default function PowerForecastChart({
           itemStyle: {
             color: isSolar ? "#f59e0b" : "#3b82f6",
           },
+          markArea: {
+            silent: true,
+            label: { show: false },
+            data: [
+              ...highWindAreas(forecast, "shutdown"),
+              ...highWindAreas(forecast, "at-risk"),
+            ],
+          },
           areaStyle: {
             color: new echarts.graphic.LinearGradient(0, 0, 0, 1, [
               {
@@ -233,6 +342,72 @@ export default function PowerForecastChart({
               },
             ]
           : []),
+        ...(isHybrid
+          ? [
+              {
+                name: "Solar Power",
+                type: "line" as const,
+                data: forecast.outputs.map((o) => o.solarPower ?? 0),
+                smooth: true,
+                yAxisIndex: 0,
+                itemStyle: {
+                  color: "#f59e0b",
+                },
+                lineStyle: {
+                  type: "dashed" as const,
+                },
+              },
+              {
+                name: "Wind Power",
+                type: "line" as const,
+                data: forecast.outputs.map((o) => o.windPower ?? 0),
+                smooth: true,
+                yAxisIndex: 0,
+                itemStyle: {
+                  color: "#06b6d4",
+                },
+                lineStyle: {
+                  type: "dashed" as const,
+                },
+              },
+              {
+                name: "Curtailed Power",
+                type: "bar" as const,
+                data: forecast.outputs.map((o) => o.curtailedPower ?? 0),
+                yAxisIndex: 0,
+                itemStyle: {
+                  color: "rgba(220, 38, 38, 0.6)",
+                },
+              },
+            ]
+          : []),
+        ...(hasBattery
+          ? [
+              {
+                name: "Delivered Power",
+                type: "line" as const,
+                data: forecast.outputs.map((o) => o.deliveredPower ?? o.power),
+                smooth: true,
+                yAxisIndex: 0,
+                itemStyle: {
+                  color: "#7c3aed",
+                },
+              },
+              {
+                name: "Battery SOC",
+                type: "line" as const,
+                data: forecast.outputs.map((o) => o.batterySoc ?? 0),
+                smooth: true,
+                yAxisIndex: 2,
+                itemStyle: {
+                  color: "#a855f7",
+                },
+                lineStyle: {
+                  type: "dotted" as const,
+                },
+              },
+            ]
+          : []),
       ],
     };
 
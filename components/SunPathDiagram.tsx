@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import * as echarts from "echarts";
+import { PowerForecast } from "@/types";
+import { calculateSunPath } from "@/lib/models/solarPosition";
+import {
+  calculateHorizonElevation,
+  hasShadingProfile,
+} from "@/lib/models/horizonModel";
+
+interface SunPathDiagramProps {
+  forecast: PowerForecast;
+}
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW", "N"];
+
+// Break a path where it wraps across north so the line does not span the chart
+const splitAtNorth = (points: [number, number][]) =>
+  points.flatMap((point, i) =>
+    i > 0 && Math.abs(point[0] - points[i - 1][0]) > 180
+      ? ["-" as const, point]
+      : [point]
+  );
+
+export default function SunPathDiagram({ forecast }: SunPathDiagramProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || forecast.asset.type !== "solar") return;
+
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const chart = chartInstance.current;
+    const asset = forecast.asset;
+    const year = forecast.outputs[0]?.time.slice(0, 4) ?? "2025";
+
+    // Effective horizon, including nearby obstacles
+    const horizon: [number, number][] = [];
+    for (let azimuth = 0; azimuth <= 360; azimuth += 1) {
+      horizon.push([azimuth, calculateHorizonElevation(asset, azimuth)]);
+    }
+
+    // Reference paths at the solstices and the equinox
+    const referenceDays: [string, string, string][] = [
+      ["June solstice", `${year}-06-21`, "#f59e0b"],
+      ["Equinox", `${year}-03-20`, "#10b981"],
+      ["December solstice", `${year}-12-21`, "#3b82f6"],
+    ];
+
+    // Forecast hours with the sun up, split by whether the beam was blocked
+    const clearHours: [number, number][] = [];
+    const blockedHours: [number, number][] = [];
+    forecast.meteorologicalData.forEach((hour, index) => {
+      if (
+        hour.solarAzimuth === undefined ||
+        hour.solarElevation === undefined ||
+        hour.solarElevation <= 0
+      ) {
+        return;
+      }
+      const point: [number, number] = [hour.solarAzimuth, hour.solarElevation];
+      if (forecast.outputs[index]?.beamBlocked) {
+        blockedHours.push(point);
+      } else {
+        clearHours.push(point);
+      }
+    });
+
+    const option: echarts.EChartsOption = {
+      title: {
+        text: "Sun Path & Horizon",
+        subtext: hasShadingProfile(asset)
+          ? `${blockedHours.length} of ${
+              clearHours.length + blockedHours.length
+            } daylight forecast hours behind the horizon or an obstacle`
+          : "Flat horizon (no horizon profile or obstacles)",
+        left: "center",
+      },
+      tooltip: {
+        trigger: "item",
+        formatter: (params) => {
+          const param = Array.isArray(params) ? params[0] : params;
+          const [azimuth, elevation] = param.value as [number, number];
+          return `${param.seriesName}<br/>Azimuth: ${azimuth.toFixed(
+            0
+          )}°<br/>Elevation: ${elevation.toFixed(1)}°`;
+        },
+      },
+      legend: {
+        top: 50,
+        textStyle: {
+          fontSize: 11,
+        },
+      },
+      grid: {
+        left: "60px",
+        right: "30px",
+        bottom: "50px",
+        top: "100px",
+      },
+      xAxis: {
+        type: "value",
+        name: "Azimuth",
+        nameLocation: "middle",
+        nameGap: 30,
+        min: 0,
+        max: 360,
+        interval: 45,
+        axisLabel: {
+          formatter: (value: number) => COMPASS_POINTS[Math.round(value / 45)],
+        },
+      },
+      yAxis: {
+        type: "value",
+        name: "Elevation (°)",
+        min: 0,
+        max: 90,
+        interval: 15,
+      },
+      series: [
+        {
+          name: "Horizon",
+          type: "line" as const,
+          data: horizon,
+          showSymbol: false,
+          lineStyle: { color: "#4b5563", width: 1.5 },
+          areaStyle: { color: "rgba(75, 85, 99, 0.35)" },
+          z: 1,
+        },
+        ...referenceDays.map(([name, date, color]) => ({
+          name,
+          type: "line" as const,
+          data: splitAtNorth(
+            calculateSunPath(date, forecast.location, 10).map(
+              (p): [number, number] => [p.azimuth, p.elevation]
+            )
+          ),
+          showSymbol: false,
+          lineStyle: { color, width: 1.5, type: "dashed" as const },
+          itemStyle: { color },
+        })),
+        {
+          name: "Forecast sun",
+          type: "scatter" as const,
+          data: clearHours,
+          symbolSize: 7,
+          itemStyle: { color: "#f59e0b" },
+        },
+        {
+          name: "Forecast sun (blocked)",
+          type: "scatter" as const,
+          data: blockedHours,
+          symbolSize: 7,
+          itemStyle: { color: "#6b7280" },
+        },
+      ],
+    };
+
+    chart.setOption(option, true);
+
+    const handleResize = () => {
+      chart.resize();
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [forecast]);
+
+  useEffect(() => {
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, []);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div ref={chartRef} style={{ width: "100%", height: "450px" }} />
+    </div>
+  );
+}
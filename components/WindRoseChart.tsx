@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import * as echarts from "echarts";
+import { WindRose } from "@/types";
+import { buildWindRoseOption } from "@/lib/utils/windRoseChart";
+
+interface WindRoseChartProps {
+  rose: WindRose;
+  title: string;
+}
+
+export default function WindRoseChart({ rose, title }: WindRoseChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const chart = chartInstance.current;
+    chart.setOption(buildWindRoseOption(rose, title), true);
+
+    const handleResize = () => {
+      chart.resize();
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [rose, title]);
+
+  useEffect(() => {
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, []);
+
+  return <div ref={chartRef} style={{ width: "100%", height: "450px" }} />;
+}
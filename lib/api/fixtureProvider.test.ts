@@ -0,0 +1,217 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HourlyWeatherData, SolarAsset } from "@/types";
+import { createFixtureProvider } from "@/lib/api/fixtureProvider";
+import {
+  fetchCachedForecast,
+  getWeatherProvider,
+  openMeteoProvider,
+  WeatherProvider,
+} from "@/lib/api/weatherProviders";
+import { NotFoundError } from "@/lib/api/upstreamErrors";
+import { generateSolarForecast } from "@/lib/models/solarModel";
+
+const DEFAULT_FIXTURES = path.join(process.cwd(), "fixtures", "weather");
+const location = { latitude: 39.74, longitude: -105.18 };
+
+/** Hourly records from a start time (UTC) */
+function hours(start: string, count: number): HourlyWeatherData[] {
+  const t0 = Date.parse(`${start}Z`);
+  return Array.from({ length: count }, (_, i) => ({
+    time: new Date(t0 + i * 3600000).toISOString().slice(0, 16),
+    temperature: 10,
+  }));
+}
+
+/** Recording provider that serves generated hours */
+function fakeRecorder(): WeatherProvider {
+  return {
+    ...openMeteoProvider,
+    fetchForecast: vi.fn(async (_location, count) =>
+      hours("2024-06-01T00:00", count)
+    ),
+    fetchHistorical: vi.fn(async (_location, startDate, endDate) => {
+      const days = (Date.parse(endDate) - Date.parse(startDate)) / 86400000;
+      return hours(`${startDate}T00:00`, (days + 1) * 24);
+    }),
+  };
+}
+
+describe("default recordings", () => {
+  const provider = createFixtureProvider(
+    DEFAULT_FIXTURES,
+    openMeteoProvider.capabilities
+  );
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("serve the first forecast hours for any location", async () => {
+    const data = await provider.fetchForecast(
+      { latitude: -33.87, longitude: 151.21 },
+      48
+    );
+
+    expect(data).toHaveLength(48);
+    expect(data[0].time).toBe("2024-06-01T00:00");
+  });
+
+  it("serve the recorded hours within a historical range", async () => {
+    const data = await provider.fetchHistorical(
+      location,
+      "2023-01-02",
+      "2023-01-03"
+    );
+
+    expect(data).toHaveLength(48);
+    expect(data[0].time).toBe("2023-01-02T00:00");
+    expect(data[47].time).toBe("2023-01-03T23:00");
+  });
+
+  it("reject a historical range outside the recorded dates", async () => {
+    await expect(
+      provider.fetchHistorical(location, "2023-01-10", "2023-01-20")
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      provider.fetchHistorical(location, "2024-01-01", "2024-12-31")
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("reject a forecast longer than the recording", async () => {
+    await expect(provider.fetchForecast(location, 240)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it("drive an offline forecast through the fixture provider", async () => {
+    vi.stubEnv("WEATHER_FIXTURE_DIR", "");
+    vi.stubEnv("WEATHER_FIXTURE_RECORD", "");
+    const weather = await fetchCachedForecast(
+      getWeatherProvider("fixture"),
+      location,
+      48
+    );
+
+    const asset: SolarAsset = {
+      type: "solar",
+      dcCapacity: 100,
+      tilt: 30,
+      azimuth: 180,
+    };
+    const outputs = generateSolarForecast(asset, weather, location);
+
+    expect(weather.every((hour) => hour.source === "fixture")).toBe(true);
+    expect(outputs).toHaveLength(48);
+    // Dark at local midnight, producing around solar noon
+    expect(outputs[0].power).toBe(0);
+    expect(outputs[13].power).toBeGreaterThan(50);
+  });
+});
+
+describe("record mode", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "weather-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("records a missing location and then serves the recording", async () => {
+    const recorder = fakeRecorder();
+    const provider = createFixtureProvider(
+      directory,
+      recorder.capabilities,
+      recorder
+    );
+
+    await provider.fetchForecast(location, 48);
+    const data = await provider.fetchForecast(location, 24);
+
+    expect(data).toHaveLength(24);
+    expect(recorder.fetchForecast).toHaveBeenCalledTimes(1);
+    expect(await fs.readdir(directory)).toEqual([
+      "forecast_39.74_-105.18.json",
+    ]);
+  });
+
+  it("re-records a forecast shorter than the request", async () => {
+    const recorder = fakeRecorder();
+    const provider = createFixtureProvider(
+      directory,
+      recorder.capabilities,
+      recorder
+    );
+
+    await provider.fetchForecast(location, 24);
+    const data = await provider.fetchForecast(location, 72);
+
+    expect(data).toHaveLength(72);
+    expect(recorder.fetchForecast).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-records a historical range outside the recorded dates", async () => {
+    const recorder = fakeRecorder();
+    const provider = createFixtureProvider(
+      directory,
+      recorder.capabilities,
+      recorder
+    );
+
+    await provider.fetchHistorical(location, "2023-01-01", "2023-01-03");
+    const inside = await provider.fetchHistorical(
+      location,
+      "2023-01-02",
+      "2023-01-03"
+    );
+    expect(inside).toHaveLength(48);
+    expect(recorder.fetchHistorical).toHaveBeenCalledTimes(1);
+
+    const wider = await provider.fetchHistorical(
+      location,
+      "2023-01-02",
+      "2023-01-05"
+    );
+    expect(wider).toHaveLength(96);
+    expect(recorder.fetchHistorical).toHaveBeenCalledTimes(2);
+  });
+
+  it("records a multi-year range one calendar year at a time", async () => {
+    const recorder = fakeRecorder();
+    const provider = createFixtureProvider(
+      directory,
+      recorder.capabilities,
+      recorder
+    );
+
+    const data = await provider.fetchHistorical(
+      location,
+      "2022-12-31",
+      "2023-01-01"
+    );
+
+    expect(data).toHaveLength(48);
+    expect(recorder.fetchHistorical).toHaveBeenCalledTimes(2);
+    expect(recorder.fetchHistorical).toHaveBeenLastCalledWith(
+      location,
+      "2023-01-01",
+      "2023-01-01"
+    );
+  });
+
+  it("reports a missing fixture without a recorder", async () => {
+    const provider = createFixtureProvider(
+      directory,
+      openMeteoProvider.capabilities
+    );
+
+    await expect(provider.fetchForecast(location, 48)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  HourlyWeatherData,
+  Location,
+  WeatherProviderCapabilities,
+} from "@/types";
+import type { WeatherProvider } from "@/lib/api/weatherProviders";
+import { NotFoundError, UpstreamInvalidError } from "@/lib/api/upstreamErrors";
+import { splitDateRange } from "@/lib/api/weatherClient";
+
+/**
+ * Fixture Weather Provider
+ *
+ * Serves recorded hourly weather from JSON files so recorded sites run offline
+ * and gives repeatable results. Each file holds an array of
+ * HourlyWeatherData. For a request the provider reads, in order:
+ * 1. <kind>_<lat>_<lon>.json - recorded for the location (2 decimals)
+ * 2. <kind>.json - default recording used for any location
+ *
+ * where kind is "forecast" or "historical". Forecasts return the first
+ * hours of the recording; historical requests return the recorded hours
+ * within the requested dates.
+ *
+ * A recording that does not cover the request (too few forecast hours, or
+ * a historical range outside the recorded dates) is never served in part.
+ * With a recording provider, a location file that is missing or does not
+ * cover the request is fetched from that provider and written to the
+ * directory before it is served; without one the request fails with
+ * NotFoundError.
+ *
+ * Recordings hold every variable of the recording provider, so the
+ * variables a caller asks for are not passed on: a file recorded for one
+ * route then serves the others too.
+ */
+
+type FixtureKind = "forecast" | "historical";
+
+/**
+ * File names tried for a request, most specific first
+ *
+ * @param kind - Forecast or historical
+ * @param location - Location coordinates
+ * @returns Location-specific and default file names
+ */
+function fixtureFileNames(kind: FixtureKind, location: Location): string[] {
+  const lat = location.latitude.toFixed(2);
+  const lon = location.longitude.toFixed(2);
+  return [`${kind}_${lat}_${lon}.json`, `${kind}.json`];
+}
+
+/**
+ * Read the first fixture file that exists
+ *
+ * @param directory - Fixture directory
+ * @param fileNames - Candidate file names
+ * @returns Recorded hours, or undefined when no file exists
+ */
+async function readFixture(
+  directory: string,
+  fileNames: string[]
+): Promise<HourlyWeatherData[] | undefined> {
+  for (const fileName of fileNames) {
+    try {
+      const content = await fs.readFile(path.join(directory, fileName), "utf8");
+      return JSON.parse(content) as HourlyWeatherData[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new UpstreamInvalidError(
+          "fixture",
+          `Invalid weather fixture ${fileName}`
+        );
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a recording spans a date range
+ *
+ * @param recorded - Recorded hours in time order
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @returns True when the first and last recorded dates enclose the range
+ */
+function coversDates(
+  recorded: HourlyWeatherData[],
+  startDate: string,
+  endDate: string
+): boolean {
+  if (recorded.length === 0) {
+    return false;
+  }
+  const first = recorded[0].time.slice(0, 10);
+  const last = recorded[recorded.length - 1].time.slice(0, 10);
+  return first <= startDate && last >= endDate;
+}
+
+/**
+ * Write a recording to the fixture directory
+ *
+ * @param directory - Fixture directory
+ * @param fileName - File name
+ * @param data - Hours to record
+ */
+async function writeFixture(
+  directory: string,
+  fileName: string,
+  data: HourlyWeatherData[]
+): Promise<void> {
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, fileName), JSON.stringify(data));
+}
+
+/**
+ * Create a provider that serves recorded weather from a directory
+ *
+ * @param directory - Fixture directory
+ * @param capabilities - Capabilities of the recorded provider
+ * @param recorder - Provider that fills missing fixtures (optional)
+ * @returns Fixture weather provider
+ */
+export function createFixtureProvider(
+  directory: string,
+  capabilities: WeatherProviderCapabilities,
+  recorder?: WeatherProvider
+): WeatherProvider {
+  /**
+   * Recorded hours for a request, recording them first when missing or
+   * when the recording does not cover the request
+   */
+  const load = async (
+    kind: FixtureKind,
+    location: Location,
+    describe: string,
+    covers: (recorded: HourlyWeatherData[]) => boolean,
+    record: (provider: WeatherProvider) => Promise<HourlyWeatherData[]>
+  ): Promise<HourlyWeatherData[]> => {
+    const fileNames = fixtureFileNames(kind, location);
+    const recorded = await readFixture(
+      directory,
+      recorder ? fileNames.slice(0, 1) : fileNames
+    );
+    if (recorded && covers(recorded)) {
+      return recorded;
+    }
+    if (!recorder) {
+      throw new NotFoundError(
+        "fixture",
+        recorded
+          ? `The ${kind} weather fixture for (${location.latitude}, ${location.longitude}) in ${directory} does not cover ${describe}`
+          : `No ${kind} weather fixture for (${location.latitude}, ${location.longitude}) in ${directory}`
+      );
+    }
+
+    const data = await record(recorder);
+    await writeFixture(directory, fileNames[0], data);
+    return data;
+  };
+
+  return {
+    id: "fixture",
+    name: "Weather fixtures",
+    capabilities,
+    fetchForecast: async (location, hours) => {
+      const data = await load(
+        "forecast",
+        location,
+        `${hours} hours`,
+        (recorded) => recorded.length >= hours,
+        (provider) => provider.fetchForecast(location, hours)
+      );
+      return data.slice(0, hours);
+    },
+    fetchHistorical: async (location, startDate, endDate) => {
+      const data = await load(
+        "historical",
+        location,
+        `${startDate} to ${endDate}`,
+        (recorded) => coversDates(recorded, startDate, endDate),
+        async (provider) => {
+          // Providers serve one calendar year per call
+          const data: HourlyWeatherData[] = [];
+          for (const [chunkStart, chunkEnd] of splitDateRange(
+            startDate,
+            endDate
+          )) {
+            data.push(
+              ...(await provider.fetchHistorical(
+                location,
+                chunkStart,
+                chunkEnd
+              ))
+            );
+          }
+          return data;
+        }
+      );
+      // Times are ISO strings, so the dates compare as text
+      return data.filter((hour) => {
+        const date = hour.time.slice(0, 10);
+        return date >= startDate && date <= endDate;
+      });
+    },
+  };
+}
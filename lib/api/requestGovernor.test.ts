@@ -0,0 +1,165 @@
+import axios, { AxiosError, AxiosResponse } from "axios";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from "vitest";
+import { governedGet } from "@/lib/api/requestGovernor";
+import {
+  NotFoundError,
+  RateLimitedError,
+  UpstreamInvalidError,
+  UpstreamTimeoutError,
+} from "@/lib/api/upstreamErrors";
+
+/** Axios error for an HTTP response */
+function httpError(
+  status: number,
+  headers: Record<string, string> = {},
+  data: unknown = {}
+): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    "ERR_BAD_RESPONSE",
+    undefined,
+    undefined,
+    { status, statusText: "", headers, data } as AxiosResponse
+  );
+}
+
+/** Axios error for a request that timed out */
+function timeoutError(): AxiosError {
+  return new AxiosError("timeout of 30000ms exceeded", "ECONNABORTED");
+}
+
+/** Successful axios response */
+function ok<T>(data: T): AxiosResponse<T> {
+  return { data, status: 200 } as AxiosResponse<T>;
+}
+
+// Each test uses its own host, so no limiter state is shared between them
+let hostCount = 0;
+function nextUrl(): string {
+  hostCount++;
+  return `https://upstream-${hostCount}.example.com/v1/forecast`;
+}
+
+let get: MockInstance<typeof axios.get>;
+let warn: MockInstance<typeof console.warn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-06-01T00:00:00Z"));
+  // Lower bound of the jitter: delays of exactly half the backoff
+  vi.spyOn(Math, "random").mockReturnValue(0);
+  get = vi.spyOn(axios, "get");
+  warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("governedGet", () => {
+  it("retries server errors with exponential backoff", async () => {
+    get
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce(ok({ hourly: [] }));
+
+    const start = Date.now();
+    const request = governedGet(nextUrl());
+    await vi.runAllTimersAsync();
+
+    await expect(request).resolves.toEqual({ hourly: [] });
+    expect(get).toHaveBeenCalledTimes(3);
+    // 0.5 × 500 ms, then 0.5 × 1000 ms
+    expect(Date.now() - start).toBe(750);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    get
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce(ok("done"));
+
+    const start = Date.now();
+    const request = governedGet(nextUrl());
+    await vi.runAllTimersAsync();
+
+    await expect(request).resolves.toBe("done");
+    expect(Date.now() - start).toBe(2000);
+  });
+
+  it("fails fast when Retry-After is too long", async () => {
+    get.mockRejectedValue(httpError(429, { "retry-after": "120" }));
+
+    const request = governedGet(nextUrl());
+    const assertion = expect(request).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+      retryAfter: 120,
+    });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    await expect(request).rejects.toBeInstanceOf(RateLimitedError);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after three retries", async () => {
+    get.mockRejectedValue(httpError(500));
+
+    const request = governedGet(nextUrl());
+    const assertion =
+      expect(request).rejects.toBeInstanceOf(UpstreamInvalidError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+
+  it("retries timeouts and reports them as timeouts", async () => {
+    get.mockRejectedValue(timeoutError());
+
+    const request = governedGet(nextUrl());
+    const assertion =
+      expect(request).rejects.toBeInstanceOf(UpstreamTimeoutError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry client errors", async () => {
+    get.mockRejectedValueOnce(httpError(404));
+    await expect(governedGet(nextUrl())).rejects.toBeInstanceOf(NotFoundError);
+
+    get.mockRejectedValueOnce(
+      httpError(400, {}, { reason: "Latitude must be in range" })
+    );
+    await expect(governedGet(nextUrl())).rejects.toThrow(
+      "returned HTTP 400: Latitude must be in range"
+    );
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("spaces requests beyond the burst at the host's rate", async () => {
+    get.mockResolvedValue(ok("done"));
+    const url = nextUrl();
+
+    // Unknown hosts allow a burst of 4 at 4 requests per second
+    const start = Date.now();
+    const requests = Array.from({ length: 6 }, () => governedGet(url));
+    await vi.runAllTimersAsync();
+    await Promise.all(requests);
+
+    expect(get).toHaveBeenCalledTimes(6);
+    expect(Date.now() - start).toBe(500);
+  });
+});
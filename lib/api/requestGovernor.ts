@@ -0,0 +1,273 @@
+import axios, { AxiosRequestConfig } from "axios";
+import {
+  NotFoundError,
+  RateLimitedError,
+  UpstreamError,
+  UpstreamInvalidError,
+  UpstreamTimeoutError,
+} from "@/lib/api/upstreamErrors";
+
+/**
+ * Outbound Request Governor
+ *
+ * All outbound weather and geocoding requests go through governedGet,
+ * which per upstream host:
+ * - caps the number of requests in flight
+ * - spaces requests with a token bucket (requests per second, with a burst)
+ * - retries timeouts, network errors, HTTP 429 and 5xx with exponential
+ *   backoff, waiting as long as the Retry-After header asks
+ * - turns failures into the typed errors of lib/api/upstreamErrors.ts
+ *
+ * Backoff before retry n (0-based): d = min(10 s, 0.5 s × 2^n) × U(0.5, 1),
+ * or the Retry-After delay when given.
+ *
+ * References:
+ * - Open-Meteo terms: fewer than 600 calls per minute on the free API
+ * - Nominatim usage policy: at most 1 request per second
+ */
+
+export interface HostLimits {
+  concurrency: number; // requests in flight
+  requestsPerSecond: number; // token refill rate
+  burst: number; // token bucket size
+}
+
+interface HostState {
+  limits: HostLimits;
+  active: number;
+  waiting: (() => void)[];
+  tokens: number;
+  refilledAt: number; // ms since epoch
+}
+
+const HOST_LIMITS: Record<string, HostLimits> = {
+  "api.open-meteo.com": { concurrency: 10, requestsPerSecond: 8, burst: 20 },
+  "archive-api.open-meteo.com": {
+    concurrency: 2,
+    requestsPerSecond: 1,
+    burst: 4,
+  },
+  "power.larc.nasa.gov": { concurrency: 2, requestsPerSecond: 1, burst: 2 },
+  "nominatim.openstreetmap.org": {
+    concurrency: 1,
+    requestsPerSecond: 1,
+    burst: 1,
+  },
+};
+
+const DEFAULT_HOST_LIMITS: HostLimits = {
+  concurrency: 4,
+  requestsPerSecond: 4,
+  burst: 4,
+};
+
+/** Retries after the first attempt */
+const MAX_RETRIES = 3;
+
+/** Backoff before the first retry and upper bound (ms) */
+const BASE_BACKOFF = 500;
+const MAX_BACKOFF = 10000;
+
+/** Longest Retry-After the governor waits for (ms); longer ones fail fast */
+const MAX_RETRY_AFTER = 30000;
+
+const hostStates = new Map<string, HostState>();
+
+/**
+ * Wait for a number of milliseconds
+ *
+ * @param ms - Delay in ms
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Limiter state of a host, created on first use
+ *
+ * @param host - Upstream host name
+ * @returns Host state
+ */
+function getHostState(host: string): HostState {
+  let state = hostStates.get(host);
+  if (!state) {
+    const limits = HOST_LIMITS[host] ?? DEFAULT_HOST_LIMITS;
+    state = {
+      limits,
+      active: 0,
+      waiting: [],
+      tokens: limits.burst,
+      refilledAt: Date.now(),
+    };
+    hostStates.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Take a concurrency slot and a token of a host, waiting for both
+ *
+ * @param state - Host state
+ */
+async function acquire(state: HostState): Promise<void> {
+  if (state.active < state.limits.concurrency) {
+    state.active++;
+  } else {
+    // The releasing request hands its slot over, so active is unchanged
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  }
+
+  for (;;) {
+    const now = Date.now();
+    state.tokens = Math.min(
+      state.limits.burst,
+      state.tokens +
+        ((now - state.refilledAt) / 1000) * state.limits.requestsPerSecond
+    );
+    state.refilledAt = now;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - state.tokens) / state.limits.requestsPerSecond) * 1000);
+  }
+}
+
+/**
+ * Give back a concurrency slot, to the next waiting request if any
+ *
+ * @param state - Host state
+ */
+function release(state: HostState): void {
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+/**
+ * Delay asked for by a Retry-After header
+ *
+ * @param header - Header value, seconds or an HTTP date
+ * @returns Delay in ms, or undefined without a usable header
+ */
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== "string" && typeof header !== "number") {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Typed error for a failed request
+ *
+ * @param error - Error thrown by axios
+ * @param host - Upstream host name
+ * @returns Upstream error
+ */
+function toUpstreamError(error: unknown, host: string): UpstreamError {
+  if (error instanceof UpstreamError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new UpstreamInvalidError(host, `Request to ${host} failed`);
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new UpstreamTimeoutError(host);
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return new UpstreamInvalidError(host, `${host} could not be reached`);
+  }
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(error.response?.headers["retry-after"]);
+    return new RateLimitedError(
+      host,
+      retryAfter !== undefined ? retryAfter / 1000 : undefined
+    );
+  }
+  if (status === 404) {
+    return new NotFoundError(host, `${host} has no data for this request`);
+  }
+
+  // Open-Meteo explains rejected requests in `reason`
+  const reason = error.response?.data?.reason;
+  return new UpstreamInvalidError(
+    host,
+    `${host} returned HTTP ${status}${reason ? `: ${reason}` : ""}`
+  );
+}
+
+/**
+ * Delay before retrying a failed request
+ *
+ * @param error - Error thrown by axios
+ * @param attempt - Retries made so far
+ * @returns Delay in ms, or undefined when the request should not be retried
+ */
+function getRetryDelay(error: unknown, attempt: number): number | undefined {
+  if (attempt >= MAX_RETRIES || !axios.isAxiosError(error)) {
+    return undefined;
+  }
+
+  const status = error.response?.status;
+  if (status !== undefined && status !== 429 && status < 500) {
+    return undefined;
+  }
+
+  const retryAfter =
+    status !== undefined
+      ? parseRetryAfter(error.response?.headers["retry-after"])
+      : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter <= MAX_RETRY_AFTER ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt);
+  return backoff * (0.5 + Math.random() / 2);
+}
+
+/**
+ * GET a URL within the limits of its host, retrying transient failures
+ *
+ * @param url - Absolute URL
+ * @param config - Axios request options, e.g. timeout and headers
+ * @returns Response body
+ * @throws UpstreamError when the request fails after the retries
+ */
+export async function governedGet<T>(
+  url: string,
+  config: AxiosRequestConfig = {}
+): Promise<T> {
+  const host = new URL(url).host;
+  const state = getHostState(host);
+
+  for (let attempt = 0; ; attempt++) {
+    let delay: number | undefined;
+    await acquire(state);
+    try {
+      const response = await axios.get<T>(url, config);
+      return response.data;
+    } catch (error) {
+      delay = getRetryDelay(error, attempt);
+      if (delay === undefined) {
+        throw toUpstreamError(error, host);
+      }
+    } finally {
+      release(state);
+    }
+
+    // Back off without holding a slot. Retries are not logged: with many
+    // parallel requests one upstream hiccup would flood the log, and a
+    // final failure reaches the caller as an UpstreamError
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Upstream Errors
+ *
+ * Typed failures of outbound weather and geocoding requests. Each carries
+ * the `APIError.error` code and HTTP status that routes respond with:
+ * - UPSTREAM_TIMEOUT (504): the upstream did not answer in time
+ * - RATE_LIMITED (429): the upstream kept refusing with HTTP 429
+ * - UPSTREAM_INVALID (502): the upstream failed, was unreachable or sent
+ *   an unusable response
+ * - NOT_FOUND (404): the upstream has no data for the request
+ */
+
+export type UpstreamErrorCode =
+  "UPSTREAM_TIMEOUT" | "RATE_LIMITED" | "UPSTREAM_INVALID" | "NOT_FOUND";
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly status: number; // HTTP status of the API response
+  readonly host: string;
+
+  constructor(
+    code: UpstreamErrorCode,
+    status: number,
+    host: string,
+    message: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+    this.host = host;
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(
+    host: string,
+    message: string = `${host} did not respond in time`
+  ) {
+    super("UPSTREAM_TIMEOUT", 504, host, message);
+  }
+}
+
+export class RateLimitedError extends UpstreamError {
+  readonly retryAfter?: number; // seconds, from the Retry-After header
+
+  constructor(host: string, retryAfter?: number) {
+    super(
+      "RATE_LIMITED",
+      429,
+      host,
+      retryAfter !== undefined
+        ? `${host} is rate limiting requests; retry in ${Math.ceil(retryAfter)} s`
+        : `${host} is rate limiting requests`
+    );
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class UpstreamInvalidError extends UpstreamError {
+  constructor(host: string, message: string) {
+    super("UPSTREAM_INVALID", 502, host, message);
+  }
+}
+
+export class NotFoundError extends UpstreamError {
+  constructor(host: string, message: string) {
+    super("NOT_FOUND", 404, host, message);
+  }
+}
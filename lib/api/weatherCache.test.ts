@@ -0,0 +1,183 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HourlyWeatherData } from "@/types";
+import type { WeatherCacheKey } from "@/lib/api/weatherCache";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const forecastKey: WeatherCacheKey = {
+  provider: "open-meteo",
+  location: { latitude: 40.001, longitude: -105.004 },
+  kind: "forecast",
+  variables: ["windSpeed", "temperature"],
+  window: "48",
+};
+
+const historicalKey: WeatherCacheKey = {
+  ...forecastKey,
+  kind: "historical",
+  window: "2023-01-01/2023-12-31",
+};
+
+const data: HourlyWeatherData[] = [
+  { time: "2024-06-01T00:00", temperature: 18 },
+];
+
+let cacheDir: string;
+
+/** Fresh copy of the module, with an empty memory cache */
+async function loadCache() {
+  vi.resetModules();
+  return import("@/lib/api/weatherCache");
+}
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "weather-cache-"));
+  vi.stubEnv("WEATHER_CACHE_DIR", cacheDir);
+  vi.stubEnv("WEATHER_CACHE", "");
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2024-06-01T00:00:00Z"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+describe("cachedWeatherFetch", () => {
+  it("serves repeated requests from the cache and counts hits and misses", async () => {
+    const { cachedWeatherFetch, createWeatherCacheInfo } = await loadCache();
+    const fetcher = vi.fn(async () => data);
+    const info = createWeatherCacheInfo();
+
+    await cachedWeatherFetch(forecastKey, fetcher, info);
+    vi.setSystemTime(new Date("2024-06-01T00:10:00Z"));
+    const cached = await cachedWeatherFetch(forecastKey, fetcher, info);
+
+    expect(cached).toEqual(data);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(info).toEqual({
+      hits: 1,
+      misses: 1,
+      oldestHit: "2024-06-01T00:00:00.000Z",
+    });
+  });
+
+  it("expires forecasts after one hour", async () => {
+    const { cachedWeatherFetch } = await loadCache();
+    const fetcher = vi.fn(async () => data);
+
+    await cachedWeatherFetch(forecastKey, fetcher);
+    vi.setSystemTime(Date.now() + HOUR - 1);
+    await cachedWeatherFetch(forecastKey, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 1);
+    await cachedWeatherFetch(forecastKey, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps historical data for 30 days", async () => {
+    const { cachedWeatherFetch } = await loadCache();
+    const fetcher = vi.fn(async () => data);
+
+    await cachedWeatherFetch(historicalKey, fetcher);
+    vi.setSystemTime(Date.now() + 29 * DAY);
+    await cachedWeatherFetch(historicalKey, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 2 * DAY);
+    await cachedWeatherFetch(historicalKey, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads entries persisted on disk after a restart", async () => {
+    const first = await loadCache();
+    await first.cachedWeatherFetch(historicalKey, async () => data);
+
+    const second = await loadCache();
+    const fetcher = vi.fn(async () => []);
+    const info = second.createWeatherCacheInfo();
+
+    expect(
+      await second.cachedWeatherFetch(historicalKey, fetcher, info)
+    ).toEqual(data);
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(info.hits).toBe(1);
+  });
+
+  it("deletes expired entries from disk", async () => {
+    const first = await loadCache();
+    await first.cachedWeatherFetch(forecastKey, async () => data);
+    expect(await fs.readdir(cacheDir)).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + 2 * HOUR);
+    const second = await loadCache();
+    await second.cachedWeatherFetch(forecastKey, async () => []);
+
+    expect(await fs.readdir(cacheDir)).toHaveLength(0);
+  });
+
+  it("sweeps expired entries that are not requested again", async () => {
+    const { cachedWeatherFetch } = await loadCache();
+    await cachedWeatherFetch(forecastKey, async () => data);
+
+    // Within the sweep interval the expired forecast stays on disk
+    vi.setSystemTime(Date.now() + HOUR - 1);
+    await cachedWeatherFetch(historicalKey, async () => data);
+    expect(await fs.readdir(cacheDir)).toHaveLength(2);
+
+    vi.setSystemTime(Date.now() + 2 * HOUR);
+    await cachedWeatherFetch(
+      { ...historicalKey, window: "2022-01-01/2022-12-31" },
+      async () => data
+    );
+    // The forecast is gone, both historical entries remain
+    expect(await fs.readdir(cacheDir)).toHaveLength(2);
+  });
+
+  it("shares entries between coordinates within 0.01°", async () => {
+    const { cachedWeatherFetch } = await loadCache();
+    const fetcher = vi.fn(async () => data);
+
+    await cachedWeatherFetch(forecastKey, fetcher);
+    await cachedWeatherFetch(
+      {
+        ...forecastKey,
+        location: { latitude: 39.996, longitude: -105.0 },
+        variables: ["temperature", "windSpeed"],
+      },
+      fetcher
+    );
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache empty responses", async () => {
+    const { cachedWeatherFetch } = await loadCache();
+    const fetcher = vi.fn(async () => []);
+
+    await cachedWeatherFetch(forecastKey, fetcher);
+    await cachedWeatherFetch(forecastKey, fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("bypasses the cache when switched off", async () => {
+    vi.stubEnv("WEATHER_CACHE", "off");
+    const { cachedWeatherFetch, createWeatherCacheInfo } = await loadCache();
+    const fetcher = vi.fn(async () => data);
+    const info = createWeatherCacheInfo();
+
+    await cachedWeatherFetch(forecastKey, fetcher, info);
+    await cachedWeatherFetch(forecastKey, fetcher, info);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(info).toEqual({ hits: 0, misses: 0 });
+    expect(await fs.readdir(cacheDir)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,255 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  HourlyWeatherData,
+  Location,
+  WeatherCacheInfo,
+  WeatherProviderId,
+} from "@/types";
+
+/**
+ * Weather Response Cache
+ *
+ * Keeps provider responses in memory and on disk so repeated requests and
+ * restarts do not refetch them. Entries are keyed by provider, coordinates
+ * rounded to 0.01° (about 1 km, finer than the weather model grids),
+ * variables and time window.
+ *
+ * Time to live:
+ * - forecast: 1 hour, the interval of the model runs
+ * - historical: 30 days, archive data is effectively immutable
+ *
+ * An expired file is deleted when it is read. Files of requests that are
+ * not repeated, e.g. the windows of past days, are swept at most once an
+ * hour when an entry is written: each file's modification time is set to
+ * its expiry, so the sweep needs no file contents.
+ *
+ * Configuration (environment):
+ * - WEATHER_CACHE: "off" disables the cache
+ * - WEATHER_CACHE_DIR: directory of the disk cache (default .cache/weather)
+ */
+
+export type WeatherCacheKind = "forecast" | "historical";
+
+export interface WeatherCacheKey {
+  provider: WeatherProviderId;
+  location: Location;
+  kind: WeatherCacheKind;
+  variables: string[];
+  window: string; // forecast hours, or start/end dates
+}
+
+interface WeatherCacheEntry {
+  key: string;
+  storedAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+  data: HourlyWeatherData[];
+}
+
+/** Time to live by kind (ms) */
+const CACHE_TTL: Record<WeatherCacheKind, number> = {
+  forecast: 60 * 60 * 1000,
+  historical: 30 * 24 * 60 * 60 * 1000,
+};
+
+/** Decimals of the rounded coordinates */
+const COORDINATE_DECIMALS = 2;
+
+/** Entries kept in memory; older ones are still on disk */
+const MAX_MEMORY_ENTRIES = 200;
+
+/** Minimum interval between sweeps of the disk cache (ms) */
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+const memoryCache = new Map<string, WeatherCacheEntry>();
+
+/** Time of the last sweep of the disk cache (ms since epoch) */
+let lastSweep = 0;
+
+/**
+ * Empty hit and miss counters for a request
+ *
+ * @returns Cache metadata with no lookups
+ */
+export function createWeatherCacheInfo(): WeatherCacheInfo {
+  return { hits: 0, misses: 0 };
+}
+
+/**
+ * Cache key string of a request
+ *
+ * @param key - Request parameters
+ * @returns Key string
+ */
+function formatCacheKey(key: WeatherCacheKey): string {
+  return [
+    key.provider,
+    key.location.latitude.toFixed(COORDINATE_DECIMALS),
+    key.location.longitude.toFixed(COORDINATE_DECIMALS),
+    key.kind,
+    key.window,
+    [...key.variables].sort().join(","),
+  ].join("|");
+}
+
+/**
+ * Directory of the disk cache
+ */
+function cacheDirectory(): string {
+  return (
+    process.env.WEATHER_CACHE_DIR ||
+    path.join(process.cwd(), ".cache", "weather")
+  );
+}
+
+/**
+ * File of a cache entry, named by the hash of its key
+ *
+ * @param key - Key string
+ * @returns Absolute file path
+ */
+function cacheFile(key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex");
+  return path.join(cacheDirectory(), `${hash}.json`);
+}
+
+/**
+ * Keep an entry in memory, dropping the oldest beyond the limit
+ *
+ * @param entry - Cache entry
+ */
+function remember(entry: WeatherCacheEntry): void {
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+/**
+ * Look up an unexpired entry in memory, then on disk
+ *
+ * @param key - Key string
+ * @returns Cache entry, or undefined on a miss
+ */
+async function readEntry(key: string): Promise<WeatherCacheEntry | undefined> {
+  const now = Date.now();
+  const cached = memoryCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached;
+  }
+  memoryCache.delete(key);
+
+  const file = cacheFile(key);
+  try {
+    const entry = JSON.parse(
+      await fs.readFile(file, "utf8")
+    ) as WeatherCacheEntry;
+    if (entry.key !== key) {
+      return undefined;
+    }
+    if (entry.expiresAt <= now) {
+      await fs.unlink(file).catch(() => undefined);
+      return undefined;
+    }
+    remember(entry);
+    return entry;
+  } catch {
+    // Missing or unreadable files are misses
+    return undefined;
+  }
+}
+
+/**
+ * Delete the expired files of the disk cache
+ *
+ * @param now - Current time (ms since epoch)
+ */
+async function sweepExpiredFiles(now: number): Promise<void> {
+  const directory = cacheDirectory();
+  for (const name of await fs.readdir(directory)) {
+    if (!name.endsWith(".json")) continue;
+    const file = path.join(directory, name);
+    // A file deleted in the meantime has no stats
+    const stats = await fs.stat(file).catch(() => undefined);
+    if (stats && stats.mtimeMs <= now) {
+      await fs.unlink(file).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Store an entry in memory and on disk
+ *
+ * The file's modification time is set to the entry's expiry for
+ * sweepExpiredFiles. A failed disk write only loses persistence, e.g. on a
+ * read-only file system, so it is logged and not thrown.
+ *
+ * @param entry - Cache entry
+ */
+async function writeEntry(entry: WeatherCacheEntry): Promise<void> {
+  remember(entry);
+  try {
+    const file = cacheFile(entry.key);
+    await fs.mkdir(cacheDirectory(), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(entry));
+    await fs.utimes(file, new Date(entry.storedAt), new Date(entry.expiresAt));
+  } catch (error) {
+    console.warn("Could not persist weather cache entry:", error);
+    return;
+  }
+
+  if (entry.storedAt - lastSweep >= SWEEP_INTERVAL) {
+    lastSweep = entry.storedAt;
+    await sweepExpiredFiles(entry.storedAt).catch((error) =>
+      console.warn("Could not sweep the weather cache:", error)
+    );
+  }
+}
+
+/**
+ * Serve a weather request from the cache, fetching it on a miss
+ *
+ * @param key - Request parameters
+ * @param fetcher - Fetches the data from the provider
+ * @param info - Hit and miss counters of the API request (updated in place)
+ * @returns Array of hourly weather data
+ */
+export async function cachedWeatherFetch(
+  key: WeatherCacheKey,
+  fetcher: () => Promise<HourlyWeatherData[]>,
+  info?: WeatherCacheInfo
+): Promise<HourlyWeatherData[]> {
+  if (process.env.WEATHER_CACHE === "off") {
+    return fetcher();
+  }
+
+  const keyString = formatCacheKey(key);
+  const cached = await readEntry(keyString);
+  if (cached) {
+    if (info) {
+      info.hits++;
+      const storedAt = new Date(cached.storedAt).toISOString();
+      if (!info.oldestHit || storedAt < info.oldestHit) {
+        info.oldestHit = storedAt;
+      }
+    }
+    return cached.data;
+  }
+
+  const data = await fetcher();
+  if (info) info.misses++;
+
+  // Empty responses are not cached, so the next request tries again
+  if (data.length > 0) {
+    const storedAt = Date.now();
+    await writeEntry({
+      key: keyString,
+      storedAt,
+      expiresAt: storedAt + CACHE_TTL[key.kind],
+      data,
+    });
+  }
+  return data;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  mapNASAPowerHourly,
+  NASAPowerResponse,
+  splitDateRange,
+} from "@/lib/api/weatherClient";
+
+describe("splitDateRange", () => {
+  it("keeps a range within one year as a single chunk", () => {
+    expect(splitDateRange("2023-03-01", "2023-03-31")).toEqual([
+      ["2023-03-01", "2023-03-31"],
+    ]);
+  });
+
+  it("splits a multi-year range at calendar year boundaries", () => {
+    expect(splitDateRange("2021-06-15", "2023-02-01")).toEqual([
+      ["2021-06-15", "2021-12-31"],
+      ["2022-01-01", "2022-12-31"],
+      ["2023-01-01", "2023-02-01"],
+    ]);
+  });
+
+  it("handles a range that starts on New Year's Eve", () => {
+    expect(splitDateRange("2022-12-31", "2023-01-01")).toEqual([
+      ["2022-12-31", "2022-12-31"],
+      ["2023-01-01", "2023-01-01"],
+    ]);
+  });
+
+  it("returns no chunks for an inverted range", () => {
+    expect(splitDateRange("2023-05-01", "2023-04-01")).toEqual([]);
+  });
+});
+
+describe("mapNASAPowerHourly", () => {
+  const response: NASAPowerResponse = {
+    header: { fill_value: -999 },
+    properties: {
+      parameter: {
+        T2M: { "2023060112": 21.5, "2023060113": -999 },
+        PS: { "2023060112": 83.2, "2023060113": 83.1 },
+        RH2M: { "2023060112": 30, "2023060113": 32 },
+        ALLSKY_SFC_SW_DWN: { "2023060112": 850, "2023060113": 700 },
+        ALLSKY_SFC_SW_DIFF: { "2023060112": 120, "2023060113": 720 },
+        WS10M: { "2023060112": 4.2, "2023060113": -999 },
+      },
+    },
+  };
+
+  it("maps UTC hour keys to ISO times", () => {
+    const data = mapNASAPowerHourly(response);
+
+    expect(data.map((hour) => hour.time)).toEqual([
+      "2023-06-01T12:00",
+      "2023-06-01T13:00",
+    ]);
+    expect(data[0].utcOffsetSeconds).toBe(0);
+  });
+
+  it("converts surface pressure from kPa to hPa", () => {
+    const [hour] = mapNASAPowerHourly(response);
+
+    expect(hour.surfacePressure).toBeCloseTo(832, 10);
+  });
+
+  it("derives horizontal beam irradiance as GHI minus DHI", () => {
+    const [first, second] = mapNASAPowerHourly(response);
+
+    expect(first.solarIrradiance).toBe(850);
+    expect(first.diffuseRadiation).toBe(120);
+    expect(first.directRadiation).toBe(730);
+    // Diffuse above global (rounding in the archive) gives no beam
+    expect(second.directRadiation).toBe(0);
+  });
+
+  it("treats fill values as missing and flags them", () => {
+    const [first, second] = mapNASAPowerHourly(response);
+
+    expect(first.dataQuality).toBe("excellent");
+    expect(first.missingDataFlags).toBeUndefined();
+    expect(second.temperature).toBeUndefined();
+    expect(second.windSpeed).toBeUndefined();
+    expect(second.windSpeed10m).toBeUndefined();
+    expect(second.missingDataFlags).toEqual(["temperature", "wind"]);
+    expect(second.dataQuality).toBe("good");
+  });
+
+  it("honours the fill value of the response header", () => {
+    const [hour] = mapNASAPowerHourly({
+      header: { fill_value: -99 },
+      properties: {
+        parameter: { T2M: { "2023060112": -99 }, PS: { "2023060112": 84 } },
+      },
+    });
+
+    expect(hour.temperature).toBeUndefined();
+    expect(hour.surfacePressure).toBe(840);
+    expect(hour.missingDataFlags).toEqual(["temperature"]);
+  });
+
+  it("does not flag parameters left out of the request", () => {
+    const [hour] = mapNASAPowerHourly({
+      header: { fill_value: -999 },
+      properties: { parameter: { WS10M: { "2023060112": 6 } } },
+    });
+
+    expect(hour.windSpeed).toBe(6);
+    expect(hour.temperature).toBeUndefined();
+    expect(hour.directRadiation).toBeUndefined();
+    expect(hour.missingDataFlags).toBeUndefined();
+  });
+});
@@ -1,5 +1,10 @@
-import axios from "axios";
 import { HourlyWeatherData, Location } from "@/types";
+import { governedGet } from "@/lib/api/requestGovernor";
+import {
+  NotFoundError,
+  UpstreamError,
+  UpstreamInvalidError,
+} from "@/lib/api/upstreamErrors";
 
 /**
  * Weather API Client
@@ -7,7 +12,346 @@ import { HourlyWeatherData, Location } from "@/types";
  * This module provides functions to fetch weather data from:
  * 1. Open-Meteo API (primary) - Free, no API key required
  * 2. NASA POWER API (backup) - Free, authoritative scientific data
+ *
+ * Requests go through the governor in lib/api/requestGovernor.ts and fail
+ * with the typed errors of lib/api/upstreamErrors.ts.
+ */
+
+/**
+ * Keep a typed upstream error; any other error means the response could
+ * not be used
+ *
+ * @param error - Caught error
+ * @param host - Upstream host name
+ * @param message - Message for an unusable response
+ * @returns Upstream error
+ */
+function asUpstreamError(
+  error: unknown,
+  host: string,
+  message: string
+): UpstreamError {
+  return error instanceof UpstreamError
+    ? error
+    : new UpstreamInvalidError(host, message);
+}
+
+/**
+ * Split a date range into calendar-year chunks
+ *
+ * Keeps multi-year archive requests within the per-request limits of the
+ * APIs (NASA POWER serves at most one year of hourly data per request).
+ *
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD), inclusive
+ * @returns Start and end dates of each chunk, in order
+ */
+export function splitDateRange(
+  startDate: string,
+  endDate: string
+): [string, string][] {
+  const chunks: [string, string][] = [];
+  const endYear = parseInt(endDate.slice(0, 4), 10);
+  let chunkStart = startDate;
+
+  for (
+    let year = parseInt(startDate.slice(0, 4), 10);
+    year <= endYear;
+    year++
+  ) {
+    const chunkEnd = year === endYear ? endDate : `${year}-12-31`;
+    if (chunkStart <= chunkEnd) {
+      chunks.push([chunkStart, chunkEnd]);
+    }
+    chunkStart = `${year + 1}-01-01`;
+  }
+
+  return chunks;
+}
+
+/**
+ * Open-Meteo hourly variables used by the app
+ */
+export type OpenMeteoVariable =
+  | "temperature_2m"
+  | "apparent_temperature"
+  | "dew_point_2m"
+  | "shortwave_radiation"
+  | "direct_radiation"
+  | "diffuse_radiation"
+  | "direct_normal_irradiance"
+  | "terrestrial_radiation"
+  | "surface_pressure"
+  | "pressure_msl"
+  | "relative_humidity_2m"
+  | "vapour_pressure_deficit"
+  | "precipitation"
+  | "rain"
+  | "snowfall"
+  | "precipitation_probability"
+  | "cloud_cover"
+  | "cloud_cover_low"
+  | "cloud_cover_mid"
+  | "cloud_cover_high"
+  | "wind_speed_10m"
+  | "wind_speed_80m"
+  | "wind_speed_100m"
+  | "wind_speed_120m"
+  | "wind_direction_10m"
+  | "wind_gusts_10m"
+  | "cape"
+  | "lifted_index"
+  | "uv_index"
+  | "visibility"
+  | "soil_temperature_0cm"
+  | "soil_temperature_0_to_7cm"
+  | "soil_moisture_0_to_1cm"
+  | "soil_moisture_0_to_7cm"
+  | "snow_depth";
+
+/** HourlyWeatherData field filled by each Open-Meteo variable */
+const OPEN_METEO_FIELDS: Record<OpenMeteoVariable, keyof HourlyWeatherData> = {
+  // Temperature & Thermodynamics
+  temperature_2m: "temperature",
+  apparent_temperature: "apparentTemperature",
+  dew_point_2m: "dewPoint",
+
+  // Solar Radiation
+  shortwave_radiation: "solarIrradiance",
+  direct_radiation: "directRadiation",
+  diffuse_radiation: "diffuseRadiation",
+  direct_normal_irradiance: "directNormalIrradiance",
+  terrestrial_radiation: "terrestrialRadiation",
+
+  // Atmospheric Pressure
+  surface_pressure: "surfacePressure",
+  pressure_msl: "seaLevelPressure",
+
+  // Humidity & Moisture
+  relative_humidity_2m: "relativeHumidity",
+  vapour_pressure_deficit: "vaporPressureDeficit",
+
+  // Precipitation
+  precipitation: "precipitation",
+  rain: "rain",
+  snowfall: "snowfall",
+  precipitation_probability: "precipitationProbability",
+
+  // Cloud Cover
+  cloud_cover: "cloudCover",
+  cloud_cover_low: "cloudCoverLow",
+  cloud_cover_mid: "cloudCoverMid",
+  cloud_cover_high: "cloudCoverHigh",
+
+  // Wind (Multi-level); wind_speed_10m also fills windSpeed
+  wind_speed_10m: "windSpeed10m",
+  wind_speed_80m: "windSpeed80m",
+  wind_speed_100m: "windSpeed100m",
+  wind_speed_120m: "windSpeed120m",
+  wind_direction_10m: "windDirection",
+  wind_gusts_10m: "windGusts",
+
+  // Atmospheric Stability
+  cape: "cape",
+  lifted_index: "surfaceLiftedIndex",
+
+  // Air Quality & Visibility
+  uv_index: "uvIndex",
+  visibility: "visibility",
+
+  // Soil & Surface; the archive has the 0-7 cm layer only
+  soil_temperature_0cm: "soilTemperature",
+  soil_temperature_0_to_7cm: "soilTemperature",
+  soil_moisture_0_to_1cm: "soilMoisture",
+  soil_moisture_0_to_7cm: "soilMoisture",
+  snow_depth: "snowDepth",
+};
+
+/** Variables of the forecast API */
+export const OPEN_METEO_FORECAST_VARIABLES: OpenMeteoVariable[] = [
+  "temperature_2m",
+  "apparent_temperature",
+  "dew_point_2m",
+  "shortwave_radiation",
+  "direct_radiation",
+  "diffuse_radiation",
+  "direct_normal_irradiance",
+  "terrestrial_radiation",
+  "surface_pressure",
+  "pressure_msl",
+  "relative_humidity_2m",
+  "vapour_pressure_deficit",
+  "precipitation",
+  "rain",
+  "snowfall",
+  "precipitation_probability",
+  "cloud_cover",
+  "cloud_cover_low",
+  "cloud_cover_mid",
+  "cloud_cover_high",
+  "wind_speed_10m",
+  "wind_speed_80m",
+  "wind_speed_100m",
+  "wind_speed_120m",
+  "wind_direction_10m",
+  "wind_gusts_10m",
+  "cape",
+  "lifted_index",
+  "uv_index",
+  "visibility",
+  "soil_temperature_0cm",
+  "soil_moisture_0_to_1cm",
+  "snow_depth",
+];
+
+/**
+ * Variables of the archive API (ERA5 reanalysis)
+ *
+ * The forecast set except what the reanalysis does not provide: 80 m and
+ * 120 m wind, precipitation probability, CAPE, lifted index, UV index and
+ * visibility; soil is the 0-7 cm layer.
+ */
+export const OPEN_METEO_ARCHIVE_VARIABLES: OpenMeteoVariable[] = [
+  "temperature_2m",
+  "apparent_temperature",
+  "dew_point_2m",
+  "shortwave_radiation",
+  "direct_radiation",
+  "diffuse_radiation",
+  "direct_normal_irradiance",
+  "terrestrial_radiation",
+  "surface_pressure",
+  "pressure_msl",
+  "relative_humidity_2m",
+  "vapour_pressure_deficit",
+  "precipitation",
+  "rain",
+  "snowfall",
+  "cloud_cover",
+  "cloud_cover_low",
+  "cloud_cover_mid",
+  "cloud_cover_high",
+  "wind_speed_10m",
+  "wind_speed_100m",
+  "wind_direction_10m",
+  "wind_gusts_10m",
+  "soil_temperature_0_to_7cm",
+  "soil_moisture_0_to_7cm",
+  "snow_depth",
+];
+
+/**
+ * Open-Meteo forecast and archive response
+ *
+ * Each requested variable is an array aligned with `time`.
+ */
+interface OpenMeteoResponse {
+  utc_offset_seconds: number;
+  hourly: { time: string[] } & Partial<Record<OpenMeteoVariable, number[]>>;
+}
+
+/**
+ * Nominatim search result
+ */
+interface NominatimResult {
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+/**
+ * HourlyWeatherData fields filled by a list of Open-Meteo variables
+ *
+ * @param variables - Open-Meteo variables
+ * @returns HourlyWeatherData fields, including windSpeed for the 10 m wind
+ */
+export function getOpenMeteoFields(
+  variables: OpenMeteoVariable[]
+): (keyof HourlyWeatherData)[] {
+  const fields = variables.map((variable) => OPEN_METEO_FIELDS[variable]);
+  if (variables.includes("wind_speed_10m")) {
+    fields.unshift("windSpeed");
+  }
+  return Array.from(new Set(fields));
+}
+
+/**
+ * Open-Meteo variables that fill the requested HourlyWeatherData fields
+ *
+ * @param fields - Requested fields; windSpeed asks for the 10 m wind
+ * @param available - Variables of the API
+ * @returns Variables of the API that fill at least one requested field
  */
+export function selectOpenMeteoVariables(
+  fields: (keyof HourlyWeatherData)[],
+  available: OpenMeteoVariable[]
+): OpenMeteoVariable[] {
+  return available.filter(
+    (variable) =>
+      fields.includes(OPEN_METEO_FIELDS[variable]) ||
+      (variable === "wind_speed_10m" && fields.includes("windSpeed"))
+  );
+}
+
+/**
+ * Map an Open-Meteo hourly response onto HourlyWeatherData
+ *
+ * @param data - Open-Meteo response
+ * @param variables - Variables that were requested
+ * @param utcOffsetSeconds - Offset of the response times from UTC
+ * @param hours - Number of hours to keep (default all)
+ * @returns Array of hourly weather data
+ */
+function mapOpenMeteoHourly(
+  data: OpenMeteoResponse,
+  variables: OpenMeteoVariable[],
+  utcOffsetSeconds: number,
+  hours: number = data.hourly.time.length
+): HourlyWeatherData[] {
+  const hourlyData: HourlyWeatherData[] = [];
+
+  for (let i = 0; i < Math.min(hours, data.hourly.time.length); i++) {
+    const hour: HourlyWeatherData = {
+      time: data.hourly.time[i],
+      utcOffsetSeconds,
+    };
+    const fields = hour as unknown as Record<string, number | undefined>;
+    variables.forEach((variable) => {
+      fields[OPEN_METEO_FIELDS[variable]] =
+        data.hourly[variable]?.[i] ?? undefined;
+    });
+    if (variables.includes("wind_speed_10m")) {
+      hour.windSpeed = hour.windSpeed10m;
+    }
+
+    // Check for missing critical data among the requested variables
+    const missingFlags: string[] = [];
+    if (variables.includes("temperature_2m") && hour.temperature === undefined)
+      missingFlags.push("temperature");
+    if (
+      variables.includes("surface_pressure") &&
+      hour.surfacePressure === undefined
+    )
+      missingFlags.push("pressure");
+    if (
+      variables.includes("relative_humidity_2m") &&
+      hour.relativeHumidity === undefined
+    )
+      missingFlags.push("humidity");
+
+    // Determine data quality based on completeness
+    let quality: "excellent" | "good" | "fair" | "poor" = "excellent";
+    if (missingFlags.length > 0) quality = "good";
+    if (missingFlags.length > 2) quality = "fair";
+    if (missingFlags.length > 5) quality = "poor";
+
+    hour.dataQuality = quality;
+    hour.missingDataFlags = missingFlags.length > 0 ? missingFlags : undefined;
+    hourlyData.push(hour);
+  }
+
+  return hourlyData;
+}
 
 /**
  * Fetch forecast data from Open-Meteo API
@@ -22,70 +366,19 @@ import { HourlyWeatherData, Location } from "@/types";
  *
  * @param location - Location coordinates
  * @param hours - Number of hours to forecast (default 48)
+ * @param variables - Variables to fetch (default the full forecast set)
  * @returns Array of hourly weather data
  */
 export async function fetchOpenMeteoForecast(
   location: Location,
-  hours: number = 48
+  hours: number = 48,
+  variables: OpenMeteoVariable[] = OPEN_METEO_FORECAST_VARIABLES
 ): Promise<HourlyWeatherData[]> {
   try {
     const params = new URLSearchParams({
       latitude: location.latitude.toString(),
       longitude: location.longitude.toString(),
-      hourly: [
-        // Temperature & Thermodynamics
-        "temperature_2m",
-        "apparent_temperature",
-        "dew_point_2m",
-
-        // Solar Radiation
-        "shortwave_radiation",
-        "direct_radiation",
-        "diffuse_radiation",
-        "direct_normal_irradiance",
-        "terrestrial_radiation",
-
-        // Atmospheric Pressure
-        "surface_pressure",
-        "pressure_msl",
-
-        // Humidity & Moisture
-        "relative_humidity_2m",
-        "vapour_pressure_deficit",
-
-        // Precipitation
-        "precipitation",
-        "rain",
-        "snowfall",
-        "precipitation_probability",
-
-        // Cloud Cover
-        "cloud_cover",
-        "cloud_cover_low",
-        "cloud_cover_mid",
-        "cloud_cover_high",
-
-        // Wind (Multi-level)
-        "wind_speed_10m",
-        "wind_speed_80m",
-        "wind_speed_100m",
-        "wind_speed_120m",
-        "wind_direction_10m",
-        "wind_gusts_10m",
-
-        // Atmospheric Stability
-        "cape",
-        "lifted_index",
-
-        // Air Quality & Visibility
-        "uv_index",
-        "visibility",
-
-        // Soil & Surface
-        "soil_temperature_0cm",
-        "soil_moisture_0_to_1cm",
-        "snow_depth",
-      ].join(","),
+      hourly: variables.join(","),
       temperature_unit: "celsius",
       wind_speed_unit: "ms",
       precipitation_unit: "mm",
@@ -93,96 +386,20 @@ export async function fetchOpenMeteoForecast(
       forecast_days: Math.ceil(hours / 24).toString(),
     });
 
-    const response = await axios.get(
+    const data = await governedGet<OpenMeteoResponse>(
       `https://api.open-meteo.com/v1/forecast?${params.toString()}`,
       { timeout: 15000 }
     );
 
-    const data = response.data;
-    const hourlyData: HourlyWeatherData[] = [];
-
     // Parse the response and limit to requested hours
-    for (let i = 0; i < Math.min(hours, data.hourly.time.length); i++) {
-      const missingFlags: string[] = [];
-
-      // Check for missing critical data
-      if (!data.hourly.temperature_2m?.[i]) missingFlags.push("temperature");
-      if (!data.hourly.surface_pressure?.[i]) missingFlags.push("pressure");
-      if (!data.hourly.relative_humidity_2m?.[i]) missingFlags.push("humidity");
-
-      // Determine data quality based on completeness
-      let quality: "excellent" | "good" | "fair" | "poor" = "excellent";
-      if (missingFlags.length > 0) quality = "good";
-      if (missingFlags.length > 2) quality = "fair";
-      if (missingFlags.length > 5) quality = "poor";
-
-      hourlyData.push({
-        time: data.hourly.time[i],
-
-        // Temperature & Thermodynamics
-        temperature: data.hourly.temperature_2m?.[i],
-        apparentTemperature: data.hourly.apparent_temperature?.[i],
-        dewPoint: data.hourly.dew_point_2m?.[i],
-
-        // Solar Radiation
-        solarIrradiance: data.hourly.shortwave_radiation?.[i],
-        directRadiation: data.hourly.direct_radiation?.[i],
-        diffuseRadiation: data.hourly.diffuse_radiation?.[i],
-        directNormalIrradiance: data.hourly.direct_normal_irradiance?.[i],
-        terrestrialRadiation: data.hourly.terrestrial_radiation?.[i],
-
-        // Atmospheric Pressure
-        surfacePressure: data.hourly.surface_pressure?.[i],
-        seaLevelPressure: data.hourly.pressure_msl?.[i],
-
-        // Humidity & Moisture
-        relativeHumidity: data.hourly.relative_humidity_2m?.[i],
-        vaporPressureDeficit: data.hourly.vapour_pressure_deficit?.[i],
-
-        // Precipitation
-        precipitation: data.hourly.precipitation?.[i],
-        rain: data.hourly.rain?.[i],
-        snowfall: data.hourly.snowfall?.[i],
-        precipitationProbability: data.hourly.precipitation_probability?.[i],
-
-        // Cloud Cover
-        cloudCover: data.hourly.cloud_cover?.[i],
-        cloudCoverLow: data.hourly.cloud_cover_low?.[i],
-        cloudCoverMid: data.hourly.cloud_cover_mid?.[i],
-        cloudCoverHigh: data.hourly.cloud_cover_high?.[i],
-
-        // Wind (Multi-level)
-        windSpeed: data.hourly.wind_speed_10m?.[i],
-        windSpeed10m: data.hourly.wind_speed_10m?.[i],
-        windSpeed80m: data.hourly.wind_speed_80m?.[i],
-        windSpeed100m: data.hourly.wind_speed_100m?.[i],
-        windSpeed120m: data.hourly.wind_speed_120m?.[i],
-        windDirection: data.hourly.wind_direction_10m?.[i],
-        windGusts: data.hourly.wind_gusts_10m?.[i],
-
-        // Atmospheric Stability
-        cape: data.hourly.cape?.[i],
-        surfaceLiftedIndex: data.hourly.lifted_index?.[i],
-
-        // Air Quality & Visibility
-        uvIndex: data.hourly.uv_index?.[i],
-        visibility: data.hourly.visibility?.[i],
-
-        // Soil & Surface
-        soilTemperature: data.hourly.soil_temperature_0cm?.[i],
-        soilMoisture: data.hourly.soil_moisture_0_to_1cm?.[i],
-        snowDepth: data.hourly.snow_depth?.[i],
-
-        // Data Quality
-        dataQuality: quality,
-        missingDataFlags: missingFlags.length > 0 ? missingFlags : undefined,
-      });
-    }
-
-    return hourlyData;
+    return mapOpenMeteoHourly(data, variables, data.utc_offset_seconds, hours);
   } catch (error) {
     console.error("Error fetching Open-Meteo forecast:", error);
-    throw new Error("Failed to fetch weather forecast from Open-Meteo");
+    throw asUpstreamError(
+      error,
+      "api.open-meteo.com",
+      "Failed to fetch weather forecast from Open-Meteo"
+    );
   }
 }
 
@@ -190,17 +407,21 @@ export async function fetchOpenMeteoForecast(
  * Fetch historical climate data from Open-Meteo Archive API
  *
  * Used for long-term viability analysis.
- * Provides historical data back to 1940.
+ * Provides historical data back to 1940. The range is fetched in one
+ * request; fetchCachedHistorical (weatherProviders.ts) splits long periods
+ * into calendar years first.
  *
  * @param location - Location coordinates
  * @param startDate - Start date (YYYY-MM-DD)
  * @param endDate - End date (YYYY-MM-DD)
+ * @param variables - Variables to fetch (default the full archive set)
  * @returns Array of hourly weather data
  */
 export async function fetchOpenMeteoHistorical(
   location: Location,
   startDate: string,
-  endDate: string
+  endDate: string,
+  variables: OpenMeteoVariable[] = OPEN_METEO_ARCHIVE_VARIABLES
 ): Promise<HourlyWeatherData[]> {
   try {
     const params = new URLSearchParams({
@@ -208,42 +429,123 @@ export async function fetchOpenMeteoHistorical(
       longitude: location.longitude.toString(),
       start_date: startDate,
       end_date: endDate,
-      hourly: [
-        "temperature_2m",
-        "cloud_cover",
-        "wind_speed_10m",
-        "shortwave_radiation",
-      ].join(","),
+      hourly: variables.join(","),
       temperature_unit: "celsius",
       wind_speed_unit: "ms",
+      precipitation_unit: "mm",
       timezone: "UTC",
     });
 
-    const response = await axios.get(
+    const data = await governedGet<OpenMeteoResponse>(
       `https://archive-api.open-meteo.com/v1/archive?${params.toString()}`,
       { timeout: 30000 }
     );
 
-    const data = response.data;
-    const hourlyData: HourlyWeatherData[] = [];
-
-    for (let i = 0; i < data.hourly.time.length; i++) {
-      hourlyData.push({
-        time: data.hourly.time[i],
-        temperature: data.hourly.temperature_2m?.[i],
-        solarIrradiance: data.hourly.shortwave_radiation?.[i],
-        cloudCover: data.hourly.cloud_cover?.[i],
-        windSpeed: data.hourly.wind_speed_10m?.[i],
-      });
-    }
-
-    return hourlyData;
+    return mapOpenMeteoHourly(data, variables, 0);
   } catch (error) {
     console.error("Error fetching Open-Meteo historical data:", error);
-    throw new Error("Failed to fetch historical weather data from Open-Meteo");
+    throw asUpstreamError(
+      error,
+      "archive-api.open-meteo.com",
+      "Failed to fetch historical weather data from Open-Meteo"
+    );
   }
 }
 
+/**
+ * NASA POWER hourly parameters used by the app
+ *
+ * Irradiance is energy over the hour (Wh/m²), i.e. the hourly mean in W/m².
+ */
+export type NASAPowerParameter =
+  | "ALLSKY_SFC_SW_DWN" // Wh/m² global horizontal irradiance
+  | "ALLSKY_SFC_SW_DNI" // Wh/m² direct normal irradiance
+  | "ALLSKY_SFC_SW_DIFF" // Wh/m² diffuse horizontal irradiance
+  | "ALLSKY_SFC_LW_DWN" // Wh/m² downward longwave irradiance
+  | "T2M" // °C temperature at 2 m
+  | "T2MDEW" // °C dew point at 2 m
+  | "RH2M" // % relative humidity at 2 m
+  | "QV2M" // g/kg specific humidity at 2 m
+  | "PS" // kPa surface pressure
+  | "PRECTOTCORR" // mm/hour precipitation
+  | "WS10M" // m/s wind speed at 10 m
+  | "WS50M" // m/s wind speed at 50 m
+  | "WD10M"; // degrees wind direction at 10 m
+
+/**
+ * NASA POWER hourly point response (JSON format)
+ */
+export interface NASAPowerResponse {
+  header: {
+    title?: string;
+    fill_value: number; // marks missing values, -999
+    start?: string;
+    end?: string;
+  };
+  properties: {
+    // Values keyed by UTC hour, YYYYMMDDHH
+    parameter: Partial<Record<NASAPowerParameter, Record<string, number>>>;
+  };
+  messages?: string[];
+}
+
+/** Parameters requested for the full hourly weather record */
+const NASA_POWER_HOURLY_PARAMETERS: NASAPowerParameter[] = [
+  "ALLSKY_SFC_SW_DWN",
+  "ALLSKY_SFC_SW_DNI",
+  "ALLSKY_SFC_SW_DIFF",
+  "ALLSKY_SFC_LW_DWN",
+  "T2M",
+  "T2MDEW",
+  "RH2M",
+  "QV2M",
+  "PS",
+  "PRECTOTCORR",
+  "WS10M",
+  "WS50M",
+  "WD10M",
+];
+
+/** NASA POWER fill value for missing data */
+const NASA_POWER_FILL_VALUE = -999;
+
+/**
+ * HourlyWeatherData fields filled by each parameter; the beam on the
+ * horizontal (directRadiation) needs both GHI and DHI
+ */
+const NASA_POWER_FIELDS: Record<
+  NASAPowerParameter,
+  (keyof HourlyWeatherData)[]
+> = {
+  ALLSKY_SFC_SW_DWN: ["solarIrradiance", "directRadiation"],
+  ALLSKY_SFC_SW_DNI: ["directNormalIrradiance"],
+  ALLSKY_SFC_SW_DIFF: ["diffuseRadiation", "directRadiation"],
+  ALLSKY_SFC_LW_DWN: ["terrestrialRadiation"],
+  T2M: ["temperature"],
+  T2MDEW: ["dewPoint"],
+  RH2M: ["relativeHumidity"],
+  QV2M: ["specificHumidity"],
+  PS: ["surfacePressure"],
+  PRECTOTCORR: ["precipitation"],
+  WS10M: ["windSpeed", "windSpeed10m"],
+  WS50M: ["windSpeed50m"],
+  WD10M: ["windDirection"],
+};
+
+/**
+ * NASA POWER parameters that fill the requested HourlyWeatherData fields
+ *
+ * @param fields - Requested fields
+ * @returns Parameters that fill at least one requested field
+ */
+export function selectNASAPowerParameters(
+  fields: (keyof HourlyWeatherData)[]
+): NASAPowerParameter[] {
+  return NASA_POWER_HOURLY_PARAMETERS.filter((code) =>
+    NASA_POWER_FIELDS[code].some((field) => fields.includes(field))
+  );
+}
+
 /**
  * Fetch data from NASA POWER API
  *
@@ -258,14 +560,14 @@ export async function fetchOpenMeteoHistorical(
  * @param startDate - Start date (YYYYMMDD)
  * @param endDate - End date (YYYYMMDD)
  * @param parameters - Array of parameter codes
- * @returns Raw NASA POWER data
+ * @returns NASA POWER response with hourly values in UTC
  */
 export async function fetchNASAPowerData(
   location: Location,
   startDate: string,
   endDate: string,
-  parameters: string[]
-): Promise<any> {
+  parameters: NASAPowerParameter[]
+): Promise<NASAPowerResponse> {
   try {
     const params = new URLSearchParams({
       latitude: location.latitude.toString(),
@@ -275,21 +577,147 @@ export async function fetchNASAPowerData(
       parameters: parameters.join(","),
       community: "RE", // Renewable Energy community
       temporal_api: "hourly",
+      "time-standard": "UTC",
       format: "JSON",
     });
 
-    const response = await axios.get(
+    const data = await governedGet<NASAPowerResponse>(
       `https://power.larc.nasa.gov/api/temporal/hourly/point?${params.toString()}`,
       { timeout: 30000 }
     );
 
-    return response.data;
+    if (!data?.properties?.parameter) {
+      throw new UpstreamInvalidError(
+        "power.larc.nasa.gov",
+        "NASA POWER response has no parameter data"
+      );
+    }
+
+    return data;
   } catch (error) {
     console.error("Error fetching NASA POWER data:", error);
-    throw new Error("Failed to fetch data from NASA POWER API");
+    throw asUpstreamError(
+      error,
+      "power.larc.nasa.gov",
+      "Failed to fetch data from NASA POWER API"
+    );
   }
 }
 
+/**
+ * Map a NASA POWER hourly response onto HourlyWeatherData
+ *
+ * Fill values (-999) become missing fields. Pressure is converted from
+ * kPa to hPa and the beam on the horizontal from GHI - DHI.
+ *
+ * @param data - NASA POWER hourly response
+ * @returns Array of hourly weather data in UTC
+ */
+export function mapNASAPowerHourly(
+  data: NASAPowerResponse
+): HourlyWeatherData[] {
+  const parameter = data.properties.parameter;
+  const fillValue = data.header?.fill_value ?? NASA_POWER_FILL_VALUE;
+  const value = (code: NASAPowerParameter, key: string): number | undefined => {
+    const v = parameter[code]?.[key];
+    return v === undefined || v === null || v <= fillValue ? undefined : v;
+  };
+
+  // Every parameter carries the same hours; take them from any of them
+  const keys = Object.keys(Object.values(parameter)[0] ?? {}).sort();
+
+  return keys.map((key) => {
+    const ghi = value("ALLSKY_SFC_SW_DWN", key);
+    const dhi = value("ALLSKY_SFC_SW_DIFF", key);
+    const pressure = value("PS", key);
+    const windSpeed = value("WS10M", key);
+
+    // Only parameters in the response count as missing
+    const missingFlags: string[] = [];
+    if (parameter.T2M && value("T2M", key) === undefined)
+      missingFlags.push("temperature");
+    if (parameter.PS && pressure === undefined) missingFlags.push("pressure");
+    if (parameter.RH2M && value("RH2M", key) === undefined)
+      missingFlags.push("humidity");
+    if (parameter.ALLSKY_SFC_SW_DWN && ghi === undefined)
+      missingFlags.push("irradiance");
+    if (parameter.WS10M && windSpeed === undefined) missingFlags.push("wind");
+
+    let quality: "excellent" | "good" | "fair" | "poor" = "excellent";
+    if (missingFlags.length > 0) quality = "good";
+    if (missingFlags.length > 2) quality = "fair";
+    if (missingFlags.length > 3) quality = "poor";
+
+    return {
+      // Keys are YYYYMMDDHH
+      time: `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)}T${key.slice(8, 10)}:00`,
+      utcOffsetSeconds: 0,
+
+      // Temperature & Thermodynamics
+      temperature: value("T2M", key),
+      dewPoint: value("T2MDEW", key),
+
+      // Solar Radiation
+      solarIrradiance: ghi,
+      directRadiation:
+        ghi !== undefined && dhi !== undefined
+          ? Math.max(0, ghi - dhi)
+          : undefined,
+      diffuseRadiation: dhi,
+      directNormalIrradiance: value("ALLSKY_SFC_SW_DNI", key),
+      terrestrialRadiation: value("ALLSKY_SFC_LW_DWN", key),
+
+      // Atmospheric Pressure
+      surfacePressure: pressure !== undefined ? pressure * 10 : undefined,
+
+      // Humidity & Moisture
+      relativeHumidity: value("RH2M", key),
+      specificHumidity: value("QV2M", key),
+
+      // Precipitation
+      precipitation: value("PRECTOTCORR", key),
+
+      // Wind (Multi-level)
+      windSpeed,
+      windSpeed10m: windSpeed,
+      windSpeed50m: value("WS50M", key),
+      windDirection: value("WD10M", key),
+
+      // Data Quality
+      dataQuality: quality,
+      missingDataFlags: missingFlags.length > 0 ? missingFlags : undefined,
+    };
+  });
+}
+
+/**
+ * Fetch historical hourly data from NASA POWER
+ *
+ * The range is fetched in one request, so it must lie within one
+ * calendar year; fetchCachedHistorical (weatherProviders.ts) splits longer
+ * periods.
+ *
+ * @param location - Location coordinates
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @param parameters - Parameters to fetch (default the full record)
+ * @returns Array of hourly weather data in UTC
+ */
+export async function fetchNASAPowerHistorical(
+  location: Location,
+  startDate: string,
+  endDate: string,
+  parameters: NASAPowerParameter[] = NASA_POWER_HOURLY_PARAMETERS
+): Promise<HourlyWeatherData[]> {
+  const data = await fetchNASAPowerData(
+    location,
+    startDate.replace(/-/g, ""),
+    endDate.replace(/-/g, ""),
+    parameters
+  );
+  return mapNASAPowerHourly(data);
+}
+
 /**
  * Geocode an address to coordinates using Nominatim (OpenStreetMap) API
  *
@@ -305,7 +733,7 @@ export async function geocodeAddress(address: string): Promise<Location> {
       addressdetails: "1",
     });
 
-    const response = await axios.get(
+    const results = await governedGet<NominatimResult[]>(
       `https://nominatim.openstreetmap.org/search?${params.toString()}`,
       {
         timeout: 10000,
@@ -315,9 +743,11 @@ export async function geocodeAddress(address: string): Promise<Location> {
       }
     );
 
-    const results = response.data;
     if (!results || results.length === 0) {
-      throw new Error("Address not found");
+      throw new NotFoundError(
+        "nominatim.openstreetmap.org",
+        "Address not found"
+      );
     }
 
     const result = results[0];
@@ -328,7 +758,11 @@ export async function geocodeAddress(address: string): Promise<Location> {
     };
   } catch (error) {
     console.error("Error geocoding address:", error);
-    throw new Error("Failed to geocode address");
+    throw asUpstreamError(
+      error,
+      "nominatim.openstreetmap.org",
+      "Failed to geocode address"
+    );
   }
 }
 
@@ -0,0 +1,445 @@
+import path from "path";
+import {
+  HourlyWeatherData,
+  Location,
+  WeatherProviderCapabilities,
+  WeatherCacheInfo,
+  WeatherProviderId,
+  WeatherSources,
+} from "@/types";
+import {
+  fetchNASAPowerHistorical,
+  fetchOpenMeteoForecast,
+  fetchOpenMeteoHistorical,
+  getOpenMeteoFields,
+  OPEN_METEO_ARCHIVE_VARIABLES,
+  OPEN_METEO_FORECAST_VARIABLES,
+  selectNASAPowerParameters,
+  selectOpenMeteoVariables,
+  splitDateRange,
+} from "@/lib/api/weatherClient";
+import { createFixtureProvider } from "@/lib/api/fixtureProvider";
+import { cachedWeatherFetch } from "@/lib/api/weatherCache";
+
+/**
+ * Weather Providers
+ *
+ * Routes fetch weather through a WeatherProvider instead of calling a
+ * particular API, so the source can be chosen per request or by
+ * configuration:
+ * - open-meteo: forecast up to 16 days and the archive back to 1940
+ * - nasa-power: historical data from 2001, no forecast
+ * - fixture: recorded responses read from disk, for offline runs
+ *
+ * Configuration (environment):
+ * - WEATHER_PROVIDER: default provider (default open-meteo)
+ * - WEATHER_FIXTURE_DIR: directory of the fixture provider (default fixtures/weather)
+ * - WEATHER_FIXTURE_RECORD: provider that fills missing fixtures, e.g. open-meteo
+ *
+ * Fallback:
+ * When Open-Meteo fails, NASA POWER serves historical requests instead.
+ * NASA POWER has no forecast, so a failed forecast surfaces the
+ * UpstreamError of the provider. Every hour records the provider that
+ * served it in `source`.
+ *
+ * Callers may name the HourlyWeatherData fields they need; providers then
+ * fetch only the variables that fill them (default: everything the
+ * provider has). fetchHistorical of a provider makes one request per
+ * call, so a range must lie within one calendar year: fetchCachedHistorical
+ * splits longer ranges to stay within the per-request limits of the
+ * archives.
+ *
+ * Responses of the network providers go through the cache in
+ * lib/api/weatherCache.ts.
+ */
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  name: string;
+  capabilities: WeatherProviderCapabilities;
+  fetchForecast(
+    location: Location,
+    hours: number,
+    variables?: WeatherVariables
+  ): Promise<HourlyWeatherData[]>;
+  fetchHistorical(
+    location: Location,
+    startDate: string,
+    endDate: string,
+    variables?: WeatherVariables
+  ): Promise<HourlyWeatherData[]>;
+}
+
+/** HourlyWeatherData fields a caller needs from a provider */
+export type WeatherVariables = (keyof HourlyWeatherData)[];
+
+/** What a route needs from its weather provider */
+export interface WeatherRequirements {
+  forecastHours?: number;
+  historicalStart?: string; // YYYY-MM-DD
+}
+
+export const WEATHER_PROVIDER_IDS: WeatherProviderId[] = [
+  "open-meteo",
+  "nasa-power",
+  "fixture",
+];
+
+const DEFAULT_WEATHER_PROVIDER: WeatherProviderId = "open-meteo";
+
+/** Provider tried when a historical request fails */
+const FALLBACK_PROVIDERS: Partial<
+  Record<WeatherProviderId, WeatherProviderId>
+> = {
+  "open-meteo": "nasa-power",
+};
+
+export const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  name: "Open-Meteo",
+  capabilities: {
+    maxForecastHours: 16 * 24,
+    historicalStart: "1940-01-01",
+    forecastVariables: getOpenMeteoFields(OPEN_METEO_FORECAST_VARIABLES),
+    historicalVariables: getOpenMeteoFields(OPEN_METEO_ARCHIVE_VARIABLES),
+  },
+  fetchForecast: (location, hours, variables) =>
+    fetchOpenMeteoForecast(
+      location,
+      hours,
+      variables
+        ? selectOpenMeteoVariables(variables, OPEN_METEO_FORECAST_VARIABLES)
+        : undefined
+    ),
+  fetchHistorical: (location, startDate, endDate, variables) =>
+    fetchOpenMeteoHistorical(
+      location,
+      startDate,
+      endDate,
+      variables
+        ? selectOpenMeteoVariables(variables, OPEN_METEO_ARCHIVE_VARIABLES)
+        : undefined
+    ),
+};
+
+export const nasaPowerProvider: WeatherProvider = {
+  id: "nasa-power",
+  name: "NASA POWER",
+  capabilities: {
+    maxForecastHours: 0,
+    historicalStart: "2001-01-01",
+    forecastVariables: [],
+    historicalVariables: [
+      "temperature",
+      "dewPoint",
+      "solarIrradiance",
+      "directRadiation",
+      "diffuseRadiation",
+      "directNormalIrradiance",
+      "terrestrialRadiation",
+      "surfacePressure",
+      "relativeHumidity",
+      "specificHumidity",
+      "precipitation",
+      "windSpeed",
+      "windSpeed10m",
+      "windSpeed50m",
+      "windDirection",
+    ],
+  },
+  fetchForecast: async () => {
+    throw new Error("NASA POWER does not provide forecasts");
+  },
+  fetchHistorical: (location, startDate, endDate, variables) =>
+    fetchNASAPowerHistorical(
+      location,
+      startDate,
+      endDate,
+      variables ? selectNASAPowerParameters(variables) : undefined
+    ),
+};
+
+/**
+ * Whether a string names a weather provider
+ *
+ * @param id - Provider id
+ * @returns True for a known provider id
+ */
+function isWeatherProviderId(id: string): id is WeatherProviderId {
+  return (WEATHER_PROVIDER_IDS as string[]).includes(id);
+}
+
+/**
+ * Provider id from the request, falling back to the configured default
+ *
+ * @param id - Provider id from the request
+ * @returns Requested, configured or default provider id
+ */
+function resolveWeatherProviderId(id?: string): string {
+  return id || process.env.WEATHER_PROVIDER || DEFAULT_WEATHER_PROVIDER;
+}
+
+/**
+ * Look up a weather provider
+ *
+ * The fixture provider is built on each call so that changes to its
+ * environment settings apply without a restart.
+ *
+ * @param id - Provider id (default: WEATHER_PROVIDER, then open-meteo)
+ * @returns Weather provider
+ */
+export function getWeatherProvider(id?: string): WeatherProvider {
+  const providerId = resolveWeatherProviderId(id);
+
+  switch (providerId) {
+    case "open-meteo":
+      return openMeteoProvider;
+    case "nasa-power":
+      return nasaPowerProvider;
+    case "fixture": {
+      const recordId = process.env.WEATHER_FIXTURE_RECORD;
+      const recorder =
+        recordId && recordId !== "fixture"
+          ? getWeatherProvider(recordId)
+          : undefined;
+      // Fixtures stand in for the provider they were recorded from
+      return createFixtureProvider(
+        process.env.WEATHER_FIXTURE_DIR ||
+          path.join(process.cwd(), "fixtures", "weather"),
+        (recorder ?? openMeteoProvider).capabilities,
+        recorder
+      );
+    }
+    default:
+      throw new Error(`Unknown weather provider "${providerId}"`);
+  }
+}
+
+/**
+ * Check that a weather provider exists and covers what a route needs
+ *
+ * @param id - Provider id from the request
+ * @param requirements - Forecast horizon and archive start needed
+ * @returns Error message, or null when the provider is usable
+ */
+export function validateWeatherProvider(
+  id: string | undefined,
+  requirements: WeatherRequirements
+): string | null {
+  const providerId = resolveWeatherProviderId(id);
+  if (!isWeatherProviderId(providerId)) {
+    return `Unknown weather provider "${providerId}"; expected one of ${WEATHER_PROVIDER_IDS.join(", ")}`;
+  }
+
+  const { name, capabilities } = getWeatherProvider(providerId);
+  if (
+    requirements.forecastHours !== undefined &&
+    capabilities.maxForecastHours < requirements.forecastHours
+  ) {
+    return capabilities.maxForecastHours > 0
+      ? `${name} forecasts at most ${capabilities.maxForecastHours} hours ahead`
+      : `${name} does not provide forecasts`;
+  }
+  if (requirements.historicalStart !== undefined) {
+    if (!capabilities.historicalStart) {
+      return `${name} does not provide historical data`;
+    }
+    if (requirements.historicalStart < capabilities.historicalStart) {
+      return `${name} historical data starts on ${capabilities.historicalStart}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Variables of a request that a provider can serve, for the cache key
+ *
+ * @param available - Variables of the provider
+ * @param variables - Variables asked for (default all)
+ * @returns Variables that will be fetched
+ */
+function requestedVariables(
+  available: WeatherVariables,
+  variables?: WeatherVariables
+): WeatherVariables {
+  return variables
+    ? available.filter((variable) => variables.includes(variable))
+    : available;
+}
+
+/**
+ * Mark each hour with the provider that served it
+ *
+ * @param data - Hourly weather data
+ * @param source - Provider id
+ * @returns Hourly weather data with `source` set
+ */
+function withSource(
+  data: HourlyWeatherData[],
+  source: WeatherProviderId
+): HourlyWeatherData[] {
+  return data.map((hour) => ({ ...hour, source }));
+}
+
+/**
+ * Fetch a forecast through the response cache
+ *
+ * Fixtures are already on disk and bypass the cache.
+ *
+ * @param provider - Weather provider
+ * @param location - Location coordinates
+ * @param hours - Number of hours to forecast
+ * @param variables - Fields needed (default all of the provider)
+ * @param cacheInfo - Hit and miss counters of the API request (updated in place)
+ * @returns Array of hourly weather data with the serving provider per hour
+ */
+export async function fetchCachedForecast(
+  provider: WeatherProvider,
+  location: Location,
+  hours: number,
+  variables?: WeatherVariables,
+  cacheInfo?: WeatherCacheInfo
+): Promise<HourlyWeatherData[]> {
+  const fetcher = () => provider.fetchForecast(location, hours, variables);
+  const data =
+    provider.id === "fixture"
+      ? await fetcher()
+      : await cachedWeatherFetch(
+          {
+            provider: provider.id,
+            location,
+            kind: "forecast",
+            variables: requestedVariables(
+              provider.capabilities.forecastVariables,
+              variables
+            ),
+            window: `${hours}h`,
+          },
+          fetcher,
+          cacheInfo
+        );
+  return withSource(data, provider.id);
+}
+
+/**
+ * Fetch historical data through the response cache
+ *
+ * The range is fetched and cached one calendar year at a time, so past
+ * years stay cached while the end of a rolling window moves. Fixtures are
+ * already on disk and bypass the cache.
+ *
+ * @param provider - Weather provider
+ * @param location - Location coordinates
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @param variables - Fields needed (default all of the provider)
+ * @param cacheInfo - Hit and miss counters of the API request (updated in place)
+ * @returns Array of hourly weather data with the serving provider per hour
+ */
+export async function fetchCachedHistorical(
+  provider: WeatherProvider,
+  location: Location,
+  startDate: string,
+  endDate: string,
+  variables?: WeatherVariables,
+  cacheInfo?: WeatherCacheInfo
+): Promise<HourlyWeatherData[]> {
+  if (provider.id === "fixture") {
+    return withSource(
+      await provider.fetchHistorical(location, startDate, endDate, variables),
+      provider.id
+    );
+  }
+
+  const data: HourlyWeatherData[] = [];
+  for (const [chunkStart, chunkEnd] of splitDateRange(startDate, endDate)) {
+    const chunk = await cachedWeatherFetch(
+      {
+        provider: provider.id,
+        location,
+        kind: "historical",
+        variables: requestedVariables(
+          provider.capabilities.historicalVariables,
+          variables
+        ),
+        window: `${chunkStart}/${chunkEnd}`,
+      },
+      () => provider.fetchHistorical(location, chunkStart, chunkEnd, variables),
+      cacheInfo
+    );
+    data.push(...chunk);
+  }
+  return withSource(data, provider.id);
+}
+
+/**
+ * Fetch historical data, falling back to NASA POWER when Open-Meteo fails
+ *
+ * @param id - Provider id from the request
+ * @param location - Location coordinates
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @param variables - Fields needed (default all of the provider)
+ * @param cacheInfo - Hit and miss counters of the API request (updated in place)
+ * @returns Array of hourly weather data with the serving provider per hour
+ */
+export async function fetchHistoricalWithFallback(
+  id: string | undefined,
+  location: Location,
+  startDate: string,
+  endDate: string,
+  variables?: WeatherVariables,
+  cacheInfo?: WeatherCacheInfo
+): Promise<HourlyWeatherData[]> {
+  const provider = getWeatherProvider(id);
+  try {
+    return await fetchCachedHistorical(
+      provider,
+      location,
+      startDate,
+      endDate,
+      variables,
+      cacheInfo
+    );
+  } catch (error) {
+    const fallbackId = FALLBACK_PROVIDERS[provider.id];
+    if (
+      !fallbackId ||
+      validateWeatherProvider(fallbackId, { historicalStart: startDate })
+    ) {
+      throw error;
+    }
+
+    const fallback = getWeatherProvider(fallbackId);
+    console.warn(
+      `${provider.name} historical data failed, using ${fallback.name}`
+    );
+    return fetchCachedHistorical(
+      fallback,
+      location,
+      startDate,
+      endDate,
+      variables,
+      cacheInfo
+    );
+  }
+}
+
+/**
+ * Count the hours served by each provider
+ *
+ * @param data - Hourly weather data
+ * @returns Hours by provider id
+ */
+export function summarizeWeatherSources(
+  data: HourlyWeatherData[]
+): WeatherSources {
+  const sources: WeatherSources = {};
+  data.forEach((hour) => {
+    if (hour.source) {
+      sources[hour.source] = (sources[hour.source] ?? 0) + 1;
+    }
+  });
+  return sources;
+}
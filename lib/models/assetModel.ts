@@ -0,0 +1,71 @@
+import { Asset, SolarAsset, WindAsset } from '@/types';
+import { resolveSolarEquipment, validateEquipmentReferences } from '@/lib/models/equipmentLibrary';
+import { validateShadingProfile } from '@/lib/models/horizonModel';
+import { resolveWindTurbine, validateWindTurbine } from '@/lib/models/turbineLibrary';
+import { validateFarmLayout } from '@/lib/models/wakeModel';
+import { validateHighWindControl } from '@/lib/models/turbulenceModel';
+import { resolveHybridAsset, validateHybridAsset } from '@/lib/models/hybridModel';
+import { validateBattery } from '@/lib/models/batteryModel';
+
+/**
+ * Asset Validation and Resolution
+ *
+ * This module is the single place where an asset configuration from a
+ * request is checked and its equipment references are resolved. Routes
+ * call validateAsset and resolveAsset rather than the validators of the
+ * individual models, so a new validator applies to every route.
+ */
+
+/**
+ * Check a solar asset: equipment references and shading profile
+ *
+ * @param asset - Solar asset configuration
+ * @returns Error message, or null when the asset is valid
+ */
+export function validateSolarAsset(asset: SolarAsset): string | null {
+  return validateEquipmentReferences(asset) ?? validateShadingProfile(asset);
+}
+
+/**
+ * Check a wind asset: turbine reference, farm layout and high-wind control
+ *
+ * @param asset - Wind asset configuration
+ * @returns Error message, or null when the asset is valid
+ */
+export function validateWindAsset(asset: WindAsset): string | null {
+  return validateWindTurbine(asset) ?? validateFarmLayout(asset) ?? validateHighWindControl(asset);
+}
+
+/**
+ * Check an asset of any type, including its battery
+ *
+ * @param asset - Asset configuration
+ * @returns Error message, or null when the asset is valid
+ */
+export function validateAsset(asset: Asset): string | null {
+  const plantError = asset.type === 'hybrid'
+    ? validateHybridAsset(asset) ?? validateSolarAsset(asset.solar) ?? validateWindAsset(asset.wind)
+    : asset.type === 'solar'
+      ? validateSolarAsset(asset)
+      : validateWindAsset(asset);
+
+  return plantError ?? validateBattery(asset);
+}
+
+/**
+ * Derive capacity, coefficients and power curves from the referenced
+ * equipment of an asset of any type
+ *
+ * @param asset - Valid asset configuration (see validateAsset)
+ * @returns Asset of the same type with its equipment resolved
+ */
+export function resolveAsset<T extends Asset>(asset: T): T {
+  switch (asset.type) {
+    case 'hybrid':
+      return resolveHybridAsset(asset) as T;
+    case 'solar':
+      return resolveSolarEquipment(asset) as T;
+    default:
+      return resolveWindTurbine(asset as WindAsset) as T;
+  }
+}
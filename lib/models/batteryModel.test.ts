@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { BatteryStorage, PowerOutput, SolarAsset, WindAsset } from '@/types';
+import {
+  calculateCapacityFade,
+  simulateBattery,
+  summarizeBattery,
+  validateBattery
+} from '@/lib/models/batteryModel';
+
+// 81% round trip gives η_c = η_d = 0.9; ageing is switched off so that the
+// energy balance can be followed by hand
+const battery: BatteryStorage = {
+  power: 20,
+  energy: 100,
+  roundTripEfficiency: 81,
+  minSoc: 10,
+  maxSoc: 90,
+  initialSoc: 50,
+  calendarDegradation: 0,
+  cycleDegradation: 0
+};
+
+function outputs(powers: number[], extra: Partial<PowerOutput>[] = []): PowerOutput[] {
+  return powers.map((power, i) => ({
+    time: `2024-06-01T${String(i).padStart(2, '0')}:00`,
+    power,
+    ...extra[i]
+  }));
+}
+
+describe('simulateBattery', () => {
+  const solar: SolarAsset = { type: 'solar', dcCapacity: 130, inverter: { acCapacity: 100 }, battery };
+  const wind: WindAsset = { type: 'wind', ratedCapacity: 100, hubHeight: 100 };
+
+  it('stores clipped energy and discharges it into the inverter headroom', () => {
+    const result = simulateBattery(solar, outputs([100, 60], [{ clippedEnergy: 30 }]));
+
+    // Charge at the 20 kW rating: E = 50 + 0.9 × 20 = 68 kWh
+    expect(result[0].batteryCharge).toBe(20);
+    expect(result[0].deliveredPower).toBe(100);
+    expect(result[0].batterySoc).toBeCloseTo(68, 9);
+
+    // Discharge 20 kW into 40 kW of headroom: E = 68 - 20 / 0.9
+    expect(result[1].batteryDischarge).toBe(20);
+    expect(result[1].deliveredPower).toBe(80);
+    expect(result[1].batterySoc).toBeCloseTo(68 - 20 / 0.9, 9);
+  });
+
+  it('holds the output at the firm capacity target', () => {
+    const asset: WindAsset = { ...wind, battery: { ...battery, strategy: 'firm-capacity', firmCapacity: 50 } };
+    const result = simulateBattery(asset, outputs([70, 30, 30, 30]));
+
+    // 50 + 18 = 68 kWh, then 20 / 0.9 per hour: 45.78 and 23.56 kWh, leaving
+    // (23.56 - 10) × 0.9 = 12.2 kW above the 10 kWh floor in the last hour
+    expect(result.map((o) => o.deliveredPower)).toEqual([50, 50, 50, 30 + result[3].batteryDischarge!]);
+    expect(result[3].batteryDischarge).toBeCloseTo((68 - 40 / 0.9 - 10) * 0.9, 9);
+    expect(result[3].batterySoc).toBeCloseTo(10, 9);
+  });
+
+  it('holds the grid import at the peak limit', () => {
+    const loadProfile = new Array(24).fill(40);
+    const asset: WindAsset = {
+      ...wind,
+      battery: { ...battery, strategy: 'peak-shaving', loadProfile, peakLimit: 25 }
+    };
+    const result = simulateBattery(asset, outputs([0, 30]));
+
+    // Net load 40 > 25: discharge 15
+    expect(result[0].batteryDischarge).toBe(15);
+    expect(result[0].gridImport).toBe(25);
+    // Net load 10 < 25: charge 15 from the grid, none from the plant
+    expect(result[1].batteryCharge).toBe(15);
+    expect(result[1].gridImport).toBe(25);
+    expect(result[1].deliveredPower).toBe(30);
+  });
+
+  it('charges in the cheapest hours and discharges in the dearest', () => {
+    const prices = Array.from({ length: 24 }, (_, h) => (h >= 17 && h < 21 ? 200 : h < 4 ? 10 : 50));
+    const asset: WindAsset = { ...wind, battery: { ...battery, strategy: 'arbitrage', prices, initialSoc: 10 } };
+    const result = simulateBattery(asset, outputs(new Array(24).fill(30)));
+
+    // 80 kWh usable at 20 kW: 4-hour windows
+    expect(result.slice(0, 4).every((o) => o.batteryCharge! > 0)).toBe(true);
+    expect(result.slice(17, 21).every((o) => o.batteryDischarge! > 0)).toBe(true);
+    expect(result.slice(4, 17).every((o) => o.batteryCharge === 0 && o.batteryDischarge === 0)).toBe(true);
+  });
+
+  it('keeps the state of charge within its limits and conserves energy', () => {
+    const asset: WindAsset = { ...wind, battery: { ...battery, strategy: 'firm-capacity', firmCapacity: 50 } };
+    const powers = Array.from({ length: 96 }, (_, i) => 50 + 40 * Math.sin(i / 3));
+    const result = simulateBattery(asset, outputs(powers));
+
+    const charged = result.reduce((sum, o) => sum + o.batteryCharge!, 0);
+    const discharged = result.reduce((sum, o) => sum + o.batteryDischarge!, 0);
+    const finalEnergy = result[result.length - 1].batterySoc!;
+
+    result.forEach((o) => {
+      expect(o.batterySoc!).toBeGreaterThanOrEqual(10 - 1e-9);
+      expect(o.batterySoc!).toBeLessThanOrEqual(90 + 1e-9);
+    });
+    expect(50 + 0.9 * charged - discharged / 0.9).toBeCloseTo(finalEnergy, 6);
+  });
+
+  it('summarises the captured energy and cycles', () => {
+    const result = simulateBattery(solar, outputs([100, 60], [{ clippedEnergy: 30 }]));
+    const summary = summarizeBattery(battery, result);
+
+    expect(summary.capturedEnergy).toBe(20);
+    expect(summary.deliveredEnergy).toBe(180);
+    expect(summary.equivalentCycles).toBeCloseTo(0.2, 12);
+  });
+});
+
+describe('calculateCapacityFade', () => {
+  it('adds the calendar and cycle fade', () => {
+    // Defaults of 1%/year and 4% per 1000 cycles
+    expect(calculateCapacityFade({ power: 1, energy: 4 }, 8760, 1000)).toBeCloseTo(5, 12);
+  });
+});
+
+describe('validateBattery', () => {
+  it('rejects clip capture on a wind asset', () => {
+    const wind: WindAsset = { type: 'wind', ratedCapacity: 100, hubHeight: 100, battery: { power: 20, energy: 80 } };
+
+    expect(validateBattery(wind)).toMatch(/Clip capture/);
+    expect(validateBattery({ ...wind, battery: { power: 20, energy: 80, strategy: 'firm-capacity', firmCapacity: 40 } })).toBeNull();
+  });
+
+  it('needs the inputs of the chosen strategy', () => {
+    const solar: SolarAsset = { type: 'solar', dcCapacity: 100, battery: { power: 20, energy: 80, strategy: 'arbitrage' } };
+
+    expect(validateBattery(solar)).toMatch(/price profile/);
+  });
+});
@@ -0,0 +1,314 @@
+import { Asset, BatteryStorage, BatterySummary, PowerOutput } from '@/types';
+import { resolveInverter } from '@/lib/models/inverterModel';
+
+/**
+ * Battery Energy Storage Model
+ *
+ * This module dispatches a battery attached to a solar, wind or hybrid
+ * asset hour by hour over the plant's simulated output.
+ *
+ * Energy balance (Δt = 1 h):
+ * E(t) = E(t-1) + η_c × P_charge - P_discharge / η_d
+ * η_c = η_d = √η_rt
+ *
+ * Where:
+ * - E = stored energy, held between SOC_min and SOC_max of the capacity
+ * - P_charge, P_discharge ≤ P_rated (AC side)
+ * - η_rt = round-trip efficiency
+ *
+ * Capacity fade:
+ * E_cap(t) = E_rated × (1 - d_cal × t / 8760 - d_cyc × N / 1000)
+ * N = Σ P_discharge / E_rated (equivalent full cycles)
+ *
+ * Dispatch strategies:
+ * - clip-capture: store inverter clipping (solar) or interconnection
+ *   curtailment (hybrid) and discharge into the export headroom; a wind
+ *   asset has neither, so it needs one of the other strategies
+ * - peak-shaving: store generation above the load, and grid energy while
+ *   the import is below the peak limit; discharge to hold the import at
+ *   the limit
+ * - arbitrage: store generation in the cheapest hours of the price
+ *   profile and discharge in the dearest
+ * - firm-capacity: store generation above the target and discharge to
+ *   fill shortfalls below it
+ *
+ * Discharge shares the plant's export limit (inverter AC rating for solar,
+ * rated capacity for wind, interconnection limit for hybrid plants), except
+ * when shaving the peak of an on-site load.
+ *
+ * References:
+ * - NREL (2021). PySAM Battery: Dispatch options of the System Advisor Model
+ * - Schmalstieg, J. et al. (2014). A holistic aging model for Li(NiMnCo)O2 based 18650 lithium-ion batteries. J. Power Sources 257
+ */
+
+/** Default round-trip efficiency (%) */
+const DEFAULT_ROUND_TRIP_EFFICIENCY = 88;
+
+/** Default state of charge limits and starting point (%) */
+const DEFAULT_MIN_SOC = 10;
+const DEFAULT_MAX_SOC = 95;
+const DEFAULT_INITIAL_SOC = 50;
+
+/** Default capacity fade, % per year and % per 1000 equivalent full cycles */
+const DEFAULT_CALENDAR_DEGRADATION = 1;
+const DEFAULT_CYCLE_DEGRADATION = 4;
+
+/** Hours per year */
+const HOURS_PER_YEAR = 8760;
+
+/** Hours per day, the length of load and price profiles */
+const PROFILE_LENGTH = 24;
+
+/**
+ * Local hour of day of an output time
+ *
+ * @param time - Time in "YYYY-MM-DDTHH:MM" form
+ * @returns Hour 0-23
+ */
+function getHourOfDay(time: string): number {
+  return parseInt(time.slice(11, 13), 10) || 0;
+}
+
+/**
+ * Highest output the plant and battery may deliver together
+ *
+ * @param asset - Asset configuration
+ * @returns Export limit in the asset's output units
+ */
+function getExportLimit(asset: Asset): number {
+  if (asset.type === 'solar') {
+    return resolveInverter(asset)?.acCapacity ?? asset.dcCapacity;
+  }
+  return asset.type === 'hybrid' ? asset.interconnectionLimit : asset.ratedCapacity;
+}
+
+/**
+ * Hours of day in which an arbitrage battery charges and discharges
+ *
+ * The hours needed to fill the usable capacity at rated power are taken
+ * from the cheapest and the dearest ends of the price profile.
+ *
+ * @param battery - Battery configuration with a 24-hour price profile
+ * @returns Charge and discharge hours of day
+ */
+function getArbitrageHours(battery: BatteryStorage): { charge: Set<number>; discharge: Set<number> } {
+  const prices = battery.prices ?? [];
+  const usable =
+    (battery.energy * ((battery.maxSoc ?? DEFAULT_MAX_SOC) - (battery.minSoc ?? DEFAULT_MIN_SOC))) / 100;
+  const window = Math.min(PROFILE_LENGTH / 2, Math.max(1, Math.ceil(usable / battery.power)));
+  const ranked = prices.map((price, hour) => ({ price, hour })).sort((a, b) => a.price - b.price);
+
+  return {
+    charge: new Set(ranked.slice(0, window).map((r) => r.hour)),
+    discharge: new Set(ranked.slice(-window).map((r) => r.hour))
+  };
+}
+
+/**
+ * Capacity lost to calendar and cycle ageing
+ *
+ * @param battery - Battery configuration
+ * @param hours - Hours since the start of the series
+ * @param equivalentCycles - Equivalent full cycles so far
+ * @returns Capacity fade in percent of nameplate energy (0-100)
+ */
+export function calculateCapacityFade(battery: BatteryStorage, hours: number, equivalentCycles: number): number {
+  const calendar = (battery.calendarDegradation ?? DEFAULT_CALENDAR_DEGRADATION) * (hours / HOURS_PER_YEAR);
+  const cycling = (battery.cycleDegradation ?? DEFAULT_CYCLE_DEGRADATION) * (equivalentCycles / 1000);
+  return Math.min(100, Math.max(0, calendar + cycling));
+}
+
+/**
+ * Dispatch the battery of an asset over its hourly output
+ *
+ * @param asset - Asset configuration with a battery
+ * @param outputs - Hourly plant outputs in the asset's units
+ * @returns Outputs with charge, discharge, state of charge and delivered power (unchanged without a battery)
+ */
+export function simulateBattery(asset: Asset, outputs: PowerOutput[]): PowerOutput[] {
+  const battery = asset.battery;
+  if (!battery) {
+    return outputs;
+  }
+
+  const strategy = battery.strategy ?? 'clip-capture';
+  const efficiency = Math.sqrt((battery.roundTripEfficiency ?? DEFAULT_ROUND_TRIP_EFFICIENCY) / 100);
+  const minSoc = (battery.minSoc ?? DEFAULT_MIN_SOC) / 100;
+  const maxSoc = (battery.maxSoc ?? DEFAULT_MAX_SOC) / 100;
+  const exportLimit = getExportLimit(asset);
+  const arbitrageHours = strategy === 'arbitrage' ? getArbitrageHours(battery) : null;
+
+  let stored = battery.energy * ((battery.initialSoc ?? DEFAULT_INITIAL_SOC) / 100);
+  let equivalentCycles = 0;
+
+  return outputs.map((output, index) => {
+    const capacity = battery.energy * (1 - calculateCapacityFade(battery, index, equivalentCycles) / 100);
+    stored = Math.min(stored, capacity * maxSoc);
+
+    // Limits for this hour on the AC side
+    const chargeRoom = Math.max(0, (capacity * maxSoc - stored) / efficiency);
+    const dischargeAvailable = Math.max(0, (stored - capacity * minSoc) * efficiency);
+    const charge = (request: number) => Math.min(Math.max(0, request), battery.power, chargeRoom);
+    const discharge = (request: number) => Math.min(Math.max(0, request), battery.power, dischargeAvailable);
+
+    const generation = Math.max(0, output.power);
+    const headroom = Math.max(0, exportLimit - output.power);
+    const hour = getHourOfDay(output.time);
+    let charged = 0;
+    let fromPlant = 0;
+    let discharged = 0;
+    let gridImport: number | undefined;
+
+    if (strategy === 'clip-capture') {
+      // Energy that would otherwise be lost; it is not part of the output
+      const lost = output.clippedEnergy ?? output.curtailedPower ?? 0;
+      charged = charge(lost);
+      discharged = lost > 0 ? 0 : discharge(headroom);
+    } else if (strategy === 'peak-shaving') {
+      const load = battery.loadProfile?.[hour] ?? 0;
+      const peakLimit = battery.peakLimit ?? 0;
+      const netLoad = load - generation;
+      if (netLoad > peakLimit) {
+        discharged = discharge(netLoad - peakLimit);
+      } else {
+        charged = charge(peakLimit - netLoad);
+        fromPlant = Math.min(charged, Math.max(0, -netLoad));
+      }
+      gridImport = Math.max(0, load - (generation - charged + discharged));
+    } else if (strategy === 'arbitrage' && arbitrageHours) {
+      if (arbitrageHours.charge.has(hour)) {
+        charged = fromPlant = charge(generation);
+      } else if (arbitrageHours.discharge.has(hour)) {
+        discharged = discharge(headroom);
+      }
+    } else if (strategy === 'firm-capacity') {
+      const target = battery.firmCapacity ?? 0;
+      if (generation > target) {
+        charged = fromPlant = charge(generation - target);
+      } else {
+        discharged = discharge(Math.min(target - generation, headroom));
+      }
+    }
+
+    stored += charged * efficiency - discharged / efficiency;
+    equivalentCycles += battery.energy > 0 ? discharged / battery.energy : 0;
+
+    // Clipped energy is stored instead of lost; grid charging is drawn by the load
+    const deliveredPower =
+      strategy === 'clip-capture'
+        ? output.power + discharged
+        : strategy === 'peak-shaving'
+          ? output.power - fromPlant + discharged
+          : output.power - charged + discharged;
+
+    return {
+      ...output,
+      batteryCharge: charged,
+      batteryDischarge: discharged,
+      batterySoc: capacity > 0 ? (stored / capacity) * 100 : 0,
+      deliveredPower,
+      gridImport
+    };
+  });
+}
+
+/**
+ * Energy flows and ageing of a dispatched battery
+ *
+ * @param battery - Battery configuration
+ * @param outputs - Outputs returned by simulateBattery
+ * @param scale - Factor applied to energies, cycles and hours, e.g. to annualise (default 1)
+ * @returns Summary in the asset's energy units
+ */
+export function summarizeBattery(battery: BatteryStorage, outputs: PowerOutput[], scale: number = 1): BatterySummary {
+  const strategy = battery.strategy ?? 'clip-capture';
+  let chargedEnergy = 0;
+  let dischargedEnergy = 0;
+  let deliveredEnergy = 0;
+  let peakGridImport = 0;
+  let arbitrageRevenue = 0;
+  let firmHours = 0;
+
+  outputs.forEach((o) => {
+    const delivered = o.deliveredPower ?? o.power;
+    chargedEnergy += o.batteryCharge ?? 0;
+    dischargedEnergy += o.batteryDischarge ?? 0;
+    deliveredEnergy += delivered;
+    peakGridImport = Math.max(peakGridImport, o.gridImport ?? 0);
+    arbitrageRevenue += (battery.prices?.[getHourOfDay(o.time)] ?? 0) * (delivered - o.power);
+    if (battery.firmCapacity !== undefined && delivered >= battery.firmCapacity) firmHours++;
+  });
+
+  const equivalentCycles = battery.energy > 0 ? dischargedEnergy / battery.energy : 0;
+
+  return {
+    strategy,
+    chargedEnergy: chargedEnergy * scale,
+    dischargedEnergy: dischargedEnergy * scale,
+    deliveredEnergy: deliveredEnergy * scale,
+    capturedEnergy: strategy === 'clip-capture' ? chargedEnergy * scale : 0,
+    equivalentCycles: equivalentCycles * scale,
+    capacityFade: calculateCapacityFade(battery, outputs.length, equivalentCycles),
+    peakGridImport: strategy === 'peak-shaving' ? peakGridImport : undefined,
+    arbitrageRevenue: strategy === 'arbitrage' ? arbitrageRevenue * scale : undefined,
+    firmHours: strategy === 'firm-capacity' ? firmHours * scale : undefined
+  };
+}
+
+/**
+ * Check the battery attached to an asset
+ *
+ * @param asset - Asset configuration
+ * @returns Error message, or null when there is no battery or it is valid
+ */
+export function validateBattery(asset: Asset): string | null {
+  const battery = asset.battery;
+  if (!battery) {
+    return null;
+  }
+
+  if (!(battery.power > 0) || !(battery.energy > 0)) {
+    return 'Battery power and energy must be positive';
+  }
+  const { roundTripEfficiency, minSoc = DEFAULT_MIN_SOC, maxSoc = DEFAULT_MAX_SOC, initialSoc } = battery;
+  if (roundTripEfficiency !== undefined && !(roundTripEfficiency > 0 && roundTripEfficiency <= 100)) {
+    return 'Battery round-trip efficiency must be between 0% and 100%';
+  }
+  if (!(minSoc >= 0 && minSoc < maxSoc && maxSoc <= 100)) {
+    return 'Battery SOC limits must satisfy 0 ≤ minimum < maximum ≤ 100%';
+  }
+  if (initialSoc !== undefined && !(initialSoc >= 0 && initialSoc <= 100)) {
+    return 'Battery initial SOC must be between 0% and 100%';
+  }
+  if ((battery.calendarDegradation ?? 0) < 0 || (battery.cycleDegradation ?? 0) < 0) {
+    return 'Battery degradation rates cannot be negative';
+  }
+
+  switch (battery.strategy ?? 'clip-capture') {
+    case 'clip-capture':
+      if (asset.type === 'wind') {
+        return 'Clip capture needs inverter clipping or curtailment, which a wind asset does not have; choose another dispatch strategy';
+      }
+      break;
+    case 'peak-shaving':
+      if (battery.loadProfile?.length !== PROFILE_LENGTH || battery.loadProfile.some((l) => !(l >= 0))) {
+        return 'Peak shaving needs a load profile of 24 hourly values';
+      }
+      if (!(battery.peakLimit !== undefined && battery.peakLimit >= 0)) {
+        return 'Peak shaving needs a peak import limit';
+      }
+      break;
+    case 'arbitrage':
+      if (battery.prices?.length !== PROFILE_LENGTH || battery.prices.some((p) => !Number.isFinite(p))) {
+        return 'Arbitrage needs a price profile of 24 hourly values';
+      }
+      break;
+    case 'firm-capacity':
+      if (!(battery.firmCapacity !== undefined && battery.firmCapacity > 0)) {
+        return 'Firm capacity dispatch needs a positive capacity target';
+      }
+      break;
+  }
+
+  return null;
+}
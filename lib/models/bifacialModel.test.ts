@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SolarAsset } from '@/types';
+import { calculateGroundAlbedo, calculateRearIrradiance, resolveRowGeometry } from '@/lib/models/bifacialModel';
+
+const irradiance = { ghi: 600, dni: 500, dhi: 200 };
+const sun = { zenith: 36.87, azimuth: 180 };
+
+describe('calculateRearIrradiance', () => {
+  // A single row high above open ground sees an unshaded ground and sky, so
+  // the view-factor model reduces to the isotropic rear-side transposition:
+  // G_rear = ρ × GHI × (1 + cos β) / 2 + DHI × (1 - cos β) / 2
+  const isolatedRow = { collectorWidth: 2, rowPitch: 1000, height: 50 };
+
+  it.each([0, 20, 30, 60])('approaches the isotropic rear-side value for an isolated row at %i° tilt', (tilt) => {
+    const cosTilt = Math.cos((tilt * Math.PI) / 180);
+    const isotropic = 0.25 * 600 * ((1 + cosTilt) / 2) + 200 * ((1 - cosTilt) / 2);
+    const rear = calculateRearIrradiance(irradiance, sun, tilt, 180, 0.25, isolatedRow);
+
+    expect(Math.abs(rear - isotropic) / isotropic).toBeLessThan(0.01);
+  });
+
+  it('loses rear irradiance as the rows close up', () => {
+    const sparse = calculateRearIrradiance(irradiance, sun, 25, 180, 0.25, {
+      collectorWidth: 2,
+      rowPitch: 2 / 0.35,
+      height: 1.5
+    });
+    const dense = calculateRearIrradiance(irradiance, sun, 25, 180, 0.25, {
+      collectorWidth: 2,
+      rowPitch: 2 / 0.6,
+      height: 1.5
+    });
+
+    expect(dense).toBeLessThan(sparse);
+    expect(sparse).toBeLessThan(calculateRearIrradiance(irradiance, sun, 25, 180, 0.25, isolatedRow));
+  });
+
+  it('scales the ground-reflected part with the albedo', () => {
+    const geometry = { collectorWidth: 2, rowPitch: 2 / 0.35, height: 1.5 };
+    const low = calculateRearIrradiance(irradiance, sun, 0, 180, 0.2, geometry);
+    const high = calculateRearIrradiance(irradiance, sun, 0, 180, 0.4, geometry);
+
+    // A horizontal rear face sees no sky
+    expect(high).toBeCloseTo(2 * low, 6);
+  });
+});
+
+describe('resolveRowGeometry', () => {
+  it('derives the row pitch from the ground coverage ratio', () => {
+    const asset: SolarAsset = { type: 'solar', dcCapacity: 100, groundCoverageRatio: 0.4 };
+
+    expect(resolveRowGeometry(asset)).toEqual({ collectorWidth: 2, rowPitch: 5, height: 1.5 });
+  });
+});
+
+describe('calculateGroundAlbedo', () => {
+  it('switches to the snow albedo with snow on the ground', () => {
+    expect(calculateGroundAlbedo({ time: '2024-01-10T12:00', snowDepth: 0.2 }, 0.2)).toBe(0.6);
+    expect(calculateGroundAlbedo({ time: '2024-01-10T12:00', snowDepth: 0 }, 0.2)).toBe(0.2);
+  });
+});
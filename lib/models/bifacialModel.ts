@@ -0,0 +1,296 @@
+import { HourlyWeatherData, SolarAsset } from '@/types';
+import { IrradianceComponents, SunAngles } from '@/lib/models/irradianceModel';
+
+/**
+ * Bifacial Rear-Side Irradiance Model
+ *
+ * This module estimates the irradiance reaching the rear face of bifacial
+ * modules in long, parallel rows. It uses a 2D view-factor model in the
+ * plane perpendicular to the rows:
+ *
+ * 1. The ground between rows is split into segments. Each segment receives
+ *    beam irradiance unless it lies in a row shadow, plus diffuse irradiance
+ *    weighted by its sky view factor (reduced by the rows around it).
+ * 2. The rear face sees each ground segment with a view factor from
+ *    Hottel's crossed-strings rule, and the sky behind it isotropically.
+ *
+ * G_rear = ρ × Σ F_rear→seg × E_seg + DHI × (1 - cos β) / 2
+ *
+ * Obstruction of the rear view by neighbouring rows is neglected.
+ *
+ * References:
+ * - Marion, B., et al. (2017). A Practical Irradiance Model for Bifacial PV Modules (NREL/CP-5J00-67847)
+ * - Hottel, H. C., & Sarofim, A. F. (1967). Radiative Transfer, Chapter 2 (crossed-strings method)
+ * - Mikofski, M., et al. (2019). Bifacial Performance Modeling in Large Arrays (pvlib infinite_sheds)
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/** Default height of the module centre above the ground (m) */
+export const DEFAULT_MODULE_HEIGHT = 1.5;
+
+/** Collector width up the slope (m): one module in portrait */
+export const DEFAULT_COLLECTOR_WIDTH = 2;
+
+/** Default ground coverage ratio used to derive the row spacing */
+export const DEFAULT_BIFACIAL_GCR = 0.35;
+
+/** Ground albedo with snow cover */
+export const SNOW_ALBEDO = 0.6;
+
+/** Snow depth above which the ground is treated as snow covered (m) */
+const SNOW_DEPTH_THRESHOLD = 0.01;
+
+/** Ground segments per row pitch */
+const GROUND_SEGMENTS = 20;
+
+/** Rows on each side of the reference row included in the geometry */
+const NEIGHBOUR_ROWS = 6;
+
+/** Largest projected zenith used for ground shadows, avoids infinite shadow lengths */
+const MAX_PROJECTED_ZENITH = 89;
+
+/**
+ * Row geometry for the rear irradiance model
+ */
+export interface RowGeometry {
+  collectorWidth: number; // m
+  rowPitch: number; // m, centre-to-centre row spacing
+  height: number; // m, height of the collector centre
+}
+
+/**
+ * Resolve the row geometry of a solar asset
+ *
+ * Row pitch is the asset's rowSpacing, or collector width / GCR.
+ *
+ * @param asset - Solar asset configuration
+ * @returns Row geometry
+ */
+export function resolveRowGeometry(asset: SolarAsset): RowGeometry {
+  const gcr = asset.groundCoverageRatio ?? DEFAULT_BIFACIAL_GCR;
+
+  return {
+    collectorWidth: DEFAULT_COLLECTOR_WIDTH,
+    rowPitch: asset.rowSpacing ?? DEFAULT_COLLECTOR_WIDTH / gcr,
+    height: asset.moduleHeight ?? DEFAULT_MODULE_HEIGHT
+  };
+}
+
+/**
+ * Ground albedo for one hour, switching to the snow albedo when the
+ * weather data reports snow on the ground
+ *
+ * @param hour - Hourly weather record
+ * @param baseAlbedo - Snow-free ground albedo
+ * @param snowAlbedo - Albedo with snow cover (default 0.6)
+ * @returns Ground albedo 0-1
+ */
+export function calculateGroundAlbedo(
+  hour: HourlyWeatherData,
+  baseAlbedo: number,
+  snowAlbedo: number = SNOW_ALBEDO
+): number {
+  if (hour.snowDepth !== undefined && hour.snowDepth >= SNOW_DEPTH_THRESHOLD) {
+    return Math.max(baseAlbedo, snowAlbedo);
+  }
+  return baseAlbedo;
+}
+
+type Point = [number, number];
+
+const distance = (a: Point, b: Point): number => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+/**
+ * Lower-front and upper-back edges of the collector of row k in the 2D
+ * cross-section (x toward the surface azimuth, z up)
+ */
+function collectorEdges(k: number, tilt: number, geometry: RowGeometry): [Point, Point] {
+  const halfWidth = geometry.collectorWidth / 2;
+  const dx = halfWidth * Math.cos(tilt);
+  const dz = halfWidth * Math.sin(tilt);
+  const cx = k * geometry.rowPitch;
+
+  return [
+    [cx + dx, geometry.height - dz],
+    [cx - dx, geometry.height + dz]
+  ];
+}
+
+/**
+ * Sky view factor of a point on the ground, with the surrounding rows
+ * blocking part of the sky
+ *
+ * Formula: F_sky = 1 - ½ Σ (sin θ₂ - sin θ₁) over blocked angular intervals
+ */
+function groundSkyViewFactor(x: number, tilt: number, geometry: RowGeometry): number {
+  const blocked: [number, number][] = [];
+
+  for (let k = -NEIGHBOUR_ROWS; k <= NEIGHBOUR_ROWS + 1; k++) {
+    const [front, back] = collectorEdges(k, tilt, geometry);
+    const a = Math.atan2(front[0] - x, front[1]);
+    const b = Math.atan2(back[0] - x, back[1]);
+    blocked.push([Math.min(a, b), Math.max(a, b)]);
+  }
+
+  blocked.sort((p, q) => p[0] - q[0]);
+
+  let blockedFraction = 0;
+  let [start, end] = blocked[0];
+  for (let i = 1; i <= blocked.length; i++) {
+    if (i < blocked.length && blocked[i][0] <= end) {
+      end = Math.max(end, blocked[i][1]);
+      continue;
+    }
+    blockedFraction += Math.sin(end) - Math.sin(start);
+    if (i < blocked.length) {
+      [start, end] = blocked[i];
+    }
+  }
+
+  return Math.max(0, 1 - blockedFraction / 2);
+}
+
+/**
+ * Whether a point on the ground lies in the shadow of any row
+ */
+function isGroundShaded(x: number, tanProjectedZenith: number, tilt: number, geometry: RowGeometry): boolean {
+  for (let k = -NEIGHBOUR_ROWS; k <= NEIGHBOUR_ROWS + 1; k++) {
+    const [front, back] = collectorEdges(k, tilt, geometry);
+    const a = front[0] - front[1] * tanProjectedZenith;
+    const b = back[0] - back[1] * tanProjectedZenith;
+    if (x >= Math.min(a, b) && x <= Math.max(a, b)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * View factors that depend only on the row geometry and tilt
+ */
+interface RowViewFactors {
+  groundSky: number[]; // sky view factor of each ground segment
+  rearToSegment: number[]; // rear face view factor to each segment, summed over the modelled rows
+  rearToFarGround: number; // rear face view factor to ground beyond the modelled rows
+}
+
+/** View factors by geometry and tilt (rounded to 0.5°), so trackers reuse them */
+const viewFactorCache = new Map<string, RowViewFactors>();
+
+/**
+ * Calculate the geometry-only view factors for a tilt
+ */
+function calculateRowViewFactors(tilt: number, geometry: RowGeometry): RowViewFactors {
+  const segmentWidth = geometry.rowPitch / GROUND_SEGMENTS;
+  const groundSky: number[] = [];
+  for (let i = 0; i < GROUND_SEGMENTS; i++) {
+    groundSky.push(groundSkyViewFactor((i + 0.5) * segmentWidth, tilt, geometry));
+  }
+
+  const [front, back] = collectorEdges(0, tilt, geometry);
+  const rearWidth = distance(front, back);
+  // The rear face only sees ground behind the plane of the collector
+  const visibleLimit = tilt > 0 ? geometry.height / Math.tan(tilt) : Infinity;
+
+  const rearToSegment = new Array<number>(GROUND_SEGMENTS).fill(0);
+  let nearViewFactor = 0;
+  for (let k = -NEIGHBOUR_ROWS; k <= NEIGHBOUR_ROWS; k++) {
+    for (let i = 0; i < GROUND_SEGMENTS; i++) {
+      const x1 = k * geometry.rowPitch + i * segmentWidth;
+      const x2 = Math.min(x1 + segmentWidth, visibleLimit);
+      if (x2 <= x1) continue;
+
+      // Crossed strings: F = |(AD + BC) - (AC + BD)| / (2 × AB)
+      const c: Point = [x1, 0];
+      const d: Point = [x2, 0];
+      const viewFactor =
+        Math.abs(distance(front, c) + distance(back, d) - distance(front, d) - distance(back, c)) /
+        (2 * rearWidth);
+      rearToSegment[i] += viewFactor;
+      nearViewFactor += viewFactor;
+    }
+  }
+
+  const groundViewFactor = (1 + Math.cos(tilt)) / 2;
+
+  return {
+    groundSky,
+    rearToSegment,
+    rearToFarGround: Math.max(0, groundViewFactor - nearViewFactor)
+  };
+}
+
+/**
+ * Calculate rear-side plane-of-array irradiance for one hour
+ *
+ * @param irradiance - Horizontal irradiance components in W/m²
+ * @param sun - Solar zenith and azimuth
+ * @param surfaceTilt - Front surface tilt in degrees
+ * @param surfaceAzimuth - Front surface azimuth in degrees clockwise from north
+ * @param albedo - Ground reflectance
+ * @param geometry - Row geometry
+ * @returns Rear-side irradiance in W/m²
+ */
+export function calculateRearIrradiance(
+  irradiance: IrradianceComponents,
+  sun: Pick<SunAngles, 'zenith' | 'azimuth'>,
+  surfaceTilt: number,
+  surfaceAzimuth: number,
+  albedo: number,
+  geometry: RowGeometry
+): number {
+  const { dni, dhi } = irradiance;
+  if (geometry.rowPitch <= 0 || geometry.collectorWidth <= 0) {
+    return 0;
+  }
+
+  const tiltDegrees = Math.round(Math.max(0, Math.min(90, surfaceTilt)) * 2) / 2;
+  const tilt = tiltDegrees * DEG_TO_RAD;
+
+  // Keep the lower edge of a steeply tilted collector above the ground
+  const rowGeometry: RowGeometry = {
+    ...geometry,
+    height: Math.max(geometry.height, (geometry.collectorWidth / 2) * Math.sin(tilt) + 0.05)
+  };
+
+  const cacheKey = `${tiltDegrees}|${rowGeometry.collectorWidth}|${rowGeometry.rowPitch}|${rowGeometry.height}`;
+  let viewFactors = viewFactorCache.get(cacheKey);
+  if (!viewFactors) {
+    viewFactors = calculateRowViewFactors(tilt, rowGeometry);
+    viewFactorCache.set(cacheKey, viewFactors);
+  }
+
+  const cosZenith = Math.cos(sun.zenith * DEG_TO_RAD);
+  const beamHorizontal = cosZenith > 0 ? dni * cosZenith : 0;
+
+  // Sun zenith projected onto the cross-section, positive toward the front
+  const projectedZenith = Math.atan2(
+    Math.sin(sun.zenith * DEG_TO_RAD) * Math.cos((sun.azimuth - surfaceAzimuth) * DEG_TO_RAD),
+    Math.max(cosZenith, 1e-6)
+  );
+  const maxProjected = MAX_PROJECTED_ZENITH * DEG_TO_RAD;
+  const tanProjected = Math.tan(Math.max(-maxProjected, Math.min(maxProjected, projectedZenith)));
+
+  // Irradiance on each ground segment of one pitch (periodic across rows),
+  // reflected toward the rear face
+  const segmentWidth = rowGeometry.rowPitch / GROUND_SEGMENTS;
+  let groundTotal = 0;
+  let reflected = 0;
+  for (let i = 0; i < GROUND_SEGMENTS; i++) {
+    const x = (i + 0.5) * segmentWidth;
+    const beam = beamHorizontal > 0 && !isGroundShaded(x, tanProjected, tilt, rowGeometry)
+      ? beamHorizontal
+      : 0;
+    const groundIrradiance = beam + dhi * viewFactors.groundSky[i];
+    groundTotal += groundIrradiance;
+    reflected += viewFactors.rearToSegment[i] * groundIrradiance;
+  }
+
+  // Ground beyond the modelled rows reflects the mean ground irradiance
+  reflected += viewFactors.rearToFarGround * (groundTotal / GROUND_SEGMENTS);
+
+  const skyDiffuse = dhi * ((1 - Math.cos(tilt)) / 2);
+
+  return Math.max(0, albedo * reflected + skyDiffuse);
+}
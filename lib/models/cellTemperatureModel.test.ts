@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCellTemperature,
+  calculateFaimanCellTemperature,
+  calculateNOCTCellTemperature,
+  calculatePVsystCellTemperature,
+  calculateSAPMCellTemperature
+} from '@/lib/models/cellTemperatureModel';
+
+// 900 W/m², 20 °C and 5 m/s with the default coefficients are the cases of
+// the pvlib-python test suite of pvlib.temperature
+describe('cell temperature models', () => {
+  it('matches the pvlib-python SAPM reference value', () => {
+    expect(calculateSAPMCellTemperature(900, 20, 5)).toBeCloseTo(43.509, 3);
+  });
+
+  it('matches the pvlib-python Faiman reference value', () => {
+    expect(calculateFaimanCellTemperature(900, 20, 5)).toBeCloseTo(35.203, 3);
+  });
+
+  it('matches the pvlib-python PVsyst reference value', () => {
+    expect(calculatePVsystCellTemperature(900, 20, 5)).toBeCloseTo(45.1379, 4);
+  });
+
+  it('reaches NOCT at the NOCT test conditions for a non-producing module', () => {
+    // 800 W/m², 20 °C and 1 m/s at module height
+    expect(calculateNOCTCellTemperature(800, 20, 1 / 0.51, 45, 0)).toBeCloseTo(45, 9);
+  });
+
+  it('discounts the NOCT rise by the converted fraction', () => {
+    // 20 + 25 × (1 - 0.2 / 0.9)
+    expect(calculateNOCTCellTemperature(800, 20, 1 / 0.51)).toBeCloseTo(39.444, 3);
+  });
+});
+
+describe('calculateCellTemperature', () => {
+  it('defaults to the NOCT model at NOCT wind conditions', () => {
+    expect(calculateCellTemperature(800, 20)).toBeCloseTo(39.444, 3);
+  });
+
+  it('dispatches to the selected model', () => {
+    expect(calculateCellTemperature(900, 20, 5, { model: 'sapm' })).toBeCloseTo(43.509, 3);
+    expect(calculateCellTemperature(900, 20, 5, { model: 'faiman' })).toBeCloseTo(35.203, 3);
+    expect(calculateCellTemperature(900, 20, 5, { model: 'pvsyst' })).toBeCloseTo(45.1379, 4);
+  });
+
+  it('stays at ambient without irradiance', () => {
+    expect(calculateCellTemperature(-5, 12, 3, { model: 'faiman' })).toBe(12);
+  });
+});
@@ -0,0 +1,214 @@
+import { CellTemperatureParameters } from '@/types';
+
+/**
+ * PV Cell Temperature Models
+ *
+ * This module estimates the operating temperature of PV cells from
+ * plane-of-array irradiance, ambient temperature and wind speed. Four
+ * models are available and selected per asset; each uses its own set of
+ * module-specific coefficients.
+ *
+ * References:
+ * - Duffie, J. A., & Beckman, W. A. (2013). Solar Engineering of Thermal Processes, Section 23.3
+ * - King, D. L., Boyson, W. E., & Kratochvil, J. A. (2004). Photovoltaic Array Performance Model (SAND2004-3535)
+ * - Faiman, D. (2008). Assessing the outdoor operating temperature of photovoltaic modules. Progress in Photovoltaics 16(4)
+ * - PVsyst User Manual: Array Thermal losses
+ */
+
+/** Ratio of the wind speed at module height to the 10 m wind speed */
+const MODULE_HEIGHT_WIND_FACTOR = 0.51;
+
+/**
+ * 10 m wind speed assumed when the weather source provides none (m/s):
+ * 1 m/s at module height, the NOCT test condition
+ */
+export const DEFAULT_WIND_SPEED = 1 / MODULE_HEIGHT_WIND_FACTOR;
+
+/** Default coefficients for each model */
+export const DEFAULT_CELL_TEMPERATURE_PARAMETERS: Required<CellTemperatureParameters> = {
+  model: 'noct',
+  noct: 45,
+  moduleEfficiency: 0.2,
+  absorptance: 0.9,
+  sapmA: -3.47,
+  sapmB: -0.0594,
+  sapmDeltaT: 3,
+  faimanU0: 25,
+  faimanU1: 6.84,
+  pvsystUc: 29,
+  pvsystUv: 0
+};
+
+/** PVsyst's default module efficiency, lower than the NOCT default */
+const PVSYST_DEFAULT_EFFICIENCY = 0.1;
+
+/**
+ * Calculate cell temperature with the wind-adjusted NOCT model
+ *
+ * Formula: T_c = T_a + (G / 800) × (NOCT - 20) × (1 - η / τα) × 9.5 / (5.7 + 3.8 × v)
+ * Where:
+ * - v = wind speed at module height, taken as 0.51 × the 10 m wind speed
+ * - τα = 0.9 (transmittance-absorptance product)
+ * - η = module efficiency at STC
+ *
+ * @param poaIrradiance - Plane-of-array irradiance in W/m²
+ * @param ambientTemp - Ambient temperature in °C
+ * @param windSpeed - Wind speed at 10 m in m/s
+ * @param noct - Nominal operating cell temperature in °C (default 45)
+ * @param moduleEfficiency - Module efficiency 0-1 (default 0.2)
+ * @returns Cell temperature in °C
+ */
+export function calculateNOCTCellTemperature(
+  poaIrradiance: number,
+  ambientTemp: number,
+  windSpeed: number,
+  noct: number = 45,
+  moduleEfficiency: number = 0.2
+): number {
+  const TAU_ALPHA = 0.9;
+  const moduleWindSpeed = MODULE_HEIGHT_WIND_FACTOR * Math.max(0, windSpeed);
+
+  return (
+    ambientTemp +
+    (poaIrradiance / 800) *
+      (noct - 20) *
+      (1 - moduleEfficiency / TAU_ALPHA) *
+      (9.5 / (5.7 + 3.8 * moduleWindSpeed))
+  );
+}
+
+/**
+ * Calculate cell temperature with the Sandia Array Performance Model
+ *
+ * Formula:
+ * - T_m = G × exp(a + b × v) + T_a
+ * - T_c = T_m + (G / 1000) × ΔT
+ *
+ * @param poaIrradiance - Plane-of-array irradiance in W/m²
+ * @param ambientTemp - Ambient temperature in °C
+ * @param windSpeed - Wind speed at 10 m in m/s
+ * @param a - Upper limit of module temperature at low wind (default -3.47)
+ * @param b - Rate of decrease with wind speed (default -0.0594)
+ * @param deltaT - Cell-to-back temperature difference at 1000 W/m² (default 3)
+ * @returns Cell temperature in °C
+ */
+export function calculateSAPMCellTemperature(
+  poaIrradiance: number,
+  ambientTemp: number,
+  windSpeed: number,
+  a: number = -3.47,
+  b: number = -0.0594,
+  deltaT: number = 3
+): number {
+  const moduleTemp = poaIrradiance * Math.exp(a + b * Math.max(0, windSpeed)) + ambientTemp;
+  return moduleTemp + (poaIrradiance / 1000) * deltaT;
+}
+
+/**
+ * Calculate module temperature with the Faiman model
+ *
+ * Formula: T_m = T_a + G / (U₀ + U₁ × v)
+ *
+ * @param poaIrradiance - Plane-of-array irradiance in W/m²
+ * @param ambientTemp - Ambient temperature in °C
+ * @param windSpeed - Wind speed at 10 m in m/s
+ * @param u0 - Constant heat transfer coefficient in W/m²K (default 25)
+ * @param u1 - Wind heat transfer coefficient in W·s/m³K (default 6.84)
+ * @returns Module temperature in °C
+ */
+export function calculateFaimanCellTemperature(
+  poaIrradiance: number,
+  ambientTemp: number,
+  windSpeed: number,
+  u0: number = 25,
+  u1: number = 6.84
+): number {
+  return ambientTemp + poaIrradiance / (u0 + u1 * Math.max(0, windSpeed));
+}
+
+/**
+ * Calculate cell temperature with the PVsyst thermal model
+ *
+ * Formula: T_c = T_a + α × G × (1 - η) / (U_c + U_v × v)
+ *
+ * @param poaIrradiance - Plane-of-array irradiance in W/m²
+ * @param ambientTemp - Ambient temperature in °C
+ * @param windSpeed - Wind speed at 10 m in m/s
+ * @param uc - Constant heat loss factor in W/m²K (default 29)
+ * @param uv - Wind heat loss factor in W·s/m³K (default 0)
+ * @param moduleEfficiency - Module efficiency 0-1 (default 0.1)
+ * @param absorptance - Absorption coefficient 0-1 (default 0.9)
+ * @returns Cell temperature in °C
+ */
+export function calculatePVsystCellTemperature(
+  poaIrradiance: number,
+  ambientTemp: number,
+  windSpeed: number,
+  uc: number = 29,
+  uv: number = 0,
+  moduleEfficiency: number = PVSYST_DEFAULT_EFFICIENCY,
+  absorptance: number = 0.9
+): number {
+  return (
+    ambientTemp +
+    (absorptance * poaIrradiance * (1 - moduleEfficiency)) / (uc + uv * Math.max(0, windSpeed))
+  );
+}
+
+/**
+ * Estimate cell temperature with the model selected for an asset
+ *
+ * @param poaIrradiance - Plane-of-array irradiance in W/m²
+ * @param ambientTemp - Ambient temperature in °C
+ * @param windSpeed - Wind speed at 10 m in m/s (default 1.96, NOCT conditions)
+ * @param parameters - Model selection and module coefficients (default NOCT)
+ * @returns Cell temperature in °C
+ */
+export function calculateCellTemperature(
+  poaIrradiance: number,
+  ambientTemp: number,
+  windSpeed: number = DEFAULT_WIND_SPEED,
+  parameters: CellTemperatureParameters = {}
+): number {
+  const p = { ...DEFAULT_CELL_TEMPERATURE_PARAMETERS, ...parameters };
+  const irradiance = Math.max(0, poaIrradiance);
+
+  switch (p.model) {
+    case 'sapm':
+      return calculateSAPMCellTemperature(
+        irradiance,
+        ambientTemp,
+        windSpeed,
+        p.sapmA,
+        p.sapmB,
+        p.sapmDeltaT
+      );
+    case 'faiman':
+      return calculateFaimanCellTemperature(
+        irradiance,
+        ambientTemp,
+        windSpeed,
+        p.faimanU0,
+        p.faimanU1
+      );
+    case 'pvsyst':
+      return calculatePVsystCellTemperature(
+        irradiance,
+        ambientTemp,
+        windSpeed,
+        p.pvsystUc,
+        p.pvsystUv,
+        parameters.moduleEfficiency ?? PVSYST_DEFAULT_EFFICIENCY,
+        p.absorptance
+      );
+    case 'noct':
+    default:
+      return calculateNOCTCellTemperature(
+        irradiance,
+        ambientTemp,
+        windSpeed,
+        p.noct,
+        p.moduleEfficiency
+      );
+  }
+}
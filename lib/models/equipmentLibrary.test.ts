@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseModuleRecord } from '@/lib/models/equipmentLibrary';
+
+const record = {
+  manufacturer: 'Acme Solar',
+  model: 'AS-400M',
+  pmp: 400,
+  gammaPmp: -0.35,
+  length: 1.75,
+  width: 1.13
+};
+
+describe('parseModuleRecord', () => {
+  it('reads a record with the PVModuleSpec field names', () => {
+    expect(parseModuleRecord({ ...record, vmp: 34.2, bifaciality: 0.7 })).toEqual({
+      id: 'custom-acme-solar-as-400m',
+      manufacturer: 'Acme Solar',
+      model: 'AS-400M',
+      technology: undefined,
+      pmp: 400,
+      vmp: 34.2,
+      imp: undefined,
+      voc: undefined,
+      isc: undefined,
+      gammaPmp: -0.35,
+      alphaIsc: undefined,
+      betaVoc: undefined,
+      noct: undefined,
+      bifaciality: 0.7,
+      length: 1.75,
+      width: 1.13
+    });
+  });
+
+  it('reads PAN-style names and numeric strings', () => {
+    const spec = parseModuleRecord({
+      Model: 'PAN-1',
+      Pnom: '410',
+      muPmpReq: '-0.29',
+      Height: '1.72',
+      Width: 1.13,
+      NOCT: 44,
+      BifacialityFactor: 1.3
+    });
+
+    expect(spec.manufacturer).toBe('Custom');
+    expect(spec.pmp).toBe(410);
+    expect(spec.gammaPmp).toBe(-0.29);
+    expect(spec.length).toBe(1.72);
+    expect(spec.noct).toBe(44);
+    expect(spec.bifaciality).toBe(1);
+  });
+
+  it('rejects records that are not objects', () => {
+    expect(() => parseModuleRecord(null)).toThrow('Module record must be a JSON object');
+    expect(() => parseModuleRecord('AS-400M')).toThrow('Module record must be a JSON object');
+  });
+
+  it('rejects missing or out-of-range required fields', () => {
+    expect(() => parseModuleRecord({ ...record, model: undefined })).toThrow('Module record is missing a model name');
+    expect(() => parseModuleRecord({ ...record, pmp: 0 })).toThrow('Module record needs a positive pmp (W)');
+    expect(() => parseModuleRecord({ ...record, gammaPmp: 0.4 })).toThrow(
+      'Module record needs gammaPmp between -2 and 0 %/°C'
+    );
+    expect(() => parseModuleRecord({ ...record, width: undefined })).toThrow(
+      'Module record needs positive length and width (m)'
+    );
+  });
+
+  it('rejects non-finite coefficients instead of dropping them', () => {
+    // JSON.parse turns an overflowing literal into Infinity
+    expect(() => parseModuleRecord(JSON.parse('{"model":"X","pmp":1e999}'))).toThrow(
+      'Module record field pmp must be a finite number'
+    );
+    expect(() => parseModuleRecord({ ...record, voc: 'NaN' })).toThrow(
+      'Module record field voc must be a finite number'
+    );
+    expect(() => parseModuleRecord({ ...record, betaVoc: '-0.27%' })).toThrow(
+      'Module record field betaVoc must be a finite number'
+    );
+    expect(() => parseModuleRecord({ ...record, noct: [45] })).toThrow(
+      'Module record field noct must be a finite number'
+    );
+  });
+
+  it('treats empty and null optional fields as missing', () => {
+    const spec = parseModuleRecord({ ...record, voc: '', isc: null });
+
+    expect(spec.voc).toBeUndefined();
+    expect(spec.isc).toBeUndefined();
+  });
+});
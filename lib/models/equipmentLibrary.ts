@@ -0,0 +1,397 @@
+import { InverterParameters, InverterSpec, PVModuleSpec, SolarAsset } from '@/types';
+
+/**
+ * PV Equipment Library
+ *
+ * This module holds a local library of PV module and inverter records with
+ * CEC / Sandia style parameters, and derives the capacity, temperature
+ * coefficient and inverter parameters of a solar asset from the equipment
+ * it references.
+ *
+ * The built-in records are representative generic products, not specific
+ * manufacturer datasheets. Users can import their own module records as
+ * JSON (see parseModuleRecord).
+ *
+ * References:
+ * - California Energy Commission, Solar Equipment Lists (module and inverter parameter sets)
+ * - King, D. L., et al. (2007). Performance Model for Grid-Connected Photovoltaic Inverters (SAND2007-5036)
+ */
+
+/** Built-in PV module records */
+export const MODULE_LIBRARY: PVModuleSpec[] = [
+  {
+    id: 'generic-mono-perc-400',
+    manufacturer: 'Generic',
+    model: 'Mono PERC 400 W (108 half-cell)',
+    technology: 'mono-Si',
+    pmp: 400,
+    vmp: 31.0,
+    imp: 12.9,
+    voc: 37.1,
+    isc: 13.7,
+    gammaPmp: -0.35,
+    alphaIsc: 0.05,
+    betaVoc: -0.27,
+    noct: 45,
+    bifaciality: 0,
+    length: 1.722,
+    width: 1.134
+  },
+  {
+    id: 'generic-topcon-bifacial-550',
+    manufacturer: 'Generic',
+    model: 'TOPCon Bifacial 550 W (144 half-cell)',
+    technology: 'mono-Si',
+    pmp: 550,
+    vmp: 42.0,
+    imp: 13.1,
+    voc: 49.8,
+    isc: 13.9,
+    gammaPmp: -0.3,
+    alphaIsc: 0.046,
+    betaVoc: -0.25,
+    noct: 43,
+    bifaciality: 0.8,
+    length: 2.278,
+    width: 1.134
+  },
+  {
+    id: 'generic-hjt-bifacial-430',
+    manufacturer: 'Generic',
+    model: 'HJT Bifacial 430 W (108 half-cell)',
+    technology: 'HJT',
+    pmp: 430,
+    vmp: 33.4,
+    imp: 12.9,
+    voc: 39.9,
+    isc: 13.6,
+    gammaPmp: -0.26,
+    alphaIsc: 0.04,
+    betaVoc: -0.24,
+    noct: 44,
+    bifaciality: 0.9,
+    length: 1.722,
+    width: 1.134
+  },
+  {
+    id: 'generic-poly-300',
+    manufacturer: 'Generic',
+    model: 'Polycrystalline 300 W (60-cell)',
+    technology: 'multi-Si',
+    pmp: 300,
+    vmp: 32.5,
+    imp: 9.23,
+    voc: 39.8,
+    isc: 9.75,
+    gammaPmp: -0.4,
+    alphaIsc: 0.06,
+    betaVoc: -0.31,
+    noct: 46,
+    bifaciality: 0,
+    length: 1.65,
+    width: 0.992
+  },
+  {
+    id: 'generic-cdte-470',
+    manufacturer: 'Generic',
+    model: 'CdTe Thin Film 470 W',
+    technology: 'CdTe',
+    pmp: 470,
+    vmp: 190,
+    imp: 2.47,
+    voc: 228,
+    isc: 2.6,
+    gammaPmp: -0.28,
+    alphaIsc: 0.04,
+    betaVoc: -0.28,
+    noct: 45,
+    bifaciality: 0,
+    length: 2.009,
+    width: 1.232
+  }
+];
+
+/** Built-in inverter records */
+export const INVERTER_LIBRARY: InverterSpec[] = [
+  {
+    id: 'generic-string-3.8kw',
+    manufacturer: 'Generic',
+    model: 'Residential String 3.8 kW',
+    paco: 3800,
+    pdco: 3950,
+    vdco: 380,
+    pso: 20,
+    c0: -8e-6,
+    pnt: 1.5,
+    mpptLow: 200,
+    mpptHigh: 480
+  },
+  {
+    id: 'generic-string-7.6kw',
+    manufacturer: 'Generic',
+    model: 'Residential String 7.6 kW',
+    paco: 7600,
+    pdco: 7850,
+    vdco: 380,
+    pso: 30,
+    c0: -4e-6,
+    pnt: 2.5,
+    mpptLow: 200,
+    mpptHigh: 480
+  },
+  {
+    id: 'generic-string-60kw',
+    manufacturer: 'Generic',
+    model: 'Commercial String 60 kW',
+    paco: 60000,
+    pdco: 61500,
+    vdco: 600,
+    pso: 150,
+    c0: -5e-7,
+    pnt: 10,
+    mpptLow: 500,
+    mpptHigh: 850
+  },
+  {
+    id: 'generic-central-2500kw',
+    manufacturer: 'Generic',
+    model: 'Utility Central 2500 kW',
+    paco: 2500000,
+    pdco: 2550000,
+    vdco: 1000,
+    pso: 6000,
+    c0: -1e-8,
+    pnt: 200,
+    mpptLow: 850,
+    mpptHigh: 1300
+  }
+];
+
+/**
+ * Search equipment records by manufacturer, model, technology or ID
+ *
+ * @param records - Records to search
+ * @param query - Free-text query (all words must match, case-insensitive)
+ * @returns Matching records in library order
+ */
+export function searchEquipment<T extends { id: string; manufacturer: string; model: string; technology?: string }>(
+  records: T[],
+  query: string
+): T[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return records;
+  }
+
+  return records.filter((record) => {
+    const text = [record.id, record.manufacturer, record.model, record.technology ?? '']
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * Look up a module record
+ *
+ * @param id - Module ID
+ * @param customModules - Imported modules searched after the library
+ * @returns Module record, or undefined when not found
+ */
+export function findModule(id: string, customModules: PVModuleSpec[] = []): PVModuleSpec | undefined {
+  return MODULE_LIBRARY.find((m) => m.id === id) ?? customModules.find((m) => m.id === id);
+}
+
+/**
+ * Look up an inverter record
+ *
+ * @param id - Inverter ID
+ * @returns Inverter record, or undefined when not found
+ */
+export function findInverter(id: string): InverterSpec | undefined {
+  return INVERTER_LIBRARY.find((i) => i.id === id);
+}
+
+/**
+ * Module efficiency at STC
+ *
+ * Formula: η = P_mp / (1000 W/m² × A)
+ *
+ * @param module - Module record
+ * @returns Efficiency 0-1
+ */
+export function calculateModuleEfficiency(module: PVModuleSpec): number {
+  const area = module.length * module.width;
+  return area > 0 ? module.pmp / (1000 * area) : 0;
+}
+
+/**
+ * Convert a Sandia inverter record to the parameters of the inverter model,
+ * aggregated over several identical inverters
+ *
+ * Powers scale with the count; the curvature C₀ (1/W) becomes
+ * C₀ × 1000 / N in 1/kW for the aggregated unit.
+ *
+ * @param spec - Inverter record
+ * @param count - Number of inverters (default 1)
+ * @returns Inverter parameters in kW
+ */
+export function toInverterParameters(spec: InverterSpec, count: number = 1): InverterParameters {
+  const n = Math.max(1, count);
+
+  return {
+    model: 'sandia',
+    acCapacity: (spec.paco * n) / 1000,
+    dcInputCapacity: (spec.pdco * n) / 1000,
+    selfConsumption: (spec.pso * n) / 1000,
+    c0: (spec.c0 * 1000) / n,
+    nightTare: (spec.pnt * n) / 1000,
+    nominalEfficiency: (spec.paco / spec.pdco) * 100
+  };
+}
+
+/**
+ * Derive capacity, temperature behaviour, bifaciality and inverter
+ * parameters of a solar asset from the equipment it references
+ *
+ * DC capacity = P_mp × modules per string × strings per inverter × inverters.
+ * Fields not covered by the equipment are kept from the asset. Assets
+ * without a module or inverter reference are returned unchanged.
+ *
+ * @param asset - Solar asset configuration
+ * @param customModules - Imported modules searched after the library
+ * @returns Solar asset with derived fields filled in
+ */
+export function resolveSolarEquipment(
+  asset: SolarAsset,
+  customModules: PVModuleSpec[] = []
+): SolarAsset {
+  const inverterCount = asset.inverterCount ?? 1;
+  const moduleSpec = asset.moduleId
+    ? findModule(asset.moduleId, asset.module ? [...customModules, asset.module] : customModules)
+    : undefined;
+  const inverterSpec = asset.inverterId ? findInverter(asset.inverterId) : undefined;
+
+  let resolved: SolarAsset = asset;
+
+  if (moduleSpec) {
+    const moduleCount = (asset.modulesPerString ?? 1) * (asset.stringsPerInverter ?? 1) * inverterCount;
+
+    resolved = {
+      ...resolved,
+      dcCapacity: (moduleSpec.pmp * moduleCount) / 1000,
+      temperatureCoefficient: moduleSpec.gammaPmp / 100,
+      bifaciality: asset.bifaciality ?? moduleSpec.bifaciality,
+      cellTemperature: {
+        noct: moduleSpec.noct,
+        moduleEfficiency: calculateModuleEfficiency(moduleSpec),
+        ...asset.cellTemperature
+      }
+    };
+  }
+
+  if (inverterSpec) {
+    resolved = {
+      ...resolved,
+      inverter: { ...toInverterParameters(inverterSpec, inverterCount), ...asset.inverter }
+    };
+  }
+
+  return resolved;
+}
+
+/**
+ * Check that the equipment referenced by a solar asset exists
+ *
+ * @param asset - Solar asset configuration
+ * @returns Error message, or null when all references resolve
+ */
+export function validateEquipmentReferences(asset: SolarAsset): string | null {
+  if (asset.moduleId && !findModule(asset.moduleId, asset.module ? [asset.module] : [])) {
+    return `Unknown module "${asset.moduleId}"`;
+  }
+  if (asset.inverterId && !findInverter(asset.inverterId)) {
+    return `Unknown inverter "${asset.inverterId}"`;
+  }
+  return null;
+}
+
+/**
+ * Parse an imported module record
+ *
+ * Accepts the PVModuleSpec field names, or PAN-style names
+ * (Pnom, muPmpReq, Vmp, Imp, Voc, Isc, Height, Width, BifacialityFactor).
+ *
+ * @param data - Parsed JSON object
+ * @returns Module record
+ * @throws Error when required fields are missing or out of range, or a
+ * numeric field is not a finite number
+ */
+export function parseModuleRecord(data: unknown): PVModuleSpec {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Module record must be a JSON object');
+  }
+
+  const record = data as Record<string, unknown>;
+  // A field that is present must hold a finite number, so that no NaN or
+  // Infinity reaches the stored record
+  const num = (...keys: string[]): number | undefined => {
+    for (const key of keys) {
+      const value = record[key];
+      if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) continue;
+      const parsed = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+      if (!isFinite(parsed)) {
+        throw new Error(`Module record field ${key} must be a finite number`);
+      }
+      return parsed;
+    }
+    return undefined;
+  };
+  const str = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      if (typeof record[key] === 'string' && record[key]) return record[key] as string;
+    }
+    return undefined;
+  };
+
+  const manufacturer = str('manufacturer', 'Manufacturer') ?? 'Custom';
+  const model = str('model', 'Model');
+  const pmp = num('pmp', 'Pnom');
+  const gammaPmp = num('gammaPmp', 'muPmpReq');
+  const length = num('length', 'Height');
+  const width = num('width', 'Width');
+
+  if (!model) {
+    throw new Error('Module record is missing a model name');
+  }
+  if (pmp === undefined || pmp <= 0) {
+    throw new Error('Module record needs a positive pmp (W)');
+  }
+  if (gammaPmp === undefined || gammaPmp > 0 || gammaPmp < -2) {
+    throw new Error('Module record needs gammaPmp between -2 and 0 %/°C');
+  }
+  if (length === undefined || width === undefined || length <= 0 || width <= 0) {
+    throw new Error('Module record needs positive length and width (m)');
+  }
+
+  const bifaciality = num('bifaciality', 'BifacialityFactor');
+
+  return {
+    id: str('id') ?? `custom-${manufacturer}-${model}`.toLowerCase().replace(/[^a-z0-9.]+/g, '-'),
+    manufacturer,
+    model,
+    technology: str('technology', 'Technol'),
+    pmp,
+    vmp: num('vmp', 'Vmp'),
+    imp: num('imp', 'Imp'),
+    voc: num('voc', 'Voc'),
+    isc: num('isc', 'Isc'),
+    gammaPmp,
+    alphaIsc: num('alphaIsc'),
+    betaVoc: num('betaVoc'),
+    noct: num('noct', 'NOCT'),
+    bifaciality: bifaciality !== undefined ? Math.min(1, Math.max(0, bifaciality)) : undefined,
+    length,
+    width
+  };
+}
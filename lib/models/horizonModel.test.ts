@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateHorizonElevation,
+  calculateObstacleElevation,
+  interpolateHorizonElevation,
+  isBeamBlocked,
+  parseHorizonCsv
+} from '@/lib/models/horizonModel';
+
+describe('parseHorizonCsv', () => {
+  it('reads pairs with any separator and skips headers and comments', () => {
+    const text = ['# Site survey', 'azimuth,elevation', '0,2', '90;5.5', '180\t10', '', '270 4'].join('\r\n');
+
+    expect(parseHorizonCsv(text)).toEqual([
+      { azimuth: 0, elevation: 2 },
+      { azimuth: 90, elevation: 5.5 },
+      { azimuth: 180, elevation: 10 },
+      { azimuth: 270, elevation: 4 }
+    ]);
+  });
+
+  it('sorts unsorted input and normalises azimuths', () => {
+    const text = '270,4\n-45,3\n90,5\n400,1';
+
+    expect(parseHorizonCsv(text)).toEqual([
+      { azimuth: 40, elevation: 1 },
+      { azimuth: 90, elevation: 5 },
+      { azimuth: 270, elevation: 4 },
+      { azimuth: 315, elevation: 3 }
+    ]);
+  });
+
+  it('reports the line of an elevation out of range', () => {
+    expect(() => parseHorizonCsv('0,2\n90,95')).toThrow('Line 2: elevation must be between 0° and 90°');
+    expect(() => parseHorizonCsv('0,-1')).toThrow('Line 1');
+  });
+
+  it('rejects a file without pairs', () => {
+    expect(() => parseHorizonCsv('')).toThrow('Horizon file contains no azimuth/elevation pairs');
+    expect(() => parseHorizonCsv('azimuth,elevation\nnorth,high\n90')).toThrow(
+      'Horizon file contains no azimuth/elevation pairs'
+    );
+  });
+});
+
+describe('interpolateHorizonElevation', () => {
+  const profile = [
+    { azimuth: 180, elevation: 10 },
+    { azimuth: 350, elevation: 4 },
+    { azimuth: 90, elevation: 6 },
+    { azimuth: 10, elevation: 8 }
+  ];
+
+  it('interpolates between neighbouring points of an unsorted profile', () => {
+    expect(interpolateHorizonElevation(profile, 90)).toBe(6);
+    expect(interpolateHorizonElevation(profile, 135)).toBe(8);
+    expect(interpolateHorizonElevation(profile, 50)).toBe(7);
+  });
+
+  it('interpolates across north from both sides', () => {
+    // 350° (4°) to 10° (8°) spans 20° through north
+    expect(interpolateHorizonElevation(profile, 0)).toBeCloseTo(6, 12);
+    expect(interpolateHorizonElevation(profile, 355)).toBeCloseTo(5, 12);
+    expect(interpolateHorizonElevation(profile, 5)).toBeCloseTo(7, 12);
+    expect(interpolateHorizonElevation(profile, 360)).toBeCloseTo(6, 12);
+    expect(interpolateHorizonElevation(profile, -5)).toBeCloseTo(5, 12);
+  });
+
+  it('wraps a profile without points near north', () => {
+    const south = [
+      { azimuth: 90, elevation: 0 },
+      { azimuth: 270, elevation: 18 }
+    ];
+
+    // 270° to 90° through north spans 180°
+    expect(interpolateHorizonElevation(south, 0)).toBeCloseTo(9, 12);
+  });
+
+  it('handles empty and single-point profiles', () => {
+    expect(interpolateHorizonElevation([], 120)).toBe(0);
+    expect(interpolateHorizonElevation([{ azimuth: 45, elevation: 3 }], 270)).toBe(3);
+  });
+});
+
+describe('calculateObstacleElevation', () => {
+  // 10 m high and 20 m wide at 10 m: 45° over ±45° of its bearing
+  const obstacle = { azimuth: 10, distance: 10, height: 10, width: 20 };
+
+  it('subtends atan(h / d) within its width', () => {
+    expect(calculateObstacleElevation(obstacle, 10)).toBeCloseTo(45, 12);
+    expect(calculateObstacleElevation(obstacle, 340)).toBeCloseTo(45, 12);
+    expect(calculateObstacleElevation(obstacle, 56)).toBe(0);
+    expect(calculateObstacleElevation(obstacle, 324)).toBe(0);
+  });
+
+  it('takes the higher of horizon and obstacle', () => {
+    const site = { horizon: [{ azimuth: 0, elevation: 5 }], obstacles: [obstacle] };
+
+    expect(calculateHorizonElevation(site, 0)).toBeCloseTo(45, 12);
+    expect(calculateHorizonElevation(site, 180)).toBe(5);
+    expect(isBeamBlocked(site, { zenith: 50, azimuth: 0 })).toBe(true);
+    expect(isBeamBlocked(site, { zenith: 80, azimuth: 180 })).toBe(false);
+  });
+});
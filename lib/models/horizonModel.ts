@@ -0,0 +1,195 @@
+import { HorizonPoint, ShadingObstacle, SolarAsset } from '@/types';
+import { IrradianceComponents, SunAngles } from '@/lib/models/irradianceModel';
+
+/**
+ * Horizon and Near-Shading Model
+ *
+ * This module blocks beam irradiance when the sun is behind the far horizon
+ * (hills, valley sides) or a nearby obstacle (building, tree line). Both are
+ * reduced to a horizon elevation as a function of azimuth:
+ *
+ * - Horizon profile: linear interpolation between azimuth/elevation points,
+ *   wrapping around north
+ * - Obstacle: a box of height h and width w at distance d subtends
+ *   atan(h / d) over azimuths within atan(w / 2d) of its bearing
+ *
+ * The beam is blocked when the sun's elevation is below the horizon
+ * elevation at its azimuth. Blocking applies to the whole array (no partial
+ * shading of rows); diffuse irradiance is unchanged.
+ *
+ * References:
+ * - PVsyst User Manual: Far shadings / Horizon
+ * - Duffie, J. A., & Beckman, W. A. (2013). Solar Engineering of Thermal Processes, Section 1.9
+ */
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+type ShadingProfile = Pick<SolarAsset, 'horizon' | 'obstacles'>;
+
+const normalizeAzimuth = (azimuth: number): number => ((azimuth % 360) + 360) % 360;
+
+/** Smallest angle between two azimuths in degrees (0-180) */
+const azimuthDifference = (a: number, b: number): number => {
+  const diff = Math.abs(normalizeAzimuth(a) - normalizeAzimuth(b));
+  return Math.min(diff, 360 - diff);
+};
+
+/**
+ * Interpolate the elevation of a horizon profile at an azimuth
+ *
+ * @param profile - Horizon points in any order
+ * @param azimuth - Azimuth in degrees clockwise from north
+ * @returns Horizon elevation in degrees (0 for an empty profile)
+ */
+export function interpolateHorizonElevation(profile: HorizonPoint[], azimuth: number): number {
+  if (profile.length === 0) {
+    return 0;
+  }
+  if (profile.length === 1) {
+    return profile[0].elevation;
+  }
+
+  const points = profile
+    .map((p) => ({ azimuth: normalizeAzimuth(p.azimuth), elevation: p.elevation }))
+    .sort((a, b) => a.azimuth - b.azimuth);
+  const az = normalizeAzimuth(azimuth);
+
+  // Neighbours on either side, wrapping across north
+  let upper = points.findIndex((p) => p.azimuth >= az);
+  if (upper === -1) upper = 0;
+  const lower = (upper - 1 + points.length) % points.length;
+
+  const a = points[lower];
+  const b = points[upper];
+  const span = normalizeAzimuth(b.azimuth - a.azimuth) || 360;
+  const offset = normalizeAzimuth(az - a.azimuth);
+
+  return a.elevation + (b.elevation - a.elevation) * Math.min(1, offset / span);
+}
+
+/**
+ * Elevation subtended by an obstacle at an azimuth
+ *
+ * @param obstacle - Shading obstacle
+ * @param azimuth - Azimuth in degrees clockwise from north
+ * @returns Obstacle elevation in degrees, 0 outside its width
+ */
+export function calculateObstacleElevation(obstacle: ShadingObstacle, azimuth: number): number {
+  if (obstacle.distance <= 0 || obstacle.height <= 0) {
+    return 0;
+  }
+
+  const halfWidth = Math.atan(obstacle.width / (2 * obstacle.distance)) * RAD_TO_DEG;
+  if (azimuthDifference(azimuth, obstacle.azimuth) > halfWidth) {
+    return 0;
+  }
+  return Math.atan(obstacle.height / obstacle.distance) * RAD_TO_DEG;
+}
+
+/**
+ * Effective horizon elevation of a site, the higher of the far horizon and
+ * any obstacle
+ *
+ * @param profile - Asset horizon profile and obstacles
+ * @param azimuth - Azimuth in degrees clockwise from north
+ * @returns Horizon elevation in degrees
+ */
+export function calculateHorizonElevation(profile: ShadingProfile, azimuth: number): number {
+  let elevation = interpolateHorizonElevation(profile.horizon ?? [], azimuth);
+  (profile.obstacles ?? []).forEach((obstacle) => {
+    elevation = Math.max(elevation, calculateObstacleElevation(obstacle, azimuth));
+  });
+  return elevation;
+}
+
+/**
+ * Whether an asset carries a horizon profile or obstacles
+ *
+ * @param profile - Asset horizon profile and obstacles
+ * @returns True when shading can block the beam
+ */
+export function hasShadingProfile(profile: ShadingProfile): boolean {
+  return (profile.horizon?.length ?? 0) > 0 || (profile.obstacles?.length ?? 0) > 0;
+}
+
+/**
+ * Whether the sun is behind the horizon profile or an obstacle
+ *
+ * @param profile - Asset horizon profile and obstacles
+ * @param sun - Solar zenith and azimuth
+ * @returns True when the beam is blocked
+ */
+export function isBeamBlocked(
+  profile: ShadingProfile,
+  sun: Pick<SunAngles, 'zenith' | 'azimuth'>
+): boolean {
+  return 90 - sun.zenith < calculateHorizonElevation(profile, sun.azimuth);
+}
+
+/**
+ * Remove the beam from the irradiance components, leaving the diffuse
+ *
+ * @param irradiance - Horizontal irradiance components in W/m²
+ * @returns Components with DNI set to 0 and GHI reduced to DHI
+ */
+export function blockBeamIrradiance(irradiance: IrradianceComponents): IrradianceComponents {
+  return { ghi: irradiance.dhi, dni: 0, dhi: irradiance.dhi };
+}
+
+/**
+ * Check the horizon profile and obstacles of a solar asset
+ *
+ * @param asset - Solar asset configuration
+ * @returns Error message, or null when the profile is valid
+ */
+export function validateShadingProfile(asset: SolarAsset): string | null {
+  const badPoint = (asset.horizon ?? []).find(
+    (p) => !isFinite(p.azimuth) || !isFinite(p.elevation) || p.elevation < 0 || p.elevation > 90
+  );
+  if (badPoint) {
+    return 'Horizon elevations must be between 0° and 90°';
+  }
+
+  const badObstacle = (asset.obstacles ?? []).find(
+    (o) => !isFinite(o.azimuth) || !(o.distance > 0) || !(o.height >= 0) || !(o.width > 0)
+  );
+  if (badObstacle) {
+    return 'Obstacles need a positive distance and width and a non-negative height';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a horizon profile from CSV text
+ *
+ * Each line holds an azimuth (degrees clockwise from north) and an
+ * elevation, separated by commas, semicolons, tabs or spaces. Header and
+ * comment lines are skipped.
+ *
+ * @param text - CSV file contents
+ * @returns Horizon points sorted by azimuth
+ * @throws Error when no valid pairs are found or an elevation is out of range
+ */
+export function parseHorizonCsv(text: string): HorizonPoint[] {
+  const points: HorizonPoint[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    const [azimuth, elevation] = trimmed.split(/[,;\t ]+/).map(Number);
+    if (!isFinite(azimuth) || !isFinite(elevation)) return;
+
+    if (elevation < 0 || elevation > 90) {
+      throw new Error(`Line ${index + 1}: elevation must be between 0° and 90°`);
+    }
+    points.push({ azimuth: normalizeAzimuth(azimuth), elevation });
+  });
+
+  if (points.length === 0) {
+    throw new Error('Horizon file contains no azimuth/elevation pairs');
+  }
+
+  return points.sort((a, b) => a.azimuth - b.azimuth);
+}
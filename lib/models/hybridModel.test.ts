@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData, HybridAsset, PowerOutput } from '@/types';
+import {
+  calculateComplementarity,
+  combineHybridOutputs,
+  generateHybridForecast,
+  summarizeHybridOutputs
+} from '@/lib/models/hybridModel';
+
+function outputs(powers: number[]): PowerOutput[] {
+  return powers.map((power, i) => ({
+    time: `2024-06-01T${String(i).padStart(2, '0')}:00`,
+    power
+  }));
+}
+
+describe('combineHybridOutputs', () => {
+  it('converts the solar leg from kW to MW', () => {
+    // 30 000 kW of solar and 20 MW of wind under a 100 MW limit
+    const [hour] = combineHybridOutputs(outputs([30000]), outputs([20]), 100);
+
+    expect(hour.solarPower).toBe(30);
+    expect(hour.windPower).toBe(20);
+    expect(hour.power).toBe(50);
+    expect(hour.capacity).toBe(50);
+    expect(hour.curtailedPower).toBe(0);
+    expect(hour.solar?.power).toBe(30000);
+  });
+
+  it('caps export at the interconnection limit and reports the excess', () => {
+    const [hour] = combineHybridOutputs(outputs([40000]), outputs([35]), 60);
+
+    expect(hour.power).toBe(60);
+    expect(hour.capacity).toBe(100);
+    expect(hour.curtailedPower).toBe(15);
+  });
+
+  it('keeps the wind details and treats missing solar hours as dark', () => {
+    const wind: PowerOutput[] = [{ time: '2024-06-01T00:00', power: 12, hubWindSpeed: 9.5 }];
+    const [hour] = combineHybridOutputs([], wind, 50);
+
+    expect(hour.hubWindSpeed).toBe(9.5);
+    expect(hour.solarPower).toBe(0);
+    expect(hour.power).toBe(12);
+  });
+});
+
+describe('generateHybridForecast', () => {
+  it('reports the solar leg of a real array in MW', () => {
+    const asset: HybridAsset = {
+      type: 'hybrid',
+      solar: { type: 'solar', dcCapacity: 50000, tilt: 30, azimuth: 180 },
+      wind: { type: 'wind', ratedCapacity: 2, hubHeight: 80, rotorDiameter: 90 },
+      interconnectionLimit: 100
+    };
+    const noon: HourlyWeatherData = {
+      time: '2024-06-01T12:00',
+      utcOffsetSeconds: -21600,
+      temperature: 24,
+      solarIrradiance: 925,
+      directRadiation: 770,
+      diffuseRadiation: 155,
+      windSpeed: 5.8,
+      windSpeed10m: 5.8,
+      windSpeed100m: 7.7,
+      windDirection: 253
+    };
+    const [hour] = generateHybridForecast(asset, [noon], { latitude: 39.74, longitude: -105.18 });
+
+    expect(hour.solar?.power).toBeGreaterThan(20000);
+    expect(hour.solarPower).toBeCloseTo((hour.solar?.power ?? 0) / 1000, 12);
+    expect(hour.solarPower).toBeLessThan(50);
+    expect(hour.power).toBeCloseTo((hour.solarPower ?? 0) + (hour.windPower ?? 0), 12);
+  });
+});
+
+describe('summarizeHybridOutputs', () => {
+  it('shares curtailment in proportion to each technology', () => {
+    // 60 MW solar + 20 MW wind under 60 MW: 20 MW curtailed, 3:1
+    const hours = combineHybridOutputs(outputs([60000, 10000]), outputs([20, 10]), 60);
+    const summary = summarizeHybridOutputs(hours);
+
+    expect(summary.solarEnergy).toBeCloseTo(45 + 10, 10);
+    expect(summary.windEnergy).toBeCloseTo(15 + 10, 10);
+    expect(summary.curtailedEnergy).toBe(20);
+    expect(summary.curtailedHours).toBe(1);
+    expect(summary.curtailmentPercent).toBeCloseTo(20, 10);
+    // Exported energy matches the capped output
+    expect(summary.solarEnergy + summary.windEnergy).toBeCloseTo(
+      hours.reduce((sum, o) => sum + o.power, 0),
+      10
+    );
+  });
+
+  it('scales energies and hours', () => {
+    const hours = combineHybridOutputs(outputs([60000]), outputs([20]), 60);
+    const summary = summarizeHybridOutputs(hours, 8760);
+
+    expect(summary.curtailedEnergy).toBe(20 * 8760);
+    expect(summary.curtailedHours).toBe(8760);
+    expect(summary.curtailmentPercent).toBeCloseTo(25, 10);
+  });
+});
+
+describe('calculateComplementarity', () => {
+  it('finds perfectly anti-correlated solar and wind', () => {
+    const hours = combineHybridOutputs(outputs([0, 10000, 0, 10000]), outputs([10, 0, 10, 0]), 100);
+    const result = calculateComplementarity(hours);
+
+    expect(result.correlation).toBeCloseTo(-1, 12);
+    expect(result.solarVariability).toBeCloseTo(1, 12);
+    expect(result.windVariability).toBeCloseTo(1, 12);
+    expect(result.combinedVariability).toBe(0);
+  });
+
+  it('has no correlation when one technology is flat', () => {
+    const hours = combineHybridOutputs(outputs([0, 10000]), outputs([5, 5]), 100);
+
+    expect(calculateComplementarity(hours).correlation).toBeUndefined();
+    expect(calculateComplementarity(hours).windVariability).toBe(0);
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  HourlyWeatherData,
+  HybridAsset,
+  HybridComplementarity,
+  HybridSummary,
+  Location,
+  PowerOutput
+} from '@/types';
+import { generateSolarForecast } from '@/lib/models/solarModel';
+import { generateWindForecast } from '@/lib/models/windModel';
+import { resolveSolarEquipment } from '@/lib/models/equipmentLibrary';
+import { resolveWindTurbine } from '@/lib/models/turbineLibrary';
+
+/**
+ * Hybrid Solar-Wind Plant Model
+ *
+ * This module combines the hourly output of a solar array and a wind
+ * turbine or farm that export through one point of interconnection (POI).
+ * Output above the export limit is curtailed.
+ *
+ * Formula:
+ * P_export = min(P_solar + P_wind, P_POI)
+ * P_curtailed = max(0, P_solar + P_wind - P_POI)
+ *
+ * Where:
+ * - P_solar = solar AC output in MW (the solar model works in kW)
+ * - P_wind = wind output in MW after wakes, shutdown and icing
+ * - P_POI = interconnection limit in MW
+ *
+ * Curtailment is shared between the technologies in proportion to their
+ * output in the hour.
+ *
+ * Complementarity:
+ * - r = Pearson correlation of hourly solar and wind output; negative
+ *   values mean wind tends to blow when the sun is down
+ * - CV = σ / mean of hourly output, for each technology and combined
+ *
+ * References:
+ * - NREL (2020). Hybrid Power Plants: Status of Installed and Proposed Projects
+ * - Jurasz, J. et al. (2020). A review on the complementarity of renewable energy sources. Solar Energy 195
+ */
+
+/** kW per MW */
+const KW_PER_MW = 1000;
+
+/**
+ * Mean and coefficient of variation of a series
+ *
+ * @param values - Series of values
+ * @returns Mean and σ / mean (0 when the mean is not positive)
+ */
+function describeSeries(values: number[]): { mean: number; variability: number } {
+  if (values.length === 0) {
+    return { mean: 0, variability: 0 };
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, variability: mean > 0 ? Math.sqrt(variance) / mean : 0 };
+}
+
+/**
+ * Combine solar and wind outputs behind the interconnection limit
+ *
+ * The wind output's hub-height, shutdown and icing details are kept on
+ * each hour and the solar output, with its irradiance, cell temperature,
+ * clipping and loss details, under `solar`; power is in MW and capacity in
+ * percent of the export limit.
+ *
+ * @param solarOutputs - Hourly solar outputs in kW
+ * @param windOutputs - Hourly wind outputs in MW, for the same hours
+ * @param interconnectionLimit - Export limit in MW
+ * @returns Array of power outputs
+ */
+export function combineHybridOutputs(
+  solarOutputs: PowerOutput[],
+  windOutputs: PowerOutput[],
+  interconnectionLimit: number
+): PowerOutput[] {
+  return windOutputs.map((windOutput, index) => {
+    const solarOutput = solarOutputs[index];
+    const solarPower = (solarOutput?.power ?? 0) / KW_PER_MW;
+    const windPower = windOutput.power;
+    const combined = solarPower + windPower;
+    const power = Math.min(combined, interconnectionLimit);
+    const capacity = interconnectionLimit > 0 ? (power / interconnectionLimit) * 100 : 0;
+
+    return {
+      ...windOutput,
+      power,
+      capacity: Math.min(100, Math.max(0, capacity)),
+      solarPower,
+      windPower,
+      curtailedPower: Math.max(0, combined - interconnectionLimit),
+      solar: solarOutput
+    };
+  });
+}
+
+/**
+ * Generate hourly output of a hybrid plant
+ *
+ * @param asset - Hybrid asset configuration
+ * @param weatherData - Array of hourly weather data
+ * @param location - Site location
+ * @returns Array of power outputs in MW
+ */
+export function generateHybridForecast(
+  asset: HybridAsset,
+  weatherData: HourlyWeatherData[],
+  location: Location
+): PowerOutput[] {
+  return combineHybridOutputs(
+    generateSolarForecast(asset.solar, weatherData, location),
+    generateWindForecast(asset.wind, weatherData, location),
+    asset.interconnectionLimit
+  );
+}
+
+/**
+ * Complementarity of the solar and wind output of a hybrid plant
+ *
+ * @param outputs - Hourly hybrid outputs
+ * @returns Correlation and variability of the hourly output
+ */
+export function calculateComplementarity(outputs: PowerOutput[]): HybridComplementarity {
+  const solar = outputs.map((o) => o.solarPower ?? 0);
+  const wind = outputs.map((o) => o.windPower ?? 0);
+  const solarStats = describeSeries(solar);
+  const windStats = describeSeries(wind);
+  const combinedStats = describeSeries(solar.map((s, i) => s + wind[i]));
+
+  let covariance = 0;
+  let solarSquares = 0;
+  let windSquares = 0;
+  solar.forEach((s, i) => {
+    const ds = s - solarStats.mean;
+    const dw = wind[i] - windStats.mean;
+    covariance += ds * dw;
+    solarSquares += ds * ds;
+    windSquares += dw * dw;
+  });
+
+  return {
+    correlation: solarSquares > 0 && windSquares > 0
+      ? covariance / Math.sqrt(solarSquares * windSquares)
+      : undefined,
+    solarVariability: solarStats.variability,
+    windVariability: windStats.variability,
+    combinedVariability: combinedStats.variability
+  };
+}
+
+/**
+ * Per-technology energy, curtailment and complementarity of a hybrid plant
+ *
+ * @param outputs - Hourly hybrid outputs
+ * @param scale - Factor applied to the energies and hours, e.g. to annualise (default 1)
+ * @returns Summary in MWh and hours
+ */
+export function summarizeHybridOutputs(outputs: PowerOutput[], scale: number = 1): HybridSummary {
+  let solarEnergy = 0;
+  let windEnergy = 0;
+  let curtailedEnergy = 0;
+  let curtailedHours = 0;
+
+  outputs.forEach((o) => {
+    const solar = o.solarPower ?? 0;
+    const wind = o.windPower ?? 0;
+    const curtailed = o.curtailedPower ?? 0;
+    const combined = solar + wind;
+    // Share the curtailment in proportion to each technology's output
+    const exportFactor = curtailed > 0 && combined > 0 ? 1 - curtailed / combined : 1;
+    solarEnergy += solar * exportFactor;
+    windEnergy += wind * exportFactor;
+    curtailedEnergy += curtailed;
+    if (curtailed > 0) curtailedHours++;
+  });
+
+  const grossEnergy = solarEnergy + windEnergy + curtailedEnergy;
+
+  return {
+    solarEnergy: solarEnergy * scale,
+    windEnergy: windEnergy * scale,
+    curtailedEnergy: curtailedEnergy * scale,
+    curtailmentPercent: grossEnergy > 0 ? (curtailedEnergy / grossEnergy) * 100 : 0,
+    curtailedHours: curtailedHours * scale,
+    complementarity: calculateComplementarity(outputs)
+  };
+}
+
+/**
+ * Resolve the equipment references of both parts of a hybrid plant
+ *
+ * @param asset - Hybrid asset configuration
+ * @returns Hybrid asset with resolved solar and wind parts
+ */
+export function resolveHybridAsset(asset: HybridAsset): HybridAsset {
+  return {
+    ...asset,
+    solar: resolveSolarEquipment(asset.solar),
+    wind: resolveWindTurbine(asset.wind)
+  };
+}
+
+/**
+ * Check the plant-level settings of a hybrid asset
+ *
+ * The solar and wind parts are checked by validateAsset (see assetModel.ts).
+ *
+ * @param asset - Hybrid asset configuration
+ * @returns Error message, or null when the asset is valid
+ */
+export function validateHybridAsset(asset: HybridAsset): string | null {
+  if (asset.solar?.type !== 'solar' || asset.wind?.type !== 'wind') {
+    return 'A hybrid plant needs a solar and a wind part';
+  }
+  if (!(asset.interconnectionLimit > 0)) {
+    return 'Interconnection limit must be positive';
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData } from '@/types';
+import {
+  calculateIcingLoss,
+  classifyIcingRisk,
+  estimateCloudBase,
+  updateIceLoad
+} from '@/lib/models/icingModel';
+
+const HUB_HEIGHT = 102;
+
+function hour(fields: Partial<HourlyWeatherData>): HourlyWeatherData {
+  return { time: '2024-01-10T06:00', ...fields };
+}
+
+describe('estimateCloudBase', () => {
+  it('applies Espy’s 125 m per kelvin of dew point depression', () => {
+    expect(estimateCloudBase(hour({ temperature: 5, dewPoint: 1 }))).toBeCloseTo(500, 9);
+  });
+
+  it('derives the dew point from relative humidity', () => {
+    // Magnus (17.62, 243.12 °C): 10 °C at 50% has a dew point of 0.04 °C
+    expect(estimateCloudBase(hour({ temperature: 10, relativeHumidity: 50 }))).toBeCloseTo(125 * 9.96, -1);
+  });
+});
+
+describe('classifyIcingRisk', () => {
+  it('uses the hub-height temperature from the standard lapse rate', () => {
+    // 0.5 °C at 2 m is -0.15 °C at 102 m; 1 °C stays above freezing
+    expect(classifyIcingRisk(hour({ temperature: 0.5, visibility: 800 }), HUB_HEIGHT)).toBe('light');
+    expect(classifyIcingRisk(hour({ temperature: 1, visibility: 800 }), HUB_HEIGHT)).toBe('none');
+  });
+
+  it('grades the severity by visibility and freezing rain', () => {
+    expect(classifyIcingRisk(hour({ temperature: -3, visibility: 400 }), HUB_HEIGHT)).toBe('moderate');
+    expect(classifyIcingRisk(hour({ temperature: -3, visibility: 150 }), HUB_HEIGHT)).toBe('severe');
+    expect(classifyIcingRisk(hour({ temperature: -2, rain: 0.4 }), HUB_HEIGHT)).toBe('severe');
+  });
+
+  it('treats a dense low cloud below the hub as moderate icing', () => {
+    // Cloud base 125 × 0.4 = 50 m
+    expect(classifyIcingRisk(hour({ temperature: -3, dewPoint: -3.4, cloudCoverLow: 85 }), HUB_HEIGHT)).toBe(
+      'moderate'
+    );
+  });
+
+  it('needs the rotor in cloud', () => {
+    expect(classifyIcingRisk(hour({ temperature: -5, relativeHumidity: 100 }), HUB_HEIGHT)).toBe('light');
+    expect(classifyIcingRisk(hour({ temperature: -5, relativeHumidity: 70 }), HUB_HEIGHT)).toBe('none');
+  });
+
+  it('ignores air too cold for supercooled droplets', () => {
+    expect(classifyIcingRisk(hour({ temperature: -25, visibility: 300 }), HUB_HEIGHT)).toBe('none');
+  });
+});
+
+describe('updateIceLoad', () => {
+  const cold = hour({ temperature: -5 });
+
+  it('accretes by severity and loses the whole output when fully iced', () => {
+    let ice = 0;
+    ice = updateIceLoad(ice, 'light', cold, HUB_HEIGHT);
+    ice = updateIceLoad(ice, 'moderate', cold, HUB_HEIGHT);
+    expect(ice).toBeCloseTo(0.35, 12);
+
+    ice = updateIceLoad(ice, 'severe', cold, HUB_HEIGHT);
+    ice = updateIceLoad(ice, 'severe', cold, HUB_HEIGHT);
+    expect(ice).toBe(1);
+    expect(calculateIcingLoss(ice)).toBe(1);
+  });
+
+  it('keeps 80% of the accretion off heated blades', () => {
+    expect(updateIceLoad(0, 'severe', cold, HUB_HEIGHT, { bladeHeating: true })).toBeCloseTo(0.1, 12);
+  });
+
+  it('melts above freezing and sublimates below', () => {
+    expect(updateIceLoad(0.8, 'none', hour({ temperature: 5 }), HUB_HEIGHT)).toBeCloseTo(0.3, 12);
+    expect(updateIceLoad(0.8, 'none', cold, HUB_HEIGHT)).toBeCloseTo(0.75, 12);
+  });
+});
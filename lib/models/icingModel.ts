@@ -0,0 +1,246 @@
+import { HourlyWeatherData, IcingParameters, IcingRisk } from '@/types';
+
+/**
+ * Rotor Icing Model
+ *
+ * This module classifies meteorological icing at hub height, when
+ * supercooled cloud or fog droplets or freezing rain hit the rotor, and
+ * tracks the ice left on the blades to estimate the production loss.
+ *
+ * Conditions at hub height:
+ * - T_hub = T_2m - 0.0065 × (h - 2), T_d,hub = T_d - 0.0018 × (h - 2)
+ * - Cloud base z_b = 125 × (T - T_d) m above ground
+ * - In cloud when RH_hub ≥ 95%, visibility < 1000 m, or low cloud ≥ 50%
+ *   with z_b at or below hub height
+ *
+ * Meteorological icing when -20 °C ≤ T_hub ≤ 0 °C and the rotor is in
+ * cloud, or when rain falls with T_hub ≤ 0 °C. Severity:
+ * - severe: freezing rain or visibility < 200 m
+ * - moderate: visibility < 500 m or low cloud ≥ 80% below hub height
+ * - light: otherwise
+ *
+ * Ice index I (0-1, 1 = rotor fully iced):
+ * - grows by 0.1 / 0.25 / 0.5 per hour of light / moderate / severe icing
+ * - melts by 0.5 per hour above 0 °C, sublimates by 0.05 per hour otherwise
+ * - production loss L = I, so a fully iced rotor stands still
+ *
+ * Blade heating removes 80% of the accretion. Without dew point the cloud
+ * base and hub humidity are derived from relative humidity (Magnus).
+ *
+ * References:
+ * - IEA Wind TCP Task 19 (2017). Available Technologies for Wind Energy in Cold Climates
+ * - IEA Wind TCP Task 19 (2016). International Recommendations for Ice Classification
+ * - Espy, J. P. (1836). Essays on the Philosophy of Storms (cloud base estimate)
+ */
+
+/** Temperature lapse rate (K/m) */
+const TEMPERATURE_LAPSE_RATE = 0.0065;
+
+/** Dew point lapse rate (K/m) */
+const DEW_POINT_LAPSE_RATE = 0.0018;
+
+/** Cloud base height per degree of dew point depression (m/K) */
+const CLOUD_BASE_PER_KELVIN = 125;
+
+/** Magnus coefficients over water */
+const MAGNUS_A = 17.62;
+const MAGNUS_B = 243.12;
+
+/** Lowest hub temperature with supercooled liquid water (°C) */
+const MIN_ICING_TEMPERATURE = -20;
+
+/** Relative humidity treated as in cloud (%) */
+const IN_CLOUD_HUMIDITY = 95;
+
+/** Visibility below which the rotor is in fog (m) */
+const FOG_VISIBILITY = 1000;
+
+/** Visibilities of moderate and severe icing (m) */
+const MODERATE_ICING_VISIBILITY = 500;
+const SEVERE_ICING_VISIBILITY = 200;
+
+/** Low cloud cover with the rotor in cloud, and in dense cloud (%) */
+const IN_CLOUD_LOW_CLOUD = 50;
+const DENSE_LOW_CLOUD = 80;
+
+/** Ice index growth per hour by severity */
+const ACCRETION_RATE: Record<IcingRisk, number> = {
+  none: 0,
+  light: 0.1,
+  moderate: 0.25,
+  severe: 0.5
+};
+
+/** Ice index removed per hour above freezing */
+const MELT_RATE = 0.5;
+
+/** Ice index removed per hour below freezing without icing */
+const SUBLIMATION_RATE = 0.05;
+
+/** Share of the accretion that heated blades keep off */
+const BLADE_HEATING_EFFICIENCY = 0.8;
+
+/**
+ * Dew point from temperature and relative humidity (Magnus)
+ *
+ * @param temperature - Air temperature in °C
+ * @param relativeHumidity - Relative humidity in %
+ * @returns Dew point in °C
+ */
+function dewPointFromHumidity(temperature: number, relativeHumidity: number): number {
+  const gamma =
+    Math.log(Math.max(1, relativeHumidity) / 100) + (MAGNUS_A * temperature) / (MAGNUS_B + temperature);
+  return (MAGNUS_B * gamma) / (MAGNUS_A - gamma);
+}
+
+/**
+ * Relative humidity from temperature and dew point (Magnus)
+ *
+ * @param temperature - Air temperature in °C
+ * @param dewPoint - Dew point in °C
+ * @returns Relative humidity in %
+ */
+function humidityFromDewPoint(temperature: number, dewPoint: number): number {
+  const saturation = (t: number) => Math.exp((MAGNUS_A * t) / (MAGNUS_B + t));
+  return Math.min(100, (100 * saturation(dewPoint)) / saturation(temperature));
+}
+
+/**
+ * Dew point of an hourly record, from relative humidity when not given
+ *
+ * @param hour - Hourly weather record
+ * @returns Dew point in °C, or undefined without humidity data
+ */
+function resolveDewPoint(hour: HourlyWeatherData): number | undefined {
+  if (hour.dewPoint !== undefined) {
+    return hour.dewPoint;
+  }
+  if (hour.temperature === undefined || hour.relativeHumidity === undefined) {
+    return undefined;
+  }
+  return dewPointFromHumidity(hour.temperature, hour.relativeHumidity);
+}
+
+/**
+ * Classify meteorological icing at hub height
+ *
+ * @param hour - Hourly weather record
+ * @param hubHeight - Hub height in m
+ * @returns Icing severity ('none' without temperature data)
+ */
+export function classifyIcingRisk(hour: HourlyWeatherData, hubHeight: number): IcingRisk {
+  if (hour.temperature === undefined) {
+    return 'none';
+  }
+
+  const rise = Math.max(0, hubHeight - 2);
+  const hubTemperature = hour.temperature - TEMPERATURE_LAPSE_RATE * rise;
+  if (hubTemperature > 0 || hubTemperature < MIN_ICING_TEMPERATURE) {
+    return 'none';
+  }
+
+  const freezingRain = (hour.rain ?? 0) > 0;
+  if (freezingRain || (hour.visibility !== undefined && hour.visibility < SEVERE_ICING_VISIBILITY)) {
+    return 'severe';
+  }
+  if (!isInCloud(hour, hubHeight)) {
+    return 'none';
+  }
+
+  const cloudBase = estimateCloudBase(hour);
+  const denseCloud =
+    (hour.cloudCoverLow ?? 0) >= DENSE_LOW_CLOUD && cloudBase !== undefined && cloudBase <= hubHeight;
+  if ((hour.visibility !== undefined && hour.visibility < MODERATE_ICING_VISIBILITY) || denseCloud) {
+    return 'moderate';
+  }
+  return 'light';
+}
+
+/**
+ * Cloud base height above ground from the dew point depression
+ *
+ * @param hour - Hourly weather record
+ * @returns Cloud base in m, or undefined without humidity data
+ */
+export function estimateCloudBase(hour: HourlyWeatherData): number | undefined {
+  if (hour.temperature === undefined) {
+    return undefined;
+  }
+  const dewPoint = resolveDewPoint(hour);
+  if (dewPoint === undefined) {
+    return undefined;
+  }
+  return Math.max(0, CLOUD_BASE_PER_KELVIN * (hour.temperature - dewPoint));
+}
+
+/**
+ * Whether the rotor is in cloud or fog
+ *
+ * @param hour - Hourly weather record
+ * @param hubHeight - Hub height in m
+ * @returns True when the hub is in cloud or fog
+ */
+function isInCloud(hour: HourlyWeatherData, hubHeight: number): boolean {
+  if (hour.temperature === undefined) {
+    return false;
+  }
+  if (hour.visibility !== undefined && hour.visibility < FOG_VISIBILITY) {
+    return true;
+  }
+
+  const cloudBase = estimateCloudBase(hour);
+  if ((hour.cloudCoverLow ?? 0) >= IN_CLOUD_LOW_CLOUD && cloudBase !== undefined && cloudBase <= hubHeight) {
+    return true;
+  }
+
+  const dewPoint = resolveDewPoint(hour);
+  if (dewPoint === undefined) {
+    return false;
+  }
+  const rise = Math.max(0, hubHeight - 2);
+  const hubHumidity = humidityFromDewPoint(
+    hour.temperature - TEMPERATURE_LAPSE_RATE * rise,
+    dewPoint - DEW_POINT_LAPSE_RATE * rise
+  );
+  return hubHumidity >= IN_CLOUD_HUMIDITY;
+}
+
+/**
+ * Advance the ice index of the rotor by one hour
+ *
+ * @param previousIceLoad - Ice index at the end of the previous hour (0-1)
+ * @param risk - Icing severity of this hour
+ * @param hour - Hourly weather record
+ * @param hubHeight - Hub height in m
+ * @param parameters - Icing settings of the asset
+ * @returns Ice index 0-1
+ */
+export function updateIceLoad(
+  previousIceLoad: number,
+  risk: IcingRisk,
+  hour: HourlyWeatherData,
+  hubHeight: number,
+  parameters: IcingParameters = {}
+): number {
+  if (risk !== 'none') {
+    const accretion = ACCRETION_RATE[risk] * (parameters.bladeHeating ? 1 - BLADE_HEATING_EFFICIENCY : 1);
+    return Math.min(1, previousIceLoad + accretion);
+  }
+
+  const hubTemperature =
+    hour.temperature !== undefined
+      ? hour.temperature - TEMPERATURE_LAPSE_RATE * Math.max(0, hubHeight - 2)
+      : undefined;
+  const removal = hubTemperature !== undefined && hubTemperature > 0 ? MELT_RATE : SUBLIMATION_RATE;
+  return Math.max(0, previousIceLoad - removal);
+}
+
+/**
+ * Production loss caused by ice on the rotor
+ *
+ * @param iceLoad - Ice index 0-1
+ * @returns Loss fraction 0-1
+ */
+export function calculateIcingLoss(iceLoad: number): number {
+  return Math.min(1, Math.max(0, iceLoad));
+}
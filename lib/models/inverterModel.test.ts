@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { SolarAsset } from '@/types';
+import {
+  calculateInverterOutput,
+  calculatePVWattsInverterPower,
+  calculateSandiaInverterPower,
+  resolveInverter
+} from '@/lib/models/inverterModel';
+
+describe('calculatePVWattsInverterPower', () => {
+  it('matches the pvlib-python PVWatts inverter reference value', () => {
+    // pvlib.inverter.pvwatts(pdc=90, pdc0=100, eta_inv_nom=0.95) = 85.58556604752516
+    expect(calculatePVWattsInverterPower(90, 95, 95)).toBeCloseTo(85.585566, 5);
+  });
+
+  it('returns nothing without DC input', () => {
+    expect(calculatePVWattsInverterPower(0, 95, 95)).toBe(0);
+  });
+});
+
+describe('calculateSandiaInverterPower', () => {
+  const inverter = {
+    model: 'sandia' as const,
+    acCapacity: 250,
+    dcInputCapacity: 259.5,
+    selfConsumption: 1.8,
+    c0: -4e-5
+  };
+
+  it('reaches the AC nameplate at the DC input capacity', () => {
+    expect(calculateSandiaInverterPower(259.5, inverter)).toBeCloseTo(250, 9);
+  });
+
+  it('follows the part-load curve at nominal DC voltage', () => {
+    // [250 / 257.7 + 4e-5 × 257.7] × 128.2 - 4e-5 × 128.2²
+    expect(calculateSandiaInverterPower(130, inverter)).toBeCloseTo(125.0335, 3);
+  });
+
+  it('returns nothing below the start-up power', () => {
+    expect(calculateSandiaInverterPower(1.8, inverter)).toBe(0);
+  });
+});
+
+describe('calculateInverterOutput', () => {
+  const asset: SolarAsset = { type: 'solar', dcCapacity: 120, inverter: { nightTare: 0.1 } };
+
+  it('fills the PVWatts defaults from the DC capacity', () => {
+    expect(resolveInverter(asset)).toEqual({
+      model: 'pvwatts',
+      nominalEfficiency: 96,
+      nightTare: 0.1,
+      acCapacity: 100
+    });
+  });
+
+  it('clips the AC output at the nameplate', () => {
+    const { acPower, clippedPower } = calculateInverterOutput(130, resolveInverter(asset));
+
+    // PVWatts efficiency at ζ = 130 / (100 / 0.96) gives 124.43 kW before clipping
+    expect(acPower).toBe(100);
+    expect(clippedPower).toBeCloseTo(24.4315, 3);
+  });
+
+  it('draws the night tare without DC input', () => {
+    expect(calculateInverterOutput(0, resolveInverter(asset))).toEqual({ acPower: -0.1, clippedPower: 0 });
+  });
+
+  it('passes DC through without an inverter', () => {
+    const plain: SolarAsset = { type: 'solar', dcCapacity: 120 };
+
+    expect(resolveInverter(plain)).toBeNull();
+    expect(calculateInverterOutput(130, resolveInverter(plain))).toEqual({ acPower: 130, clippedPower: 0 });
+  });
+});
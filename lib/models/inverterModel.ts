@@ -0,0 +1,158 @@
+import { InverterParameters, SolarAsset } from '@/types';
+
+/**
+ * Inverter Model
+ *
+ * This module converts array DC power to AC power, including part-load
+ * efficiency, clipping at the AC nameplate and night-time tare losses.
+ *
+ * References:
+ * - Dobos, A. P. (2014). PVWatts Version 5 Manual (NREL/TP-6A20-62641), Section 10
+ * - King, D. L., et al. (2007). Performance Model for Grid-Connected Photovoltaic Inverters (SAND2007-5036)
+ */
+
+/** PVWatts default DC/AC ratio used when an inverter has no AC nameplate */
+export const DEFAULT_DC_AC_RATIO = 1.2;
+
+/** PVWatts default nominal inverter efficiency (%) */
+export const DEFAULT_INVERTER_EFFICIENCY = 96;
+
+/** Reference efficiency of the PVWatts part-load curve */
+const PVWATTS_REFERENCE_EFFICIENCY = 0.9637;
+
+/**
+ * Inverter parameters with the AC nameplate filled in
+ */
+export type ResolvedInverter = InverterParameters & { acCapacity: number };
+
+/**
+ * Result of converting one hour of DC power to AC
+ */
+export interface InverterOutput {
+  acPower: number; // kW, negative at night when a tare applies
+  clippedPower: number; // kW lost to the AC nameplate limit
+}
+
+/**
+ * Resolve the inverter parameters for a solar asset, filling PVWatts defaults
+ *
+ * Assets without an inverter (e.g. saved before inverters were modelled)
+ * keep their DC output unclipped.
+ *
+ * @param asset - Solar asset configuration
+ * @returns Inverter parameters with an AC nameplate, or null without an inverter
+ */
+export function resolveInverter(asset: SolarAsset): ResolvedInverter | null {
+  const inverter = asset.inverter;
+  if (!inverter) {
+    return null;
+  }
+
+  return {
+    ...inverter,
+    model: inverter.model ?? 'pvwatts',
+    nominalEfficiency: inverter.nominalEfficiency ?? DEFAULT_INVERTER_EFFICIENCY,
+    nightTare: inverter.nightTare ?? 0,
+    acCapacity: inverter.acCapacity ?? asset.dcCapacity / DEFAULT_DC_AC_RATIO
+  };
+}
+
+/**
+ * Calculate unclipped AC power with the PVWatts part-load efficiency curve
+ *
+ * Formula: η = (η_nom / η_ref) × (-0.0162 × ζ - 0.0059 / ζ + 0.9858)
+ * Where:
+ * - ζ = P_dc / P_dc0, with P_dc0 = P_ac0 / η_nom
+ * - η_ref = 0.9637
+ *
+ * @param dcPower - DC input power in kW
+ * @param acCapacity - AC nameplate in kW
+ * @param nominalEfficiency - Nominal efficiency in percent (default 96)
+ * @returns AC power in kW before clipping
+ */
+export function calculatePVWattsInverterPower(
+  dcPower: number,
+  acCapacity: number,
+  nominalEfficiency: number = DEFAULT_INVERTER_EFFICIENCY
+): number {
+  if (dcPower <= 0 || acCapacity <= 0) {
+    return 0;
+  }
+
+  const etaNominal = nominalEfficiency / 100;
+  const zeta = dcPower / (acCapacity / etaNominal);
+  const efficiency =
+    (etaNominal / PVWATTS_REFERENCE_EFFICIENCY) * (-0.0162 * zeta - 0.0059 / zeta + 0.9858);
+
+  return Math.max(0, efficiency * dcPower);
+}
+
+/**
+ * Calculate unclipped AC power with the Sandia inverter model at nominal
+ * DC voltage
+ *
+ * Formula: P_ac = [P_ac0 / (A - B) - C × (A - B)] × (P_dc - B) + C × (P_dc - B)²
+ * Where:
+ * - A = P_dc0 (DC power at which AC nameplate is reached)
+ * - B = P_s0 (DC power needed to start inverting)
+ * - C = C₀ (curvature of the efficiency curve)
+ *
+ * @param dcPower - DC input power in kW
+ * @param inverter - Inverter parameters (acCapacity, dcInputCapacity, selfConsumption, c0)
+ * @returns AC power in kW before clipping
+ */
+export function calculateSandiaInverterPower(
+  dcPower: number,
+  inverter: ResolvedInverter
+): number {
+  const acCapacity = inverter.acCapacity;
+  const A =
+    inverter.dcInputCapacity ??
+    acCapacity / ((inverter.nominalEfficiency ?? DEFAULT_INVERTER_EFFICIENCY) / 100);
+  const B = inverter.selfConsumption ?? 0;
+  const C = inverter.c0 ?? 0;
+
+  if (dcPower <= B || A <= B) {
+    return 0;
+  }
+
+  return (acCapacity / (A - B) - C * (A - B)) * (dcPower - B) + C * (dcPower - B) ** 2;
+}
+
+/**
+ * Convert DC power to AC power for one hour
+ *
+ * AC output is limited to the inverter nameplate; the excess is reported as
+ * clipped power. When the DC input is below the start-up power, the night
+ * tare is drawn from the grid and AC power is negative. Without an inverter
+ * the DC power passes through unchanged.
+ *
+ * @param dcPower - DC input power in kW
+ * @param inverter - Resolved inverter parameters, or null without an inverter
+ * @returns AC power and clipped power in kW
+ */
+export function calculateInverterOutput(
+  dcPower: number,
+  inverter: ResolvedInverter | null
+): InverterOutput {
+  if (!inverter) {
+    return { acPower: Math.max(0, dcPower), clippedPower: 0 };
+  }
+
+  const startPower = inverter.model === 'sandia' ? inverter.selfConsumption ?? 0 : 0;
+  if (dcPower <= startPower) {
+    return { acPower: -(inverter.nightTare ?? 0), clippedPower: 0 };
+  }
+
+  const unclipped =
+    inverter.model === 'sandia'
+      ? calculateSandiaInverterPower(dcPower, inverter)
+      : calculatePVWattsInverterPower(dcPower, inverter.acCapacity, inverter.nominalEfficiency);
+
+  const acPower = Math.min(unclipped, inverter.acCapacity);
+
+  return {
+    acPower: Math.max(0, acPower),
+    clippedPower: Math.max(0, unclipped - inverter.acCapacity)
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCosAngleOfIncidence,
+  calculateHourlyPlaneOfArray,
+  decomposeGlobalIrradiance,
+  transposeToPlaneOfArray
+} from '@/lib/models/irradianceModel';
+
+describe('calculateCosAngleOfIncidence', () => {
+  it('matches Duffie & Beckman Example 1.6.1', () => {
+    // Madison (43°N), 13 February, 10:30 solar time: zenith 60.62°, azimuth
+    // 154.78°; surface tilted 45° and turned 15° west of south
+    const cosAoi = calculateCosAngleOfIncidence(60.62, 154.78, 45, 195);
+
+    expect(Math.acos(cosAoi) * (180 / Math.PI)).toBeCloseTo(35.2, 1);
+  });
+
+  it('is negative when the sun is behind the array', () => {
+    expect(calculateCosAngleOfIncidence(60, 0, 60, 180)).toBeLessThan(0);
+  });
+});
+
+describe('decomposeGlobalIrradiance', () => {
+  it('applies the Erbs diffuse fraction', () => {
+    // kt = 341.75 / (1367 × cos 60°) = 0.5 → diffuse fraction 0.65915
+    const { dni, dhi } = decomposeGlobalIrradiance(341.75, 60, 1367);
+
+    expect(dhi).toBeCloseTo(225.26, 1);
+    expect(dni).toBeCloseTo(232.97, 1);
+  });
+
+  it('treats an overcast sky as all diffuse', () => {
+    // kt = 0.1 → diffuse fraction 0.991
+    const { dni, dhi } = decomposeGlobalIrradiance(68.35, 60, 1367);
+
+    expect(dhi).toBeCloseTo(68.35 * 0.991, 2);
+    expect(dni).toBeCloseTo(68.35 * 0.009 / 0.5, 2);
+  });
+
+  it('returns no beam at night', () => {
+    expect(decomposeGlobalIrradiance(0, 95, 1367)).toEqual({ dni: 0, dhi: 0 });
+  });
+});
+
+describe('transposeToPlaneOfArray', () => {
+  const sun = { zenith: 30, azimuth: 180, extraterrestrialIrradiance: 1367 };
+
+  it('matches a hand calculation of the Hay-Davies model', () => {
+    // Array facing the sun: cos θ = 1, R_b = 1 / cos 30°, A_i = 700 / 1367
+    const poa = transposeToPlaneOfArray(800, 700, 200, sun, 30, 180);
+
+    expect(poa.angleOfIncidence).toBeCloseTo(0, 3);
+    expect(poa.beam).toBeCloseTo(700, 6);
+    expect(poa.skyDiffuse).toBeCloseTo(209.306, 2);
+    expect(poa.groundReflected).toBeCloseTo(10.718, 2);
+    expect(poa.global).toBeCloseTo(920.024, 2);
+  });
+
+  it('returns GHI on a horizontal surface', () => {
+    const dni = 700;
+    const dhi = 200;
+    const ghi = dni * Math.cos(Math.PI / 6) + dhi;
+    const poa = transposeToPlaneOfArray(ghi, dni, dhi, sun, 0, 180);
+
+    expect(poa.groundReflected).toBe(0);
+    expect(poa.global).toBeCloseTo(ghi, 6);
+  });
+
+  it('receives half the ground reflection on a vertical surface', () => {
+    const poa = transposeToPlaneOfArray(800, 700, 200, sun, 90, 0, 0.3);
+
+    expect(poa.beam).toBe(0);
+    expect(poa.groundReflected).toBeCloseTo(800 * 0.3 * 0.5, 6);
+  });
+});
+
+describe('calculateHourlyPlaneOfArray', () => {
+  const sun = { zenith: 60, azimuth: 180, extraterrestrialIrradiance: 1367 };
+
+  it('recovers DNI and DHI from the horizontal beam', () => {
+    const hour = { time: '2024-06-01T12:00', solarIrradiance: 500, directRadiation: 300 };
+
+    const poa = calculateHourlyPlaneOfArray(hour, sun, 20, 180);
+    const expected = transposeToPlaneOfArray(500, 600, 200, sun, 20, 180);
+
+    expect(poa?.beam).toBeCloseTo(expected.beam, 6);
+    expect(poa?.skyDiffuse).toBeCloseTo(expected.skyDiffuse, 6);
+    expect(poa?.global).toBeCloseTo(expected.global, 6);
+  });
+
+  it('returns null without irradiance', () => {
+    expect(calculateHourlyPlaneOfArray({ time: '2024-06-01T00:00', solarIrradiance: 0 }, sun, 20, 180)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import { HourlyWeatherData, PlaneOfArrayIrradiance, SolarPosition } from '@/types';
+
+/**
+ * Plane-of-Array Irradiance Model
+ *
+ * This module converts the horizontal irradiance components returned by the
+ * weather providers (GHI, DNI, DHI) into the irradiance received by a tilted
+ * photovoltaic array.
+ *
+ * References:
+ * - Hay, J. E., & Davies, J. A. (1980). Calculation of the solar radiation incident on an inclined surface
+ * - Erbs, D. G., Klein, S. A., & Duffie, J. A. (1982). Estimation of the diffuse radiation fraction
+ * - Duffie, J. A., & Beckman, W. A. (2013). Solar Engineering of Thermal Processes, Chapter 2
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Default ground albedo for grass / generic terrain */
+export const DEFAULT_ALBEDO = 0.2;
+
+/**
+ * Lowest cos(zenith) used when dividing by cos(zenith), so that the beam
+ * ratio does not blow up at sunrise and sunset (≈ 87°)
+ */
+const MIN_COS_ZENITH = 0.05;
+
+/**
+ * Sun angles used by the transposition model
+ */
+export type SunAngles = Pick<SolarPosition, 'zenith' | 'azimuth' | 'extraterrestrialIrradiance'>;
+
+/**
+ * Calculate the cosine of the angle of incidence on a tilted surface
+ *
+ * Formula: cos θ = cos Z × cos β + sin Z × sin β × cos(γ_s - γ)
+ * Where:
+ * - Z = solar zenith angle
+ * - β = surface tilt
+ * - γ_s, γ = solar and surface azimuths
+ *
+ * @param sunZenith - Solar zenith angle in degrees
+ * @param sunAzimuth - Solar azimuth in degrees clockwise from north
+ * @param surfaceTilt - Surface tilt from horizontal in degrees
+ * @param surfaceAzimuth - Surface azimuth in degrees clockwise from north
+ * @returns Cosine of the angle of incidence (may be negative when the sun is behind the array)
+ */
+export function calculateCosAngleOfIncidence(
+  sunZenith: number,
+  sunAzimuth: number,
+  surfaceTilt: number,
+  surfaceAzimuth: number
+): number {
+  const Z = sunZenith * DEG_TO_RAD;
+  const beta = surfaceTilt * DEG_TO_RAD;
+
+  return (
+    Math.cos(Z) * Math.cos(beta) +
+    Math.sin(Z) * Math.sin(beta) * Math.cos((sunAzimuth - surfaceAzimuth) * DEG_TO_RAD)
+  );
+}
+
+/**
+ * Split global horizontal irradiance into beam and diffuse components
+ * using the Erbs et al. (1982) diffuse fraction correlation
+ *
+ * Used when the weather source only provides GHI.
+ *
+ * @param ghi - Global horizontal irradiance in W/m²
+ * @param sunZenith - Solar zenith angle in degrees
+ * @param extraterrestrial - Extraterrestrial normal irradiance in W/m²
+ * @returns DNI and DHI in W/m²
+ */
+export function decomposeGlobalIrradiance(
+  ghi: number,
+  sunZenith: number,
+  extraterrestrial: number
+): { dni: number; dhi: number } {
+  const cosZenith = Math.cos(sunZenith * DEG_TO_RAD);
+  if (ghi <= 0 || cosZenith <= 0) {
+    return { dni: 0, dhi: Math.max(0, ghi) };
+  }
+
+  const kt = Math.min(1, ghi / (extraterrestrial * Math.max(cosZenith, MIN_COS_ZENITH)));
+
+  let diffuseFraction: number;
+  if (kt <= 0.22) {
+    diffuseFraction = 1 - 0.09 * kt;
+  } else if (kt <= 0.8) {
+    diffuseFraction =
+      0.9511 - 0.1604 * kt + 4.388 * kt ** 2 - 16.638 * kt ** 3 + 12.336 * kt ** 4;
+  } else {
+    diffuseFraction = 0.165;
+  }
+
+  const dhi = ghi * diffuseFraction;
+  const dni = (ghi - dhi) / Math.max(cosZenith, MIN_COS_ZENITH);
+
+  return { dni: Math.max(0, Math.min(extraterrestrial, dni)), dhi };
+}
+
+/**
+ * Transpose horizontal irradiance onto a tilted plane using the
+ * Hay-Davies anisotropic sky model
+ *
+ * Formula: G_POA = G_beam + G_sky + G_ground
+ * Where:
+ * - G_beam = DNI × max(cos θ, 0)
+ * - G_sky = DHI × [A_i × R_b + (1 - A_i) × (1 + cos β) / 2]
+ * - G_ground = GHI × ρ × (1 - cos β) / 2
+ * - A_i = DNI / E₀ (anisotropy index)
+ * - R_b = max(cos θ, 0) / cos Z (beam ratio)
+ * - ρ = ground albedo
+ *
+ * @param ghi - Global horizontal irradiance in W/m²
+ * @param dni - Direct normal irradiance in W/m²
+ * @param dhi - Diffuse horizontal irradiance in W/m²
+ * @param sun - Solar zenith, azimuth and extraterrestrial irradiance
+ * @param surfaceTilt - Surface tilt from horizontal in degrees
+ * @param surfaceAzimuth - Surface azimuth in degrees clockwise from north
+ * @param albedo - Ground reflectance (default 0.2)
+ * @returns Plane-of-array irradiance components in W/m²
+ */
+export function transposeToPlaneOfArray(
+  ghi: number,
+  dni: number,
+  dhi: number,
+  sun: SunAngles,
+  surfaceTilt: number,
+  surfaceAzimuth: number,
+  albedo: number = DEFAULT_ALBEDO
+): PlaneOfArrayIrradiance {
+  const cosZenith = Math.cos(sun.zenith * DEG_TO_RAD);
+  const cosTilt = Math.cos(surfaceTilt * DEG_TO_RAD);
+  const cosAoi = calculateCosAngleOfIncidence(
+    sun.zenith,
+    sun.azimuth,
+    surfaceTilt,
+    surfaceAzimuth
+  );
+  const angleOfIncidence = Math.acos(Math.max(-1, Math.min(1, cosAoi))) * RAD_TO_DEG;
+
+  const sunUp = cosZenith > 0;
+  const beam = sunUp ? dni * Math.max(cosAoi, 0) : 0;
+
+  const anisotropyIndex = sunUp ? Math.min(1, dni / sun.extraterrestrialIrradiance) : 0;
+  const beamRatio = sunUp ? Math.max(cosAoi, 0) / Math.max(cosZenith, MIN_COS_ZENITH) : 0;
+  const skyDiffuse =
+    dhi * (anisotropyIndex * beamRatio + (1 - anisotropyIndex) * ((1 + cosTilt) / 2));
+
+  const groundReflected = ghi * albedo * ((1 - cosTilt) / 2);
+
+  return {
+    global: Math.max(0, beam + skyDiffuse + groundReflected),
+    beam: Math.max(0, beam),
+    skyDiffuse: Math.max(0, skyDiffuse),
+    groundReflected: Math.max(0, groundReflected),
+    angleOfIncidence
+  };
+}
+
+/**
+ * Horizontal irradiance components for one hour
+ */
+export interface IrradianceComponents {
+  ghi: number; // W/m²
+  dni: number; // W/m²
+  dhi: number; // W/m²
+}
+
+/**
+ * Resolve GHI, DNI and DHI for one hour of weather data
+ *
+ * Missing DNI/DHI are derived from the horizontal beam, or failing that GHI
+ * is decomposed with the Erbs model.
+ *
+ * @param hour - Hourly weather record
+ * @param sun - Solar position for the hour (see solarPosition.ts)
+ * @returns Irradiance components, or null when no irradiance is available
+ */
+export function resolveIrradianceComponents(
+  hour: HourlyWeatherData,
+  sun: SunAngles
+): IrradianceComponents | null {
+  const ghi = hour.solarIrradiance;
+  if (ghi === undefined || ghi <= 0) {
+    return null;
+  }
+
+  let dni = hour.directNormalIrradiance;
+  let dhi = hour.diffuseRadiation;
+
+  // Recover missing components from the horizontal beam where possible
+  if (hour.directRadiation !== undefined) {
+    const cosZenith = Math.max(Math.cos(sun.zenith * DEG_TO_RAD), MIN_COS_ZENITH);
+    dni ??= hour.directRadiation / cosZenith;
+    dhi ??= Math.max(0, ghi - hour.directRadiation);
+  }
+
+  if (dni === undefined || dhi === undefined) {
+    ({ dni, dhi } = decomposeGlobalIrradiance(ghi, sun.zenith, sun.extraterrestrialIrradiance));
+  }
+
+  return { ghi, dni, dhi };
+}
+
+/**
+ * Calculate plane-of-array irradiance for one hour of weather data
+ *
+ * @param hour - Hourly weather record
+ * @param sun - Solar position for the hour (see solarPosition.ts)
+ * @param surfaceTilt - Surface tilt from horizontal in degrees
+ * @param surfaceAzimuth - Surface azimuth in degrees clockwise from north
+ * @param albedo - Ground reflectance (default 0.2)
+ * @returns Plane-of-array irradiance components, or null when no irradiance is available
+ */
+export function calculateHourlyPlaneOfArray(
+  hour: HourlyWeatherData,
+  sun: SunAngles,
+  surfaceTilt: number,
+  surfaceAzimuth: number,
+  albedo: number = DEFAULT_ALBEDO
+): PlaneOfArrayIrradiance | null {
+  const components = resolveIrradianceComponents(hour, sun);
+  if (!components) {
+    return null;
+  }
+
+  const { ghi, dni, dhi } = components;
+  return transposeToPlaneOfArray(ghi, dni, dhi, sun, surfaceTilt, surfaceAzimuth, albedo);
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData, PowerOutput, SolarAsset } from '@/types';
+import {
+  calculateLossWaterfall,
+  calculateTotalLossPercentage,
+  combineLossPercentages,
+  resolveLosses,
+  ResolvedLosses
+} from '@/lib/models/lossModel';
+
+const asset: SolarAsset = { type: 'solar', dcCapacity: 100, tilt: 30, azimuth: 180 };
+
+describe('combineLossPercentages', () => {
+  it('combines losses multiplicatively', () => {
+    // 1 - 0.9 × 0.9 = 19%, not 20%
+    expect(combineLossPercentages([10, 10])).toBeCloseTo(19, 12);
+    expect(combineLossPercentages([])).toBe(0);
+    expect(combineLossPercentages([100, 5])).toBe(100);
+  });
+});
+
+describe('resolveLosses', () => {
+  it('gives the PVWatts breakdown of 14.08% by default', () => {
+    const losses = resolveLosses(asset);
+
+    expect(losses.availability).toBe(3);
+    expect(losses.dc.map((c) => c.label)).toEqual([
+      'Soiling',
+      'Shading',
+      'Snow',
+      'Mismatch',
+      'Wiring',
+      'Connections',
+      'Light-induced degradation',
+      'Nameplate rating'
+    ]);
+    expect(calculateTotalLossPercentage(losses)).toBeCloseTo(14.08, 2);
+  });
+
+  it('falls back to the lumped systemLosses of older assets', () => {
+    const losses = resolveLosses({ ...asset, systemLosses: 12 });
+
+    expect(losses).toEqual({ dc: [{ label: 'System losses', percent: 12 }], availability: 0 });
+    expect(calculateTotalLossPercentage(losses)).toBeCloseTo(12, 12);
+  });
+
+  it('prefers itemized losses over systemLosses and fills in the defaults', () => {
+    const losses = resolveLosses({ ...asset, systemLosses: 12, losses: { soiling: 5, availability: 0 } });
+
+    expect(losses.dc.find((c) => c.label === 'Soiling')?.percent).toBe(5);
+    expect(losses.dc.find((c) => c.label === 'Wiring')?.percent).toBe(2);
+    expect(losses.availability).toBe(0);
+  });
+
+  it('drops the static shading default for a horizon profile but keeps an explicit value', () => {
+    const horizon = [{ azimuth: 180, elevation: 5 }];
+
+    expect(resolveLosses({ ...asset, horizon }).dc.find((c) => c.label === 'Shading')?.percent).toBe(0);
+    expect(
+      resolveLosses({ ...asset, horizon, losses: { shading: 1 } }).dc.find((c) => c.label === 'Shading')?.percent
+    ).toBe(1);
+  });
+
+  it('leaves out soiling and snow only when they are simulated from the weather', () => {
+    const weather: HourlyWeatherData[] = [{ time: '2024-01-01T00:00', precipitation: 0, snowfall: 0 }];
+    const optedIn: SolarAsset = { ...asset, soiling: { model: 'kimber' }, snow: { model: 'marion' } };
+    const labels = (losses: ResolvedLosses) => losses.dc.map((c) => c.label);
+
+    expect(labels(resolveLosses(optedIn, weather))).not.toContain('Soiling');
+    expect(labels(resolveLosses(optedIn, weather))).not.toContain('Snow');
+    expect(labels(resolveLosses(optedIn))).toContain('Soiling');
+    expect(labels(resolveLosses(asset, weather))).toContain('Snow');
+  });
+});
+
+describe('calculateLossWaterfall', () => {
+  // Two DC losses of 10% (0.81 derate) and 5% availability
+  const losses: ResolvedLosses = {
+    dc: [
+      { label: 'Wiring', percent: 10 },
+      { label: 'Mismatch', percent: 10 }
+    ],
+    availability: 5
+  };
+
+  // 1000 kWh nominal, 900 after temperature, 729 DC, 700 AC before
+  // clipping of which 20 clipped, 680 before availability, 646 delivered
+  const hour: PowerOutput = {
+    time: '2024-06-01T12:00',
+    power: 646,
+    nominalPower: 1000,
+    dcPower: 729,
+    acPower: 646,
+    clippedEnergy: 20
+  };
+
+  it('steps from nominal to delivered energy in order', () => {
+    const steps = calculateLossWaterfall([hour], losses);
+
+    expect(steps.map((s) => s.label)).toEqual([
+      'Nominal (POA irradiance)',
+      'Module temperature',
+      'Wiring',
+      'Mismatch',
+      'Inverter efficiency',
+      'Inverter clipping',
+      'Availability'
+    ]);
+    const expected = [1000, 900, 810, 729, 700, 680, 646];
+    steps.forEach((step, i) => expect(step.energy).toBeCloseTo(expected[i], 9));
+    expect(steps[2].lossPercent).toBeCloseTo(10, 9);
+    expect(steps[6].loss).toBeCloseTo(34, 9);
+  });
+
+  it('puts simulated soiling and snow first and scales every step', () => {
+    // 10% soiling, then 50% snow cover of what is left
+    const soiled: PowerOutput = {
+      ...hour,
+      soilingLoss: 0.1,
+      snowLoss: 0.5,
+      dcPower: 364.5,
+      acPower: 323,
+      power: 323,
+      clippedEnergy: 0
+    };
+    const steps = calculateLossWaterfall([soiled], losses, 2);
+
+    expect(steps.slice(0, 4).map((s) => s.label)).toEqual([
+      'Nominal (POA irradiance)',
+      'Soiling',
+      'Snow',
+      'Module temperature'
+    ]);
+    expect(steps[1].loss).toBeCloseTo(200, 9);
+    expect(steps[2].loss).toBeCloseTo(900, 9);
+    expect(steps[3].energy).toBeCloseTo(900, 9);
+    expect(steps[steps.length - 1].energy).toBeCloseTo(646, 9);
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  HourlyWeatherData,
+  LossWaterfallStep,
+  PowerOutput,
+  PVLossFactors,
+  SolarAsset
+} from '@/types';
+import { getHourlyRainfall } from '@/lib/models/soilingModel';
+import { hasShadingProfile } from '@/lib/models/horizonModel';
+
+/**
+ * PV System Loss Model
+ *
+ * This module resolves the itemized loss tree of a solar asset and breaks the
+ * simulated energy down into a loss waterfall, from the nominal output at
+ * plane-of-array irradiance to the delivered AC energy.
+ *
+ * Individual losses combine multiplicatively, as in PVWatts:
+ * L_total = 100 × [1 - Π(1 - L_i / 100)]
+ *
+ * Soiling and snow can instead be simulated hour by hour from the weather
+ * data when the asset opts in (see soilingModel.ts and snowModel.ts),
+ * replacing their static percentages. A horizon profile or near-shading obstacles block the beam
+ * hour by hour (see horizonModel.ts), so the static shading loss then
+ * defaults to 0.
+ *
+ * References:
+ * - Dobos, A. P. (2014). PVWatts Version 5 Manual (NREL/TP-6A20-62641), Section 3.3
+ */
+
+/** PVWatts default loss breakdown (percent), 14.08% combined */
+export const DEFAULT_LOSS_FACTORS: Required<PVLossFactors> = {
+  soiling: 2,
+  shading: 3,
+  snow: 0,
+  mismatch: 2,
+  wiring: 2,
+  connections: 0.5,
+  lightInducedDegradation: 1.5,
+  nameplateRating: 1,
+  availability: 3
+};
+
+/** Display names for each loss category */
+export const LOSS_LABELS: Record<keyof PVLossFactors, string> = {
+  soiling: 'Soiling',
+  shading: 'Shading',
+  snow: 'Snow',
+  mismatch: 'Mismatch',
+  wiring: 'Wiring',
+  connections: 'Connections',
+  lightInducedDegradation: 'Light-induced degradation',
+  nameplateRating: 'Nameplate rating',
+  availability: 'Availability'
+};
+
+/**
+ * A single loss applied to the array DC output
+ */
+export interface LossComponent {
+  label: string;
+  percent: number;
+}
+
+/**
+ * Losses of a solar asset split by where they apply
+ */
+export interface ResolvedLosses {
+  dc: LossComponent[]; // applied in order to the temperature-corrected DC output
+  availability: number; // percent, applied to the AC output
+}
+
+/**
+ * Default loss breakdown for an asset
+ *
+ * @param asset - Solar asset configuration (horizon and obstacles)
+ * @returns PVWatts defaults, with no static shading when a horizon profile or obstacles are given
+ */
+export function getDefaultLossFactors(
+  asset: Pick<SolarAsset, 'horizon' | 'obstacles'>
+): Required<PVLossFactors> {
+  return hasShadingProfile(asset)
+    ? { ...DEFAULT_LOSS_FACTORS, shading: 0 }
+    : DEFAULT_LOSS_FACTORS;
+}
+
+/**
+ * Whether an asset uses the itemized loss tree rather than the lumped
+ * systemLosses percentage
+ *
+ * @param asset - Solar asset configuration
+ * @returns True for itemized losses
+ */
+export function usesItemizedLosses(asset: SolarAsset): boolean {
+  return Boolean(asset.losses) || asset.systemLosses === undefined;
+}
+
+/**
+ * Whether soiling is simulated from the rain in the weather data
+ *
+ * The Kimber model applies only when the asset selects it, so assets saved
+ * without soiling settings keep their static percentage. It falls back to
+ * the static percentage when the weather data carries no precipitation.
+ *
+ * @param asset - Solar asset configuration
+ * @param weatherData - Hourly weather data of the simulation
+ * @returns True when the hourly soiling model applies
+ */
+export function usesWeatherDrivenSoiling(
+  asset: SolarAsset,
+  weatherData: HourlyWeatherData[]
+): boolean {
+  return asset.soiling?.model === 'kimber' && weatherData.some((hour) => getHourlyRainfall(hour) !== undefined);
+}
+
+/**
+ * Whether snow cover is simulated from the snowfall in the weather data
+ *
+ * The Marion model applies only when the asset selects it, so assets saved
+ * without snow settings keep their static percentage. It falls back to the
+ * static percentage when the weather data carries no snowfall.
+ *
+ * @param asset - Solar asset configuration
+ * @param weatherData - Hourly weather data of the simulation
+ * @returns True when the hourly snow model applies
+ */
+export function usesWeatherDrivenSnow(
+  asset: SolarAsset,
+  weatherData: HourlyWeatherData[]
+): boolean {
+  return asset.snow?.model === 'marion' && weatherData.some((hour) => hour.snowfall !== undefined);
+}
+
+/**
+ * Resolve the losses of a solar asset
+ *
+ * Itemized `losses` take precedence and are completed with the PVWatts
+ * defaults (see getDefaultLossFactors). An asset that only carries the lumped `systemLosses` percentage
+ * is modelled as a single DC loss with no availability loss. Given the
+ * weather data, the static soiling and snow losses are left out when they
+ * are simulated hour by hour.
+ *
+ * @param asset - Solar asset configuration
+ * @param weatherData - Hourly weather data of the simulation (default none, all losses static)
+ * @returns DC loss components and AC availability loss
+ */
+export function resolveLosses(
+  asset: SolarAsset,
+  weatherData: HourlyWeatherData[] = []
+): ResolvedLosses {
+  if (!usesItemizedLosses(asset)) {
+    return {
+      dc: [{ label: 'System losses', percent: asset.systemLosses ?? 0 }],
+      availability: 0
+    };
+  }
+
+  const weatherDriven: (keyof PVLossFactors)[] = [];
+  if (usesWeatherDrivenSoiling(asset, weatherData)) weatherDriven.push('soiling');
+  if (usesWeatherDrivenSnow(asset, weatherData)) weatherDriven.push('snow');
+
+  const factors = { ...getDefaultLossFactors(asset), ...asset.losses };
+  const dc = (Object.keys(LOSS_LABELS) as (keyof PVLossFactors)[])
+    .filter((key) => key !== 'availability' && !weatherDriven.includes(key))
+    .map((key) => ({ label: LOSS_LABELS[key], percent: factors[key] }));
+
+  return { dc, availability: factors.availability };
+}
+
+/**
+ * Combine individual loss percentages multiplicatively
+ *
+ * @param percents - Loss percentages (0-100)
+ * @returns Combined loss percentage
+ */
+export function combineLossPercentages(percents: number[]): number {
+  const derate = percents.reduce((product, percent) => product * (1 - percent / 100), 1);
+  return (1 - derate) * 100;
+}
+
+/**
+ * Combined DC and availability loss of a resolved loss tree
+ *
+ * @param losses - Resolved losses
+ * @returns Total loss percentage
+ */
+export function calculateTotalLossPercentage(losses: ResolvedLosses): number {
+  return combineLossPercentages([...losses.dc.map((c) => c.percent), losses.availability]);
+}
+
+/**
+ * Break simulated solar output down into a loss waterfall
+ *
+ * Steps, in order: nominal output at plane-of-array irradiance, hourly
+ * soiling and snow (when simulated), module temperature, each DC loss,
+ * inverter efficiency, inverter clipping and availability. The energy of each step is rebuilt from the hourly totals,
+ * so the final step equals the summed AC output.
+ *
+ * @param outputs - Hourly solar outputs from generateSolarForecast
+ * @param losses - Losses used for the simulation
+ * @param scale - Factor applied to all energies, e.g. 8760 / hours to annualise (default 1)
+ * @returns Waterfall steps in kWh (per year when annualised)
+ */
+export function calculateLossWaterfall(
+  outputs: PowerOutput[],
+  losses: ResolvedLosses,
+  scale: number = 1
+): LossWaterfallStep[] {
+  const availabilityFactor = 1 - losses.availability / 100;
+  const dcDerate = 1 - combineLossPercentages(losses.dc.map((c) => c.percent)) / 100;
+
+  let nominal = 0;
+  let soilingLoss = 0;
+  let snowLoss = 0;
+  let dcOutput = 0;
+  let clipped = 0;
+  let acOutput = 0;
+  let acBeforeAvailability = 0;
+
+  outputs.forEach((output) => {
+    const ac = output.acPower ?? output.power;
+    const nominalPower = output.nominalPower ?? 0;
+    const soiled = nominalPower * (output.soilingLoss ?? 0);
+    nominal += nominalPower;
+    soilingLoss += soiled;
+    snowLoss += (nominalPower - soiled) * (output.snowLoss ?? 0);
+    dcOutput += output.dcPower ?? 0;
+    clipped += output.clippedEnergy ?? 0;
+    acOutput += ac;
+    acBeforeAvailability += ac > 0 && availabilityFactor > 0 ? ac / availabilityFactor : ac;
+  });
+
+  const steps: LossWaterfallStep[] = [];
+  let energy = nominal * scale;
+  steps.push({ label: 'Nominal (POA irradiance)', loss: 0, lossPercent: 0, energy });
+
+  const addStep = (label: string, loss: number) => {
+    const lossPercent = energy !== 0 ? (loss / energy) * 100 : 0;
+    energy -= loss;
+    steps.push({ label, loss, lossPercent, energy });
+  };
+
+  if (outputs.some((output) => output.soilingLoss !== undefined)) {
+    addStep(LOSS_LABELS.soiling, soilingLoss * scale);
+  }
+  if (outputs.some((output) => output.snowLoss !== undefined)) {
+    addStep(LOSS_LABELS.snow, snowLoss * scale);
+  }
+
+  const beforeDcLosses = dcDerate > 0 ? (dcOutput / dcDerate) * scale : energy;
+  addStep('Module temperature', energy - beforeDcLosses);
+
+  losses.dc.forEach((component) => {
+    addStep(component.label, energy * (component.percent / 100));
+  });
+
+  addStep('Inverter efficiency', energy - (acBeforeAvailability + clipped) * scale);
+  addStep('Inverter clipping', clipped * scale);
+  addStep('Availability', energy - acOutput * scale);
+
+  return steps;
+}
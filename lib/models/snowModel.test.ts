@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData } from '@/types';
+import { calculateSnowLoss, updateSnowCoverage } from '@/lib/models/snowModel';
+
+function hour(fields: Partial<HourlyWeatherData>): HourlyWeatherData {
+  return { time: '2024-01-10T12:00', snowDepth: 0.3, ...fields };
+}
+
+describe('updateSnowCoverage', () => {
+  it('slides the snow off by k × sin β per hour after a snowfall (Marion et al. 2013)', () => {
+    const weather = [
+      hour({ snowfall: 1, temperature: 10 }),
+      hour({ snowfall: 1, temperature: 10 }),
+      hour({ snowfall: 0.5, temperature: 10 }),
+      hour({ snowfall: 0, temperature: 10 }),
+      hour({ snowfall: 0, temperature: 10 }),
+      hour({ snowfall: 0, temperature: 10 })
+    ];
+
+    let coverage = 0;
+    const series = weather.map((h) => (coverage = updateSnowCoverage(coverage, h, 400, 45)));
+
+    // k × sin 45° = 0.197 × 0.7071 = 0.1393
+    const expected = [1, 1, 0.8607, 0.7214, 0.5821, 0.4428];
+    series.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 4));
+  });
+
+  it('slides only when the air is warm enough for the irradiance', () => {
+    // T_a > G_POA / -80: -3 °C slides at 400 W/m², -10 °C does not
+    expect(updateSnowCoverage(1, hour({ temperature: -3 }), 400, 45)).toBeLessThan(1);
+    expect(updateSnowCoverage(1, hour({ temperature: -10 }), 400, 45)).toBe(1);
+  });
+
+  it('clears the array once the ground snow has melted', () => {
+    expect(updateSnowCoverage(0.8, hour({ snowDepth: 0.005, temperature: -10 }), 0, 30)).toBe(0);
+  });
+});
+
+describe('calculateSnowLoss', () => {
+  it('loses every string that carries any snow', () => {
+    expect(calculateSnowLoss(0.3)).toBe(1);
+    expect(calculateSnowLoss(0.3, 4)).toBe(0.5);
+    expect(calculateSnowLoss(0.5, 2)).toBe(0.5);
+    expect(calculateSnowLoss(0, 4)).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData } from '@/types';
+import { calculateSoilingLosses } from '@/lib/models/soilingModel';
+
+function series(days: number, rainAt: Record<number, number> = {}): HourlyWeatherData[] {
+  return Array.from({ length: days * 24 }, (_, i) => ({
+    time: new Date(Date.UTC(2024, 5, 1) + i * 3600000).toISOString().slice(0, 16),
+    rain: rainAt[i] ?? 0
+  }));
+}
+
+describe('calculateSoilingLosses', () => {
+  it('accumulates the daily rate on dry days', () => {
+    const losses = calculateSoilingLosses(series(10));
+
+    // 0.15%/day over the 239 hourly steps after the first hour
+    expect(losses[0]).toBe(0);
+    expect(losses[239]).toBeCloseTo((0.0015 / 24) * 239, 9);
+  });
+
+  it('washes the modules and holds them clean for the grace period', () => {
+    const losses = calculateSoilingLosses(series(20, { 0: 7 }), { initialSoiling: 5 });
+
+    // The rain stays in the 24-hour window until hour 23; the 14-day grace
+    // period runs from there, then soiling resumes at 0.15%/day
+    const lastWash = 23;
+    expect(losses[0]).toBe(0);
+    expect(losses[lastWash + 14 * 24 - 1]).toBe(0);
+    expect(losses[lastWash + 14 * 24 + 23]).toBeCloseTo((0.0015 / 24) * 24, 9);
+  });
+
+  it('ignores rain below the cleaning threshold', () => {
+    const losses = calculateSoilingLosses(series(2, { 10: 3, 20: 2 }), { initialSoiling: 2 });
+
+    expect(losses[47]).toBeCloseTo(0.02 + (0.0015 / 24) * 47, 9);
+  });
+
+  it('stops at the soiling limit', () => {
+    const losses = calculateSoilingLosses(series(30), { rate: 1, maxSoiling: 10 });
+
+    expect(losses[losses.length - 1]).toBe(0.1);
+  });
+});
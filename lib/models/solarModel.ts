@@ -1,4 +1,33 @@
-import { SolarAsset, HourlyWeatherData, PowerOutput } from '@/types';
+import { SolarAsset, HourlyWeatherData, PowerOutput, Location } from '@/types';
+import {
+  DEFAULT_ALBEDO,
+  resolveIrradianceComponents,
+  transposeToPlaneOfArray
+} from '@/lib/models/irradianceModel';
+import {
+  calculateGroundAlbedo,
+  calculateRearIrradiance,
+  resolveRowGeometry
+} from '@/lib/models/bifacialModel';
+import {
+  blockBeamIrradiance,
+  hasShadingProfile,
+  isBeamBlocked
+} from '@/lib/models/horizonModel';
+import { calculateHourlySolarPosition } from '@/lib/models/solarPosition';
+import { calculateSurfaceOrientation } from '@/lib/models/trackerModel';
+import { calculateInverterOutput, resolveInverter } from '@/lib/models/inverterModel';
+import { calculateCellTemperature } from '@/lib/models/cellTemperatureModel';
+import {
+  calculateTotalLossPercentage,
+  combineLossPercentages,
+  DEFAULT_LOSS_FACTORS,
+  resolveLosses,
+  usesWeatherDrivenSnow,
+  usesWeatherDrivenSoiling
+} from '@/lib/models/lossModel';
+import { calculateSoilingLosses } from '@/lib/models/soilingModel';
+import { calculateSnowLoss, updateSnowCoverage } from '@/lib/models/snowModel';
 
 /**
  * Solar Power Generation Model
@@ -13,11 +42,29 @@ import { SolarAsset, HourlyWeatherData, PowerOutput } from '@/types';
  */
 
 /**
- * Calculate solar power output using the simplified PVWatts model
+ * Weather fields read by the solar model: irradiance components for the
+ * transposition, temperature and wind for the cell temperature, and
+ * precipitation and snow for the soiling and snow losses
+ */
+export const SOLAR_WEATHER_VARIABLES: (keyof HourlyWeatherData)[] = [
+  'solarIrradiance',
+  'directRadiation',
+  'diffuseRadiation',
+  'directNormalIrradiance',
+  'temperature',
+  'windSpeed',
+  'precipitation',
+  'rain',
+  'snowfall',
+  'snowDepth'
+];
+
+/**
+ * Calculate solar DC power output using the simplified PVWatts model
  * 
  * Formula: P = (G / G_STC) × P_DC × η_system
  * Where:
- * - P = AC power output (kW)
+ * - P = DC power output after system losses (kW)
  * - G = Solar irradiance (W/m²)
  * - G_STC = Standard Test Condition irradiance (1000 W/m²)
  * - P_DC = DC capacity of the system (kW)
@@ -25,8 +72,8 @@ import { SolarAsset, HourlyWeatherData, PowerOutput } from '@/types';
  * 
  * @param irradiance - Solar irradiance in W/m²
  * @param dcCapacity - DC capacity of the solar system in kW
- * @param systemLosses - System losses as a percentage (default 14%)
- * @returns Power output in kW
+ * @param systemLosses - Combined DC losses as a percentage (default 14%)
+ * @returns DC power output in kW
  */
 export function calculateSolarPower(
   irradiance: number,
@@ -49,30 +96,21 @@ export function calculateSolarPower(
  * PV modules lose efficiency as temperature increases.
  * Formula: P_adjusted = P × [1 + γ × (T_cell - T_STC)]
  * Where:
- * - γ = Temperature coefficient (typically -0.004 to -0.005 per °C)
- * - T_cell = Cell temperature (°C)
+ * - γ = Temperature coefficient (typically -0.003 to -0.005 per °C)
+ * - T_cell = Cell temperature (°C), see cellTemperatureModel.ts
  * - T_STC = Standard Test Condition temperature (25°C)
  * 
- * Cell temperature estimation: T_cell ≈ T_ambient + (NOCT - 20) × (G / 800)
- * Where NOCT = Nominal Operating Cell Temperature (typically 45°C)
- * 
  * @param basePower - Base power output in kW
- * @param ambientTemp - Ambient temperature in °C
- * @param irradiance - Solar irradiance in W/m²
+ * @param cellTemp - Cell temperature in °C
  * @param tempCoefficient - Temperature coefficient (default -0.004)
  * @returns Temperature-adjusted power output in kW
  */
 export function applyTemperatureCorrection(
   basePower: number,
-  ambientTemp: number,
-  irradiance: number,
+  cellTemp: number,
   tempCoefficient: number = -0.004
 ): number {
   const T_STC = 25; // Standard Test Condition temperature (°C)
-  const NOCT = 45; // Nominal Operating Cell Temperature (°C)
-  
-  // Estimate cell temperature
-  const cellTemp = ambientTemp + ((NOCT - 20) * (irradiance / 800));
   
   // Apply temperature correction
   const tempFactor = 1 + tempCoefficient * (cellTemp - T_STC);
@@ -85,6 +123,8 @@ export function applyTemperatureCorrection(
  * 
  * Cloud cover reduces the direct normal irradiance (DNI) component.
  * This is a simplified model that reduces irradiance based on cloud cover.
+ * Only for clear-sky irradiance: the all-sky irradiance of the weather
+ * providers already includes clouds.
  * 
  * @param irradiance - Clear-sky irradiance in W/m²
  * @param cloudCover - Cloud cover percentage (0-100)
@@ -103,54 +143,218 @@ export function adjustIrradianceForClouds(
 /**
  * Generate solar power forecast from weather data
  * 
+ * Horizontal irradiance is first transposed onto the array plane. The plane
+ * follows the asset's mounting: fixed tilt/azimuth (horizontal when tilt is
+ * missing), or the hourly orientation of a single- or dual-axis tracker
+ * (see trackerModel.ts). Array DC power is then converted to AC through the
+ * inverter model, which clips at the AC nameplate when the asset has an
+ * inverter (see inverterModel.ts).
+ * Bifacial modules add the rear-side irradiance, weighted by their
+ * bifaciality, to the front (see bifacialModel.ts); snow on the ground
+ * raises the albedo seen by both faces. Cell temperature follows the asset's thermal model and wind speed
+ * (see cellTemperatureModel.ts). The asset's itemized losses are applied
+ * to the DC output, except availability which derates the AC output
+ * (see lossModel.ts). Soiling and snow cover are simulated hour by hour
+ * from rain and snowfall when the asset selects those models and the
+ * weather data carries them (see soilingModel.ts and snowModel.ts), so the
+ * series must be consecutive.
+ * A horizon profile or nearby obstacles block the beam while the sun is
+ * behind them (see horizonModel.ts).
+ * 
  * @param asset - Solar asset configuration
  * @param weatherData - Array of hourly weather data
+ * @param location - Site coordinates, used for sun geometry
  * @returns Array of power outputs
  */
 export function generateSolarForecast(
   asset: SolarAsset,
-  weatherData: HourlyWeatherData[]
+  weatherData: HourlyWeatherData[],
+  location: Location
 ): PowerOutput[] {
-  return weatherData.map((hour) => {
-    let power = 0;
+  const baseAlbedo = asset.albedo ?? DEFAULT_ALBEDO;
+  const bifaciality = asset.bifaciality ?? 0;
+  const rowGeometry = resolveRowGeometry(asset);
+  const shaded = hasShadingProfile(asset);
+  const inverter = resolveInverter(asset);
+  const losses = resolveLosses(asset, weatherData);
+  const dcLossPercent = combineLossPercentages(losses.dc.map((c) => c.percent));
+  const availabilityFactor = 1 - losses.availability / 100;
+  
+  // Weather-driven soiling starts from the static soiling level
+  const soilingLosses = usesWeatherDrivenSoiling(asset, weatherData)
+    ? calculateSoilingLosses(weatherData, {
+        initialSoiling: asset.losses?.soiling ?? DEFAULT_LOSS_FACTORS.soiling,
+        ...asset.soiling
+      })
+    : null;
+  const simulateSnow = usesWeatherDrivenSnow(asset, weatherData);
+  let snowCoverage = 0;
+
+  return weatherData.map((hour, index) => {
+    let dcPower = 0;
+    let nominalPower = 0;
+    let cellTemperature: number | undefined;
+    let rearIrradiance: number | undefined;
+    let frontPower = 0;
+    let rearPower: number | undefined;
+    
+    const sun = calculateHourlySolarPosition(hour, location);
+    const surface = calculateSurfaceOrientation(asset, sun);
+    const albedo = calculateGroundAlbedo(hour, baseAlbedo, asset.snowAlbedo);
+    
+    // The horizon and nearby obstacles block the beam but not the diffuse
+    const beamBlocked = shaded && sun.zenith < 90 ? isBeamBlocked(asset, sun) : undefined;
+    const unshadedComponents = resolveIrradianceComponents(hour, sun);
+    const components = unshadedComponents && beamBlocked
+      ? blockBeamIrradiance(unshadedComponents)
+      : unshadedComponents;
+    const poa = components
+      ? transposeToPlaneOfArray(
+          components.ghi,
+          components.dni,
+          components.dhi,
+          sun,
+          surface.tilt,
+          surface.azimuth,
+          albedo
+        )
+      : null;
+    
+    const soilingLoss = soilingLosses ? soilingLosses[index] : undefined;
+    let snowLoss: number | undefined;
+    if (simulateSnow) {
+      snowCoverage = updateSnowCoverage(
+        snowCoverage,
+        hour,
+        poa?.global ?? 0,
+        surface.tilt,
+        asset.snow
+      );
+      snowLoss = calculateSnowLoss(snowCoverage, asset.snow?.stringRows);
+    }
     
-    if (hour.solarIrradiance !== undefined && hour.solarIrradiance > 0) {
-      // Adjust irradiance for cloud cover if available
-      let adjustedIrradiance = hour.solarIrradiance;
-      if (hour.cloudCover !== undefined) {
-        adjustedIrradiance = adjustIrradianceForClouds(
-          hour.solarIrradiance,
-          hour.cloudCover
+    if (components && poa && poa.global > 0) {
+      // All-sky GHI, DNI and DHI already carry the effect of clouds
+      const frontIrradiance = poa.global;
+      if (bifaciality > 0) {
+        rearIrradiance = calculateRearIrradiance(
+          components,
+          sun,
+          surface.tilt,
+          surface.azimuth,
+          albedo,
+          rowGeometry
         );
       }
       
-      // Calculate base power
-      power = calculateSolarPower(
-        adjustedIrradiance,
+      // Effective irradiance: rear side weighted by bifaciality
+      const adjustedIrradiance = frontIrradiance + bifaciality * (rearIrradiance ?? 0);
+      
+      // Nominal output before temperature and losses, for the loss waterfall
+      nominalPower = calculateSolarPower(adjustedIrradiance, asset.dcCapacity, 0);
+      
+      // Irradiance reaching the cells through soiling and snow
+      const effectiveIrradiance =
+        adjustedIrradiance * (1 - (soilingLoss ?? 0)) * (1 - (snowLoss ?? 0));
+      
+      // Calculate base DC power
+      dcPower = calculateSolarPower(
+        effectiveIrradiance,
         asset.dcCapacity,
-        asset.systemLosses
+        dcLossPercent
       );
       
       // Apply temperature correction if temperature data is available
       if (hour.temperature !== undefined) {
-        power = applyTemperatureCorrection(
-          power,
+        cellTemperature = calculateCellTemperature(
+          effectiveIrradiance,
           hour.temperature,
-          adjustedIrradiance
+          hour.windSpeed,
+          asset.cellTemperature
+        );
+        dcPower = applyTemperatureCorrection(
+          dcPower,
+          cellTemperature,
+          asset.temperatureCoefficient
         );
       }
+      
+      // Split DC output between the faces in proportion to their irradiance
+      dcPower = Math.max(0, dcPower);
+      frontPower = adjustedIrradiance > 0 ? dcPower * (frontIrradiance / adjustedIrradiance) : 0;
+      if (bifaciality > 0) {
+        rearPower = dcPower - frontPower;
+      }
+    } else if (hour.temperature !== undefined) {
+      // Unlit cells sit at ambient temperature
+      cellTemperature = hour.temperature;
     }
     
-    const capacity = asset.dcCapacity > 0 ? (power / asset.dcCapacity) * 100 : 0;
+    dcPower = Math.max(0, dcPower);
+    const inverterOutput = calculateInverterOutput(dcPower, inverter);
+    
+    // Downtime reduces delivered energy but not the night tare
+    const acPower = inverterOutput.acPower > 0
+      ? inverterOutput.acPower * availabilityFactor
+      : inverterOutput.acPower;
+    
+    const capacity = asset.dcCapacity > 0 ? (acPower / asset.dcCapacity) * 100 : 0;
     
     return {
       time: hour.time,
-      power: Math.max(0, power),
-      capacity: Math.min(100, Math.max(0, capacity))
+      power: acPower,
+      capacity: Math.min(100, Math.max(0, capacity)),
+      poa: poa ?? undefined,
+      trackerRotation: surface.rotation,
+      dcPower,
+      acPower,
+      clippedEnergy: inverterOutput.clippedPower,
+      nominalPower,
+      cellTemperature,
+      rearIrradiance,
+      frontPower,
+      rearPower,
+      soilingLoss,
+      snowLoss,
+      beamBlocked
     };
   });
 }
 
+/**
+ * Average hourly power output by calendar month
+ * Used to turn an hourly simulation over historical weather into monthly
+ * production figures for long-term analysis
+ * 
+ * @param outputs - Hourly power outputs (time in "YYYY-MM-DDTHH:MM" form)
+ * @returns Mean power per hour for each month (1-12), 0 for months without data
+ */
+export function calculateMonthlyAveragePower(
+  outputs: PowerOutput[]
+): Record<number, number> {
+  const totals: Record<number, { sum: number; count: number }> = {};
+  for (let month = 1; month <= 12; month++) {
+    totals[month] = { sum: 0, count: 0 };
+  }
+  
+  outputs.forEach((output) => {
+    const month = parseInt(output.time.slice(5, 7), 10);
+    if (totals[month]) {
+      totals[month].sum += output.power;
+      totals[month].count++;
+    }
+  });
+  
+  const averages: Record<number, number> = {};
+  for (let month = 1; month <= 12; month++) {
+    averages[month] = totals[month].count > 0
+      ? totals[month].sum / totals[month].count
+      : 0;
+  }
+  
+  return averages;
+}
+
 /**
  * Calculate average daily solar production for a given month
  * Used for long-term viability analysis
@@ -170,7 +374,7 @@ export function calculateMonthlyAverageSolarProduction(
   const averagePower = calculateSolarPower(
     averageIrradiance,
     asset.dcCapacity,
-    asset.systemLosses
+    calculateTotalLossPercentage(resolveLosses(asset))
   );
   
   // Daily production (kWh/day)
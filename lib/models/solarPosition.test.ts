@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData } from '@/types';
+import {
+  calculateHourlySolarPosition,
+  calculateSolarPosition,
+  calculateSunriseSunset,
+  toUtcTimestamp
+} from '@/lib/models/solarPosition';
+
+// Worked example of Reda & Andreas (2004), NREL/TP-560-34302, Table A4.1:
+// Golden, Colorado, 17 October 2003 12:30:30 MST (UTC-7)
+const GOLDEN = { latitude: 39.742476, longitude: -105.1786 };
+const SPA_INSTANT = Date.UTC(2003, 9, 17, 19, 30, 30);
+
+describe('calculateSolarPosition', () => {
+  it('matches the NREL SPA worked example', () => {
+    const sun = calculateSolarPosition(SPA_INSTANT, GOLDEN);
+
+    expect(sun.zenith).toBeCloseTo(50.11162, 1);
+    expect(sun.azimuth).toBeCloseTo(194.34024, 1);
+    expect(sun.declination).toBeCloseTo(-9.31434, 2);
+    expect(sun.equationOfTime).toBeCloseTo(14.641503, 1);
+    expect(sun.hourAngle).toBeCloseTo(11.1059, 1);
+  });
+
+  it('scales the extraterrestrial irradiance with the Earth-Sun distance', () => {
+    const perihelion = calculateSolarPosition(Date.UTC(2003, 0, 3, 12), GOLDEN);
+    const aphelion = calculateSolarPosition(Date.UTC(2003, 6, 4, 12), GOLDEN);
+
+    // 1361 W/m² at 0.9833 AU and 1.0167 AU
+    expect(perihelion.extraterrestrialIrradiance).toBeCloseTo(1407.6, 0);
+    expect(aphelion.extraterrestrialIrradiance).toBeCloseTo(1316.7, 0);
+  });
+});
+
+describe('calculateSunriseSunset', () => {
+  it('matches the NREL SPA sunrise, transit and sunset within two minutes', () => {
+    const { sunrise, solarNoon, sunset } = calculateSunriseSunset('2003-10-17', GOLDEN);
+    const twoMinutes = 2 * 60000;
+
+    // 06:12:43, 11:46:04 and 17:20:19 MST
+    expect(Math.abs(sunrise! - Date.UTC(2003, 9, 17, 13, 12, 43))).toBeLessThan(twoMinutes);
+    expect(Math.abs(solarNoon - Date.UTC(2003, 9, 17, 18, 46, 4))).toBeLessThan(twoMinutes);
+    expect(Math.abs(sunset! - Date.UTC(2003, 9, 18, 0, 20, 19))).toBeLessThan(twoMinutes);
+  });
+
+  it('returns null during the polar night', () => {
+    const { sunrise, sunset } = calculateSunriseSunset('2003-12-21', { latitude: 78.22, longitude: 15.65 });
+
+    expect(sunrise).toBeNull();
+    expect(sunset).toBeNull();
+  });
+});
+
+describe('calculateHourlySolarPosition', () => {
+  it('evaluates the sun at the middle of the hour ending at the timestamp', () => {
+    const hour: HourlyWeatherData = { time: '2003-10-17T13:00', utcOffsetSeconds: -7 * 3600 };
+
+    const midpoint = toUtcTimestamp('2003-10-17T12:30', -7 * 3600);
+    expect(calculateHourlySolarPosition(hour, GOLDEN)).toEqual(calculateSolarPosition(midpoint, GOLDEN));
+  });
+});
+
+describe('toUtcTimestamp', () => {
+  it('applies the offset to local times and keeps explicit offsets', () => {
+    expect(toUtcTimestamp('2003-10-17T12:30', -7 * 3600)).toBe(Date.UTC(2003, 9, 17, 19, 30));
+    expect(toUtcTimestamp('2003-10-17T12:30Z', -7 * 3600)).toBe(Date.UTC(2003, 9, 17, 12, 30));
+  });
+});
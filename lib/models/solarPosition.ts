@@ -0,0 +1,348 @@
+import { HourlyWeatherData, Location, SolarPosition } from '@/types';
+
+/**
+ * Solar Position Model
+ *
+ * This module computes the position of the sun for a site and instant using
+ * the NOAA implementation of Meeus' astronomical algorithms. Accuracy is about
+ * 0.01° in zenith and azimuth for years 1900-2100, well inside the error
+ * budget of hourly irradiance models.
+ *
+ * References:
+ * - Meeus, J. (1998). Astronomical Algorithms, 2nd ed., Chapters 22, 25 and 28
+ * - NOAA Global Monitoring Laboratory Solar Calculator: https://gml.noaa.gov/grad/solcalc/
+ * - Reda, I., & Andreas, A. (2004). Solar Position Algorithm for Solar Radiation Applications (NREL/TP-560-34302)
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const MS_PER_DAY = 86400000;
+
+/** Solar constant (W/m²) */
+export const SOLAR_CONSTANT = 1361;
+
+/** Zenith angle of the sun's upper limb at sunrise/sunset, including standard refraction */
+const SUNRISE_ZENITH = 90.833;
+
+/**
+ * Intermediate astronomical quantities for one instant
+ */
+interface SolarEphemeris {
+  declination: number; // degrees
+  equationOfTime: number; // minutes
+  earthSunDistance: number; // AU
+}
+
+/**
+ * Convert an hourly timestamp to a UTC epoch in milliseconds
+ *
+ * Open-Meteo returns local wall-clock times without an offset when
+ * `timezone: "auto"` is used, together with the offset of that time zone.
+ * Timestamps that already carry a zone designator are parsed as-is.
+ *
+ * @param time - ISO-like timestamp (e.g. "2025-06-21T12:00")
+ * @param utcOffsetSeconds - Offset of the wall-clock time from UTC (default 0)
+ * @returns Milliseconds since the Unix epoch
+ */
+export function toUtcTimestamp(time: string, utcOffsetSeconds: number = 0): number {
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(time)) {
+    return new Date(time).getTime();
+  }
+
+  const [datePart, timePart = '00:00'] = time.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour = 0, minute = 0, second = 0] = timePart.split(':').map(Number);
+
+  return Date.UTC(year, month - 1, day, hour, minute, second) - utcOffsetSeconds * 1000;
+}
+
+/**
+ * Format a UTC epoch as local wall-clock time in the same "YYYY-MM-DDTHH:MM"
+ * form that Open-Meteo uses for hourly timestamps
+ *
+ * @param timestamp - Milliseconds since the Unix epoch
+ * @param utcOffsetSeconds - Offset of the wall-clock time from UTC (default 0)
+ * @returns Local timestamp string
+ */
+export function toLocalTimeString(timestamp: number, utcOffsetSeconds: number = 0): string {
+  return new Date(timestamp + utcOffsetSeconds * 1000).toISOString().slice(0, 16);
+}
+
+/**
+ * Calculate the Julian century (J2000.0 epoch) for a UTC timestamp
+ *
+ * @param timestamp - Milliseconds since the Unix epoch
+ * @returns Julian centuries since 2000-01-01T12:00 TT
+ */
+function julianCentury(timestamp: number): number {
+  const julianDay = timestamp / MS_PER_DAY + 2440587.5;
+  return (julianDay - 2451545) / 36525;
+}
+
+/**
+ * Calculate solar declination, equation of time and Earth-Sun distance
+ *
+ * @param timestamp - Milliseconds since the Unix epoch
+ * @returns Ephemeris quantities
+ */
+function calculateEphemeris(timestamp: number): SolarEphemeris {
+  const T = julianCentury(timestamp);
+
+  const meanLongitude = (280.46646 + T * (36000.76983 + T * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + T * (35999.05029 - 0.0001537 * T);
+  const eccentricity = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+
+  const M = meanAnomaly * DEG_TO_RAD;
+  const equationOfCenter =
+    Math.sin(M) * (1.914602 - T * (0.004817 + 0.000014 * T)) +
+    Math.sin(2 * M) * (0.019993 - 0.000101 * T) +
+    Math.sin(3 * M) * 0.000289;
+
+  const trueLongitude = meanLongitude + equationOfCenter;
+  const trueAnomaly = meanAnomaly + equationOfCenter;
+  const earthSunDistance =
+    (1.000001018 * (1 - eccentricity * eccentricity)) /
+    (1 + eccentricity * Math.cos(trueAnomaly * DEG_TO_RAD));
+
+  // Apparent longitude, corrected for nutation and aberration
+  const omega = (125.04 - 1934.136 * T) * DEG_TO_RAD;
+  const apparentLongitude = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega);
+
+  const meanObliquity =
+    23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * DEG_TO_RAD;
+
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(apparentLongitude * DEG_TO_RAD)
+  );
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const L0 = meanLongitude * DEG_TO_RAD;
+  const equationOfTime =
+    4 *
+    RAD_TO_DEG *
+    (y * Math.sin(2 * L0) -
+      2 * eccentricity * Math.sin(M) +
+      4 * eccentricity * y * Math.sin(M) * Math.cos(2 * L0) -
+      0.5 * y * y * Math.sin(4 * L0) -
+      1.25 * eccentricity * eccentricity * Math.sin(2 * M));
+
+  return {
+    declination: declination * RAD_TO_DEG,
+    equationOfTime,
+    earthSunDistance
+  };
+}
+
+/**
+ * Estimate atmospheric refraction for a given true solar elevation
+ *
+ * Piecewise approximation used by the NOAA solar calculator.
+ *
+ * @param elevation - True (geometric) solar elevation in degrees
+ * @returns Refraction correction in degrees
+ */
+function calculateRefraction(elevation: number): number {
+  if (elevation > 85) {
+    return 0;
+  }
+
+  const tanElevation = Math.tan(elevation * DEG_TO_RAD);
+  let arcSeconds: number;
+  if (elevation > 5) {
+    arcSeconds =
+      58.1 / tanElevation - 0.07 / tanElevation ** 3 + 0.000086 / tanElevation ** 5;
+  } else if (elevation > -0.575) {
+    arcSeconds =
+      1735 + elevation * (-518.2 + elevation * (103.4 + elevation * (-12.79 + elevation * 0.711)));
+  } else {
+    arcSeconds = -20.772 / tanElevation;
+  }
+
+  return arcSeconds / 3600;
+}
+
+/**
+ * Calculate the position of the sun for a site and instant
+ *
+ * Hour angle: H = (t_solar / 4) - 180°, with true solar time
+ * t_solar = t_UTC + EoT + 4 × longitude (minutes)
+ *
+ * Zenith: cos Z = sin φ × sin δ + cos φ × cos δ × cos H
+ *
+ * Extraterrestrial irradiance: E₀ = G_sc / R²
+ *
+ * @param timestamp - Milliseconds since the Unix epoch (UTC)
+ * @param location - Site coordinates
+ * @returns Solar position with refraction-corrected zenith and elevation
+ */
+export function calculateSolarPosition(timestamp: number, location: Location): SolarPosition {
+  const { declination, equationOfTime, earthSunDistance } = calculateEphemeris(timestamp);
+
+  const minutesOfDay = (((timestamp % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY) / 60000;
+  const trueSolarTime = (minutesOfDay + equationOfTime + 4 * location.longitude + 1440) % 1440;
+  let hourAngle = trueSolarTime / 4 - 180;
+  if (hourAngle < -180) hourAngle += 360;
+
+  const phi = location.latitude * DEG_TO_RAD;
+  const delta = declination * DEG_TO_RAD;
+  const H = hourAngle * DEG_TO_RAD;
+
+  const cosZenith = Math.max(
+    -1,
+    Math.min(1, Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(H))
+  );
+  const trueElevation = 90 - Math.acos(cosZenith) * RAD_TO_DEG;
+  const elevation = trueElevation + calculateRefraction(trueElevation);
+
+  // Azimuth measured clockwise from north
+  const azimuth =
+    (Math.atan2(
+      -Math.sin(H) * Math.cos(delta),
+      Math.cos(phi) * Math.sin(delta) - Math.sin(phi) * Math.cos(delta) * Math.cos(H)
+    ) *
+      RAD_TO_DEG +
+      360) %
+    360;
+
+  return {
+    zenith: 90 - elevation,
+    elevation,
+    azimuth,
+    hourAngle,
+    declination,
+    equationOfTime,
+    extraterrestrialIrradiance: SOLAR_CONSTANT / (earthSunDistance * earthSunDistance)
+  };
+}
+
+/**
+ * Calculate sunrise, solar noon and sunset for a local calendar day
+ *
+ * Uses the hour angle at which the sun's upper limb crosses the horizon
+ * (zenith 90.833°). Local clock time tracks solar time closely enough that
+ * solar noon on the local date falls near UTC midnight + 12h - 4 × longitude.
+ * Returns null for sunrise/sunset during polar day or polar night.
+ *
+ * @param date - Local date (YYYY-MM-DD)
+ * @param location - Site coordinates
+ * @returns UTC timestamps in milliseconds
+ */
+export function calculateSunriseSunset(
+  date: string,
+  location: Location
+): { sunrise: number | null; solarNoon: number; sunset: number | null } {
+  const [year, month, day] = date.split('-').map(Number);
+  const approximateNoon = Date.UTC(year, month - 1, day) + (720 - 4 * location.longitude) * 60000;
+
+  const { declination, equationOfTime } = calculateEphemeris(approximateNoon);
+  const solarNoon = approximateNoon - equationOfTime * 60000;
+
+  const phi = location.latitude * DEG_TO_RAD;
+  const delta = declination * DEG_TO_RAD;
+  const cosHourAngle =
+    Math.cos(SUNRISE_ZENITH * DEG_TO_RAD) / (Math.cos(phi) * Math.cos(delta)) -
+    Math.tan(phi) * Math.tan(delta);
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, solarNoon, sunset: null };
+  }
+
+  const halfDayMinutes = 4 * Math.acos(cosHourAngle) * RAD_TO_DEG;
+  return {
+    sunrise: solarNoon - halfDayMinutes * 60000,
+    solarNoon,
+    sunset: solarNoon + halfDayMinutes * 60000
+  };
+}
+
+/**
+ * Trace the sun across the sky for one local calendar day
+ *
+ * Positions are sampled around solar noon and only those with the sun
+ * above the horizon are returned, e.g. to draw a sun-path diagram.
+ *
+ * @param date - Local date (YYYY-MM-DD)
+ * @param location - Site coordinates
+ * @param stepMinutes - Sampling interval in minutes (default 10)
+ * @returns Sun positions in time order
+ */
+export function calculateSunPath(
+  date: string,
+  location: Location,
+  stepMinutes: number = 10
+): SolarPosition[] {
+  const { solarNoon } = calculateSunriseSunset(date, location);
+  const path: SolarPosition[] = [];
+
+  for (let minutes = -720; minutes <= 720; minutes += stepMinutes) {
+    const position = calculateSolarPosition(solarNoon + minutes * 60000, location);
+    if (position.elevation >= 0) {
+      path.push(position);
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Calculate the sun position for one hour of weather data
+ *
+ * Open-Meteo radiation values are averages over the preceding hour, so the
+ * sun position is evaluated at the middle of that interval.
+ *
+ * @param hour - Hourly weather record
+ * @param location - Site coordinates
+ * @returns Solar position at the interval midpoint
+ */
+export function calculateHourlySolarPosition(
+  hour: HourlyWeatherData,
+  location: Location
+): SolarPosition {
+  const midpoint = toUtcTimestamp(hour.time, hour.utcOffsetSeconds) - 30 * 60000;
+  return calculateSolarPosition(midpoint, location);
+}
+
+/**
+ * Attach sun geometry (zenith, azimuth, elevation, hour angle,
+ * extraterrestrial irradiance, sunrise and sunset) to each weather record
+ *
+ * Sunrise and sunset are reported in the same local time base as `time`.
+ *
+ * @param weatherData - Array of hourly weather data
+ * @param location - Site coordinates
+ * @returns New array of weather records with solar geometry fields populated
+ */
+export function addSolarGeometry(
+  weatherData: HourlyWeatherData[],
+  location: Location
+): HourlyWeatherData[] {
+  const dailyEvents = new Map<string, { sunrise?: string; sunset?: string }>();
+
+  return weatherData.map((hour) => {
+    const position = calculateHourlySolarPosition(hour, location);
+    const offset = hour.utcOffsetSeconds ?? 0;
+    const date = hour.time.slice(0, 10);
+
+    let events = dailyEvents.get(date);
+    if (!events) {
+      const { sunrise, sunset } = calculateSunriseSunset(date, location);
+      events = {
+        sunrise: sunrise !== null ? toLocalTimeString(sunrise, offset) : undefined,
+        sunset: sunset !== null ? toLocalTimeString(sunset, offset) : undefined
+      };
+      dailyEvents.set(date, events);
+    }
+
+    return {
+      ...hour,
+      solarZenith: position.zenith,
+      solarAzimuth: position.azimuth,
+      solarElevation: position.elevation,
+      hourAngle: position.hourAngle,
+      extraterrestrialIrradiance: position.extraterrestrialIrradiance,
+      sunrise: events.sunrise,
+      sunset: events.sunset
+    };
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { SolarAsset } from '@/types';
+import { calculateCosAngleOfIncidence } from '@/lib/models/irradianceModel';
+import {
+  calculateSurfaceOrientation,
+  calculateTrackerRotation,
+  calculateTrackerSurfaceOrientation
+} from '@/lib/models/trackerModel';
+
+// Cases from the pvlib-python test suite of pvlib.tracking.singleaxis
+const GCR = 2 / 7;
+
+function angleOfIncidence(sun: { zenith: number; azimuth: number }, tilt: number, azimuth: number): number {
+  return Math.acos(calculateCosAngleOfIncidence(sun.zenith, sun.azimuth, tilt, azimuth)) * (180 / Math.PI);
+}
+
+describe('calculateTrackerRotation', () => {
+  it('lies flat at solar noon', () => {
+    const sun = { zenith: 10, azimuth: 180 };
+    const rotation = calculateTrackerRotation(sun, 0, 0, 90, true, GCR)!;
+    const surface = calculateTrackerSurfaceOrientation(rotation, 0, 0);
+
+    expect(rotation).toBeCloseTo(0, 6);
+    expect(surface.tilt).toBeCloseTo(0, 6);
+    expect(angleOfIncidence(sun, surface.tilt, surface.azimuth)).toBeCloseTo(10, 4);
+  });
+
+  it('faces the morning sun on a north-south axis', () => {
+    const sun = { zenith: 60, azimuth: 90 };
+    const rotation = calculateTrackerRotation(sun, 0, 180, 90, true, GCR)!;
+    const surface = calculateTrackerSurfaceOrientation(rotation, 0, 180);
+
+    expect(rotation).toBeCloseTo(-60, 4);
+    expect(surface.tilt).toBeCloseTo(60, 4);
+    expect(surface.azimuth).toBeCloseTo(90, 4);
+    expect(angleOfIncidence(sun, surface.tilt, surface.azimuth)).toBeCloseTo(0, 2);
+  });
+
+  it('backtracks to avoid row-to-row shading', () => {
+    const sun = { zenith: 80, azimuth: 90 };
+
+    const tracking = calculateTrackerRotation(sun, 0, 0, 90, false, GCR)!;
+    expect(tracking).toBeCloseTo(80, 4);
+
+    const backtracking = calculateTrackerRotation(sun, 0, 0, 90, true, GCR)!;
+    const surface = calculateTrackerSurfaceOrientation(backtracking, 0, 0);
+    expect(backtracking).toBeCloseTo(27.42833, 4);
+    expect(surface.tilt).toBeCloseTo(27.42833, 4);
+    expect(surface.azimuth).toBeCloseTo(90, 4);
+    expect(angleOfIncidence(sun, surface.tilt, surface.azimuth)).toBeCloseTo(52.57167, 4);
+  });
+
+  it('stops at the mechanical rotation limit', () => {
+    expect(calculateTrackerRotation({ zenith: 80, azimuth: 90 }, 0, 0, 45, false, GCR)).toBe(45);
+  });
+
+  it('returns null with the sun below the horizon', () => {
+    expect(calculateTrackerRotation({ zenith: 95, azimuth: 90 }, 0, 0, 90, true, GCR)).toBeNull();
+  });
+});
+
+describe('calculateSurfaceOrientation', () => {
+  const base: SolarAsset = { type: 'solar', dcCapacity: 100 };
+
+  it('stows a single-axis tracker flat at night', () => {
+    const surface = calculateSurfaceOrientation({ ...base, mounting: 'single-axis' }, { zenith: 100, azimuth: 0 });
+
+    expect(surface.tilt).toBeCloseTo(0, 6);
+    expect(surface.rotation).toBe(0);
+  });
+
+  it('points a dual-axis tracker at the sun', () => {
+    const sun = { zenith: 35, azimuth: 120 };
+    const surface = calculateSurfaceOrientation({ ...base, mounting: 'dual-axis' }, sun);
+
+    expect(surface).toEqual({ tilt: 35, azimuth: 120 });
+    expect(angleOfIncidence(sun, surface.tilt, surface.azimuth)).toBeCloseTo(0, 4);
+  });
+
+  it('keeps fixed racking at the asset tilt and azimuth', () => {
+    expect(calculateSurfaceOrientation({ ...base, tilt: 25, azimuth: 200 }, { zenith: 40, azimuth: 150 })).toEqual({
+      tilt: 25,
+      azimuth: 200
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { SolarAsset, SolarPosition } from '@/types';
+
+/**
+ * Solar Tracker Geometry Model
+ *
+ * This module determines the orientation of the module surface each hour for
+ * fixed racking, single-axis trackers (with optional backtracking) and
+ * dual-axis trackers.
+ *
+ * References:
+ * - Marion, W. F., & Dobos, A. P. (2013). Rotation Angle for the Optimum Tracking of One-Axis Trackers (NREL/TP-6A20-58891)
+ * - Lorenzo, E., Narvarte, L., & Muñoz, J. (2011). Tracking and back-tracking. Progress in Photovoltaics 19(6)
+ * - pvlib-python: pvlib.tracking.singleaxis
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Default single-axis tracker settings */
+export const DEFAULT_AXIS_AZIMUTH = 180;
+export const DEFAULT_MAX_ROTATION = 60;
+export const DEFAULT_GROUND_COVERAGE_RATIO = 0.35;
+
+/**
+ * Orientation of the module surface for one hour
+ */
+export interface SurfaceOrientation {
+  tilt: number; // degrees from horizontal
+  azimuth: number; // degrees clockwise from north
+  rotation?: number; // single-axis rotation in degrees (negative = toward east for a N-S axis)
+}
+
+/**
+ * Calculate the rotation angle of a single-axis tracker
+ *
+ * The ideal rotation places the sun vector in the plane that contains the
+ * tracker axis and the module normal (Marion & Dobos 2013, Eq. 7):
+ * θ_ideal = atan2(x', z')
+ *
+ * With backtracking, the rotation is reduced so that adjacent rows do not
+ * shade each other (Lorenzo et al. 2011):
+ * θ = θ_ideal - sign(θ_ideal) × acos(|cos θ_ideal| / GCR)  when |cos θ_ideal| / GCR < 1
+ *
+ * @param sun - Solar zenith and azimuth
+ * @param axisTilt - Tilt of the tracker axis from horizontal in degrees
+ * @param axisAzimuth - Azimuth of the tracker axis in degrees clockwise from north
+ * @param maxRotation - Mechanical rotation limit in degrees
+ * @param backtracking - Whether to backtrack to avoid row-to-row shading
+ * @param groundCoverageRatio - Module width divided by row pitch (0-1)
+ * @returns Tracker rotation in degrees, or null when the sun is below the horizon
+ */
+export function calculateTrackerRotation(
+  sun: Pick<SolarPosition, 'zenith' | 'azimuth'>,
+  axisTilt: number,
+  axisAzimuth: number,
+  maxRotation: number,
+  backtracking: boolean,
+  groundCoverageRatio: number
+): number | null {
+  if (sun.zenith >= 90) {
+    return null;
+  }
+
+  // Sun vector in east-north-up coordinates
+  const sinZenith = Math.sin(sun.zenith * DEG_TO_RAD);
+  const x = sinZenith * Math.sin(sun.azimuth * DEG_TO_RAD);
+  const y = sinZenith * Math.cos(sun.azimuth * DEG_TO_RAD);
+  const z = Math.cos(sun.zenith * DEG_TO_RAD);
+
+  // Rotate into the tracker frame (y' along the axis, x' horizontal and
+  // 90° clockwise from it, z' normal to both)
+  const sinAxisAzimuth = Math.sin(axisAzimuth * DEG_TO_RAD);
+  const cosAxisAzimuth = Math.cos(axisAzimuth * DEG_TO_RAD);
+  const sinAxisTilt = Math.sin(axisTilt * DEG_TO_RAD);
+  const cosAxisTilt = Math.cos(axisTilt * DEG_TO_RAD);
+
+  const xp = x * cosAxisAzimuth - y * sinAxisAzimuth;
+  const zp = x * sinAxisTilt * sinAxisAzimuth + y * sinAxisTilt * cosAxisAzimuth + z * cosAxisTilt;
+
+  const idealRotation = Math.atan2(xp, zp) * RAD_TO_DEG;
+  let rotation = idealRotation;
+
+  if (backtracking && groundCoverageRatio > 0) {
+    const shadeRatio = Math.abs(Math.cos(idealRotation * DEG_TO_RAD)) / groundCoverageRatio;
+    if (shadeRatio < 1) {
+      rotation = idealRotation - Math.sign(idealRotation) * Math.acos(shadeRatio) * RAD_TO_DEG;
+    }
+  }
+
+  return Math.max(-maxRotation, Math.min(maxRotation, rotation));
+}
+
+/**
+ * Convert a single-axis tracker rotation to surface tilt and azimuth
+ *
+ * Formula:
+ * - β = acos(cos θ × cos β_axis)
+ * - γ = γ_axis + asin(sin θ / sin β)
+ *
+ * @param rotation - Tracker rotation in degrees
+ * @param axisTilt - Tilt of the tracker axis from horizontal in degrees
+ * @param axisAzimuth - Azimuth of the tracker axis in degrees clockwise from north
+ * @returns Surface orientation
+ */
+export function calculateTrackerSurfaceOrientation(
+  rotation: number,
+  axisTilt: number,
+  axisAzimuth: number
+): SurfaceOrientation {
+  const tilt =
+    Math.acos(
+      Math.max(-1, Math.min(1, Math.cos(rotation * DEG_TO_RAD) * Math.cos(axisTilt * DEG_TO_RAD)))
+    ) * RAD_TO_DEG;
+
+  const sinTilt = Math.sin(tilt * DEG_TO_RAD);
+  let azimuthDelta =
+    sinTilt !== 0
+      ? Math.asin(Math.max(-1, Math.min(1, Math.sin(rotation * DEG_TO_RAD) / sinTilt))) * RAD_TO_DEG
+      : 90;
+  if (Math.abs(rotation) >= 90) {
+    azimuthDelta = -azimuthDelta + Math.sign(rotation) * 180;
+  }
+
+  return {
+    tilt,
+    azimuth: (((axisAzimuth + azimuthDelta) % 360) + 360) % 360,
+    rotation
+  };
+}
+
+/**
+ * Determine the module surface orientation for one hour based on the
+ * asset's mounting configuration
+ *
+ * - fixed: asset tilt/azimuth (horizontal when tilt is missing)
+ * - single-axis: rotation about the configured axis, stowed flat at night
+ * - dual-axis: surface normal points at the sun
+ *
+ * @param asset - Solar asset configuration
+ * @param sun - Solar zenith and azimuth
+ * @returns Surface orientation
+ */
+export function calculateSurfaceOrientation(
+  asset: SolarAsset,
+  sun: Pick<SolarPosition, 'zenith' | 'azimuth'>
+): SurfaceOrientation {
+  const mounting = asset.mounting ?? 'fixed';
+
+  if (mounting === 'dual-axis') {
+    return {
+      tilt: Math.min(90, Math.max(0, sun.zenith)),
+      azimuth: sun.azimuth
+    };
+  }
+
+  if (mounting === 'single-axis') {
+    const axisTilt = asset.axisTilt ?? 0;
+    const axisAzimuth = asset.axisAzimuth ?? DEFAULT_AXIS_AZIMUTH;
+    const rotation =
+      calculateTrackerRotation(
+        sun,
+        axisTilt,
+        axisAzimuth,
+        asset.maxRotation ?? DEFAULT_MAX_ROTATION,
+        asset.backtracking ?? true,
+        asset.groundCoverageRatio ?? DEFAULT_GROUND_COVERAGE_RATIO
+      ) ?? 0;
+
+    return calculateTrackerSurfaceOrientation(rotation, axisTilt, axisAzimuth);
+  }
+
+  return {
+    tilt: asset.tilt ?? 0,
+    azimuth: asset.azimuth ?? 180
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { WindAsset } from '@/types';
+import {
+  findTurbine,
+  getFarmRatedCapacity,
+  resolveWindTurbine,
+  TURBINE_LIBRARY,
+  validateWindTurbine
+} from '@/lib/models/turbineLibrary';
+
+const base: WindAsset = { type: 'wind', ratedCapacity: 0, hubHeight: 0 };
+
+describe('TURBINE_LIBRARY', () => {
+  it('tabulates each turbine from cut-in to cut-out and peaks at its rating', () => {
+    TURBINE_LIBRARY.forEach((turbine) => {
+      const speeds = turbine.powerCurve.map((p) => p.windSpeed);
+      expect(speeds[0]).toBe(turbine.cutInSpeed);
+      expect(speeds[speeds.length - 1]).toBe(turbine.cutOutSpeed);
+      expect(Math.max(...turbine.powerCurve.map((p) => p.power))).toBe(turbine.ratedPower);
+      expect(validateWindTurbine({ ...base, powerCurve: turbine.powerCurve })).toBeNull();
+    });
+  });
+});
+
+describe('getFarmRatedCapacity', () => {
+  it('multiplies the turbine rating by the number of turbines', () => {
+    expect(getFarmRatedCapacity(3.45, {})).toBe(3.45);
+    expect(getFarmRatedCapacity(2, { farm: { grid: { rows: 2, columns: 5 } } })).toBe(20);
+    expect(
+      getFarmRatedCapacity(4.2, {
+        farm: {
+          turbines: [
+            { x: 0, y: 0 },
+            { x: 600, y: 0 },
+            { x: 1200, y: 0 }
+          ]
+        }
+      })
+    ).toBeCloseTo(12.6, 12);
+  });
+});
+
+describe('resolveWindTurbine', () => {
+  it('takes capacity, rotor, hub height and curve from the turbine', () => {
+    const turbine = findTurbine('generic-3.45mw-126m')!;
+    const asset = resolveWindTurbine({ ...base, turbineId: turbine.id });
+
+    expect(asset.ratedCapacity).toBe(3.45);
+    expect(asset.rotorDiameter).toBe(126);
+    expect(asset.hubHeight).toBe(117);
+    expect(asset.cutOutSpeed).toBe(22.5);
+    expect(asset.powerCurve).toBe(turbine.powerCurve);
+  });
+
+  it('keeps the asset hub height, rotor and curve over the turbine', () => {
+    const powerCurve = [
+      { windSpeed: 3, power: 0 },
+      { windSpeed: 12, power: 1 }
+    ];
+    const asset = resolveWindTurbine({
+      ...base,
+      hubHeight: 140,
+      rotorDiameter: 100,
+      powerCurve,
+      turbineId: 'generic-2.0mw-90m'
+    });
+
+    expect(asset.hubHeight).toBe(140);
+    expect(asset.rotorDiameter).toBe(100);
+    expect(asset.powerCurve).toBe(powerCurve);
+  });
+
+  it('rates a farm at the farm total and stays stable when resolved twice', () => {
+    const farm = { grid: { rows: 3, columns: 4 } };
+    const asset = resolveWindTurbine({ ...base, turbineId: 'generic-2.0mw-90m', farm });
+
+    expect(asset.ratedCapacity).toBe(24);
+    expect(resolveWindTurbine(asset).ratedCapacity).toBe(24);
+  });
+
+  it('leaves assets without a known turbine unchanged', () => {
+    const asset: WindAsset = { ...base, ratedCapacity: 1.5 };
+
+    expect(resolveWindTurbine(asset)).toBe(asset);
+    expect(resolveWindTurbine({ ...asset, turbineId: 'unknown' }).ratedCapacity).toBe(1.5);
+  });
+});
+
+describe('validateWindTurbine', () => {
+  it('rejects unknown turbines and unusable curves', () => {
+    expect(validateWindTurbine({ ...base, turbineId: 'unknown' })).toBe('Unknown turbine "unknown"');
+    expect(validateWindTurbine({ ...base, powerCurve: [{ windSpeed: 3, power: 0 }] })).toBe(
+      'Power curve needs at least two points'
+    );
+    expect(
+      validateWindTurbine({
+        ...base,
+        powerCurve: [
+          { windSpeed: 3, power: 0 },
+          { windSpeed: NaN, power: 100 }
+        ]
+      })
+    ).toBe('Power curve points need non-negative wind speed and power');
+    expect(
+      validateWindTurbine({
+        ...base,
+        powerCurve: [
+          { windSpeed: 3, power: 0 },
+          { windSpeed: 12, power: 0 }
+        ]
+      })
+    ).toBe('Power curve has no positive power');
+  });
+});
@@ -0,0 +1,214 @@
+import { PowerCurvePoint, WindAsset, WindTurbineSpec } from '@/types';
+import { countTurbines } from '@/lib/models/wakeModel';
+
+/**
+ * Wind Turbine Library
+ *
+ * This module holds a local library of wind turbine power curves and
+ * derives the capacity, rotor size and power curve of a wind asset from the
+ * turbine it references.
+ *
+ * The built-in records are representative generic turbines of common size
+ * classes, not specific manufacturer curves. Power is tabulated at standard
+ * air density (1.225 kg/m³), with thrust coefficients for wake modelling.
+ *
+ * References:
+ * - IEC 61400-12-1: Wind turbines - Power performance measurements
+ * - Manwell, J. F., McGowan, J. G., & Rogers, A. L. (2009). Wind Energy Explained, Chapter 3
+ */
+
+/** Build a power curve from [wind speed, power, thrust coefficient] rows */
+const fromTable = (rows: [number, number, number][]): PowerCurvePoint[] =>
+  rows.map(([windSpeed, power, thrustCoefficient]) => ({ windSpeed, power, thrustCoefficient }));
+
+/** Built-in turbine records */
+export const TURBINE_LIBRARY: WindTurbineSpec[] = [
+  {
+    id: 'generic-1.5mw-77m',
+    manufacturer: 'Generic',
+    model: '1.5 MW, 77 m rotor (IEC IIA)',
+    ratedPower: 1500,
+    rotorDiameter: 77,
+    hubHeight: 80,
+    cutInSpeed: 3.5,
+    ratedSpeed: 12.5,
+    cutOutSpeed: 25,
+    powerCurve: fromTable([
+      [3.5, 0, 0.8], [4, 45, 0.8], [4.5, 82, 0.8], [5, 127, 0.8], [5.5, 183, 0.8],
+      [6, 249, 0.8], [6.5, 326, 0.8], [7, 415, 0.8], [7.5, 517, 0.8], [8, 632, 0.8],
+      [8.5, 762, 0.8], [9, 907, 0.8], [9.5, 1062, 0.8], [10, 1219, 0.8], [10.5, 1351, 0.8],
+      [11, 1435, 0.74], [11.5, 1475, 0.67], [12, 1490, 0.6], [12.5, 1500, 0.55],
+      [13, 1500, 0.5], [13.5, 1500, 0.46], [14, 1500, 0.42], [14.5, 1500, 0.39],
+      [15, 1500, 0.36], [16, 1500, 0.31], [17, 1500, 0.27], [18, 1500, 0.24], [19, 1500, 0.21],
+      [20, 1500, 0.19], [21, 1500, 0.17], [22, 1500, 0.15], [23, 1500, 0.14], [24, 1500, 0.12],
+      [25, 1500, 0.11]
+    ])
+  },
+  {
+    id: 'generic-2.0mw-90m',
+    manufacturer: 'Generic',
+    model: '2.0 MW, 90 m rotor (IEC IIA)',
+    ratedPower: 2000,
+    rotorDiameter: 90,
+    hubHeight: 95,
+    cutInSpeed: 4,
+    ratedSpeed: 12.5,
+    cutOutSpeed: 25,
+    powerCurve: fromTable([
+      [4, 0, 0.8], [4.5, 88, 0.8], [5, 153, 0.8], [5.5, 231, 0.8], [6, 324, 0.8],
+      [6.5, 432, 0.8], [7, 556, 0.8], [7.5, 697, 0.8], [8, 857, 0.8], [8.5, 1036, 0.8],
+      [9, 1234, 0.8], [9.5, 1446, 0.8], [10, 1655, 0.8], [10.5, 1824, 0.8], [11, 1926, 0.72],
+      [11.5, 1972, 0.65], [12, 1989, 0.59], [12.5, 2000, 0.54], [13, 2000, 0.49],
+      [13.5, 2000, 0.45], [14, 2000, 0.42], [14.5, 2000, 0.38], [15, 2000, 0.35],
+      [16, 2000, 0.31], [17, 2000, 0.27], [18, 2000, 0.23], [19, 2000, 0.21], [20, 2000, 0.18],
+      [21, 2000, 0.16], [22, 2000, 0.15], [23, 2000, 0.13], [24, 2000, 0.12], [25, 2000, 0.11]
+    ])
+  },
+  {
+    id: 'generic-3.45mw-126m',
+    manufacturer: 'Generic',
+    model: '3.45 MW, 126 m rotor (IEC IIB)',
+    ratedPower: 3450,
+    rotorDiameter: 126,
+    hubHeight: 117,
+    cutInSpeed: 3,
+    ratedSpeed: 11.5,
+    cutOutSpeed: 22.5,
+    powerCurve: fromTable([
+      [3, 0, 0.8], [3.5, 83, 0.8], [4, 157, 0.8], [4.5, 254, 0.8], [5, 376, 0.8],
+      [5.5, 525, 0.8], [6, 702, 0.8], [6.5, 910, 0.8], [7, 1151, 0.8], [7.5, 1427, 0.8],
+      [8, 1741, 0.8], [8.5, 2092, 0.8], [9, 2472, 0.8], [9.5, 2850, 0.8], [10, 3154, 0.8],
+      [10.5, 3331, 0.72], [11, 3407, 0.64], [11.5, 3450, 0.58], [12, 3450, 0.53],
+      [12.5, 3450, 0.48], [13, 3450, 0.44], [13.5, 3450, 0.4], [14, 3450, 0.37],
+      [15, 3450, 0.32], [16, 3450, 0.27], [17, 3450, 0.24], [18, 3450, 0.21], [19, 3450, 0.18],
+      [20, 3450, 0.16], [21, 3450, 0.15], [22, 3450, 0.13], [22.5, 3450, 0.12]
+    ])
+  },
+  {
+    id: 'generic-4.2mw-150m',
+    manufacturer: 'Generic',
+    model: '4.2 MW, 150 m rotor (IEC IIIA)',
+    ratedPower: 4200,
+    rotorDiameter: 150,
+    hubHeight: 125,
+    cutInSpeed: 3,
+    ratedSpeed: 11,
+    cutOutSpeed: 22.5,
+    powerCurve: fromTable([
+      [3, 0, 0.8], [3.5, 118, 0.8], [4, 222, 0.8], [4.5, 360, 0.8], [5, 533, 0.8],
+      [5.5, 744, 0.8], [6, 995, 0.8], [6.5, 1290, 0.8], [7, 1631, 0.8], [7.5, 2022, 0.8],
+      [8, 2464, 0.8], [8.5, 2949, 0.8], [9, 3437, 0.8], [9.5, 3834, 0.8], [10, 4060, 0.71],
+      [10.5, 4152, 0.64], [11, 4200, 0.57], [11.5, 4200, 0.52], [12, 4200, 0.47],
+      [12.5, 4200, 0.43], [13, 4200, 0.39], [14, 4200, 0.33], [15, 4200, 0.28],
+      [16, 4200, 0.24], [17, 4200, 0.21], [18, 4200, 0.18], [19, 4200, 0.16], [20, 4200, 0.15],
+      [21, 4200, 0.13], [22, 4200, 0.12], [22.5, 4200, 0.11]
+    ])
+  },
+  {
+    id: 'generic-6.0mw-170m',
+    manufacturer: 'Generic',
+    model: '6.0 MW, 170 m rotor (IEC IIIA)',
+    ratedPower: 6000,
+    rotorDiameter: 170,
+    hubHeight: 135,
+    cutInSpeed: 3,
+    ratedSpeed: 11.5,
+    cutOutSpeed: 25,
+    powerCurve: fromTable([
+      [3, 0, 0.8], [3.5, 155, 0.8], [4, 292, 0.8], [4.5, 473, 0.8], [5, 700, 0.8],
+      [5.5, 977, 0.8], [6, 1307, 0.8], [6.5, 1694, 0.8], [7, 2142, 0.8], [7.5, 2656, 0.8],
+      [8, 3238, 0.8], [8.5, 3886, 0.8], [9, 4572, 0.8], [9.5, 5208, 0.8], [10, 5653, 0.76],
+      [10.5, 5872, 0.68], [11, 5956, 0.61], [11.5, 6000, 0.55], [12, 6000, 0.5],
+      [12.5, 6000, 0.46], [13, 6000, 0.42], [13.5, 6000, 0.38], [14, 6000, 0.35],
+      [15, 6000, 0.3], [16, 6000, 0.26], [17, 6000, 0.22], [18, 6000, 0.2], [19, 6000, 0.17],
+      [20, 6000, 0.15], [21, 6000, 0.14], [22, 6000, 0.12], [23, 6000, 0.11], [24, 6000, 0.1],
+      [25, 6000, 0.09]
+    ])
+  }
+];
+
+/**
+ * Look up a turbine record
+ *
+ * @param id - Turbine ID
+ * @returns Turbine record, or undefined when not found
+ */
+export function findTurbine(id: string): WindTurbineSpec | undefined {
+  return TURBINE_LIBRARY.find((t) => t.id === id);
+}
+
+/**
+ * Rated capacity of a wind asset from the rating of one turbine
+ *
+ * @param turbineCapacity - Rated capacity of one turbine (MW)
+ * @param asset - Wind asset, with its farm layout if any
+ * @returns Turbine rating times the number of turbines in the farm (MW)
+ */
+export function getFarmRatedCapacity(turbineCapacity: number, asset: Pick<WindAsset, 'farm'>): number {
+  return turbineCapacity * countTurbines(asset);
+}
+
+/**
+ * Derive the capacity, rotor size and power curve of a wind asset from the
+ * turbine it references
+ *
+ * Rated capacity comes from the turbine, times the turbine count for a wind
+ * farm; the asset's own power curve, rotor diameter and hub height take
+ * precedence over the turbine's. Assets without a turbine reference are
+ * returned unchanged.
+ *
+ * @param asset - Wind asset configuration
+ * @returns Wind asset with derived fields filled in
+ */
+export function resolveWindTurbine(asset: WindAsset): WindAsset {
+  const turbine = asset.turbineId ? findTurbine(asset.turbineId) : undefined;
+  if (!turbine) {
+    return asset;
+  }
+
+  return {
+    ...asset,
+    ratedCapacity: getFarmRatedCapacity(turbine.ratedPower / 1000, asset),
+    hubHeight: asset.hubHeight || turbine.hubHeight,
+    cutInSpeed: turbine.cutInSpeed,
+    ratedSpeed: turbine.ratedSpeed,
+    cutOutSpeed: turbine.cutOutSpeed,
+    rotorDiameter: asset.rotorDiameter ?? turbine.rotorDiameter,
+    powerCurve: asset.powerCurve ?? turbine.powerCurve
+  };
+}
+
+/**
+ * Check the turbine reference and power curve of a wind asset
+ *
+ * @param asset - Wind asset configuration
+ * @returns Error message, or null when the asset is valid
+ */
+export function validateWindTurbine(asset: WindAsset): string | null {
+  if (asset.turbineId && !findTurbine(asset.turbineId)) {
+    return `Unknown turbine "${asset.turbineId}"`;
+  }
+
+  const curve = asset.powerCurve;
+  if (curve) {
+    if (curve.length < 2) {
+      return 'Power curve needs at least two points';
+    }
+    const invalid = curve.some(
+      (p) =>
+        !isFinite(p.windSpeed) ||
+        !isFinite(p.power) ||
+        p.windSpeed < 0 ||
+        p.power < 0 ||
+        (p.thrustCoefficient !== undefined && (p.thrustCoefficient < 0 || p.thrustCoefficient > 1.2))
+    );
+    if (invalid) {
+      return 'Power curve points need non-negative wind speed and power';
+    }
+    if (!curve.some((p) => p.power > 0)) {
+      return 'Power curve has no positive power';
+    }
+  }
+
+  return null;
+}
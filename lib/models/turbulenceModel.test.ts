@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateTurbulentPower,
+  estimateHubTurbulence,
+  HighWindLimits,
+  HighWindState,
+  INITIAL_HIGH_WIND_STATE,
+  resolveHighWindLimits,
+  stepHighWindControl
+} from '@/lib/models/turbulenceModel';
+
+/** Linear ramp from 3 m/s to rated output (1) at 12 m/s */
+const rampCurve = (u: number) => Math.min(1, Math.max(0, (u - 3) / 9));
+
+const limits: HighWindLimits = { cutOutSpeed: 25, gustLimit: 35, restartSpeed: 20, restartDelay: 2 };
+
+/** Run the controller over hourly (mean, gust) pairs */
+function run(hours: [number, number | undefined][], state: HighWindState = INITIAL_HIGH_WIND_STATE) {
+  return hours.map(([windSpeed, gust]) => {
+    const step = stepHighWindControl(state, windSpeed, gust, limits);
+    state = step.state;
+    return step.status;
+  });
+}
+
+describe('estimateHubTurbulence', () => {
+  it('carries the 10 m gust excess to hub height', () => {
+    // σ = (12 - 8) / 3, TI = σ / 10
+    const turbulence = estimateHubTurbulence(10, 8, 12);
+
+    expect(turbulence?.gust).toBe(14);
+    expect(turbulence?.turbulenceIntensity).toBeCloseTo(4 / 30, 12);
+  });
+
+  it('caps the turbulence intensity and skips near calm', () => {
+    expect(estimateHubTurbulence(2, 2, 10)?.turbulenceIntensity).toBe(0.5);
+    expect(estimateHubTurbulence(0.5, 0.5, 3)).toBeUndefined();
+    expect(estimateHubTurbulence(10, 8, undefined)).toBeUndefined();
+  });
+});
+
+describe('calculateTurbulentPower', () => {
+  it('reads the curve at the mean without turbulence', () => {
+    expect(calculateTurbulentPower(12, 0, rampCurve)).toBe(1);
+  });
+
+  it('leaves a linear stretch of the curve unchanged', () => {
+    // 7 ± 3σ = 4.9 to 9.1 m/s lies on the ramp
+    expect(calculateTurbulentPower(7, 0.1, rampCurve)).toBeCloseTo(rampCurve(7), 12);
+  });
+
+  it('rounds off the knee at rated speed', () => {
+    // Below the knee the ramp loses σ/9 × E[max(0, -z)] = σ / (9√(2π))
+    const smoothed = calculateTurbulentPower(12, 0.1, rampCurve);
+
+    expect(smoothed).toBeLessThan(1);
+    expect(smoothed).toBeCloseTo(1 - 1.2 / 9 / Math.sqrt(2 * Math.PI), 2);
+    // Well above rated speed the whole spread sits on the plateau
+    expect(calculateTurbulentPower(20, 0.1, rampCurve)).toBe(1);
+  });
+
+  it('raises output just below cut-in', () => {
+    expect(calculateTurbulentPower(2.5, 0.2, rampCurve)).toBeGreaterThan(0);
+  });
+});
+
+describe('resolveHighWindLimits', () => {
+  it('derives the defaults from the cut-out speed', () => {
+    expect(resolveHighWindLimits(undefined, 25)).toEqual({
+      cutOutSpeed: 25,
+      gustLimit: 35,
+      restartSpeed: 20,
+      restartDelay: 1
+    });
+  });
+
+  it('keeps the restart speed at or below cut-out', () => {
+    expect(resolveHighWindLimits({ restartSpeed: 30 }, 25).restartSpeed).toBe(25);
+  });
+});
+
+describe('stepHighWindControl', () => {
+  it('cuts out on a gust above the limit with the mean below cut-out', () => {
+    const step = stepHighWindControl(INITIAL_HIGH_WIND_STATE, 18, 36, limits);
+
+    expect(step.status).toBe('shutdown');
+    expect(step.state).toEqual({ running: false, calmHours: 0 });
+  });
+
+  it('cuts out on a mean above the cut-out speed', () => {
+    expect(run([[25, undefined], [25.1, undefined]])).toEqual(['at-risk', 'shutdown']);
+  });
+
+  it('restarts after more hours below the restart speed than the delay', () => {
+    expect(
+      run([
+        [26, undefined],
+        [15, 20],
+        [15, 20],
+        [15, 20]
+      ])
+    ).toEqual(['shutdown', 'shutdown', 'shutdown', 'normal']);
+  });
+
+  it('stays off while the mean is inside the hysteresis band', () => {
+    expect(
+      run([
+        [26, undefined],
+        [22, undefined],
+        [22, undefined],
+        [22, undefined],
+        [22, undefined]
+      ])
+    ).toEqual(['shutdown', 'shutdown', 'shutdown', 'shutdown', 'shutdown']);
+  });
+
+  it('restarts the delay count on a gust above the limit', () => {
+    expect(
+      run([
+        [26, undefined],
+        [15, 20],
+        [15, 20],
+        [15, 36],
+        [15, 20],
+        [15, 20],
+        [15, 20]
+      ])
+    ).toEqual(['shutdown', 'shutdown', 'shutdown', 'shutdown', 'shutdown', 'shutdown', 'normal']);
+  });
+
+  it('restarts in the first calm hour without a delay', () => {
+    const state: HighWindState = { running: false, calmHours: 0 };
+    const step = stepHighWindControl(state, 15, undefined, { ...limits, restartDelay: 0 });
+
+    expect(step.status).toBe('normal');
+    expect(step.state.running).toBe(true);
+  });
+
+  it('flags running hours in the hysteresis band or near the gust limit', () => {
+    expect(run([[20, undefined], [15, 31.5], [15, 31.4]])).toEqual(['at-risk', 'at-risk', 'normal']);
+  });
+});
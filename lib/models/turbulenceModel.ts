@@ -0,0 +1,227 @@
+import { HighWindControl, HighWindStatus, WindAsset } from '@/types';
+
+/**
+ * Turbulence and High-Wind Control
+ *
+ * This module estimates turbulence at hub height from the gust factor,
+ * averages the power curve over the turbulent wind speeds within each hour
+ * and models the high-wind shutdown of a turbine with hysteresis.
+ *
+ * Turbulence from the gust factor:
+ * G = v_gust / v = 1 + g × TI
+ * Where:
+ * - g = peak factor, about 3 for a 3-second gust in an hourly record
+ * - TI = σ / v, turbulence intensity
+ *
+ * σ is taken as constant with height in the surface layer, so the 10 m gust
+ * excess carries over to hub height:
+ * v_gust,hub = v_hub + (v_gust,10 - v_10),  TI_hub = σ / v_hub
+ *
+ * Turbulence-adjusted power (IEC 61400-12-1 Annex M, simplified):
+ * P̄(v) = ∫ P(u) × N(u; v, TI × v) du
+ * The operating curve is held at its last value above cut-out, since the
+ * shutdown itself is decided by the controller below.
+ *
+ * High-wind hysteresis:
+ * - The turbine stops when the hourly mean exceeds the cut-out speed or the
+ *   hub-height gust exceeds the gust limit
+ * - It restarts once the mean has stayed below the restart speed, and the
+ *   gust below the limit, for longer than the restart delay
+ * - Running hours with the mean inside the hysteresis band, or the gust
+ *   within 10% of the limit, are flagged as at risk
+ *
+ * References:
+ * - Wieringa, J. (1973). Gust factors over open water and built-up country. Boundary-Layer Meteorol. 3
+ * - IEC 61400-12-1:2017, Annex M: Normalisation of power performance data for turbulence
+ * - Albers, A. (2010). Turbulence and shear normalisation of wind turbine power curve. EWEC
+ */
+
+/** Peak factor between the gust excess and σ */
+export const GUST_PEAK_FACTOR = 3;
+
+/** Default gust limit as a multiple of the cut-out speed */
+const DEFAULT_GUST_LIMIT_RATIO = 1.4;
+
+/** Default restart speed as a multiple of the cut-out speed */
+const DEFAULT_RESTART_SPEED_RATIO = 0.8;
+
+/** Default restart delay (hours) */
+const DEFAULT_RESTART_DELAY = 1;
+
+/** Fraction of the gust limit above which a running hour is at risk */
+const RISK_GUST_FRACTION = 0.9;
+
+/** Lowest hub-height wind speed with a turbulence estimate (m/s) */
+const MIN_TURBULENCE_WIND_SPEED = 1;
+
+/** Upper bound on the turbulence intensity */
+const MAX_TURBULENCE_INTENSITY = 0.5;
+
+/** Nodes of the Gaussian average, spread over ±3σ */
+const TURBULENCE_NODES = 25;
+
+export interface HubTurbulence {
+  gust: number; // m/s at hub height
+  turbulenceIntensity: number; // σ / v at hub height
+}
+
+export interface HighWindLimits {
+  cutOutSpeed: number; // m/s
+  gustLimit: number; // m/s
+  restartSpeed: number; // m/s
+  restartDelay: number; // hours
+}
+
+export interface HighWindState {
+  running: boolean;
+  calmHours: number; // consecutive hours below the restart thresholds while stopped
+}
+
+/** Controller state at the start of a simulation */
+export const INITIAL_HIGH_WIND_STATE: HighWindState = { running: true, calmHours: 0 };
+
+/**
+ * Estimate the gust and turbulence intensity at hub height
+ *
+ * @param hubWindSpeed - Mean wind speed at hub height (m/s)
+ * @param referenceWindSpeed - Mean wind speed at the gust height, 10 m (m/s)
+ * @param referenceGust - Gust at 10 m (m/s)
+ * @param peakFactor - Gust peak factor g (default 3)
+ * @returns Hub-height gust and turbulence intensity, or undefined without a gust or in near calm
+ */
+export function estimateHubTurbulence(
+  hubWindSpeed: number,
+  referenceWindSpeed: number | undefined,
+  referenceGust: number | undefined,
+  peakFactor: number = GUST_PEAK_FACTOR
+): HubTurbulence | undefined {
+  if (
+    referenceWindSpeed === undefined ||
+    referenceGust === undefined ||
+    hubWindSpeed < MIN_TURBULENCE_WIND_SPEED
+  ) {
+    return undefined;
+  }
+
+  const gustExcess = Math.max(0, referenceGust - referenceWindSpeed);
+  const sigma = gustExcess / peakFactor;
+  return {
+    gust: hubWindSpeed + gustExcess,
+    turbulenceIntensity: Math.min(MAX_TURBULENCE_INTENSITY, sigma / hubWindSpeed)
+  };
+}
+
+/**
+ * Average a power curve over the turbulent wind speeds within an hour
+ *
+ * The wind speed is taken as normally distributed about the hourly mean
+ * with σ = TI × v, truncated at zero.
+ *
+ * @param windSpeed - Hourly mean wind speed (m/s)
+ * @param turbulenceIntensity - Turbulence intensity σ / v
+ * @param power - Operating power curve (no cut-out)
+ * @returns Turbulence-adjusted power, in the units of the curve
+ */
+export function calculateTurbulentPower(
+  windSpeed: number,
+  turbulenceIntensity: number,
+  power: (windSpeed: number) => number
+): number {
+  const sigma = turbulenceIntensity * windSpeed;
+  if (!(sigma > 0)) {
+    return power(windSpeed);
+  }
+
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < TURBULENCE_NODES; i++) {
+    const z = -3 + (6 * i) / (TURBULENCE_NODES - 1);
+    const u = windSpeed + z * sigma;
+    if (u < 0) continue;
+    const weight = Math.exp(-0.5 * z * z);
+    weighted += weight * power(u);
+    total += weight;
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+/**
+ * High-wind thresholds of a turbine with defaults filled in
+ *
+ * @param control - High-wind settings of the asset
+ * @param cutOutSpeed - Cut-out speed of the power curve (m/s)
+ * @returns Thresholds; the restart speed never exceeds the cut-out speed
+ */
+export function resolveHighWindLimits(
+  control: HighWindControl | undefined,
+  cutOutSpeed: number
+): HighWindLimits {
+  return {
+    cutOutSpeed,
+    gustLimit: control?.gustLimit ?? DEFAULT_GUST_LIMIT_RATIO * cutOutSpeed,
+    restartSpeed: Math.min(cutOutSpeed, control?.restartSpeed ?? DEFAULT_RESTART_SPEED_RATIO * cutOutSpeed),
+    restartDelay: control?.restartDelay ?? DEFAULT_RESTART_DELAY
+  };
+}
+
+/**
+ * Advance the high-wind controller by one hour
+ *
+ * @param state - Controller state after the previous hour
+ * @param windSpeed - Hourly mean wind speed at hub height (m/s)
+ * @param gust - Gust at hub height (m/s), when known
+ * @param limits - High-wind thresholds
+ * @returns Controller state after this hour and the status of the hour
+ */
+export function stepHighWindControl(
+  state: HighWindState,
+  windSpeed: number,
+  gust: number | undefined,
+  limits: HighWindLimits
+): { state: HighWindState; status: HighWindStatus } {
+  const gustTrip = gust !== undefined && gust > limits.gustLimit;
+
+  if (!state.running) {
+    const calm = windSpeed < limits.restartSpeed && !gustTrip;
+    const calmHours = calm ? state.calmHours + 1 : 0;
+    if (calmHours <= limits.restartDelay) {
+      return { state: { running: false, calmHours }, status: 'shutdown' };
+    }
+  } else if (windSpeed > limits.cutOutSpeed || gustTrip) {
+    return { state: { running: false, calmHours: 0 }, status: 'shutdown' };
+  }
+
+  const atRisk =
+    windSpeed >= limits.restartSpeed ||
+    (gust !== undefined && gust >= RISK_GUST_FRACTION * limits.gustLimit);
+  return {
+    state: { running: true, calmHours: 0 },
+    status: atRisk ? 'at-risk' : 'normal'
+  };
+}
+
+/**
+ * Check the high-wind settings of a wind asset
+ *
+ * @param asset - Wind asset configuration
+ * @returns Error message, or null when the settings are valid
+ */
+export function validateHighWindControl(asset: WindAsset): string | null {
+  const control = asset.highWind;
+  if (!control) {
+    return null;
+  }
+
+  const { gustLimit, restartSpeed, restartDelay } = control;
+  if ((gustLimit !== undefined && !(gustLimit > 0)) || (restartSpeed !== undefined && !(restartSpeed > 0))) {
+    return 'Gust limit and restart speed must be positive';
+  }
+  if (gustLimit !== undefined && restartSpeed !== undefined && restartSpeed >= gustLimit) {
+    return 'Restart speed must be below the gust limit';
+  }
+  if (restartDelay !== undefined && !(Number.isInteger(restartDelay) && restartDelay >= 0)) {
+    return 'Restart delay must be a whole number of hours';
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateWakeDeficit,
+  calculateWakeWindSpeeds,
+  countTurbines,
+  generateGridLayout
+} from '@/lib/models/wakeModel';
+
+const D = 80;
+
+describe('calculateWakeDeficit', () => {
+  it('matches the Jensen deficit 2a × (r₀ / (r₀ + kx))² at 7 D', () => {
+    // Ct = 8/9 (Betz, a = 1/3): 2a = 2/3; r₀ = 40 m, k = 0.075, x = 560 m → r_w = 82 m
+    const deficit = calculateWakeDeficit('jensen', 8 / 9, 7 * D, 0, D, 0.075);
+
+    expect(deficit).toBeCloseTo((2 / 3) * (40 / 82) ** 2, 12);
+    expect(deficit).toBeCloseTo(0.158636, 6);
+  });
+
+  it('clears the rotor outside the top-hat wake', () => {
+    // Wake radius 82 m plus rotor radius 40 m
+    expect(calculateWakeDeficit('jensen', 8 / 9, 7 * D, 122, D, 0.075)).toBe(0);
+    expect(calculateWakeDeficit('jensen', 8 / 9, 7 * D, 100, D, 0.075)).toBeGreaterThan(0);
+  });
+
+  it('matches the Bastankhah & Porté-Agel centreline and Gaussian deficit', () => {
+    // Ct = 0.8, k* = 0.04, x = 7 D: β = 1.618, σ/D = 0.5344
+    expect(calculateWakeDeficit('bastankhah', 0.8, 7 * D, 0, D, 0.04)).toBeCloseTo(0.193871, 6);
+    expect(calculateWakeDeficit('bastankhah', 0.8, 7 * D, 40, D, 0.04)).toBeCloseTo(0.125148, 6);
+  });
+
+  it('returns no deficit upwind', () => {
+    expect(calculateWakeDeficit('jensen', 0.8, -5 * D, 0, D, 0.075)).toBe(0);
+  });
+});
+
+describe('calculateWakeWindSpeeds', () => {
+  const ct = () => 8 / 9;
+  // Three turbines 7 D apart on a north-south line
+  const column = [
+    { x: 0, y: 14 * D },
+    { x: 0, y: 7 * D },
+    { x: 0, y: 0 }
+  ];
+
+  it('combines the wakes of a column as the root sum of squares', () => {
+    const speeds = calculateWakeWindSpeeds(column, 8, 0, D, ct);
+    const near = (2 / 3) * (40 / 82) ** 2;
+    const far = (2 / 3) * (40 / 124) ** 2;
+
+    expect(speeds[0]).toBe(8);
+    expect(speeds[1]).toBeCloseTo(8 * (1 - near), 9);
+    expect(speeds[2]).toBeCloseTo(8 * (1 - Math.hypot(near, far)), 9);
+  });
+
+  it('leaves a column side-on to the wind unwaked', () => {
+    expect(calculateWakeWindSpeeds(column, 8, 90, D, ct)).toEqual([8, 8, 8]);
+  });
+
+  it('reverses the waked turbines with the wind direction', () => {
+    const speeds = calculateWakeWindSpeeds(column, 8, 180, D, ct);
+
+    expect(speeds[2]).toBe(8);
+    expect(speeds[0]).toBeLessThan(speeds[1]);
+  });
+});
+
+describe('generateGridLayout', () => {
+  it('centres the grid on the site with spacings in rotor diameters', () => {
+    const positions = generateGridLayout({ rows: 2, columns: 2 }, D);
+
+    expect(positions).toEqual([
+      { x: -160, y: -280 },
+      { x: 160, y: -280 },
+      { x: -160, y: 280 },
+      { x: 160, y: 280 }
+    ]);
+    expect(countTurbines({ farm: { grid: { rows: 2, columns: 2 } } })).toBe(4);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateWeibullMean,
+  fitSectorWeibull,
+  fitWeibull,
+  weibullCdf,
+  weibullPdf
+} from '@/lib/models/weibullModel';
+
+/** Evenly spaced quantiles of a Weibull distribution */
+function weibullQuantiles(k: number, c: number, n: number): number[] {
+  return Array.from({ length: n }, (_, i) => c * Math.pow(-Math.log(1 - (i + 0.5) / n), 1 / k));
+}
+
+describe('Weibull distribution', () => {
+  const rayleigh = { k: 2, c: 8 };
+
+  it('gives the Rayleigh mean c × Γ(1.5)', () => {
+    // Γ(1.5) = √π / 2
+    expect(calculateWeibullMean(rayleigh)).toBeCloseTo((8 * Math.sqrt(Math.PI)) / 2, 9);
+    expect(calculateWeibullMean({ k: 1, c: 6 })).toBeCloseTo(6, 9);
+    // Γ(1 + 1/3) = 0.8929795
+    expect(calculateWeibullMean({ k: 3, c: 10 })).toBeCloseTo(8.929795, 5);
+  });
+
+  it('reaches 1 - 1/e at the scale speed', () => {
+    expect(weibullCdf(8, rayleigh)).toBeCloseTo(1 - Math.exp(-1), 12);
+    expect(weibullCdf(0, rayleigh)).toBe(0);
+  });
+
+  it('evaluates the density', () => {
+    expect(weibullPdf(8, rayleigh)).toBeCloseTo((2 / 8) * Math.exp(-1), 12);
+    expect(weibullPdf(-1, rayleigh)).toBe(0);
+  });
+});
+
+describe('fitWeibull', () => {
+  it.each([
+    [2, 8],
+    [1.6, 6.5],
+    [3, 11]
+  ])('recovers k = %f and c = %f from the quantiles of the distribution', (k, c) => {
+    const fit = fitWeibull(weibullQuantiles(k, c, 5000))!;
+
+    expect(fit.k).toBeCloseTo(k, 1);
+    expect(fit.c).toBeCloseTo(c, 1);
+  });
+
+  it('leaves calm hours out of the fit', () => {
+    const speeds = weibullQuantiles(2, 8, 2000);
+
+    expect(fitWeibull([...speeds, 0, 0, 0])).toEqual(fitWeibull(speeds));
+  });
+
+  it('returns null without spread in the speeds', () => {
+    expect(fitWeibull([5, 5, 5])).toBeNull();
+    expect(fitWeibull([0, 4])).toBeNull();
+  });
+});
+
+describe('fitSectorWeibull', () => {
+  it('bins directions into sectors centred on north', () => {
+    const speeds = weibullQuantiles(2, 8, 300);
+    const samples = [
+      ...speeds.map((windSpeed) => ({ windSpeed, direction: 350 })),
+      ...speeds.slice(0, 100).map((windSpeed) => ({ windSpeed, direction: 95 }))
+    ];
+
+    const fits = fitSectorWeibull(samples);
+    expect(fits.map((f) => f.direction)).toEqual([0, 90]);
+    expect(fits[0].frequency).toBeCloseTo(0.75, 9);
+    expect(fits[1].frequency).toBeCloseTo(0.25, 9);
+  });
+});
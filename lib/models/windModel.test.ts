@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData, PowerCurvePoint, WindAsset } from '@/types';
+import {
+  calculateAirDensity,
+  calculateWindPower,
+  extrapolateWindSpeed,
+  fitShearExponent,
+  generateWindForecast,
+  getWindSpeedSamples,
+  interpolatePowerCurve,
+  interpolateWindSpeed,
+  normalizeWindSpeedForDensity
+} from '@/lib/models/windModel';
+import { getFarmRatedCapacity, resolveWindTurbine } from '@/lib/models/turbineLibrary';
+
+describe('fitShearExponent', () => {
+  it('recovers the exponent of a power law profile', () => {
+    const samples = [10, 80, 120].map((height) => ({ height, speed: 6 * Math.pow(height / 10, 0.2) }));
+
+    expect(fitShearExponent(samples)).toBeCloseTo(0.2, 12);
+  });
+
+  it('fits the two Open-Meteo levels of a stable night', () => {
+    // 4 m/s at 10 m and 8 m/s at 100 m: α = ln 2 / ln 10
+    const samples = getWindSpeedSamples({ time: '2024-01-10T03:00', windSpeed10m: 4, windSpeed100m: 8 });
+
+    expect(fitShearExponent(samples)).toBeCloseTo(0.30103, 5);
+  });
+
+  it('clamps implausible exponents', () => {
+    expect(fitShearExponent([{ height: 10, speed: 1 }, { height: 100, speed: 20 }])).toBe(0.8);
+  });
+
+  it('needs two heights above the calm threshold', () => {
+    expect(fitShearExponent([{ height: 10, speed: 5 }])).toBeNull();
+    expect(fitShearExponent([{ height: 10, speed: 0.2 }, { height: 100, speed: 6 }])).toBeNull();
+  });
+});
+
+describe('interpolateWindSpeed', () => {
+  const samples = [
+    { height: 10, speed: 5 },
+    { height: 100, speed: 8 }
+  ];
+
+  it('passes through the measured levels', () => {
+    expect(interpolateWindSpeed(samples, 10, 0.14)).toBeCloseTo(5, 12);
+    expect(interpolateWindSpeed(samples, 100, 0.14)).toBeCloseTo(8, 12);
+  });
+
+  it('follows the power law between two levels', () => {
+    // α = ln 1.6 / ln 10 between 10 and 100 m
+    const alpha = Math.log(1.6) / Math.log(10);
+
+    expect(interpolateWindSpeed(samples, 50, 0.14)).toBeCloseTo(5 * Math.pow(5, alpha), 9);
+  });
+
+  it('extrapolates above the highest level with the given exponent', () => {
+    expect(interpolateWindSpeed(samples, 140, 0.2)).toBeCloseTo(extrapolateWindSpeed(8, 100, 140, 0.2), 12);
+    expect(extrapolateWindSpeed(8, 100, 140, 0.2)).toBeCloseTo(8 * Math.pow(1.4, 0.2), 12);
+  });
+});
+
+describe('calculateAirDensity', () => {
+  it('gives the ISA sea level density for dry air', () => {
+    // 101325 / (287.05 * 288.15)
+    expect(calculateAirDensity(15, 1013.25)).toBeCloseTo(1.225, 3);
+  });
+
+  it('derives pressure from elevation when none is measured', () => {
+    // ISA at 1000 m: 898.76 hPa and 8.5 °C
+    expect(calculateAirDensity(8.5, undefined, 0, 1000)).toBeCloseTo(1.1117, 3);
+  });
+
+  it('lowers the density of humid air', () => {
+    // Saturated at 30 °C the vapour partial pressure is about 4270 Pa
+    expect(calculateAirDensity(30, 1013.25, 0)).toBeCloseTo(1.1644, 3);
+    expect(calculateAirDensity(30, 1013.25, 100)).toBeCloseTo(1.1459, 3);
+  });
+});
+
+describe('normalizeWindSpeedForDensity', () => {
+  it('scales speed by the cube root of the density ratio', () => {
+    expect(normalizeWindSpeedForDensity(10, 1.225)).toBeCloseTo(10, 12);
+    expect(normalizeWindSpeedForDensity(10, 1.0)).toBeCloseTo(10 * Math.cbrt(1.0 / 1.225), 12);
+  });
+
+  it('leaves the speed alone for a non-physical density', () => {
+    expect(normalizeWindSpeedForDensity(7, 0)).toBe(7);
+  });
+});
+
+// Tabulated in kW, listed out of order
+const curve: PowerCurvePoint[] = [
+  { windSpeed: 12, power: 2000 },
+  { windSpeed: 3, power: 0 },
+  { windSpeed: 25, power: 2000 },
+  { windSpeed: 4, power: 100 },
+  { windSpeed: 5, power: 300 }
+];
+
+describe('interpolatePowerCurve', () => {
+  it('interpolates linearly between points in any order', () => {
+    expect(interpolatePowerCurve(curve, 4)).toBe(100);
+    expect(interpolatePowerCurve(curve, 4.5)).toBe(200);
+    expect(interpolatePowerCurve(curve, 8.5)).toBe(1150);
+  });
+
+  it('returns 0 outside the table', () => {
+    expect(interpolatePowerCurve(curve, 2.9)).toBe(0);
+    expect(interpolatePowerCurve(curve, 3)).toBe(0);
+    expect(interpolatePowerCurve(curve, 25)).toBe(2000);
+    expect(interpolatePowerCurve(curve, 25.1)).toBe(0);
+    expect(interpolatePowerCurve([], 10)).toBe(0);
+  });
+});
+
+describe('calculateWindPower', () => {
+  const tabulated: WindAsset = { type: 'wind', ratedCapacity: 4, hubHeight: 100, powerCurve: curve };
+
+  it('scales a tabulated curve to the rated capacity', () => {
+    // 200 of 2000 kW on the table is 10% of 4 MW
+    expect(calculateWindPower(4.5, tabulated)).toBeCloseTo(0.4, 12);
+    expect(calculateWindPower(15, tabulated)).toBe(4);
+  });
+
+  it('follows the table edges at cut-in and cut-out', () => {
+    expect(calculateWindPower(3, tabulated)).toBe(0);
+    expect(calculateWindPower(25, tabulated)).toBe(4);
+    expect(calculateWindPower(25.5, tabulated)).toBe(0);
+  });
+
+  it('uses the cubic parametric curve without a table', () => {
+    const asset: WindAsset = { type: 'wind', ratedCapacity: 2, hubHeight: 80, cutInSpeed: 3, ratedSpeed: 12, cutOutSpeed: 25 };
+
+    expect(calculateWindPower(2.9, asset)).toBe(0);
+    expect(calculateWindPower(8, asset)).toBeCloseTo((2 * (512 - 27)) / (1728 - 27), 12);
+    expect(calculateWindPower(12, asset)).toBe(2);
+    expect(calculateWindPower(25, asset)).toBe(2);
+    expect(calculateWindPower(25.1, asset)).toBe(0);
+  });
+});
+
+describe('wind farm capacity', () => {
+  // 15 m/s at 10 m and 100 m, without gusts, density inputs or icing
+  const hour: HourlyWeatherData = {
+    time: '2024-01-01T00:00',
+    windSpeed: 15,
+    windSpeed10m: 15,
+    windSpeed100m: 15,
+    windDirection: 270
+  };
+  const farm = { grid: { rows: 3, columns: 4 } };
+
+  it('runs each turbine of a library farm at its own rating', () => {
+    const asset = resolveWindTurbine({
+      type: 'wind',
+      ratedCapacity: 0,
+      hubHeight: 100,
+      turbineId: 'generic-2.0mw-90m',
+      farm,
+      icing: { enabled: false }
+    });
+    const [output] = generateWindForecast(asset, [hour]);
+
+    expect(asset.ratedCapacity).toBe(24);
+    expect(output.turbinePower).toHaveLength(12);
+    expect(Math.max(...(output.turbinePower ?? []))).toBeCloseTo(2, 12);
+    expect(output.power).toBeLessThanOrEqual(24);
+  });
+
+  it('gives a farm entered per turbine the same rating as the library path', () => {
+    const asset: WindAsset = {
+      type: 'wind',
+      ratedCapacity: getFarmRatedCapacity(2, { farm }),
+      hubHeight: 100,
+      rotorDiameter: 90,
+      farm,
+      icing: { enabled: false }
+    };
+    const [output] = generateWindForecast(asset, [hour]);
+
+    expect(asset.ratedCapacity).toBe(24);
+    expect(Math.max(...(output.turbinePower ?? []))).toBeCloseTo(2, 12);
+  });
+});
@@ -1,4 +1,29 @@
-import { WindAsset, HourlyWeatherData, PowerOutput } from '@/types';
+import {
+  WindAsset,
+  HighWindStatus,
+  HourlyWeatherData,
+  IcingRisk,
+  Location,
+  PowerOutput,
+  PowerCurvePoint,
+  TurbinePosition,
+  WeibullParameters
+} from '@/types';
+import { weibullCdf } from '@/lib/models/weibullModel';
+import {
+  DEFAULT_WAKE_DECAY,
+  calculateWakeWindSpeeds,
+  countTurbines,
+  resolveFarmLayout
+} from '@/lib/models/wakeModel';
+import {
+  INITIAL_HIGH_WIND_STATE,
+  calculateTurbulentPower,
+  estimateHubTurbulence,
+  resolveHighWindLimits,
+  stepHighWindControl
+} from '@/lib/models/turbulenceModel';
+import { calculateIcingLoss, classifyIcingRisk, updateIceLoad } from '@/lib/models/icingModel';
 
 /**
  * Wind Power Generation Model
@@ -12,6 +37,29 @@ import { WindAsset, HourlyWeatherData, PowerOutput } from '@/types';
  * - Wind Power Law: https://www.wind-power-program.com/wind_statistics.htm
  */
 
+/**
+ * Weather fields read by the wind model: wind at every level for the shear
+ * fit, gusts for the turbulence, temperature, pressure and humidity for the
+ * air density, and dew point, low cloud, visibility and rain for icing
+ */
+export const WIND_WEATHER_VARIABLES: (keyof HourlyWeatherData)[] = [
+  'windSpeed',
+  'windSpeed10m',
+  'windSpeed50m',
+  'windSpeed80m',
+  'windSpeed100m',
+  'windSpeed120m',
+  'windDirection',
+  'windGusts',
+  'temperature',
+  'surfacePressure',
+  'relativeHumidity',
+  'dewPoint',
+  'cloudCoverLow',
+  'visibility',
+  'rain'
+];
+
 /**
  * Extrapolate wind speed to hub height using the power law
  * 
@@ -44,6 +92,192 @@ export function extrapolateWindSpeed(
   return windSpeedAtReference * Math.pow(targetHeight / referenceHeight, alpha);
 }
 
+/** Power law exponent for open terrain, used when no shear can be fitted */
+export const DEFAULT_SHEAR_EXPONENT = 0.14;
+
+/** Wind speeds below this are too noisy for the shear fit (m/s) */
+const MIN_FIT_WIND_SPEED = 0.5;
+
+/** Plausible range of fitted shear exponents */
+const SHEAR_EXPONENT_RANGE: [number, number] = [-0.2, 0.8];
+
+/**
+ * Wind speed measured or modelled at one height
+ */
+export interface WindSpeedSample {
+  height: number; // m above ground
+  speed: number; // m/s
+}
+
+/**
+ * Collect the wind speeds of one hour by height
+ * 
+ * Uses the 10, 50, 80, 100 and 120 m levels when present; a bare `windSpeed`
+ * stands in for the reference height when no 10 m value is given.
+ * 
+ * @param hour - Hourly weather record
+ * @param referenceHeight - Height of `windSpeed` in m (default 10)
+ * @returns Samples sorted by height
+ */
+export function getWindSpeedSamples(
+  hour: HourlyWeatherData,
+  referenceHeight: number = 10
+): WindSpeedSample[] {
+  const levels: [number, number | undefined][] = [
+    [10, hour.windSpeed10m],
+    [50, hour.windSpeed50m],
+    [80, hour.windSpeed80m],
+    [100, hour.windSpeed100m],
+    [120, hour.windSpeed120m]
+  ];
+  
+  const samples = levels
+    .filter((level): level is [number, number] => level[1] !== undefined)
+    .map(([height, speed]) => ({ height, speed }));
+  
+  if (hour.windSpeed !== undefined && !samples.some((s) => s.height === referenceHeight)) {
+    samples.push({ height: referenceHeight, speed: hour.windSpeed });
+  }
+  
+  return samples.sort((a, b) => a.height - b.height);
+}
+
+/**
+ * Fit the power law shear exponent to wind speeds at several heights
+ * 
+ * Least-squares fit of ln v = α × ln h + c:
+ * α = Σ (x - x̄)(y - ȳ) / Σ (x - x̄)²  with x = ln h, y = ln v
+ * 
+ * Reference: Manwell et al. (2009), Wind Energy Explained, Section 2.3
+ * 
+ * @param samples - Wind speeds by height
+ * @returns Shear exponent α (clamped to -0.2 to 0.8), or null with fewer than two usable heights
+ */
+export function fitShearExponent(samples: WindSpeedSample[]): number | null {
+  const points = samples
+    .filter((s) => s.height > 0 && s.speed >= MIN_FIT_WIND_SPEED)
+    .map((s) => ({ x: Math.log(s.height), y: Math.log(s.speed) }));
+  
+  if (new Set(points.map((p) => p.x)).size < 2) {
+    return null;
+  }
+  
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((p) => {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) * (p.x - meanX);
+  });
+  
+  const alpha = covariance / variance;
+  return Math.min(SHEAR_EXPONENT_RANGE[1], Math.max(SHEAR_EXPONENT_RANGE[0], alpha));
+}
+
+/**
+ * Wind speed at a target height from wind speeds at several heights
+ * 
+ * Between two measured heights, the power law through those two levels is
+ * used, so the profile passes through every sample. Outside the measured
+ * range the nearest level is extrapolated with the given exponent.
+ * 
+ * @param samples - Wind speeds by height (at least one)
+ * @param targetHeight - Target height in m, e.g. the hub height
+ * @param alpha - Shear exponent for extrapolation
+ * @returns Wind speed at the target height (m/s)
+ */
+export function interpolateWindSpeed(
+  samples: WindSpeedSample[],
+  targetHeight: number,
+  alpha: number
+): number {
+  const sorted = [...samples].sort((a, b) => a.height - b.height);
+  const lowest = sorted[0];
+  const highest = sorted[sorted.length - 1];
+  
+  if (targetHeight <= lowest.height) {
+    return extrapolateWindSpeed(lowest.speed, lowest.height, targetHeight, alpha);
+  }
+  if (targetHeight >= highest.height) {
+    return extrapolateWindSpeed(highest.speed, highest.height, targetHeight, alpha);
+  }
+  
+  const upper = sorted.findIndex((s) => s.height >= targetHeight);
+  const a = sorted[upper - 1];
+  const b = sorted[upper];
+  if (a.speed <= 0 || b.speed <= 0) {
+    // Power law undefined for calm levels; fall back to linear interpolation
+    return a.speed + ((b.speed - a.speed) * (targetHeight - a.height)) / (b.height - a.height);
+  }
+  
+  const localAlpha = Math.log(b.speed / a.speed) / Math.log(b.height / a.height);
+  return extrapolateWindSpeed(a.speed, a.height, targetHeight, localAlpha);
+}
+
+/**
+ * Linearly interpolate a tabulated curve value at a wind speed
+ * 
+ * Points are sorted by wind speed first. Outside the table the value is 0,
+ * so the last point acts as the cut-out speed.
+ */
+function interpolateCurve(
+  curve: PowerCurvePoint[],
+  windSpeed: number,
+  value: (point: PowerCurvePoint) => number
+): number {
+  const points = [...curve].sort((a, b) => a.windSpeed - b.windSpeed);
+  if (
+    points.length === 0 ||
+    windSpeed < points[0].windSpeed ||
+    windSpeed > points[points.length - 1].windSpeed
+  ) {
+    return 0;
+  }
+  
+  const upper = points.findIndex((p) => p.windSpeed >= windSpeed);
+  if (upper <= 0) {
+    return value(points[0]);
+  }
+  
+  const a = points[upper - 1];
+  const b = points[upper];
+  const fraction = (windSpeed - a.windSpeed) / (b.windSpeed - a.windSpeed);
+  return value(a) + (value(b) - value(a)) * fraction;
+}
+
+/**
+ * Interpolate turbine power from a tabulated power curve
+ * 
+ * Linear interpolation between table points, as in IEC 61400-12-1 binned
+ * power curves. Returns 0 below the first and above the last point.
+ * 
+ * @param curve - Power curve points (any order)
+ * @param windSpeed - Wind speed at hub height (m/s)
+ * @returns Power in the units of the table (kW)
+ */
+export function interpolatePowerCurve(
+  curve: PowerCurvePoint[],
+  windSpeed: number
+): number {
+  return Math.max(0, interpolateCurve(curve, windSpeed, (p) => p.power));
+}
+
+/**
+ * Interpolate the thrust coefficient from a tabulated power curve
+ * 
+ * @param curve - Power curve points (any order), with thrust coefficients
+ * @param windSpeed - Wind speed at hub height (m/s)
+ * @returns Thrust coefficient Ct (0 outside the table or when not tabulated)
+ */
+export function interpolateThrustCoefficient(
+  curve: PowerCurvePoint[],
+  windSpeed: number
+): number {
+  const tabulated = curve.filter((p) => p.thrustCoefficient !== undefined);
+  return Math.max(0, interpolateCurve(tabulated, windSpeed, (p) => p.thrustCoefficient ?? 0));
+}
+
 /**
  * Calculate wind power output using the simplified power curve model
  * 
@@ -65,14 +299,25 @@ export function extrapolateWindSpeed(
  * 
  * For this simplified model, we use a cubic relationship scaled to rated capacity.
  * 
+ * When the asset carries a tabulated power curve, the curve is interpolated
+ * instead and scaled so that its maximum equals the rated capacity
+ * (see turbineLibrary.ts).
+ * 
  * @param windSpeed - Wind speed at hub height (m/s)
  * @param asset - Wind asset configuration
- * @returns Power output in MW
+ * @returns Power output in the units of asset.ratedCapacity (MW for a wind asset)
  */
 export function calculateWindPower(
   windSpeed: number,
   asset: WindAsset
 ): number {
+  if (asset.powerCurve && asset.powerCurve.length > 0) {
+    const curveMax = Math.max(...asset.powerCurve.map((p) => p.power));
+    return curveMax > 0
+      ? asset.ratedCapacity * (interpolatePowerCurve(asset.powerCurve, windSpeed) / curveMax)
+      : 0;
+  }
+  
   const cutInSpeed = asset.cutInSpeed ?? 3;
   const ratedSpeed = asset.ratedSpeed ?? 12;
   const cutOutSpeed = asset.cutOutSpeed ?? 25;
@@ -104,112 +349,454 @@ export function calculateWindPower(
 }
 
 /**
- * Apply air density correction to wind power
+ * Cut-out speed of a wind asset
  * 
- * Air density varies with temperature, pressure, and altitude.
- * This affects the power output of wind turbines.
+ * @param asset - Wind asset configuration
+ * @returns Last wind speed of a tabulated curve, otherwise cutOutSpeed (default 25 m/s)
+ */
+export function getCutOutSpeed(asset: WindAsset): number {
+  if (asset.powerCurve && asset.powerCurve.length > 0) {
+    return Math.max(...asset.powerCurve.map((p) => p.windSpeed));
+  }
+  return asset.cutOutSpeed ?? 25;
+}
+
+/** Standard air density of the power curve (kg/m³) */
+export const STANDARD_AIR_DENSITY = 1.225;
+
+/** Gas constant of dry air (J/kg/K) */
+const GAS_CONSTANT_DRY_AIR = 287.05;
+
+/** Gas constant of water vapour (J/kg/K) */
+const GAS_CONSTANT_WATER_VAPOUR = 461.5;
+
+/** Standard sea-level pressure (Pa) */
+const STANDARD_PRESSURE = 101325;
+
+/** Gravitational acceleration (m/s²) */
+const GRAVITY = 9.80665;
+
+/**
+ * Calculate moist air density
  * 
- * Simplified air density formula:
- * ρ = ρ₀ × (T₀ / T) × (P / P₀)
+ * IEC 61400-12-1 (Annex F):
+ * ρ = (1 / T) × (B / R₀ - φ × P_w × (1 / R₀ - 1 / R_w))
+ * P_w = 0.0000205 × exp(0.0631846 × T)
  * 
  * Where:
- * - ρ₀ = standard air density (1.225 kg/m³)
- * - T₀ = standard temperature (288.15 K or 15°C)
- * - T = actual temperature (K)
- * - P₀ = standard pressure (101325 Pa)
- * - P = actual pressure (Pa)
- * 
- * For altitude correction (when pressure is not available):
- * ρ = ρ₀ × exp(-h / H)
- * Where H ≈ 8500m (scale height)
- * 
- * @param basePower - Base power output in MW
- * @param temperature - Temperature in °C (optional)
- * @param altitude - Altitude in meters (optional)
- * @returns Density-corrected power output in MW
- */
-export function applyAirDensityCorrection(
-  basePower: number,
-  temperature?: number,
-  altitude?: number
+ * - T = absolute temperature (K)
+ * - B = barometric pressure (Pa)
+ * - φ = relative humidity (0-1)
+ * - R₀ = 287.05 J/kg/K (dry air), R_w = 461.5 J/kg/K (water vapour)
+ * - P_w = vapour pressure (Pa)
+ * 
+ * When no pressure is given, it is taken from the ISA barometric formula
+ * at the given elevation:
+ * B = 101325 × (1 - 2.25577×10⁻⁵ × z)^5.25588
+ * 
+ * Reference: IEC 61400-12-1:2017, Wind turbines - Power performance measurements, Annex F
+ * 
+ * @param temperature - Air temperature in °C
+ * @param pressure - Barometric pressure in hPa (optional)
+ * @param relativeHumidity - Relative humidity in % (optional, dry air when missing)
+ * @param elevation - Height above sea level in m, used when pressure is missing (default 0)
+ * @returns Air density in kg/m³
+ */
+export function calculateAirDensity(
+  temperature: number,
+  pressure?: number,
+  relativeHumidity?: number,
+  elevation: number = 0
 ): number {
-  let densityRatio = 1.0;
+  const T = temperature + 273.15;
+  const B = pressure !== undefined && pressure > 0
+    ? pressure * 100
+    : STANDARD_PRESSURE * Math.pow(1 - 2.25577e-5 * Math.max(0, elevation), 5.25588);
+  const phi = Math.min(1, Math.max(0, (relativeHumidity ?? 0) / 100));
+  const Pw = 0.0000205 * Math.exp(0.0631846 * T);
   
-  // Temperature correction
-  if (temperature !== undefined) {
-    const T0 = 288.15; // Standard temperature in Kelvin (15°C)
-    const T = temperature + 273.15; // Convert to Kelvin
-    densityRatio *= T0 / T;
+  return (1 / T) * (B / GAS_CONSTANT_DRY_AIR - phi * Pw * (1 / GAS_CONSTANT_DRY_AIR - 1 / GAS_CONSTANT_WATER_VAPOUR));
+}
+
+/**
+ * Air density at hub height from surface observations
+ * 
+ * The surface pressure is lowered to hub height with the hypsometric
+ * equation at the surface temperature:
+ * B_hub = B × exp(-g × h / (R₀ × T))
+ * 
+ * @param hour - Hourly weather record (temperature, surface pressure, humidity)
+ * @param hubHeight - Hub height above ground in m
+ * @param siteElevation - Ground elevation above sea level in m (default 0)
+ * @returns Air density in kg/m³, or undefined without a temperature
+ */
+export function calculateHubAirDensity(
+  hour: HourlyWeatherData,
+  hubHeight: number,
+  siteElevation: number = 0
+): number | undefined {
+  if (hour.temperature === undefined) {
+    return undefined;
   }
   
-  // Altitude correction
-  if (altitude !== undefined && altitude > 0) {
-    const H = 8500; // Scale height in meters
-    densityRatio *= Math.exp(-altitude / H);
+  const T = hour.temperature + 273.15;
+  const lapse = Math.exp((-GRAVITY * Math.max(0, hubHeight)) / (GAS_CONSTANT_DRY_AIR * T));
+  
+  if (hour.surfacePressure !== undefined && hour.surfacePressure > 0) {
+    return calculateAirDensity(hour.temperature, hour.surfacePressure * lapse, hour.relativeHumidity);
+  }
+  return calculateAirDensity(hour.temperature, undefined, hour.relativeHumidity, siteElevation + hubHeight);
+}
+
+/**
+ * Normalise a wind speed to the standard air density of the power curve
+ * 
+ * IEC 61400-12-1 method for pitch-regulated turbines: the density changes
+ * the wind speed at which the curve is read, not the output, so output
+ * above rated speed stays at rated power.
+ * v_n = v × (ρ / ρ₀)^(1/3)
+ * 
+ * Where:
+ * - v = measured wind speed (m/s)
+ * - ρ = site air density (kg/m³)
+ * - ρ₀ = 1.225 kg/m³
+ * 
+ * Reference: IEC 61400-12-1:2017, Section 9.1.5
+ * 
+ * @param windSpeed - Wind speed at hub height (m/s)
+ * @param airDensity - Site air density in kg/m³
+ * @returns Wind speed equivalent at standard density (m/s)
+ */
+export function normalizeWindSpeedForDensity(windSpeed: number, airDensity: number): number {
+  if (airDensity <= 0) {
+    return windSpeed;
+  }
+  return windSpeed * Math.cbrt(airDensity / STANDARD_AIR_DENSITY);
+}
+
+/**
+ * Turbine positions of a wind farm
+ * 
+ * @param asset - Wind asset configuration
+ * @returns Positions in m east and north of the site, or null for a single turbine
+ */
+export function resolveTurbinePositions(asset: WindAsset): TurbinePosition[] | null {
+  if (!asset.farm) {
+    return null;
   }
+  const rotorDiameter =
+    asset.rotorDiameter ?? estimateRotorDiameter(asset.ratedCapacity / countTurbines(asset));
+  return resolveFarmLayout(asset.farm, rotorDiameter);
+}
+
+/**
+ * Thrust coefficient of a turbine at a wind speed
+ * 
+ * Uses the tabulated thrust coefficients when the power curve has them.
+ * Otherwise Ct is taken as 0.8 up to rated speed and falls with the power
+ * coefficient above it: Ct = 0.8 × (v_rated / v)³.
+ * 
+ * @param windSpeed - Wind speed at hub height (m/s)
+ * @param asset - Wind asset configuration
+ * @returns Thrust coefficient Ct
+ */
+export function calculateThrustCoefficient(windSpeed: number, asset: WindAsset): number {
+  if (asset.powerCurve && asset.powerCurve.some((p) => p.thrustCoefficient !== undefined)) {
+    return interpolateThrustCoefficient(asset.powerCurve, windSpeed);
+  }
+  
+  const cutInSpeed = asset.cutInSpeed ?? 3;
+  const ratedSpeed = asset.ratedSpeed ?? 12;
+  const cutOutSpeed = asset.cutOutSpeed ?? 25;
   
-  return basePower * densityRatio;
+  if (windSpeed < cutInSpeed || windSpeed > cutOutSpeed) {
+    return 0;
+  }
+  if (windSpeed <= ratedSpeed) {
+    return 0.8;
+  }
+  return 0.8 * Math.pow(ratedSpeed / windSpeed, 3);
 }
 
 /**
  * Generate wind power forecast from weather data
  * 
+ * The shear exponent is fitted hour by hour from the wind speeds at 10, 50,
+ * 80, 100 and 120 m, whichever are available, and the profile is interpolated
+ * to hub height. Hours with a single wind level fall back to α = 0.14.
+ * The hub-height wind speed is then normalised to standard air density
+ * before reading the power curve.
+ * 
+ * For a wind farm, the rated capacity is shared equally between the
+ * turbines and the wind speed at each turbine is reduced by the wakes of
+ * the turbines upwind of it (see wakeModel.ts). Hours without a wind
+ * direction are treated as free of wakes.
+ * 
+ * Above cut-out the turbine follows the high-wind controller instead of
+ * the power curve: it stops on the hourly mean or the hub-height gust and
+ * restarts at a lower speed after a delay, so the hours must be
+ * consecutive. With gusts available, the curve is averaged over the
+ * turbulence implied by the gust factor (see turbulenceModel.ts). A farm
+ * is controlled on the free-stream wind.
+ * 
+ * Ice accreted on the rotor in sub-zero cloud, fog or freezing rain cuts
+ * the remaining output until it melts or sublimates (see icingModel.ts).
+ * 
  * @param asset - Wind asset configuration
  * @param weatherData - Array of hourly weather data
- * @param referenceHeight - Height at which wind speed is measured (default 10m)
+ * @param location - Site location; its elevation sets the density when pressure is missing
+ * @param referenceHeight - Height at which `windSpeed` is measured (default 10m)
  * @returns Array of power outputs
  */
 export function generateWindForecast(
   asset: WindAsset,
   weatherData: HourlyWeatherData[],
+  location?: Location,
   referenceHeight: number = 10
 ): PowerOutput[] {
+  // Farm layout and the single turbine every position shares
+  const turbineAsset: WindAsset = { ...asset, ratedCapacity: asset.ratedCapacity / countTurbines(asset), farm: undefined };
+  const rotorDiameter = asset.rotorDiameter ?? estimateRotorDiameter(turbineAsset.ratedCapacity);
+  const positions = resolveTurbinePositions(asset);
+  const wakeModel = asset.farm?.wakeModel ?? 'jensen';
+  const wakeDecay = asset.farm?.wakeDecay ?? DEFAULT_WAKE_DECAY[wakeModel];
+  
+  // High-wind shutdown is decided by the controller, so the curve is read
+  // as if the turbine kept running above cut-out
+  const cutOutSpeed = getCutOutSpeed(asset);
+  const highWindLimits = resolveHighWindLimits(asset.highWind, cutOutSpeed);
+  const turbulenceCorrection = asset.highWind?.turbulenceCorrection ?? true;
+  let highWindState = INITIAL_HIGH_WIND_STATE;
+  const icingEnabled = asset.icing?.enabled ?? true;
+  let iceLoad = 0;
+  
   return weatherData.map((hour) => {
     let power = 0;
+    let windSpeedAtHub: number | undefined;
+    let shearExponent: number | undefined;
+    let turbinePower: number[] | undefined;
+    let wakeLoss: number | undefined;
+    let highWindStatus: HighWindStatus | undefined;
+    let highWindLoss: number | undefined;
+    let icingRisk: IcingRisk | undefined;
+    let icingLoss: number | undefined;
+    const airDensity = calculateHubAirDensity(hour, asset.hubHeight, location?.elevation);
     
-    if (hour.windSpeed !== undefined && hour.windSpeed > 0) {
-      // Extrapolate wind speed to hub height
-      const windSpeedAtHub = extrapolateWindSpeed(
-        hour.windSpeed,
-        referenceHeight,
-        asset.hubHeight
+    const samples = getWindSpeedSamples(hour, referenceHeight);
+    if (samples.length > 0) {
+      // Fit the shear profile and interpolate to hub height
+      const fitted = fitShearExponent(samples);
+      shearExponent = fitted ?? undefined;
+      windSpeedAtHub = Math.max(
+        0,
+        interpolateWindSpeed(samples, asset.hubHeight, fitted ?? DEFAULT_SHEAR_EXPONENT)
       );
+    }
+    
+    // Gust and turbulence at hub height from the 10 m gust factor
+    const turbulence = windSpeedAtHub !== undefined
+      ? estimateHubTurbulence(windSpeedAtHub, hour.windSpeed10m ?? hour.windSpeed, hour.windGusts)
+      : undefined;
+    
+    // Read the power curve at the density-normalised wind speed
+    const toCurveSpeed = (windSpeed: number) =>
+      airDensity !== undefined ? normalizeWindSpeedForDensity(windSpeed, airDensity) : windSpeed;
+    const operatingPower = (windSpeed: number, turbine: WindAsset) => {
+      const curve = (v: number) => calculateWindPower(Math.min(v, cutOutSpeed), turbine);
+      return turbulence && turbulenceCorrection
+        ? calculateTurbulentPower(toCurveSpeed(windSpeed), turbulence.turbulenceIntensity, curve)
+        : curve(toCurveSpeed(windSpeed));
+    };
+    
+    if (positions) {
+      const freeStream = windSpeedAtHub ?? 0;
+      const speeds = freeStream > 0 && hour.windDirection !== undefined
+        ? calculateWakeWindSpeeds(
+            positions,
+            freeStream,
+            hour.windDirection,
+            rotorDiameter,
+            (v) => calculateThrustCoefficient(toCurveSpeed(v), turbineAsset),
+            wakeModel,
+            wakeDecay
+          )
+        : positions.map(() => freeStream);
       
-      // Calculate base power
-      power = calculateWindPower(windSpeedAtHub, asset);
+      turbinePower = speeds.map((v) => (v > 0 ? operatingPower(v, turbineAsset) : 0));
+      power = turbinePower.reduce((sum, p) => sum + p, 0);
       
-      // Apply air density correction if temperature is available
-      if (hour.temperature !== undefined) {
-        power = applyAirDensityCorrection(power, hour.temperature);
+      const freeStreamPower = freeStream > 0
+        ? positions.length * operatingPower(freeStream, turbineAsset)
+        : 0;
+      wakeLoss = freeStreamPower > 0 ? Math.max(0, (1 - power / freeStreamPower) * 100) : 0;
+    } else if (windSpeedAtHub !== undefined && windSpeedAtHub > 0) {
+      power = operatingPower(windSpeedAtHub, asset);
+    }
+    
+    // High-wind shutdown with hysteresis on the free-stream wind
+    if (windSpeedAtHub !== undefined) {
+      const step = stepHighWindControl(highWindState, windSpeedAtHub, turbulence?.gust, highWindLimits);
+      highWindState = step.state;
+      highWindStatus = step.status;
+      if (highWindStatus === 'shutdown') {
+        highWindLoss = power;
+        power = 0;
+        turbinePower = turbinePower?.map(() => 0);
       }
     }
     
+    // Ice on the rotor
+    if (icingEnabled) {
+      icingRisk = classifyIcingRisk(hour, asset.hubHeight);
+      iceLoad = updateIceLoad(iceLoad, icingRisk, hour, asset.hubHeight, asset.icing);
+      const lossFraction = calculateIcingLoss(iceLoad);
+      icingLoss = power * lossFraction;
+      power -= icingLoss;
+      turbinePower = turbinePower?.map((p) => p * (1 - lossFraction));
+    }
+    
     const capacity = asset.ratedCapacity > 0 ? (power / asset.ratedCapacity) * 100 : 0;
     
     return {
       time: hour.time,
       power: Math.max(0, power),
-      capacity: Math.min(100, Math.max(0, capacity))
+      capacity: Math.min(100, Math.max(0, capacity)),
+      hubWindSpeed: windSpeedAtHub,
+      shearExponent,
+      airDensity,
+      turbinePower,
+      wakeLoss,
+      hubGust: turbulence?.gust,
+      turbulenceIntensity: turbulence?.turbulenceIntensity,
+      highWindStatus,
+      highWindLoss,
+      icingRisk,
+      iceLoad: icingEnabled ? iceLoad : undefined,
+      icingLoss
     };
   });
 }
 
+/** Width of the wind speed bins used to integrate the power curve (m/s) */
+const INTEGRATION_BIN_WIDTH = 0.25;
+
+/** Upper wind speed limit of the integration (m/s) */
+const INTEGRATION_MAX_WIND_SPEED = 40;
+
 /**
- * Calculate average wind power production for a given average wind speed
+ * Calculate average wind power production over a Weibull distribution
  * Used for long-term viability analysis
  * 
+ * The power curve is integrated over the distribution in bins:
+ * P̄ = Σ P(v_i) × [F(v_i + Δv/2) - F(v_i - Δv/2)]
+ * 
+ * Where:
+ * - P(v) = power curve at the density-normalised wind speed
+ * - F(v) = Weibull cumulative distribution
+ * - Δv = 0.25 m/s
+ * 
  * @param asset - Wind asset configuration
- * @param averageWindSpeed - Average wind speed at hub height (m/s)
+ * @param weibull - Weibull fit of the wind speed at hub height
+ * @param airDensity - Mean air density in kg/m³ (default 1.225)
  * @returns Average power output in MW
  */
 export function calculateAverageWindPower(
   asset: WindAsset,
-  averageWindSpeed: number
+  weibull: WeibullParameters,
+  airDensity: number = STANDARD_AIR_DENSITY
 ): number {
-  // For long-term averages, we use a simplified approach
-  // In reality, you would integrate over a Weibull distribution
-  // This is a simplified approximation
-  return calculateWindPower(averageWindSpeed, asset);
+  let power = 0;
+  
+  for (let lower = 0; lower < INTEGRATION_MAX_WIND_SPEED; lower += INTEGRATION_BIN_WIDTH) {
+    const upper = lower + INTEGRATION_BIN_WIDTH;
+    const probability = weibullCdf(upper, weibull) - weibullCdf(lower, weibull);
+    const windSpeed = normalizeWindSpeedForDensity((lower + upper) / 2, airDensity);
+    power += calculateWindPower(windSpeed, asset) * probability;
+  }
+  
+  return power;
+}
+
+/**
+ * Mean air density by calendar month
+ * 
+ * @param outputs - Hourly wind power outputs (time in "YYYY-MM-DDTHH:MM" form)
+ * @returns Mean air density for each month (1-12) in kg/m³, 1.225 for months without data
+ */
+export function calculateMonthlyAirDensity(outputs: PowerOutput[]): Record<number, number> {
+  const densities: Record<number, number> = {};
+  
+  for (let month = 1; month <= 12; month++) {
+    const values = outputs
+      .filter((o) => parseInt(o.time.slice(5, 7), 10) === month && o.airDensity !== undefined)
+      .map((o) => o.airDensity as number);
+    densities[month] = values.length > 0
+      ? values.reduce((sum, rho) => sum + rho, 0) / values.length
+      : STANDARD_AIR_DENSITY;
+  }
+  
+  return densities;
+}
+
+/**
+ * Energy-weighted wake loss of a wind farm by calendar month
+ * 
+ * @param outputs - Hourly wind farm outputs (time in "YYYY-MM-DDTHH:MM" form)
+ * @returns Wake loss in percent of free-stream energy for each month (1-12), 0 for months without data
+ */
+export function calculateMonthlyWakeLoss(outputs: PowerOutput[]): Record<number, number> {
+  const totals: Record<number, { net: number; gross: number }> = {};
+  for (let month = 1; month <= 12; month++) {
+    totals[month] = { net: 0, gross: 0 };
+  }
+  
+  outputs.forEach((output) => {
+    const month = parseInt(output.time.slice(5, 7), 10);
+    const wakeLoss = output.wakeLoss ?? 0;
+    if (totals[month] && wakeLoss < 100) {
+      totals[month].net += output.power;
+      totals[month].gross += output.power / (1 - wakeLoss / 100);
+    }
+  });
+  
+  const losses: Record<number, number> = {};
+  for (let month = 1; month <= 12; month++) {
+    losses[month] = totals[month].gross > 0
+      ? (1 - totals[month].net / totals[month].gross) * 100
+      : 0;
+  }
+  
+  return losses;
+}
+
+/**
+ * Energy-weighted icing loss by calendar month
+ * 
+ * @param outputs - Hourly wind outputs (time in "YYYY-MM-DDTHH:MM" form)
+ * @returns Icing loss in percent of the energy before icing for each month (1-12), 0 for months without data
+ */
+export function calculateMonthlyIcingLoss(outputs: PowerOutput[]): Record<number, number> {
+  const totals: Record<number, { net: number; gross: number }> = {};
+  for (let month = 1; month <= 12; month++) {
+    totals[month] = { net: 0, gross: 0 };
+  }
+  
+  outputs.forEach((output) => {
+    const month = parseInt(output.time.slice(5, 7), 10);
+    if (totals[month]) {
+      totals[month].net += output.power;
+      totals[month].gross += output.power + (output.icingLoss ?? 0);
+    }
+  });
+  
+  const losses: Record<number, number> = {};
+  for (let month = 1; month <= 12; month++) {
+    losses[month] = totals[month].gross > 0
+      ? (1 - totals[month].net / totals[month].gross) * 100
+      : 0;
+  }
+  
+  return losses;
 }
 
 /**
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyWeatherData } from '@/types';
+import { STANDARD_AIR_DENSITY } from '@/lib/models/windModel';
+import { calculateWindRose, getCompassLabel, getDirectionSector } from '@/lib/models/windRoseModel';
+
+/** Hourly records from (speed, direction) pairs, without air density inputs */
+function winds(pairs: [number, number][]): HourlyWeatherData[] {
+  return pairs.map(([windSpeed, windDirection], i) => ({
+    time: `2024-01-01T${String(i).padStart(2, '0')}:00`,
+    windSpeed,
+    windDirection
+  }));
+}
+
+describe('getDirectionSector', () => {
+  it('centres the first sector on north and wraps across 360°', () => {
+    // 12 sectors of 30°: north covers 345° to 15°
+    expect(getDirectionSector(0, 12)).toBe(0);
+    expect(getDirectionSector(14.9, 12)).toBe(0);
+    expect(getDirectionSector(345, 12)).toBe(0);
+    expect(getDirectionSector(359.9, 12)).toBe(0);
+    expect(getDirectionSector(360, 12)).toBe(0);
+    expect(getDirectionSector(344.9, 12)).toBe(11);
+  });
+
+  it('puts a sector edge in the sector clockwise of it', () => {
+    expect(getDirectionSector(15, 12)).toBe(1);
+    expect(getDirectionSector(11.25, 16)).toBe(1);
+    expect(getDirectionSector(191.25, 16)).toBe(9);
+  });
+
+  it('normalises negative and overflowing directions', () => {
+    expect(getDirectionSector(-10, 12)).toBe(0);
+    expect(getDirectionSector(-90, 12)).toBe(9);
+    expect(getDirectionSector(450, 12)).toBe(3);
+  });
+});
+
+describe('getCompassLabel', () => {
+  it('names the 16 compass points', () => {
+    expect(getCompassLabel(0)).toBe('N');
+    expect(getCompassLabel(22.5)).toBe('NNE');
+    expect(getCompassLabel(270)).toBe('W');
+    expect(getCompassLabel(350)).toBe('N');
+  });
+});
+
+describe('calculateWindRose', () => {
+  it('counts calm hours apart from the sectors', () => {
+    const rose = calculateWindRose(winds([[0.2, 90], [0.4, 180], [5, 90], [7, 90]]));
+
+    expect(rose.hours).toBe(4);
+    expect(rose.calmFrequency).toBe(50);
+    expect(rose.sectors[3].frequency).toBe(50);
+    expect(rose.sectors[3].meanSpeed).toBe(6);
+    expect(rose.sectors[6].frequency).toBe(0);
+  });
+
+  it('bins the north sector from both sides of 360°', () => {
+    const rose = calculateWindRose(winds([[4, 350], [4, 355], [4, 5], [4, 10]]));
+
+    expect(rose.sectors[0].direction).toBe(0);
+    expect(rose.sectors[0].frequency).toBe(100);
+    expect(rose.sectors[11].frequency).toBe(0);
+  });
+
+  it('splits each sector into speed classes', () => {
+    // Classes 0-3, 3-6, 6-9, 9-12, 12-15, 15+
+    const rose = calculateWindRose(winds([[2, 0], [3, 0], [5.9, 0], [12, 0], [25, 0]]));
+
+    expect(rose.sectors[0].speedFrequencies).toEqual([20, 40, 0, 0, 20, 20]);
+    const total = rose.sectors.reduce(
+      (sum, sector) => sum + sector.speedFrequencies.reduce((a, b) => a + b, 0),
+      0
+    );
+    expect(total + rose.calmFrequency).toBeCloseTo(100, 10);
+  });
+
+  it('uses 16 sectors and custom speed classes', () => {
+    const rose = calculateWindRose(winds([[4, 22.5], [8, 22.5]]), { sectors: 16, speedBins: [0, 5] });
+
+    expect(rose.sectors).toHaveLength(16);
+    expect(rose.sectors[1].direction).toBe(22.5);
+    expect(rose.sectors[1].speedFrequencies).toEqual([50, 50]);
+  });
+
+  it('sums the kinetic energy flux per square metre without an asset', () => {
+    const rose = calculateWindRose(winds([[10, 0], [10, 180], [10, 180], [0.3, 90]]));
+
+    // ½ × 1.225 × 10³ × 1 h = 0.6125 kWh/m²
+    const hourEnergy = (0.5 * STANDARD_AIR_DENSITY * 1000) / 1000;
+    expect(rose.energyUnit).toBe('kWh/m²');
+    expect(rose.height).toBe(10);
+    expect(rose.sectors[0].energy).toBeCloseTo(hourEnergy, 10);
+    expect(rose.sectors[6].energy).toBeCloseTo(2 * hourEnergy, 10);
+    expect(rose.sectors[6].energyShare).toBeCloseTo(200 / 3, 10);
+  });
+
+  it('skips hours without speed or direction', () => {
+    const data: HourlyWeatherData[] = [
+      ...winds([[5, 90]]),
+      { time: '2024-01-01T01:00', windSpeed: 5 },
+      { time: '2024-01-01T02:00', windDirection: 90 }
+    ];
+    const rose = calculateWindRose(data);
+
+    expect(rose.hours).toBe(1);
+    expect(rose.sectors[3].frequency).toBe(100);
+    expect(rose.timeRange).toEqual({ start: '2024-01-01T00:00', end: '2024-01-01T02:00' });
+  });
+
+  it('returns an empty rose for no data', () => {
+    const rose = calculateWindRose([]);
+
+    expect(rose.hours).toBe(0);
+    expect(rose.calmFrequency).toBe(0);
+    expect(rose.sectors.every((sector) => sector.frequency === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  HourlyWeatherData,
+  Location,
+  WindAsset,
+  WindRose,
+  WindRoseSector,
+  WindRoseSectorCount
+} from '@/types';
+import {
+  STANDARD_AIR_DENSITY,
+  calculateHubAirDensity,
+  generateWindForecast
+} from '@/lib/models/windModel';
+
+/**
+ * Wind Rose Model
+ *
+ * This module bins hourly wind records by the direction the wind blows from
+ * and summarises each sector by its frequency, mean speed and energy. Each
+ * sector is also split into speed classes for a stacked rose.
+ *
+ * Energy per sector is the turbine output when an asset is given (wind
+ * speed at hub height), otherwise the kinetic energy flux through one square
+ * metre of rotor area at the reference height:
+ * E = Σ ½ × ρ × v³ × 1 h
+ *
+ * Hours with a wind speed below 0.5 m/s are counted as calm and left out of
+ * the sectors, as in WMO practice.
+ *
+ * References:
+ * - WMO (2018). Guide to Instruments and Methods of Observation (WMO-No. 8), Volume I, Chapter 5
+ * - Manwell, J. F., McGowan, J. G., & Rogers, A. L. (2009). Wind Energy Explained, Section 2.4
+ */
+
+/**
+ * Weather fields read for a rose without an asset: the 10 m wind and the
+ * air density inputs (an asset needs WIND_WEATHER_VARIABLES)
+ */
+export const WIND_ROSE_WEATHER_VARIABLES: (keyof HourlyWeatherData)[] = [
+  'windSpeed',
+  'windSpeed10m',
+  'windDirection',
+  'temperature',
+  'surfacePressure',
+  'relativeHumidity'
+];
+
+/** Wind speed below which an hour counts as calm (m/s) */
+const CALM_THRESHOLD = 0.5;
+
+/** Default lower edges of the speed classes (m/s) */
+export const DEFAULT_SPEED_BINS = [0, 3, 6, 9, 12, 15];
+
+export interface WindRoseOptions {
+  sectors?: WindRoseSectorCount; // default 12
+  speedBins?: number[]; // lower edges in m/s
+  asset?: WindAsset; // turbine energy at hub height instead of wind energy at 10 m
+  location?: Location; // elevation for air density without pressure
+}
+
+/**
+ * Index of the direction sector containing a wind direction
+ *
+ * @param direction - Direction the wind blows from, degrees from north
+ * @param sectorCount - Number of equal sectors, the first centred on north
+ * @returns Sector index 0 to sectorCount - 1
+ */
+export function getDirectionSector(direction: number, sectorCount: number): number {
+  const width = 360 / sectorCount;
+  const normalized = ((direction % 360) + 360) % 360;
+  return Math.floor((normalized + width / 2) / width) % sectorCount;
+}
+
+/**
+ * Compass label of a sector centre, e.g. "NNE"
+ *
+ * @param direction - Sector centre, degrees from north
+ * @returns 16-point compass label
+ */
+export function getCompassLabel(direction: number): string {
+  const labels = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  return labels[getDirectionSector(direction, 16)];
+}
+
+/**
+ * Calculate a wind rose from hourly weather data
+ *
+ * @param weatherData - Hourly weather records with wind speed and direction
+ * @param options - Sector count, speed classes and optional wind asset
+ * @returns Wind rose with one entry per sector
+ */
+export function calculateWindRose(
+  weatherData: HourlyWeatherData[],
+  options: WindRoseOptions = {}
+): WindRose {
+  const sectorCount = options.sectors ?? 12;
+  const speedBins = options.speedBins ?? DEFAULT_SPEED_BINS;
+  const asset = options.asset;
+
+  // Wind speed and energy of each hour, at hub height for a turbine
+  const outputs = asset ? generateWindForecast(asset, weatherData, options.location) : null;
+  const height = asset ? asset.hubHeight : 10;
+
+  const totals = Array.from({ length: sectorCount }, () => ({
+    hours: 0,
+    speedSum: 0,
+    energy: 0,
+    bins: new Array(speedBins.length).fill(0) as number[]
+  }));
+  let hours = 0;
+  let calmHours = 0;
+
+  weatherData.forEach((hour, index) => {
+    const speed = outputs ? outputs[index].hubWindSpeed : hour.windSpeed;
+    if (speed === undefined || hour.windDirection === undefined) return;
+
+    hours++;
+    if (speed < CALM_THRESHOLD) {
+      calmHours++;
+      return;
+    }
+
+    const airDensity = calculateHubAirDensity(hour, 0, options.location?.elevation) ?? STANDARD_AIR_DENSITY;
+    const energy = outputs ? outputs[index].power : (0.5 * airDensity * Math.pow(speed, 3)) / 1000;
+
+    const sector = totals[getDirectionSector(hour.windDirection, sectorCount)];
+    sector.hours++;
+    sector.speedSum += speed;
+    sector.energy += energy;
+
+    let bin = speedBins.length - 1;
+    while (bin > 0 && speed < speedBins[bin]) bin--;
+    sector.bins[bin]++;
+  });
+
+  const totalEnergy = totals.reduce((sum, t) => sum + t.energy, 0);
+  const sectors: WindRoseSector[] = totals.map((t, i) => ({
+    direction: (i * 360) / sectorCount,
+    frequency: hours > 0 ? (t.hours / hours) * 100 : 0,
+    meanSpeed: t.hours > 0 ? t.speedSum / t.hours : 0,
+    energy: t.energy,
+    energyShare: totalEnergy > 0 ? (t.energy / totalEnergy) * 100 : 0,
+    speedFrequencies: t.bins.map((count) => (hours > 0 ? (count / hours) * 100 : 0))
+  }));
+
+  return {
+    sectors,
+    speedBins,
+    height,
+    hours,
+    calmFrequency: hours > 0 ? (calmHours / hours) * 100 : 0,
+    energyUnit: asset ? 'MWh' : 'kWh/m²',
+    timeRange: {
+      start: weatherData[0]?.time ?? '',
+      end: weatherData[weatherData.length - 1]?.time ?? ''
+    }
+  };
+}
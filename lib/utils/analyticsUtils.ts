@@ -41,9 +41,13 @@ export function calculateROI(
   const isSolar = analysis.asset.type === "solar";
 
   // Calculate total investment
-  const systemSize = isSolar
-    ? (analysis.asset as any).dcCapacity
-    : (analysis.asset as any).ratedCapacity * 1000; // Convert MW to kW
+  const systemSize =
+    analysis.asset.type === "solar"
+      ? analysis.asset.dcCapacity
+      : analysis.asset.type === "hybrid"
+      ? analysis.asset.solar.dcCapacity +
+        analysis.asset.wind.ratedCapacity * 1000 // Both parts are built
+      : analysis.asset.ratedCapacity * 1000; // Convert MW to kW
 
   const totalInvestment = systemSize * costPerKW;
 
@@ -154,8 +158,10 @@ export function analyzePeakProduction(forecast: PowerForecast): PeakAnalysis {
   // Calculate capacity
   const capacity =
     forecast.asset.type === "solar"
-      ? (forecast.asset as any).dcCapacity
-      : (forecast.asset as any).ratedCapacity * 1000; // Convert MW to kW
+      ? forecast.asset.dcCapacity
+      : forecast.asset.type === "hybrid"
+      ? forecast.asset.interconnectionLimit * 1000 // Export limit, MW to kW
+      : forecast.asset.ratedCapacity * 1000; // Convert MW to kW
 
   // Count productive hours (>50% capacity)
   const productiveHours = powers.filter((p) => p > capacity * 0.5).length;
@@ -227,7 +233,7 @@ export function analyzeSeasonalTrends(
  * Generate production alerts
  */
 export interface ProductionAlert {
-  type: "warning" | "info" | "success";
+  type: "warning" | "info" | "success" | "icing";
   title: string;
   message: string;
   timestamp: string;
@@ -286,7 +292,7 @@ export function generateProductionAlerts(
   const hasHighWind = forecast.meteorologicalData.some(
     (m) => m.windSpeed && m.windSpeed > 20
   );
-  if (hasHighWind && forecast.asset.type === "wind") {
+  if (hasHighWind && forecast.asset.type !== "solar") {
     alerts.push({
       type: "warning",
       title: "High Wind Speed Alert",
@@ -296,6 +302,49 @@ export function generateProductionAlerts(
     });
   }
 
+  // Icing conditions at hub height
+  const icingHours = forecast.outputs.filter(
+    (o) => o.icingRisk !== undefined && o.icingRisk !== "none"
+  );
+  if (icingHours.length > 0 && forecast.asset.type !== "solar") {
+    const severeHours = icingHours.filter(
+      (o) => o.icingRisk === "severe"
+    ).length;
+    const icingEnergyLoss = forecast.outputs.reduce(
+      (sum, o) => sum + (o.icingLoss ?? 0),
+      0
+    );
+    alerts.push({
+      type: "icing",
+      title: "Turbine Icing Risk",
+      message: `${icingHours.length} hours of icing conditions at hub height expected in the next 48 hours${
+        severeHours > 0 ? ` (${severeHours} severe)` : ""
+      }, starting ${new Date(
+        icingHours[0].time
+      ).toLocaleString()}. Estimated icing loss: ${icingEnergyLoss.toFixed(
+        2
+      )} MWh.`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Hybrid output above the interconnection limit
+  const hybrid = forecast.hybrid;
+  if (forecast.asset.type === "hybrid" && hybrid && hybrid.curtailedHours > 0) {
+    alerts.push({
+      type: "warning",
+      title: "Interconnection Curtailment",
+      message: `Combined solar and wind output exceeds the ${
+        forecast.asset.interconnectionLimit
+      } MW export limit for ${
+        hybrid.curtailedHours
+      } hours in the next 48 hours, curtailing ${hybrid.curtailedEnergy.toFixed(
+        2
+      )} MWh (${hybrid.curtailmentPercent.toFixed(1)}%).`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   const hasLowIrradiance = forecast.meteorologicalData.some(
     (m) => m.solarIrradiance && m.solarIrradiance < 100
   );
@@ -8,6 +8,7 @@ import {
   AtmosphericResearchData,
   Location,
 } from "@/types";
+import { calculateWindRose } from "@/lib/models/windRoseModel";
 
 /**
  * Atmospheric Research Utilities
@@ -333,7 +334,13 @@ export function generateDataQualityReport(
 
     // Check all variables for completeness and validity
     Object.keys(record).forEach((key) => {
-      if (key === "time" || key === "dataQuality" || key === "missingDataFlags")
+      if (
+        key === "time" ||
+        key === "sunrise" ||
+        key === "sunset" ||
+        key === "dataQuality" ||
+        key === "missingDataFlags"
+      )
         return;
 
       const value = (record as any)[key];
@@ -424,6 +431,8 @@ export function generateAtmosphericResearchData(
     "diffuseRadiation",
     "uvIndex",
     "visibility",
+    "solarElevation",
+    "solarAzimuth",
   ];
 
   variableKeys.forEach((key) => {
@@ -479,6 +488,11 @@ export function generateAtmosphericResearchData(
   // Generate data quality report
   const dataQuality = generateDataQualityReport(weatherData);
 
+  // Directional frequency of the wind
+  const windRose = weatherData.some((d) => d.windDirection !== undefined)
+    ? calculateWindRose(weatherData, { location })
+    : undefined;
+
   return {
     location,
     timeRange,
@@ -488,5 +502,6 @@ export function generateAtmosphericResearchData(
     trends,
     anomalies,
     dataQuality,
+    windRose,
   };
 }
@@ -12,22 +12,25 @@ import {
   BorderStyle,
   PageBreak,
   convertInchesToTwip,
+  ImageRun,
 } from "docx";
 import {
   PowerForecast,
   LongTermAnalysis,
   AtmosphericResearchData,
 } from "@/types";
+import { getCompassLabel } from "@/lib/models/windRoseModel";
+import { renderWindRoseImage } from "@/lib/utils/windRoseChart";
 
 /**
  * DOCX Export Utilities for Atmospheric Science Research
  *
  * Professional Word document reports for editing and customization
- * Matches the comprehensive structure of the PDF report (without embedded images)
+ * Matches the comprehensive structure of the PDF report
  * Suitable for EB2-NIW green card applications and research documentation
  *
- * Note: Charts and visualizations are not embedded to allow for easy editing.
- * Use PDF export for reports with embedded charts.
+ * Note: Only the wind rose is embedded as an image; other charts are left out
+ * to allow for easy editing. Use PDF export for reports with embedded charts.
  */
 
 /**
@@ -479,6 +482,87 @@ export async function generateAtmosphericResearchDOCX(
       );
     }
 
+    // ========== WIND ROSE ==========
+    if (researchData?.windRose) {
+      const rose = researchData.windRose;
+      const image = renderWindRoseImage(rose, "Wind Rose");
+
+      sections.push(
+        new Paragraph({
+          children: [new PageBreak()],
+        }),
+        new Paragraph({
+          text: "Wind Rose (48-Hour Forecast)",
+          heading: HeadingLevel.HEADING_1,
+          spacing: { before: 200, after: 200 },
+        }),
+        new Paragraph({
+          children: [
+            new ImageRun({
+              type: "png",
+              data: Uint8Array.from(atob(image.split(",")[1]), (c) =>
+                c.charCodeAt(0)
+              ),
+              transformation: { width: 400, height: 400 },
+            }),
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 },
+        })
+      );
+
+      const roseRows: TableRow[] = [
+        new TableRow({
+          children: [
+            createHeaderCell("Sector"),
+            createHeaderCell("Frequency %"),
+            createHeaderCell("Mean Speed (m/s)"),
+            createHeaderCell(`Energy (${rose.energyUnit})`),
+            createHeaderCell("Energy Share %"),
+          ],
+        }),
+      ];
+
+      rose.sectors.forEach((sector) => {
+        roseRows.push(
+          new TableRow({
+            children: [
+              createTableCell(
+                `${getCompassLabel(sector.direction)} (${sector.direction}°)`
+              ),
+              createTableCell(sector.frequency.toFixed(1)),
+              createTableCell(sector.meanSpeed.toFixed(1)),
+              createTableCell(sector.energy.toFixed(2)),
+              createTableCell(sector.energyShare.toFixed(1)),
+            ],
+          })
+        );
+      });
+
+      sections.push(
+        new Table({
+          rows: roseRows,
+          width: {
+            size: 100,
+            type: WidthType.PERCENTAGE,
+          },
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `Wind speed at ${
+                rose.height
+              } m. Calm (< 0.5 m/s): ${rose.calmFrequency.toFixed(1)}% of ${
+                rose.hours
+              } hours`,
+              italics: true,
+            }),
+          ],
+          spacing: { before: 200, after: 300 },
+        })
+      );
+    }
+
     // ========== POWER FORECAST SUMMARY ==========
     sections.push(
       new Paragraph({
@@ -1,4 +1,14 @@
-import { PowerForecast, LongTermAnalysis, PowerOutput } from "@/types";
+import {
+  PowerForecast,
+  LongTermAnalysis,
+  PowerOutput,
+  HybridSummary,
+  BatterySummary,
+} from "@/types";
+import {
+  calculateTotalLossPercentage,
+  resolveLosses,
+} from "@/lib/models/lossModel";
 
 /**
  * Export forecast data to CSV format
@@ -12,10 +22,28 @@ export function exportForecastToCSV(forecast: PowerForecast): void {
     "Wind Speed (m/s)",
     "Cloud Cover (%)",
     "Precipitation (mm)",
+    "Cell Temperature (°C)",
+    "Front DC (kW)",
+    "Rear DC (kW)",
+    "Soiling Loss (%)",
+    "Snow Loss (%)",
+    "Wake Loss (%)",
+    "Turbulence Intensity (%)",
+    "High-Wind Status",
+    "Icing Risk",
+    "Solar (MW)",
+    "Wind (MW)",
+    "Curtailed (MW)",
+    "Battery Charge",
+    "Battery Discharge",
+    "Battery SOC (%)",
+    "Delivered Power",
   ];
 
   const rows = forecast.outputs.map((output, index) => {
     const meteo = forecast.meteorologicalData[index];
+    // Array details of a solar asset or of the solar part of a hybrid
+    const solarOutput = output.solar ?? output;
     // Format timestamp properly - handle both string and Date objects
     let formattedTime = output.time;
     try {
@@ -43,6 +71,28 @@ export function exportForecastToCSV(forecast: PowerForecast): void {
       meteo?.windSpeed?.toFixed(1) || "N/A",
       meteo?.cloudCover?.toFixed(0) || "N/A",
       meteo?.precipitation?.toFixed(2) || "N/A",
+      solarOutput.cellTemperature?.toFixed(1) || "N/A",
+      solarOutput.frontPower?.toFixed(2) || "N/A",
+      solarOutput.rearPower?.toFixed(2) || "N/A",
+      solarOutput.soilingLoss !== undefined
+        ? (solarOutput.soilingLoss * 100).toFixed(2)
+        : "N/A",
+      solarOutput.snowLoss !== undefined
+        ? (solarOutput.snowLoss * 100).toFixed(0)
+        : "N/A",
+      output.wakeLoss !== undefined ? output.wakeLoss.toFixed(1) : "N/A",
+      output.turbulenceIntensity !== undefined
+        ? (output.turbulenceIntensity * 100).toFixed(1)
+        : "N/A",
+      output.highWindStatus || "N/A",
+      output.icingRisk || "N/A",
+      output.solarPower?.toFixed(3) || "N/A",
+      output.windPower?.toFixed(3) || "N/A",
+      output.curtailedPower?.toFixed(3) || "N/A",
+      output.batteryCharge?.toFixed(3) || "N/A",
+      output.batteryDischarge?.toFixed(3) || "N/A",
+      output.batterySoc?.toFixed(1) || "N/A",
+      output.deliveredPower?.toFixed(3) || "N/A",
     ];
   });
 
@@ -199,12 +249,26 @@ Generated: ${new Date().toLocaleString()}
 - Total Energy: ${totalProduction.toFixed(2)} ${
     forecast.asset.type === "solar" ? "kWh" : "MWh"
   }
-
+${forecast.hybrid ? `\n${formatHybridSummary(forecast.hybrid, "MWh")}\n` : ""}${
+    forecast.battery
+      ? `\n${formatBatterySummary(
+          forecast.battery,
+          forecast.asset.type === "solar" ? "kWh" : "MWh"
+        )}\n`
+      : ""
+  }
 Asset Configuration:
 ${
   forecast.asset.type === "solar"
     ? `- DC Capacity: ${forecast.asset.dcCapacity} kW
-- System Losses: ${forecast.asset.systemLosses}%`
+- System Losses: ${calculateTotalLossPercentage(
+        resolveLosses(forecast.asset)
+      ).toFixed(1)}%`
+    : forecast.asset.type === "hybrid"
+    ? `- Interconnection Limit: ${forecast.asset.interconnectionLimit} MW
+- Solar DC Capacity: ${forecast.asset.solar.dcCapacity} kW
+- Wind Rated Capacity: ${forecast.asset.wind.ratedCapacity} MW
+- Hub Height: ${forecast.asset.wind.hubHeight} m`
     : `- Rated Capacity: ${forecast.asset.ratedCapacity} MW
 - Hub Height: ${forecast.asset.hubHeight} m
 - Cut-in Speed: ${forecast.asset.cutInSpeed} m/s
@@ -217,6 +281,35 @@ https://gridcast-renewables.vercel.app
   `.trim();
 }
 
+/**
+ * Per-technology contribution and curtailment lines of a hybrid plant
+ */
+function formatHybridSummary(hybrid: HybridSummary, unit: string): string {
+  const correlation = hybrid.complementarity.correlation;
+  return `Hybrid Plant:
+- Solar Contribution: ${hybrid.solarEnergy.toFixed(2)} ${unit}
+- Wind Contribution: ${hybrid.windEnergy.toFixed(2)} ${unit}
+- Curtailed at Interconnection: ${hybrid.curtailedEnergy.toFixed(
+    2
+  )} ${unit} (${hybrid.curtailmentPercent.toFixed(1)}%)
+- Solar-Wind Correlation: ${
+    correlation !== undefined ? correlation.toFixed(2) : "N/A"
+  }`;
+}
+
+/**
+ * Energy flows and ageing lines of a battery
+ */
+function formatBatterySummary(battery: BatterySummary, unit: string): string {
+  return `Battery Storage (${battery.strategy}):
+- Delivered Energy: ${battery.deliveredEnergy.toFixed(2)} ${unit}
+- Charged / Discharged: ${battery.chargedEnergy.toFixed(
+    2
+  )} / ${battery.dischargedEnergy.toFixed(2)} ${unit}
+- Equivalent Full Cycles: ${battery.equivalentCycles.toFixed(1)}
+- Capacity Fade: ${battery.capacityFade.toFixed(2)}%`;
+}
+
 /**
  * Generate long-term summary text
  */
@@ -252,12 +345,25 @@ Seasonal Insights:
 - Worst Month: ${worstMonth.month} (${worstMonth.averageProduction.toFixed(
     2
   )} ${analysis.asset.type === "solar" ? "kWh" : "MWh"})
-
+${analysis.hybrid ? `\n${formatHybridSummary(analysis.hybrid, "MWh/year")}\n` : ""}${
+    analysis.battery
+      ? `\n${formatBatterySummary(
+          analysis.battery,
+          analysis.asset.type === "solar" ? "kWh/year" : "MWh/year"
+        )}\n`
+      : ""
+  }
 Asset Configuration:
 ${
   analysis.asset.type === "solar"
     ? `- DC Capacity: ${analysis.asset.dcCapacity} kW
-- System Losses: ${analysis.asset.systemLosses}%`
+- System Losses: ${calculateTotalLossPercentage(
+        resolveLosses(analysis.asset)
+      ).toFixed(1)}%`
+    : analysis.asset.type === "hybrid"
+    ? `- Interconnection Limit: ${analysis.asset.interconnectionLimit} MW
+- Solar DC Capacity: ${analysis.asset.solar.dcCapacity} kW
+- Wind Rated Capacity: ${analysis.asset.wind.ratedCapacity} MW`
     : `- Rated Capacity: ${analysis.asset.ratedCapacity} MW
 - Hub Height: ${analysis.asset.hubHeight} m`
 }
@@ -6,6 +6,8 @@ import {
   AtmosphericResearchData,
   Location,
 } from "@/types";
+import { getCompassLabel } from "@/lib/models/windRoseModel";
+import { renderWindRoseImage } from "@/lib/utils/windRoseChart";
 
 /**
  * PDF Export Utilities for Atmospheric Science Research
@@ -275,6 +277,68 @@ export async function generateAtmosphericResearchPDF(
     });
   }
 
+  // Wind Rose
+  if (researchData?.windRose) {
+    const rose = researchData.windRose;
+    doc.addPage();
+    yPos = 20;
+
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.text("Wind Rose (48-Hour Forecast)", 20, yPos);
+    yPos += 6;
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "italic");
+    doc.text(
+      `Wind speed at ${rose.height} m. Calm (< 0.5 m/s): ${rose.calmFrequency.toFixed(
+        1
+      )}% of ${rose.hours} hours`,
+      20,
+      yPos
+    );
+    yPos += 2;
+
+    doc.addImage(
+      renderWindRoseImage(rose, "Wind Rose"),
+      "PNG",
+      50,
+      yPos,
+      110,
+      110
+    );
+    yPos += 114;
+
+    const roseData: string[][] = [
+      [
+        "Sector",
+        "Frequency %",
+        "Mean Speed (m/s)",
+        `Energy (${rose.energyUnit})`,
+        "Energy Share %",
+      ],
+    ];
+
+    rose.sectors.forEach((sector) => {
+      roseData.push([
+        `${getCompassLabel(sector.direction)} (${sector.direction}°)`,
+        sector.frequency.toFixed(1),
+        sector.meanSpeed.toFixed(1),
+        sector.energy.toFixed(2),
+        sector.energyShare.toFixed(1),
+      ]);
+    });
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [roseData[0]],
+      body: roseData.slice(1),
+      theme: "grid",
+      headStyles: { fillColor: [14, 165, 233] },
+      styles: { fontSize: 7 },
+    });
+  }
+
   // Power Forecast Summary
   if (forecast) {
     doc.addPage();
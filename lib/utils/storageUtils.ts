@@ -1,4 +1,14 @@
-import { Location, Asset, PowerForecast, LongTermAnalysis } from "@/types";
+import {
+  Location,
+  Asset,
+  PowerForecast,
+  LongTermAnalysis,
+  PVModuleSpec,
+} from "@/types";
+import {
+  calculateTotalLossPercentage,
+  resolveLosses,
+} from "@/lib/models/lossModel";
 
 export interface SavedLocation {
   id: string;
@@ -20,6 +30,7 @@ const STORAGE_KEYS = {
   FAVORITES: "gridcast_favorites",
   COMPARISON_SLOTS: "gridcast_comparison_slots",
   PREFERENCES: "gridcast_preferences",
+  CUSTOM_MODULES: "gridcast_custom_modules",
 };
 
 /**
@@ -131,7 +142,11 @@ function generateLocationId(location: Location, asset: Asset): string {
   )}`;
   const assetStr =
     asset.type === "solar"
-      ? `solar_${asset.dcCapacity}_${asset.systemLosses}`
+      ? `solar_${asset.dcCapacity}_${calculateTotalLossPercentage(
+          resolveLosses(asset)
+        ).toFixed(2)}`
+      : asset.type === "hybrid"
+      ? `hybrid_${asset.interconnectionLimit}_${asset.solar.dcCapacity}_${asset.wind.ratedCapacity}`
       : `wind_${asset.ratedCapacity}_${asset.hubHeight}`;
   return `${locStr}_${assetStr}`;
 }
@@ -180,6 +195,40 @@ export function clearAllComparisonSlots(): void {
   );
 }
 
+/**
+ * Get imported PV module records
+ */
+export function getCustomModules(): PVModuleSpec[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.CUSTOM_MODULES);
+    return data ? JSON.parse(data) : [];
+  } catch (err) {
+    console.error("Failed to load custom modules:", err);
+    return [];
+  }
+}
+
+/**
+ * Save an imported PV module record, replacing any record with the same ID
+ */
+export function saveCustomModule(module: PVModuleSpec): PVModuleSpec[] {
+  const updated = [
+    ...getCustomModules().filter((m) => m.id !== module.id),
+    module,
+  ];
+  localStorage.setItem(STORAGE_KEYS.CUSTOM_MODULES, JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Remove an imported PV module record
+ */
+export function removeCustomModule(moduleId: string): PVModuleSpec[] {
+  const updated = getCustomModules().filter((m) => m.id !== moduleId);
+  localStorage.setItem(STORAGE_KEYS.CUSTOM_MODULES, JSON.stringify(updated));
+  return updated;
+}
+
 /**
  * User preferences
  */
@@ -0,0 +1,127 @@
+import * as echarts from "echarts";
+import { WindRose } from "@/types";
+import { getCompassLabel } from "@/lib/models/windRoseModel";
+
+/**
+ * Wind Rose Chart Utilities
+ *
+ * Shared ECharts option for the wind rose, used by the research dashboard
+ * and rendered offscreen to an image for the PDF and DOCX reports
+ */
+
+// Speed class colours, light to dark
+const SPEED_COLORS = [
+  "#bae6fd",
+  "#7dd3fc",
+  "#38bdf8",
+  "#0ea5e9",
+  "#0369a1",
+  "#1e3a8a",
+];
+
+/**
+ * Label of a speed class, e.g. "3-6 m/s" or "≥15 m/s"
+ */
+export function getSpeedBinLabel(rose: WindRose, index: number): string {
+  const lower = rose.speedBins[index];
+  const upper = rose.speedBins[index + 1];
+  return upper === undefined ? `≥${lower} m/s` : `${lower}-${upper} m/s`;
+}
+
+/**
+ * Build the ECharts option for a wind rose (stacked polar bars by speed class)
+ */
+export function buildWindRoseOption(
+  rose: WindRose,
+  title: string
+): echarts.EChartsOption {
+  const sectorWidth = 360 / rose.sectors.length;
+
+  return {
+    title: {
+      text: title,
+      subtext: `${rose.hours} hours at ${
+        rose.height
+      } m, calm ${rose.calmFrequency.toFixed(1)}%`,
+      left: "center",
+    },
+    tooltip: {
+      trigger: "item",
+      formatter: (params) => {
+        const param = Array.isArray(params) ? params[0] : params;
+        const sector = rose.sectors[param.dataIndex];
+        return `${getCompassLabel(sector.direction)} (${
+          sector.direction
+        }°)<br/>${param.seriesName}: ${(param.value as number).toFixed(
+          1
+        )}%<br/>Sector frequency: ${sector.frequency.toFixed(
+          1
+        )}%<br/>Mean speed: ${sector.meanSpeed.toFixed(
+          1
+        )} m/s<br/>Energy: ${sector.energyShare.toFixed(1)}%`;
+      },
+    },
+    legend: {
+      bottom: 0,
+      textStyle: {
+        fontSize: 11,
+      },
+    },
+    polar: {
+      center: ["50%", "52%"],
+      radius: "62%",
+    },
+    angleAxis: {
+      type: "category",
+      data: rose.sectors.map((s) => getCompassLabel(s.direction)),
+      // Centre the first sector on north
+      startAngle: 90 + sectorWidth / 2,
+      boundaryGap: true,
+      axisTick: { show: false },
+    },
+    radiusAxis: {
+      axisLabel: {
+        formatter: "{value}%",
+        fontSize: 10,
+      },
+    },
+    series: rose.speedBins.map((_, bin) => ({
+      name: getSpeedBinLabel(rose, bin),
+      type: "bar" as const,
+      coordinateSystem: "polar" as const,
+      stack: "speed",
+      data: rose.sectors.map((s) => s.speedFrequencies[bin]),
+      itemStyle: { color: SPEED_COLORS[bin % SPEED_COLORS.length] },
+    })),
+  };
+}
+
+/**
+ * Render a wind rose offscreen and return it as a PNG data URL
+ */
+export function renderWindRoseImage(
+  rose: WindRose,
+  title: string,
+  width: number = 600,
+  height: number = 600
+): string {
+  const container = document.createElement("div");
+  container.style.width = `${width}px`;
+  container.style.height = `${height}px`;
+  container.style.position = "absolute";
+  container.style.left = "-10000px";
+  document.body.appendChild(container);
+
+  const chart = echarts.init(container);
+  try {
+    chart.setOption({ ...buildWindRoseOption(rose, title), animation: false });
+    return chart.getDataURL({
+      type: "png",
+      pixelRatio: 2,
+      backgroundColor: "#ffffff",
+    });
+  } finally {
+    chart.dispose();
+    document.body.removeChild(container);
+  }
+}
@@ -1,37 +1,284 @@
 // Asset Types
-export type AssetType = "solar" | "wind";
+export type AssetType = "solar" | "wind" | "hybrid";
 
 // Location Interface
 export interface Location {
   address?: string;
   latitude: number;
   longitude: number;
+  elevation?: number; // m above sea level, used for air density when pressure is missing
 }
 
 // Solar Asset Configuration
+export type MountingType = "fixed" | "single-axis" | "dual-axis";
+
+export interface InverterParameters {
+  acCapacity?: number; // kW AC nameplate (default dcCapacity / 1.2)
+  model?: "pvwatts" | "sandia"; // efficiency curve (default "pvwatts")
+  nominalEfficiency?: number; // percent (default 96)
+  dcInputCapacity?: number; // kW DC at which AC nameplate is reached (Sandia Pdco)
+  selfConsumption?: number; // kW DC needed to start inverting (Sandia Pso)
+  c0?: number; // 1/kW efficiency curve curvature (Sandia C0)
+  nightTare?: number; // kW drawn from the grid when not producing (default 0)
+}
+
+// Equipment library records (CEC / Sandia style parameters)
+export interface PVModuleSpec {
+  id: string;
+  manufacturer: string;
+  model: string;
+  technology?: string; // e.g. "mono-Si", "CdTe"
+  pmp: number; // W maximum power at STC
+  vmp?: number; // V at maximum power
+  imp?: number; // A at maximum power
+  voc?: number; // V open circuit
+  isc?: number; // A short circuit
+  gammaPmp: number; // %/°C Pmp temperature coefficient
+  alphaIsc?: number; // %/°C Isc temperature coefficient
+  betaVoc?: number; // %/°C Voc temperature coefficient
+  noct?: number; // °C
+  bifaciality?: number; // 0-1 rear/front efficiency ratio (0 or missing = monofacial)
+  length: number; // m
+  width: number; // m
+}
+
+export interface InverterSpec {
+  id: string;
+  manufacturer: string;
+  model: string;
+  paco: number; // W AC rated output
+  pdco: number; // W DC input at which rated AC output is reached
+  vdco?: number; // V nominal DC input
+  pso: number; // W DC power needed to start inverting
+  c0: number; // 1/W curvature of the efficiency curve
+  pnt: number; // W night tare
+  mpptLow?: number; // V lower MPPT voltage
+  mpptHigh?: number; // V upper MPPT voltage
+}
+
+export type CellTemperatureModel = "noct" | "sapm" | "faiman" | "pvsyst";
+
+// Module thermal coefficients; only those of the selected model are used
+export interface CellTemperatureParameters {
+  model?: CellTemperatureModel; // default "noct"
+  noct?: number; // °C nominal operating cell temperature (default 45)
+  moduleEfficiency?: number; // 0-1 efficiency at STC, NOCT and PVsyst (default 0.2 / 0.1)
+  absorptance?: number; // 0-1 PVsyst absorption coefficient (default 0.9)
+  sapmA?: number; // SAPM a (default -3.47, open rack glass/glass)
+  sapmB?: number; // SAPM b in s/m (default -0.0594)
+  sapmDeltaT?: number; // SAPM cell-back ΔT in °C (default 3)
+  faimanU0?: number; // Faiman U0 in W/m²K (default 25)
+  faimanU1?: number; // Faiman U1 in W·s/m³K (default 6.84)
+  pvsystUc?: number; // PVsyst Uc in W/m²K (default 29, free-standing)
+  pvsystUv?: number; // PVsyst Uv in W·s/m³K (default 0)
+}
+
+// Itemized PV system losses in percent (PVWatts defaults in parentheses)
+export interface PVLossFactors {
+  soiling?: number; // dust and dirt on the modules (2)
+  shading?: number; // nearby objects and row-to-row shading (3, 0 with a horizon profile or obstacles)
+  snow?: number; // snow cover (0)
+  mismatch?: number; // module-to-module electrical differences (2)
+  wiring?: number; // DC and AC wiring resistance (2)
+  connections?: number; // connector resistance (0.5)
+  lightInducedDegradation?: number; // first-months LID (1.5)
+  nameplateRating?: number; // deviation from datasheet rating (1)
+  availability?: number; // downtime for maintenance and outages, applied to AC (3)
+}
+
+export type SoilingModel = "static" | "kimber";
+
+// Soiling that builds up between rain events (see lib/models/soilingModel.ts)
+export interface SoilingParameters {
+  model?: SoilingModel; // default "static"; "kimber" simulates soiling from the rain
+  rate?: number; // % loss accumulated per dry day (default 0.15)
+  cleaningThreshold?: number; // mm rain within 24 h that washes the modules (default 6)
+  gracePeriod?: number; // days after a wash before soiling resumes (default 14)
+  maxSoiling?: number; // % upper limit (default 30)
+  initialSoiling?: number; // % at the start of the weather series (default static soiling loss)
+}
+
+// Point of a horizon profile, e.g. from a PVGIS or theodolite survey
+export interface HorizonPoint {
+  azimuth: number; // degrees clockwise from north
+  elevation: number; // degrees above the horizontal
+}
+
+// Nearby obstacle that shades the whole array (building, tree line, …)
+export interface ShadingObstacle {
+  azimuth: number; // degrees clockwise from north, bearing from the array to the obstacle
+  distance: number; // m from the array
+  height: number; // m above the array
+  width: number; // m, across the line of sight
+}
+
+export type SnowModel = "static" | "marion";
+
+// Snow cover on the modules (see lib/models/snowModel.ts)
+export interface SnowParameters {
+  model?: SnowModel; // default "static"; "marion" simulates snow cover from the snowfall
+  snowfallThreshold?: number; // cm/h snowfall that fully covers the array (default 1)
+  slidingCoefficient?: number; // fraction of the slant height sliding off per hour at 90° tilt (default 0.197)
+  stringRows?: number; // module rows up the slope, each wired as its own string (default 1)
+}
+
+export type DispatchStrategy =
+  | "clip-capture"
+  | "peak-shaving"
+  | "arbitrage"
+  | "firm-capacity";
+
+// Battery energy storage attached to an asset (see lib/models/batteryModel.ts).
+// Power and energy are in the asset's output units: kW/kWh for solar, MW/MWh for wind and hybrid.
+export interface BatteryStorage {
+  power: number; // charge and discharge limit
+  energy: number; // nameplate energy
+  roundTripEfficiency?: number; // percent AC-to-AC (default 88)
+  minSoc?: number; // percent of the current capacity (default 10)
+  maxSoc?: number; // percent of the current capacity (default 95)
+  initialSoc?: number; // percent at the start of the series (default 50)
+  calendarDegradation?: number; // percent of energy capacity lost per year (default 1)
+  cycleDegradation?: number; // percent of energy capacity lost per 1000 equivalent full cycles (default 4)
+  strategy?: DispatchStrategy; // default "clip-capture"
+  loadProfile?: number[]; // 24 hourly loads by local hour of day, peak shaving
+  peakLimit?: number; // grid import limit of the load, peak shaving
+  prices?: number[]; // 24 hourly energy prices by local hour of day, arbitrage
+  firmCapacity?: number; // delivery target, firm capacity
+}
+
 export interface SolarAsset {
   type: "solar";
-  dcCapacity: number; // in kW
-  systemLosses?: number; // percentage (default 14%)
-  tilt?: number; // panel tilt angle in degrees
-  azimuth?: number; // panel azimuth in degrees (180 = south)
+  dcCapacity: number; // in kW (derived from the module and string counts when moduleId is set)
+  systemLosses?: number; // lumped loss percentage, used only when `losses` is not given
+  losses?: PVLossFactors; // itemized losses (default PVWatts breakdown, 14.08% total)
+  soiling?: SoilingParameters; // weather-driven soiling, replaces losses.soiling
+  snow?: SnowParameters; // weather-driven snow cover, replaces losses.snow
+  tilt?: number; // panel tilt angle in degrees (fixed mounting)
+  azimuth?: number; // panel azimuth in degrees (180 = south, fixed mounting)
+  albedo?: number; // ground reflectance 0-1 (default 0.2)
+  snowAlbedo?: number; // ground reflectance with snow on the ground (default 0.6)
+  horizon?: HorizonPoint[]; // far horizon profile, blocks beam irradiance
+  obstacles?: ShadingObstacle[]; // near-shading obstacles, block beam irradiance
+
+  // Bifacial
+  bifaciality?: number; // 0-1 rear/front efficiency ratio (default from module, else 0)
+  rowSpacing?: number; // m row pitch (default 2 m collector / ground coverage ratio)
+  moduleHeight?: number; // m height of the module centre above ground (default 1.5)
+  inverter?: InverterParameters; // none: DC output is not clipped
+
+  // Equipment (see lib/models/equipmentLibrary.ts)
+  moduleId?: string; // equipment library module
+  module?: PVModuleSpec; // imported module record, used when moduleId is not in the library
+  modulesPerString?: number; // default 1
+  stringsPerInverter?: number; // default 1
+  inverterId?: string; // equipment library inverter
+  inverterCount?: number; // default 1
+
+  temperatureCoefficient?: number; // power coefficient per °C (default -0.004)
+  cellTemperature?: CellTemperatureParameters;
+
+  // Tracking
+  mounting?: MountingType; // default "fixed"
+  axisTilt?: number; // single-axis: axis tilt in degrees (default 0)
+  axisAzimuth?: number; // single-axis: axis azimuth in degrees (default 180, N-S axis)
+  maxRotation?: number; // single-axis: rotation limit in degrees (default 60)
+  backtracking?: boolean; // single-axis: avoid row-to-row shading (default true)
+  groundCoverageRatio?: number; // module width / row pitch for backtracking and bifacial rows (default 0.35)
+
+  battery?: BatteryStorage; // kW / kWh
+}
+
+// Point of a tabulated turbine power curve at standard air density (1.225 kg/m³)
+export interface PowerCurvePoint {
+  windSpeed: number; // m/s at hub height
+  power: number; // kW
+  thrustCoefficient?: number; // Ct 0-1
+}
+
+export interface WindTurbineSpec {
+  id: string;
+  manufacturer: string;
+  model: string;
+  ratedPower: number; // kW
+  rotorDiameter: number; // m
+  hubHeight: number; // m, default hub height
+  cutInSpeed: number; // m/s
+  ratedSpeed: number; // m/s
+  cutOutSpeed: number; // m/s
+  powerCurve: PowerCurvePoint[];
 }
 
 // Wind Asset Configuration
+export type WakeModel = "jensen" | "bastankhah";
+
+export interface TurbinePosition {
+  x: number; // m east of the asset location
+  y: number; // m north of the asset location
+}
+
+export interface GridLayout {
+  rows: number;
+  columns: number;
+  rowSpacing?: number; // rotor diameters between rows (default 7)
+  columnSpacing?: number; // rotor diameters between turbines in a row (default 4)
+  orientation?: number; // degrees from north of the columns (default 0)
+}
+
+export interface WindFarmLayout {
+  turbines?: TurbinePosition[]; // explicit coordinates, take precedence over grid
+  grid?: GridLayout; // generated layout centred on the asset location
+  wakeModel?: WakeModel; // default "jensen"
+  wakeDecay?: number; // wake decay k (default 0.075 Jensen, 0.04 Bastankhah)
+}
+
+export interface HighWindControl {
+  gustLimit?: number; // m/s hub-height gust that stops the turbine (default 1.4 × cut-out)
+  restartSpeed?: number; // m/s mean wind speed below which the turbine may restart (default 0.8 × cut-out)
+  restartDelay?: number; // whole hours below the restart speed before restarting (default 1)
+  turbulenceCorrection?: boolean; // turbulence-adjusted power curve from the gust factor (default true)
+}
+
+export type HighWindStatus = "normal" | "at-risk" | "shutdown";
+
+export type IcingRisk = "none" | "light" | "moderate" | "severe";
+
+// Rotor icing (see lib/models/icingModel.ts)
+export interface IcingParameters {
+  enabled?: boolean; // icing loss in the forecast (default true)
+  bladeHeating?: boolean; // heated blades keep most ice off (default false)
+}
+
 export interface WindAsset {
   type: "wind";
-  ratedCapacity: number; // in MW
+  ratedCapacity: number; // in MW (taken from the turbine when turbineId is set)
   hubHeight: number; // in meters
-  cutInSpeed?: number; // m/s (default 3)
-  ratedSpeed?: number; // m/s (default 12)
-  cutOutSpeed?: number; // m/s (default 25)
+  cutInSpeed?: number; // m/s (default 3), parametric curve only
+  ratedSpeed?: number; // m/s (default 12), parametric curve only
+  cutOutSpeed?: number; // m/s (default 25), parametric curve only
+  turbineId?: string; // turbine library model (see lib/models/turbineLibrary.ts)
+  powerCurve?: PowerCurvePoint[]; // tabulated curve, scaled to ratedCapacity; replaces the parametric curve
+  rotorDiameter?: number; // m
+  farm?: WindFarmLayout; // multi-turbine farm sharing this turbine model; ratedCapacity is then the farm total
+  highWind?: HighWindControl; // high-wind shutdown hysteresis and turbulence
+  icing?: IcingParameters; // rotor icing risk and loss
+  battery?: BatteryStorage; // MW / MWh
+}
+
+// Hybrid plant: solar and wind sharing one point of interconnection (see lib/models/hybridModel.ts)
+export interface HybridAsset {
+  type: "hybrid";
+  solar: SolarAsset;
+  wind: WindAsset;
+  interconnectionLimit: number; // MW export limit at the point of interconnection
+  battery?: BatteryStorage; // MW / MWh, behind the point of interconnection
 }
 
-export type Asset = SolarAsset | WindAsset;
+export type Asset = SolarAsset | WindAsset | HybridAsset;
 
 // Weather Data Interfaces - Enhanced for Atmospheric Science Research
 export interface HourlyWeatherData {
   time: string;
+  utcOffsetSeconds?: number; // offset of `time` from UTC (0 when omitted)
 
   // Temperature & Thermodynamics
   temperature?: number; // °C at 2m
@@ -72,6 +319,7 @@ export interface HourlyWeatherData {
   // Wind (Multi-level)
   windSpeed?: number; // m/s at specified height
   windSpeed10m?: number; // m/s at 10m
+  windSpeed50m?: number; // m/s at 50m
   windSpeed80m?: number; // m/s at 80m
   windSpeed100m?: number; // m/s at 100m
   windSpeed120m?: number; // m/s at 120m
@@ -87,6 +335,15 @@ export interface HourlyWeatherData {
   uvIndex?: number; // UV index
   aerosolOpticalDepth?: number; // AOD at 550nm
 
+  // Solar Geometry (evaluated at the middle of the preceding hour)
+  solarZenith?: number; // degrees, refraction-corrected
+  solarAzimuth?: number; // degrees clockwise from north
+  solarElevation?: number; // degrees above horizon
+  hourAngle?: number; // degrees, negative before solar noon
+  extraterrestrialIrradiance?: number; // W/m² at normal incidence
+  sunrise?: string; // local time of sunrise on this day
+  sunset?: string; // local time of sunset on this day
+
   // Soil & Surface (for land-atmosphere interaction)
   soilTemperature?: number; // °C soil temperature
   soilMoisture?: number; // m³/m³ volumetric
@@ -95,6 +352,36 @@ export interface HourlyWeatherData {
   // Data Quality Flags
   dataQuality?: "excellent" | "good" | "fair" | "poor";
   missingDataFlags?: string[];
+  source?: WeatherProviderId; // provider that served this hour
+}
+
+// Weather Providers
+export type WeatherProviderId = "open-meteo" | "nasa-power" | "fixture";
+
+export type WeatherSources = Partial<Record<WeatherProviderId, number>>; // hours served by each provider
+
+export interface WeatherCacheInfo {
+  hits: number; // weather responses served from the cache
+  misses: number; // weather responses fetched from the provider
+  oldestHit?: string; // ISO time the oldest cached response was stored
+}
+
+export interface WeatherProviderCapabilities {
+  maxForecastHours: number; // 0 when the provider has no forecast
+  historicalStart?: string; // earliest archive date (YYYY-MM-DD), omitted without an archive
+  forecastVariables: (keyof HourlyWeatherData)[];
+  historicalVariables: (keyof HourlyWeatherData)[];
+}
+
+// Solar Position
+export interface SolarPosition {
+  zenith: number; // degrees, refraction-corrected
+  elevation: number; // degrees, refraction-corrected
+  azimuth: number; // degrees clockwise from north
+  hourAngle: number; // degrees, negative before solar noon
+  declination: number; // degrees
+  equationOfTime: number; // minutes
+  extraterrestrialIrradiance: number; // W/m² at normal incidence
 }
 
 export interface WeatherForecast {
@@ -103,10 +390,81 @@ export interface WeatherForecast {
 }
 
 // Power Output Interfaces
+export interface PlaneOfArrayIrradiance {
+  global: number; // W/m² total on the array plane
+  beam: number; // W/m² direct component
+  skyDiffuse: number; // W/m² sky diffuse component
+  groundReflected: number; // W/m² ground-reflected component
+  angleOfIncidence: number; // degrees between sun and array normal
+}
+
 export interface PowerOutput {
   time: string;
   power: number; // in kWh
   capacity?: number; // percentage of rated capacity
+  poa?: PlaneOfArrayIrradiance; // solar only
+  trackerRotation?: number; // degrees, single-axis trackers only
+  dcPower?: number; // kW array DC output, solar only
+  acPower?: number; // kW inverter AC output (negative with night tare), solar only
+  clippedEnergy?: number; // kWh lost to inverter clipping, solar only
+  nominalPower?: number; // kW at plane-of-array irradiance before temperature and losses, solar only
+  cellTemperature?: number; // °C estimated cell temperature, solar only
+  rearIrradiance?: number; // W/m² rear-side irradiance, bifacial solar only
+  frontPower?: number; // kW DC from front-side irradiance, solar only
+  rearPower?: number; // kW DC from rear-side irradiance, bifacial solar only
+  soilingLoss?: number; // 0-1 soiling loss fraction, weather-driven soiling only
+  snowLoss?: number; // 0-1 snow cover loss fraction, weather-driven snow only
+  beamBlocked?: boolean; // sun behind the horizon profile or an obstacle, solar only
+  hubWindSpeed?: number; // m/s at hub height, wind only
+  shearExponent?: number; // power law α fitted from the multi-height winds, wind only
+  airDensity?: number; // kg/m³ at hub height, wind only
+  turbinePower?: number[]; // MW per turbine in layout order, wind farms only
+  wakeLoss?: number; // percent of free-stream farm output lost to wakes, wind farms only
+  hubGust?: number; // m/s gust at hub height, wind only
+  turbulenceIntensity?: number; // σ / mean wind speed at hub height from the gust factor, wind only
+  highWindStatus?: HighWindStatus; // high-wind shutdown state, wind only
+  highWindLoss?: number; // MW lost to high-wind shutdown, wind only
+  icingRisk?: IcingRisk; // meteorological icing at hub height, wind only
+  iceLoad?: number; // 0-1 ice index of the rotor, wind only
+  icingLoss?: number; // MW lost to rotor icing, wind only
+  solarPower?: number; // MW from the solar part before the export limit, hybrid only
+  windPower?: number; // MW from the wind part before the export limit, hybrid only
+  curtailedPower?: number; // MW curtailed by the interconnection limit, hybrid only
+  solar?: PowerOutput; // solar part in kW with its irradiance, thermal and loss details, hybrid only
+  batteryCharge?: number; // charging power in the asset's units, battery only
+  batteryDischarge?: number; // discharging power in the asset's units, battery only
+  batterySoc?: number; // percent of the current capacity at the end of the hour, battery only
+  deliveredPower?: number; // output at the meter after the battery, battery only
+  gridImport?: number; // load drawn from the grid, peak shaving only
+}
+
+export interface BatterySummary {
+  strategy: DispatchStrategy;
+  chargedEnergy: number; // energy into the battery
+  dischargedEnergy: number; // energy out of the battery
+  deliveredEnergy: number; // energy at the meter after the battery
+  capturedEnergy: number; // clipped or curtailed energy stored instead of lost
+  equivalentCycles: number; // discharged energy / nameplate energy
+  capacityFade: number; // percent of nameplate energy lost by the end of the series
+  peakGridImport?: number; // highest grid import of the load, peak shaving only
+  arbitrageRevenue?: number; // price × delivered energy gained over the plant alone, arbitrage only
+  firmHours?: number; // hours meeting the firm capacity target, firm capacity only
+}
+
+export interface HybridComplementarity {
+  correlation?: number; // Pearson r of hourly solar and wind output (undefined without variation)
+  solarVariability: number; // coefficient of variation of hourly solar output
+  windVariability: number; // coefficient of variation of hourly wind output
+  combinedVariability: number; // coefficient of variation of the combined output before the export limit
+}
+
+export interface HybridSummary {
+  solarEnergy: number; // MWh exported from the solar part (curtailment shared pro rata)
+  windEnergy: number; // MWh exported from the wind part (curtailment shared pro rata)
+  curtailedEnergy: number; // MWh curtailed by the interconnection limit
+  curtailmentPercent: number; // percent of the combined energy before the export limit
+  curtailedHours: number; // hours with output curtailed
+  complementarity: HybridComplementarity;
 }
 
 export interface PowerForecast {
@@ -114,6 +472,10 @@ export interface PowerForecast {
   location: Location;
   outputs: PowerOutput[];
   meteorologicalData: HourlyWeatherData[];
+  hybrid?: HybridSummary; // over the forecast period, hybrid only
+  battery?: BatterySummary; // over the forecast period, battery only
+  weatherSources?: WeatherSources;
+  weatherCache?: WeatherCacheInfo;
 }
 
 // Long-term Analysis
@@ -122,6 +484,23 @@ export interface MonthlyAverage {
   monthName: string;
   averageProduction: number; // kWh
   averageCapacityFactor: number; // percentage
+  averageDelivered?: number; // energy at the meter after the battery, battery only
+}
+
+export interface WeibullParameters {
+  k: number; // shape
+  c: number; // scale, m/s
+}
+
+export interface MonthlyWeibull extends WeibullParameters {
+  month: number; // 1-12
+  meanWindSpeed: number; // m/s at hub height
+  hours: number; // hourly samples in the fit
+}
+
+export interface SectorWeibull extends WeibullParameters {
+  direction: number; // sector centre, degrees from north
+  frequency: number; // fraction of hours from this sector
 }
 
 export interface LongTermAnalysis {
@@ -130,6 +509,24 @@ export interface LongTermAnalysis {
   monthlyAverages: MonthlyAverage[];
   annualProduction: number; // kWh/year
   averageCapacityFactor: number; // percentage
+  annualClippingLoss?: number; // kWh/year lost to inverter clipping, solar and hybrid only
+  lossWaterfall?: LossWaterfallStep[]; // kWh of the solar array, solar and hybrid only
+  averageShearExponent?: number; // mean fitted power law α, wind only
+  monthlyWeibull?: MonthlyWeibull[]; // hub-height fits by month, wind only
+  sectorWeibull?: SectorWeibull[]; // hub-height fits by direction sector, wind only
+  annualHighWindShutdownHours?: number; // hours/year stopped by high wind, wind only
+  annualIcingHours?: number; // hours/year with meteorological icing at hub height, wind only
+  hybrid?: HybridSummary; // MWh/year and hours/year, hybrid only
+  battery?: BatterySummary; // per year, except capacity fade at the end of the period, battery only
+  weatherSources?: WeatherSources; // hours of historical weather by provider
+  weatherCache?: WeatherCacheInfo;
+}
+
+export interface LossWaterfallStep {
+  label: string;
+  loss: number; // kWh/year lost at this step (negative for a gain)
+  lossPercent: number; // percent of the energy entering this step
+  energy: number; // kWh/year remaining after this step
 }
 
 // National Map Data
@@ -170,6 +567,18 @@ export interface LongTermAPIResponse {
   error?: APIError;
 }
 
+export interface WindRoseAnalysis {
+  location: Location;
+  forecast?: WindRose; // next 48 hours, absent when the provider has no forecast
+  historical: WindRose; // past years
+}
+
+export interface WindRoseAPIResponse {
+  success: boolean;
+  data?: WindRoseAnalysis;
+  error?: APIError;
+}
+
 export interface NationalMapAPIResponse {
   success: boolean;
   data?: NationalEnergyMap;
@@ -236,6 +645,30 @@ export interface DataQualityReport {
   }>;
 }
 
+export type WindRoseSectorCount = 12 | 16;
+
+export interface WindRoseSector {
+  direction: number; // sector centre, degrees from north
+  frequency: number; // percent of all hours
+  meanSpeed: number; // m/s
+  energy: number; // in the rose's energyUnit
+  energyShare: number; // percent of total energy
+  speedFrequencies: number[]; // percent of all hours in each speed bin
+}
+
+export interface WindRose {
+  sectors: WindRoseSector[];
+  speedBins: number[]; // lower edges of the speed bins, m/s
+  height: number; // m above ground of the analysed wind speed
+  hours: number; // hours with wind speed and direction
+  calmFrequency: number; // percent of hours below the calm threshold
+  energyUnit: "MWh" | "kWh/m²"; // turbine output, or wind energy per rotor area without an asset
+  timeRange: {
+    start: string;
+    end: string;
+  };
+}
+
 export interface AtmosphericResearchData {
   location: Location;
   timeRange: {
@@ -248,6 +681,7 @@ export interface AtmosphericResearchData {
   trends?: TrendAnalysis[];
   anomalies?: AnomalyDetection[];
   dataQuality: DataQualityReport;
+  windRose?: WindRose;
 }
 
 // Batch Analysis Types